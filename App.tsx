@@ -7,6 +7,8 @@ const HomePage = lazy(() => import('./components/HomePage'));
 const AdminPortal = lazy(() => import('./components/AdminPortal'));
 const PaymentHandler = lazy(() => import('./components/PaymentHandler'));
 const UserDashboard = lazy(() => import('./components/UserDashboard'));
+// The test gateway's checkout page only exists in development builds.
+const MockGatewayPage = import.meta.env.DEV ? lazy(() => import('./components/MockGatewayPage')) : null;
 
 // Helper to determine the current view from the hash
 const getCurrentView = () => {
@@ -20,6 +22,9 @@ const getCurrentView = () => {
     if (hash.startsWith('#/dashboard')) {
         return 'dashboard';
     }
+    if (MockGatewayPage && hash.startsWith('#/mock-gateway')) {
+        return 'mock-gateway';
+    }
     return 'home';
 };
 
@@ -88,6 +93,14 @@ const App: React.FC = () => {
         )
     }
 
+    if (view === 'mock-gateway' && MockGatewayPage) {
+        return (
+             <Suspense fallback={<div className="admin-loader">Loading Test Gateway...</div>}>
+                <MockGatewayPage />
+            </Suspense>
+        )
+    }
+
     if (view === 'dashboard' && user) {
         return (
              <Suspense fallback={<div className="admin-loader">Loading Dashboard...</div>}>
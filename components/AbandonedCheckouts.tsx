@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import { useToast } from '../contexts/ToastContext';
+import { fetchAbandonedCheckouts, setAbandonedCheckoutFollowedUp } from '../lib/adminService';
+import type { AbandonedCheckout } from '../types';
+
+// Bookings whose checkout expired before payment, so admins can contact the customer and mark them followed up.
+const AbandonedCheckouts: React.FC = () => {
+  const [checkouts, setCheckouts] = useState<AbandonedCheckout[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showFollowedUp, setShowFollowedUp] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const loadCheckouts = useCallback(async () => {
+    const { checkouts: data, error: fetchError } = await fetchAbandonedCheckouts();
+    setCheckouts(data);
+    setError(fetchError);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadCheckouts();
+  }, [loadCheckouts]);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-IN', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const handleToggleFollowedUp = async (checkout: AbandonedCheckout) => {
+    setUpdatingId(checkout.booking_id);
+    const { error: updateError } = await setAbandonedCheckoutFollowedUp(checkout.booking_id, !checkout.followed_up_at);
+    if (updateError) {
+      addToast(`Failed to update: ${updateError}`, 'error');
+    } else {
+      await loadCheckouts();
+    }
+    setUpdatingId(null);
+  };
+
+  const visibleCheckouts = showFollowedUp ? checkouts : checkouts.filter(c => !c.followed_up_at);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <p className="text-center text-gray-600 p-8">Loading abandoned checkouts...</p>;
+    }
+    if (error) {
+      return <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">{error}</div>;
+    }
+    if (visibleCheckouts.length === 0) {
+      return <p className="text-center text-gray-600 p-8">No abandoned checkouts to follow up on.</p>;
+    }
+    return (
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Car & Period</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Abandoned</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Follow-up</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {visibleCheckouts.map(checkout => (
+            <tr key={checkout.booking_id}>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <div className="text-sm font-medium text-gray-900">{checkout.customer_name || 'N/A'}</div>
+                {checkout.customer_email && (
+                  <a href={`mailto:${checkout.customer_email}`} className="block text-sm text-primary hover:underline">{checkout.customer_email}</a>
+                )}
+                {checkout.customer_phone && (
+                  <a href={`tel:${checkout.customer_phone}`} className="block text-sm text-primary hover:underline">{checkout.customer_phone}</a>
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                <div className="text-gray-800 font-semibold">{checkout.car_title || 'N/A'}</div>
+                <div>From: {formatDate(checkout.start_datetime)}</div>
+                <div>To: {formatDate(checkout.end_datetime)}</div>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                <div>{formatDate(checkout.abandoned_at)}</div>
+                <div className="text-xs">Started {formatDate(checkout.created_at)}</div>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                <span className="font-semibold text-gray-900">₹{checkout.total_amount.toLocaleString()}</span>
+                {checkout.promo_code && <div className="text-xs text-green-600">Promo {checkout.promo_code}</div>}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                {checkout.followed_up_at && (
+                  <div className="text-xs text-gray-500 mb-1">Followed up {formatDate(checkout.followed_up_at)}</div>
+                )}
+                <button
+                  onClick={() => handleToggleFollowedUp(checkout)}
+                  disabled={updatingId === checkout.booking_id}
+                  className="text-primary hover:text-primary-hover font-medium disabled:opacity-50"
+                >
+                  {updatingId === checkout.booking_id ? 'Saving...' : checkout.followed_up_at ? 'Undo' : 'Mark followed up'}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <AdminPageLayout
+      title="Abandoned Checkouts"
+      subtitle="Bookings that expired because the customer did not complete payment."
+      headerAction={
+        <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showFollowedUp} onChange={e => setShowFollowedUp(e.target.checked)} />
+          Show followed up
+        </label>
+      }
+    >
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+        {renderContent()}
+      </div>
+    </AdminPageLayout>
+  );
+};
+
+export default AbandonedCheckouts;
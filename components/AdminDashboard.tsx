@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import AdminCard from './AdminCard';
-import { CarManagementIcon, BookingManagementIcon, LicenseVerificationIcon, PromoCodeIcon, UserManagementIcon } from '../constants';
+import { CarManagementIcon, BookingManagementIcon, LicenseVerificationIcon, PromoCodeIcon, PricingIcon, InvoiceIcon, UserManagementIcon, AbandonedCheckoutIcon, ReconciliationIcon, JobsIcon, CalendarIcon, BranchIcon, DeliveryIcon, DepositIcon } from '../constants';
 import { fetchDashboardStats } from '../lib/adminService';
 import type { DashboardStats } from '../lib/adminService';
 import DatabaseSetup from './DatabaseSetup';
@@ -45,6 +45,21 @@ const AdminDashboard: React.FC = () => {
                         description="View and manage customer bookings and cancellations."
                         status={<span className="text-gray-500">Loading...</span>}
                     />
+                    <AdminCard
+                        icon={<div className="bg-cyan-100 p-3 rounded-lg"><CalendarIcon className="w-6 h-6 text-cyan-600" /></div>}
+                        title="Fleet Calendar"
+                        description="See every car's bookings, buffers and maintenance on a timeline."
+                    />
+                    <AdminCard
+                        icon={<div className="bg-lime-100 p-3 rounded-lg"><BranchIcon className="w-6 h-6 text-lime-600" /></div>}
+                        title="Branches"
+                        description="Manage pickup and return locations, their opening hours and timezones."
+                    />
+                    <AdminCard
+                        icon={<div className="bg-amber-100 p-3 rounded-lg"><DeliveryIcon className="w-6 h-6 text-amber-600" /></div>}
+                        title="Delivery Run Sheet"
+                        description="The day's doorstep deliveries and collections, ready to print for drivers."
+                    />
                     <AdminCard
                         icon={<div className="bg-blue-100 p-3 rounded-lg"><UserManagementIcon className="w-6 h-6 text-blue-600" /></div>}
                         title="User Management"
@@ -61,6 +76,38 @@ const AdminDashboard: React.FC = () => {
                         title="Promo Codes"
                         description="Create and manage promotional codes and discounts for customers."
                     />
+                    <AdminCard
+                        icon={<div className="bg-yellow-100 p-3 rounded-lg"><PricingIcon className="w-6 h-6 text-yellow-600" /></div>}
+                        title="Pricing"
+                        description="Configure service charge, advance and rules for weekends, seasons and long rentals."
+                    />
+                    <AdminCard
+                        icon={<div className="bg-teal-100 p-3 rounded-lg"><InvoiceIcon className="w-6 h-6 text-teal-600" /></div>}
+                        title="GST & Invoicing"
+                        description="Set GST rates by state, SAC codes and invoice numbering for tax invoices."
+                    />
+                    <AdminCard
+                        icon={<div className="bg-orange-100 p-3 rounded-lg"><AbandonedCheckoutIcon className="w-6 h-6 text-orange-600" /></div>}
+                        title="Abandoned Checkouts"
+                        description="Follow up with customers whose bookings expired before payment."
+                        status={<span className="text-gray-500">Loading...</span>}
+                    />
+                    <AdminCard
+                        icon={<div className="bg-amber-100 p-3 rounded-lg"><DepositIcon className="w-6 h-6 text-amber-600" /></div>}
+                        title="Security Deposits"
+                        description="Deduct damage, fines and unpaid charges from returned bookings' deposits and refund the rest."
+                        status={<span className="text-gray-500">Loading...</span>}
+                    />
+                    <AdminCard
+                        icon={<div className="bg-indigo-100 p-3 rounded-lg"><ReconciliationIcon className="w-6 h-6 text-indigo-600" /></div>}
+                        title="Payment Reconciliation"
+                        description="Enable payment gateways, match their settlement files against payments and export the discrepancies."
+                    />
+                    <AdminCard
+                        icon={<div className="bg-slate-100 p-3 rounded-lg"><JobsIcon className="w-6 h-6 text-slate-600" /></div>}
+                        title="Scheduled Jobs"
+                        description="Monitor background jobs, pause them or run them on demand."
+                    />
                 </main>
             );
         }
@@ -94,6 +141,24 @@ const AdminDashboard: React.FC = () => {
                     description="View and manage customer bookings and cancellations."
                     status={renderStat(stats?.active_bookings, 'active bookings', 'text-orange-600')}
                 />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/calendar'}
+                    icon={<div className="bg-cyan-100 p-3 rounded-lg"><CalendarIcon className="w-6 h-6 text-cyan-600" /></div>}
+                    title="Fleet Calendar"
+                    description="See every car's bookings, buffers and maintenance on a timeline."
+                />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/branches'}
+                    icon={<div className="bg-lime-100 p-3 rounded-lg"><BranchIcon className="w-6 h-6 text-lime-600" /></div>}
+                    title="Branches"
+                    description="Manage pickup and return locations, their opening hours and timezones."
+                />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/deliveries'}
+                    icon={<div className="bg-amber-100 p-3 rounded-lg"><DeliveryIcon className="w-6 h-6 text-amber-600" /></div>}
+                    title="Delivery Run Sheet"
+                    description="The day's doorstep deliveries and collections, ready to print for drivers."
+                />
                 <AdminCard
                     onClick={() => window.location.hash = '#/admin/users'}
                     icon={<div className="bg-blue-100 p-3 rounded-lg"><UserManagementIcon className="w-6 h-6 text-blue-600" /></div>}
@@ -113,6 +178,44 @@ const AdminDashboard: React.FC = () => {
                     title="Promo Codes"
                     description="Create and manage promotional codes and discounts for customers."
                 />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/pricing'}
+                    icon={<div className="bg-yellow-100 p-3 rounded-lg"><PricingIcon className="w-6 h-6 text-yellow-600" /></div>}
+                    title="Pricing"
+                    description="Configure service charge, advance and rules for weekends, seasons and long rentals."
+                />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/tax'}
+                    icon={<div className="bg-teal-100 p-3 rounded-lg"><InvoiceIcon className="w-6 h-6 text-teal-600" /></div>}
+                    title="GST & Invoicing"
+                    description="Set GST rates by state, SAC codes and invoice numbering for tax invoices."
+                />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/abandoned'}
+                    icon={<div className="bg-orange-100 p-3 rounded-lg"><AbandonedCheckoutIcon className="w-6 h-6 text-orange-600" /></div>}
+                    title="Abandoned Checkouts"
+                    description="Follow up with customers whose bookings expired before payment."
+                    status={renderStat(stats?.abandoned_checkouts, 'awaiting follow-up', 'text-orange-600')}
+                />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/deposits'}
+                    icon={<div className="bg-amber-100 p-3 rounded-lg"><DepositIcon className="w-6 h-6 text-amber-600" /></div>}
+                    title="Security Deposits"
+                    description="Deduct damage, fines and unpaid charges from returned bookings' deposits and refund the rest."
+                    status={renderStat(stats?.deposits_to_settle, 'to settle', 'text-amber-600')}
+                />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/reconciliation'}
+                    icon={<div className="bg-indigo-100 p-3 rounded-lg"><ReconciliationIcon className="w-6 h-6 text-indigo-600" /></div>}
+                    title="Payment Reconciliation"
+                    description="Enable payment gateways, match their settlement files against payments and export the discrepancies."
+                />
+                <AdminCard
+                    onClick={() => window.location.hash = '#/admin/jobs'}
+                    icon={<div className="bg-slate-100 p-3 rounded-lg"><JobsIcon className="w-6 h-6 text-slate-600" /></div>}
+                    title="Scheduled Jobs"
+                    description="Monitor background jobs, pause them or run them on demand."
+                />
             </main>
         );
     };
@@ -7,14 +7,32 @@ const BookingManagement = lazy(() => import('./BookingManagement'));
 const UserManagement = lazy(() => import('./UserManagement'));
 const LicenseVerification = lazy(() => import('./LicenseVerification'));
 const PromoCodeManagement = lazy(() => import('./PromoCodeManagement'));
+const PricingManagement = lazy(() => import('./PricingManagement'));
+const TaxManagement = lazy(() => import('./TaxManagement'));
+const AbandonedCheckouts = lazy(() => import('./AbandonedCheckouts'));
+const PaymentReconciliation = lazy(() => import('./PaymentReconciliation'));
+const ScheduledJobs = lazy(() => import('./ScheduledJobs'));
+const FleetCalendar = lazy(() => import('./FleetCalendar'));
+const BranchManagement = lazy(() => import('./BranchManagement'));
+const DeliveryRunSheet = lazy(() => import('./DeliveryRunSheet'));
+const DepositSettlements = lazy(() => import('./DepositSettlements'));
 
 const getCurrentAdminView = () => {
-    const hash = window.location.hash;
+    const hash = window.location.hash.split('?')[0]; // Views may take parameters, e.g. #/admin/bookings?search=...
     if (hash === '#/admin/cars') return 'cars';
     if (hash === '#/admin/bookings') return 'bookings';
     if (hash === '#/admin/users') return 'users';
     if (hash === '#/admin/licenses') return 'licenses';
     if (hash === '#/admin/promos') return 'promos';
+    if (hash === '#/admin/pricing') return 'pricing';
+    if (hash === '#/admin/tax') return 'tax';
+    if (hash === '#/admin/abandoned') return 'abandoned';
+    if (hash === '#/admin/reconciliation') return 'reconciliation';
+    if (hash === '#/admin/jobs') return 'jobs';
+    if (hash === '#/admin/calendar') return 'calendar';
+    if (hash === '#/admin/branches') return 'branches';
+    if (hash === '#/admin/deliveries') return 'deliveries';
+    if (hash === '#/admin/deposits') return 'deposits';
     return 'dashboard'; // Default admin route
 };
 
@@ -42,6 +60,24 @@ const AdminPortal: React.FC = () => {
                 return <LicenseVerification />;
             case 'promos':
                 return <PromoCodeManagement />;
+            case 'pricing':
+                return <PricingManagement />;
+            case 'tax':
+                return <TaxManagement />;
+            case 'abandoned':
+                return <AbandonedCheckouts />;
+            case 'reconciliation':
+                return <PaymentReconciliation />;
+            case 'jobs':
+                return <ScheduledJobs />;
+            case 'calendar':
+                return <FleetCalendar />;
+            case 'branches':
+                return <BranchManagement />;
+            case 'deliveries':
+                return <DeliveryRunSheet />;
+            case 'deposits':
+                return <DepositSettlements />;
             default:
                  window.location.hash = '#/admin'; // Redirect to default admin dashboard
                  return null;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { addBookingNote, adminCancelBooking, confirmBooking, markBookingPickedUp, markBookingReturned } from '../lib/adminService';
+import type { BookingDetail } from '../types';
+
+export type BookingAction = 'confirm' | 'cancel' | 'pick_up' | 'return' | 'note';
+
+interface BookingActionModalProps {
+  action: BookingAction;
+  booking: BookingDetail;
+  onClose: () => void;
+  onDone: () => void;
+}
+
+const ACTIONS: Record<BookingAction, { title: string; description: string; submitLabel: string; noteLabel: string; noteRequired: boolean }> = {
+  confirm: {
+    title: 'Confirm Booking',
+    description: 'Confirm this booking as paid outside the payment gateway, e.g. at the counter. Pending online payments are cancelled.',
+    submitLabel: 'Confirm',
+    noteLabel: 'Note (optional)',
+    noteRequired: false,
+  },
+  cancel: {
+    title: 'Cancel Booking',
+    description: 'Cancel this booking and refund part or all of what the customer paid. The refund is issued through the usual refund process.',
+    submitLabel: 'Cancel Booking',
+    noteLabel: 'Reason, shown to the customer',
+    noteRequired: true,
+  },
+  pick_up: {
+    title: 'Mark Picked Up',
+    description: 'Record that the customer has collected the car. The booking can no longer be modified.',
+    submitLabel: 'Mark Picked Up',
+    noteLabel: 'Note (optional)',
+    noteRequired: false,
+  },
+  return: {
+    title: 'Mark Returned',
+    description: 'Record that the car has been returned. The booking is completed and the car is free for the rest of its period.',
+    submitLabel: 'Mark Returned',
+    noteLabel: 'Note (optional)',
+    noteRequired: false,
+  },
+  note: {
+    title: 'Add Note',
+    description: 'Internal notes are visible to admins only and appear in the booking timeline.',
+    submitLabel: 'Add Note',
+    noteLabel: 'Note',
+    noteRequired: true,
+  },
+};
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Runs one of the operations console's row actions. Each one is an audited server function; see BOOKING OPERATIONS.
+const BookingActionModal: React.FC<BookingActionModalProps> = ({ action, booking, onClose, onDone }) => {
+  const [note, setNote] = useState('');
+  const [refundPercent, setRefundPercent] = useState('100');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { addToast } = useToast();
+  const config = ACTIONS[action];
+  const paid = booking.amount_paid || 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const percent = parseFloat(refundPercent);
+    if (action === 'cancel' && (isNaN(percent) || percent < 0 || percent > 100)) {
+      addToast('Enter a refund percent between 0 and 100.', 'error');
+      return;
+    }
+
+    setIsSubmitting(true);
+    let error: string | null;
+    let message = `${config.title}: done.`;
+    switch (action) {
+      case 'confirm':
+        ({ error } = await confirmBooking(booking.id, note));
+        break;
+      case 'cancel': {
+        const result = await adminCancelBooking(booking.id, percent, note);
+        error = result.error;
+        if (result.refundAmount) message = `Booking cancelled. A refund of ₹${formatAmount(result.refundAmount)} has been scheduled.`;
+        break;
+      }
+      case 'pick_up':
+        ({ error } = await markBookingPickedUp(booking.id, note));
+        break;
+      case 'return':
+        ({ error } = await markBookingReturned(booking.id, note));
+        break;
+      default:
+        ({ error } = await addBookingNote(booking.id, note));
+    }
+    setIsSubmitting(false);
+
+    if (error) {
+      addToast(`${config.title} failed: ${error}`, 'error');
+      return;
+    }
+    addToast(message, 'success');
+    onDone();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-md mx-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">{config.title}</h2>
+            <p className="text-sm text-gray-500">#{booking.id.split('-')[0].toUpperCase()} · {booking.customer_name || 'N/A'}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">{config.description}</p>
+          {action === 'cancel' && (
+            <div>
+              <label htmlFor="refundPercent" className="block text-sm font-medium text-gray-700 mb-1">Refund (%)</label>
+              <input
+                id="refundPercent"
+                type="number"
+                value={refundPercent}
+                onChange={e => setRefundPercent(e.target.value)}
+                min="0"
+                max="100"
+                step="1"
+                required
+                className="w-full p-2 border rounded-md"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Paid so far ₹{formatAmount(paid)}, so about ₹{formatAmount((paid * (parseFloat(refundPercent) || 0)) / 100)} back, less anything already refunded.
+              </p>
+            </div>
+          )}
+          <div>
+            <label htmlFor="actionNote" className="block text-sm font-medium text-gray-700 mb-1">{config.noteLabel}</label>
+            <textarea
+              id="actionNote"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              required={config.noteRequired}
+              className="w-full p-2 border rounded-md"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 font-semibold hover:bg-gray-300 transition">
+              Close
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`px-4 py-2 rounded-lg text-white font-semibold transition disabled:opacity-50 ${action === 'cancel' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary hover:bg-primary-hover'}`}
+            >
+              {isSubmitting ? 'Saving...' : config.submitLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BookingActionModal;
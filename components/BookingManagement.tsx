@@ -1,24 +1,93 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import AdminPageLayout from './AdminPageLayout';
-import { fetchAllBookings } from '../lib/adminService';
-import type { BookingDetail } from '../types';
+import InvoiceDownloads from './common/InvoiceDownloads';
+import RefundStatusBadge from './common/RefundStatusBadge';
+import BookingStatusHistory from './common/BookingStatusHistory';
+import BookingModificationHistory from './common/BookingModificationHistory';
+import RefundModal from './RefundModal';
+import BookingActionModal from './BookingActionModal';
+import type { BookingAction } from './BookingActionModal';
+import BookingTimelineModal from './BookingTimelineModal';
+import InspectionModal from './InspectionModal';
+import { searchBookings } from '../lib/adminService';
+import { fetchCarsFromDB } from '../lib/carService';
+import {
+  BOOKING_STATUS_LABELS,
+  canAdminCancel,
+  canAdminConfirm,
+  canInspect,
+  canMarkPickedUp,
+  canMarkReturned,
+  canRefund,
+  hasInvoices,
+} from '../lib/bookingLifecycle';
+import type { BookingDetail, BookingSearchFilters, BookingStatus, Car } from '../types';
 
+const PAGE_SIZE = 20;
+
+// The search the page was opened with, e.g. #/admin/bookings?search=<booking id> from the fleet calendar.
+const initialSearch = () => new URLSearchParams(window.location.hash.split('?')[1] || '').get('search') || '';
+
+// The operations console: all bookings, filtered and paged on the server, with the actions staff take on them.
 const BookingManagement: React.FC = () => {
   const [bookings, setBookings] = useState<BookingDetail[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<BookingSearchFilters>(() => ({ search: initialSearch() }));
+  const [searchInput, setSearchInput] = useState(initialSearch);
+  const [customerLabel, setCustomerLabel] = useState<string | null>(null);
+  const [cars, setCars] = useState<Car[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [refundBooking, setRefundBooking] = useState<BookingDetail | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ action: BookingAction; booking: BookingDetail } | null>(null);
+  const [timelineBooking, setTimelineBooking] = useState<BookingDetail | null>(null);
+  const [inspectionBooking, setInspectionBooking] = useState<BookingDetail | null>(null);
+
+  const loadBookings = useCallback(async () => {
+    const { bookings: fetchedBookings, total: fetchedTotal, error: fetchError } = await searchBookings(filters, page, PAGE_SIZE);
+    setBookings(fetchedBookings);
+    setTotal(fetchedTotal);
+    setError(fetchError);
+  }, [filters, page]);
 
   useEffect(() => {
-    const loadBookings = async () => {
+    const load = async () => {
       setIsLoading(true);
-      const { bookings: fetchedBookings, error: fetchError } = await fetchAllBookings();
-      setBookings(fetchedBookings);
-      setError(fetchError);
+      await loadBookings();
       setIsLoading(false);
     };
-    loadBookings();
+    load();
+  }, [loadBookings]);
+
+  useEffect(() => {
+    fetchCarsFromDB({ adminView: true, limit: 200 }).then(({ cars: fleet }) => setCars(fleet));
   }, []);
 
+  // Search as the admin types, once they pause.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.search || '') === searchInput.trim() ? prev : { ...prev, search: searchInput.trim() });
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const updateFilter = (updates: Partial<BookingSearchFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }));
+    setPage(1);
+  };
+
+  const filterByCustomer = (booking: BookingDetail) => {
+    setCustomerLabel(booking.customer_name || booking.customer_email || 'Customer');
+    updateFilter({ userId: booking.user_id });
+  };
+
+  const clearCustomer = () => {
+    setCustomerLabel(null);
+    updateFilter({ userId: undefined });
+  };
+
   const formatDate = (dateString: string) => {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleString('en-IN', {
@@ -66,7 +135,7 @@ const BookingManagement: React.FC = () => {
       );
     }
     if (bookings.length === 0) {
-      return <p className="text-center text-gray-600 p-8">No bookings found.</p>;
+      return <p className="text-center text-gray-600 p-8">No bookings match these filters.</p>;
     }
     return (
       <table className="min-w-full divide-y divide-gray-200">
@@ -82,19 +151,38 @@ const BookingManagement: React.FC = () => {
           {bookings.map((booking) => (
             <tr key={booking.id}>
               <td className="px-6 py-4 whitespace-nowrap">
-                <div className="text-sm font-medium text-gray-900">{booking.customer_name || 'N/A'}</div>
+                <button onClick={() => filterByCustomer(booking)} className="text-sm font-medium text-gray-900 hover:text-primary" title="Show this customer's bookings">
+                    {booking.customer_name || 'N/A'}
+                </button>
                 <div className="text-sm text-gray-500">{booking.customer_phone || 'N/A'}</div>
-                 <div className="text-sm text-gray-800 font-semibold mt-1">{booking.car_title || 'N/A'}</div>
+                {booking.customer_email && <div className="text-sm text-gray-500">{booking.customer_email}</div>}
+                <div className="text-sm text-gray-800 font-semibold mt-1">{booking.car_title || 'N/A'}</div>
+                <div className="text-xs text-gray-400 font-mono">#{booking.id.split('-')[0].toUpperCase()}</div>
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                <div>From: {formatDate(booking.start_datetime)}</div>
-                <div>To: {formatDate(booking.end_datetime)}</div>
+                <div>From: {formatDate(booking.start_datetime)}{booking.pickup_branch_name && <> · {booking.pickup_branch_name}</>}</div>
+                <div>
+                  To: {formatDate(booking.end_datetime)}{booking.return_branch_name && <> · {booking.return_branch_name}</>}
+                  {booking.return_branch_name && booking.return_branch_name !== booking.pickup_branch_name && (
+                    <span className="ml-1 text-xs text-indigo-700 font-semibold">One-way</span>
+                  )}
+                </div>
+                {booking.delivery_address && <div className="text-xs text-gray-700 whitespace-normal">Deliver to: {booking.delivery_address}</div>}
+                {booking.collection_address && <div className="text-xs text-gray-700 whitespace-normal">Collect from: {booking.collection_address}</div>}
                 {booking.status === 'hold' && booking.hold_expires_at && (
                     <div className="text-xs text-red-600">Hold Expires: {formatDate(booking.hold_expires_at)}</div>
                 )}
+                {booking.picked_up_at && <div className="text-xs text-gray-700">Picked up: {formatDate(booking.picked_up_at)}</div>}
+                {booking.returned_at && <div className="text-xs text-gray-700">Returned: {formatDate(booking.returned_at)}</div>}
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
                 {getStatusBadge(booking.status)}
+                {booking.cancelled_at && (
+                    <div className="mt-1 text-xs text-gray-500 whitespace-normal max-w-xs">
+                        Cancelled {formatDate(booking.cancelled_at)}
+                        {booking.cancellation_reason && <>: {booking.cancellation_reason}</>}
+                    </div>
+                )}
                 {booking.booking_extensions && booking.booking_extensions.length > 0 && (
                     <div className="mt-2 text-xs text-gray-500 space-y-1">
                         <p className="font-semibold">Extensions:</p>
@@ -106,6 +194,28 @@ const BookingManagement: React.FC = () => {
                         ))}
                     </div>
                 )}
+                {booking.charges && booking.charges.length > 0 && (
+                    <div className="mt-2 text-xs text-gray-500 space-y-1">
+                        <p className="font-semibold">Charges:</p>
+                        {booking.charges.map(c => (
+                            <div key={c.id} className="flex items-center gap-2">
+                                <span>₹{c.amount.toLocaleString()}</span>
+                                <span className="capitalize">{c.status}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {booking.refunds && booking.refunds.length > 0 && (
+                    <div className="mt-2 text-xs text-gray-500 space-y-1">
+                        <p className="font-semibold">Refunds:</p>
+                        {booking.refunds.map(refund => (
+                            <div key={refund.id} className="flex items-center gap-2">
+                                <span>₹{refund.amount.toLocaleString()}</span>
+                                <RefundStatusBadge status={refund.status} />
+                            </div>
+                        ))}
+                    </div>
+                )}
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
                 <span className="font-semibold text-gray-900">₹{booking.total_amount.toLocaleString()}</span>
@@ -114,6 +224,56 @@ const BookingManagement: React.FC = () => {
                         (Discount: ₹{booking.discount_amount.toLocaleString()})
                     </div>
                 )}
+                {booking.cancelled_at && (
+                    <div className="text-xs text-red-600">
+                        (Refund: ₹{Number(booking.refund_amount || 0).toLocaleString()})
+                    </div>
+                )}
+                <div className="mt-2 flex flex-wrap justify-end gap-2">
+                    {canAdminConfirm(booking) && (
+                        <button onClick={() => setPendingAction({ action: 'confirm', booking })} className="px-3 py-1 text-sm bg-green-50 text-green-700 rounded hover:bg-green-100 transition">
+                            Confirm
+                        </button>
+                    )}
+                    {canInspect(booking) && (
+                        <button onClick={() => setInspectionBooking(booking)} className="px-3 py-1 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100 transition">
+                            Inspection{booking.inspections?.length ? ` (${booking.inspections.length})` : ''}
+                        </button>
+                    )}
+                    {canMarkPickedUp(booking) && (
+                        <button onClick={() => setPendingAction({ action: 'pick_up', booking })} className="px-3 py-1 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100 transition">
+                            Picked Up
+                        </button>
+                    )}
+                    {canMarkReturned(booking) && (
+                        <button onClick={() => setPendingAction({ action: 'return', booking })} className="px-3 py-1 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100 transition">
+                            Returned
+                        </button>
+                    )}
+                    {canAdminCancel(booking) && (
+                        <button onClick={() => setPendingAction({ action: 'cancel', booking })} className="px-3 py-1 text-sm bg-red-50 text-red-700 rounded hover:bg-red-100 transition">
+                            Cancel
+                        </button>
+                    )}
+                    <button onClick={() => setPendingAction({ action: 'note', booking })} className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition">
+                        Note{booking.note_count ? ` (${booking.note_count})` : ''}
+                    </button>
+                    <button onClick={() => setTimelineBooking(booking)} className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition">
+                        Timeline
+                    </button>
+                </div>
+                <div className="mt-2 flex justify-end items-start gap-2">
+                    {canRefund(booking) && (
+                        <button onClick={() => setRefundBooking(booking)} className="px-3 py-1 text-sm bg-red-50 text-red-700 rounded hover:bg-red-100 transition">
+                            Refunds
+                        </button>
+                    )}
+                    {hasInvoices(booking) && (
+                        <InvoiceDownloads bookingId={booking.id} />
+                    )}
+                    {(booking.version || 1) > 1 && <BookingModificationHistory bookingId={booking.id} />}
+                    <BookingStatusHistory bookingId={booking.id} />
+                </div>
               </td>
             </tr>
           ))}
@@ -122,16 +282,110 @@ const BookingManagement: React.FC = () => {
     );
   };
 
+  const renderFilters = () => (
+    <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="md:col-span-2">
+          <label htmlFor="bookingSearch" className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+          <input
+            id="bookingSearch"
+            type="search"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            placeholder="Reference, customer name, email, phone or car"
+            className="w-full p-2 border rounded-md"
+          />
+        </div>
+        <div>
+          <label htmlFor="statusFilter" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+          <select id="statusFilter" value={filters.status || ''} onChange={e => updateFilter({ status: e.target.value as BookingStatus | '' })} className="w-full p-2 border rounded-md bg-white">
+            <option value="">All statuses</option>
+            {Object.entries(BOOKING_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="carFilter" className="block text-sm font-medium text-gray-700 mb-1">Car</label>
+          <select id="carFilter" value={filters.carId || ''} onChange={e => updateFilter({ carId: e.target.value })} className="w-full p-2 border rounded-md bg-white">
+            <option value="">All cars</option>
+            {cars.map(car => <option key={car.id} value={car.id}>{car.title}</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="fromFilter" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input id="fromFilter" type="date" value={filters.from || ''} onChange={e => updateFilter({ from: e.target.value })} className="w-full p-2 border rounded-md" />
+          </div>
+          <div>
+            <label htmlFor="toFilter" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input id="toFilter" type="date" value={filters.to || ''} onChange={e => updateFilter({ to: e.target.value })} className="w-full p-2 border rounded-md" />
+          </div>
+        </div>
+      </div>
+      {customerLabel && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="px-3 py-1 rounded-full bg-primary text-white">Customer: {customerLabel}</span>
+          <button onClick={clearCustomer} className="text-primary hover:text-primary-hover font-medium">Show all customers</button>
+        </div>
+      )}
+    </div>
+  );
+
+  const lastPage = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
   return (
     <AdminPageLayout
       title="Booking Management"
-      subtitle="View and manage all customer bookings."
+      subtitle="Find bookings and confirm, cancel, inspect, hand over and take back cars. Every action is recorded in the booking's timeline."
+      headerAction={
+        <button onClick={loadBookings} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 font-semibold hover:bg-gray-300 transition">
+          Refresh
+        </button>
+      }
     >
-      <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
-        <div className="overflow-x-auto">
-          {renderContent()}
+      <div className="space-y-6">
+        {renderFilters()}
+        <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
+          <div className="overflow-x-auto">
+            {renderContent()}
+          </div>
+          {!isLoading && !error && total > 0 && (
+            <div className="flex items-center justify-between pt-4 text-sm text-gray-600">
+              <span>Showing {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, total)} of {total}</span>
+              <div className="flex gap-2">
+                <button onClick={() => setPage(p => p - 1)} disabled={page <= 1} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition disabled:opacity-50">
+                  Previous
+                </button>
+                <button onClick={() => setPage(p => p + 1)} disabled={page >= lastPage} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200 transition disabled:opacity-50">
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
+
+      {refundBooking && (
+        <RefundModal
+          isOpen={!!refundBooking}
+          onClose={() => setRefundBooking(null)}
+          onRefundsChanged={loadBookings}
+          booking={refundBooking}
+        />
+      )}
+
+      {pendingAction && (
+        <BookingActionModal
+          action={pendingAction.action}
+          booking={pendingAction.booking}
+          onClose={() => setPendingAction(null)}
+          onDone={loadBookings}
+        />
+      )}
+
+      {timelineBooking && <BookingTimelineModal booking={timelineBooking} onClose={() => setTimelineBooking(null)} />}
+      {inspectionBooking && <InspectionModal booking={inspectionBooking} onClose={() => setInspectionBooking(null)} onChanged={loadBookings} />}
     </AdminPageLayout>
   );
 };
@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { fetchBookingTimeline } from '../lib/adminService';
+import type { BookingDetail, BookingTimelineEvent } from '../types';
+
+interface BookingTimelineModalProps {
+  booking: BookingDetail;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<BookingTimelineEvent['kind'], string> = {
+  status: 'bg-blue-500',
+  payment: 'bg-green-500',
+  extension: 'bg-indigo-500',
+  refund: 'bg-red-500',
+  modification: 'bg-yellow-500',
+  admin: 'bg-gray-500',
+};
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Everything that happened to a booking in one list: status changes, payments, extensions, refunds, modifications
+// and admin actions including internal notes.
+const BookingTimelineModal: React.FC<BookingTimelineModalProps> = ({ booking, onClose }) => {
+  const [events, setEvents] = useState<BookingTimelineEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBookingTimeline(booking.id).then(({ events: data, error: fetchError }) => {
+      setEvents(data);
+      setError(fetchError);
+    });
+  }, [booking.id]);
+
+  const renderEvents = () => {
+    if (error) return <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm">{error}</p>;
+    if (!events) return <p className="text-sm text-gray-500">Loading timeline...</p>;
+    if (events.length === 0) return <p className="text-sm text-gray-500">Nothing recorded for this booking yet.</p>;
+
+    return (
+      <ol className="relative border-l border-gray-200 ml-2">
+        {events.map((event, index) => (
+          <li key={`${event.at}-${index}`} className="mb-4 ml-4 text-sm">
+            <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${KIND_STYLES[event.kind]}`} />
+            <div className="flex justify-between gap-3">
+              <span className="font-semibold">{event.title}</span>
+              {event.amount !== null && <span className="whitespace-nowrap">₹{formatAmount(event.amount)}</span>}
+            </div>
+            <p className="text-xs text-gray-500">
+              {formatDateTime(event.at)}
+              {event.actor && <> · {event.actor}</>}
+              {event.status && event.kind !== 'status' && event.kind !== 'admin' && <> · <span className="capitalize">{event.status}</span></>}
+            </p>
+            {event.detail && <p className="text-gray-600 whitespace-pre-line mt-1">{event.detail}</p>}
+          </li>
+        ))}
+      </ol>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg mx-auto max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Timeline</h2>
+            <p className="text-sm text-gray-500">#{booking.id.split('-')[0].toUpperCase()} · {booking.customer_name || 'N/A'}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+        <div className="p-6">{renderEvents()}</div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingTimelineModal;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { upsertBranch } from '../lib/branchService';
+import { fetchGstStateRates } from '../lib/taxService';
+import type { Branch, BranchFormData, GstStateRate } from '../types';
+
+interface BranchFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: () => void;
+  branch: Branch | null;
+}
+
+const EMPTY_FORM: BranchFormData = {
+  name: '',
+  address: '',
+  city: '',
+  stateCode: '',
+  phone: '',
+  timezone: 'Asia/Kolkata',
+  opensAt: '08:00',
+  closesAt: '20:00',
+  active: true,
+};
+
+// Opening hours are checked in the branch's timezone on the server, so reject names Postgres would not know either.
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const BranchFormModal: React.FC<BranchFormModalProps> = ({ isOpen, onClose, onSave, branch }) => {
+  const [formData, setFormData] = useState<BranchFormData>(EMPTY_FORM);
+  const [states, setStates] = useState<GstStateRate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { addToast } = useToast();
+  const isEditMode = !!branch;
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchGstStateRates().then(({ rates }) => setStates(rates));
+      if (branch) {
+        const { id: _id, ...rest } = branch;
+        setFormData({ ...rest, city: rest.city || '', phone: rest.phone || '' });
+      } else {
+        setFormData(EMPTY_FORM);
+      }
+    }
+  }, [isOpen, branch]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    if (type === 'checkbox') {
+      const { checked } = e.target as HTMLInputElement;
+      setFormData(prev => ({ ...prev, [name]: checked }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.closesAt <= formData.opensAt) {
+      addToast('The branch must close after it opens.', 'error');
+      return;
+    }
+    if (!isValidTimezone(formData.timezone.trim())) {
+      addToast('Enter a timezone such as Asia/Kolkata.', 'error');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await upsertBranch(formData, branch?.id);
+    setLoading(false);
+
+    if (error) {
+      addToast(`Failed to save: ${error}`, 'error');
+      return;
+    }
+    addToast(`Branch ${isEditMode ? 'updated' : 'created'} successfully!`, 'success');
+    onSave();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg mx-auto max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b">
+          <h2 className="text-2xl font-bold">{isEditMode ? 'Edit Branch' : 'Add Branch'}</h2>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" id="name" name="name" value={formData.name} onChange={handleChange} required className="w-full p-2 border rounded-md" />
+            </div>
+            <div>
+              <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+              <textarea id="address" name="address" value={formData.address} onChange={handleChange} required rows={2} className="w-full p-2 border rounded-md" />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="city" className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                <input type="text" id="city" name="city" value={formData.city || ''} onChange={handleChange} className="w-full p-2 border rounded-md" />
+              </div>
+              <div>
+                <label htmlFor="stateCode" className="block text-sm font-medium text-gray-700 mb-1">State (GST)</label>
+                <select id="stateCode" name="stateCode" value={formData.stateCode} onChange={handleChange} required className="w-full p-2 border rounded-md bg-white">
+                  <option value="" disabled>Select a state</option>
+                  {states.map(state => (
+                    <option key={state.state_code} value={state.state_code}>{state.state_code} · {state.state_name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">Phone (optional)</label>
+                <input type="tel" id="phone" name="phone" value={formData.phone || ''} onChange={handleChange} className="w-full p-2 border rounded-md" />
+              </div>
+              <div>
+                <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+                <input type="text" id="timezone" name="timezone" value={formData.timezone} onChange={handleChange} required className="w-full p-2 border rounded-md" />
+              </div>
+              <div>
+                <label htmlFor="opensAt" className="block text-sm font-medium text-gray-700 mb-1">Opens At</label>
+                <input type="time" id="opensAt" name="opensAt" value={formData.opensAt} onChange={handleChange} required className="w-full p-2 border rounded-md" />
+              </div>
+              <div>
+                <label htmlFor="closesAt" className="block text-sm font-medium text-gray-700 mb-1">Closes At</label>
+                <input type="time" id="closesAt" name="closesAt" value={formData.closesAt} onChange={handleChange} required className="w-full p-2 border rounded-md" />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Pickups and returns can only be booked within the opening hours, by the branch's local time. GST is charged for the state of the pickup branch.</p>
+            <div className="flex items-center">
+              <input type="checkbox" name="active" checked={formData.active} onChange={handleChange} id="branchActive" className="h-4 w-4 text-primary rounded" />
+              <label htmlFor="branchActive" className="ml-2 block text-sm">Active (offered to customers for pickup and return)</label>
+            </div>
+          </div>
+          <div className="p-6 border-t flex justify-end space-x-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 bg-white hover:bg-gray-100 transition">Cancel</button>
+            <button type="submit" disabled={loading} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+              {loading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BranchFormModal;
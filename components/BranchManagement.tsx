@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import BranchFormModal from './BranchFormModal';
+import DeliveryZonesModal from './DeliveryZonesModal';
+import ConfirmationModal from './ConfirmationModal';
+import { useToast } from '../contexts/ToastContext';
+import { fetchBranches, deleteBranch } from '../lib/branchService';
+import type { Branch } from '../types';
+import DatabaseSetup from './DatabaseSetup';
+
+const BranchManagement: React.FC = () => {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
+  const [selectedBranch, setSelectedBranch] = useState<Branch | null>(null);
+  const [zonesBranch, setZonesBranch] = useState<Branch | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { addToast } = useToast();
+
+  const refreshBranches = useCallback(async () => {
+    const { branches: data, error: fetchError } = await fetchBranches(false);
+    if (fetchError) {
+      setError(fetchError);
+    } else {
+      setBranches(data);
+      setError(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    const initialLoad = async () => {
+      setIsLoading(true);
+      await refreshBranches();
+      setIsLoading(false);
+    };
+    initialLoad();
+  }, [refreshBranches]);
+
+  const handleAddNew = () => {
+    setSelectedBranch(null);
+    setIsFormModalOpen(true);
+  };
+
+  const handleEdit = (branch: Branch) => {
+    setSelectedBranch(branch);
+    setIsFormModalOpen(true);
+  };
+
+  const handleDelete = (branch: Branch) => {
+    setSelectedBranch(branch);
+    setIsConfirmModalOpen(true);
+  };
+
+  const confirmDelete = async () => {
+    if (!selectedBranch) return;
+    setIsProcessing(true);
+    const { error: deleteError } = await deleteBranch(selectedBranch.id);
+    if (deleteError) {
+      addToast(`Failed to delete: ${deleteError}. Branches with cars or bookings can only be deactivated.`, 'error');
+    } else {
+      addToast('Branch deleted successfully!', 'success');
+      await refreshBranches();
+    }
+    setIsProcessing(false);
+    setIsConfirmModalOpen(false);
+    setSelectedBranch(null);
+  };
+
+  const handleSave = () => {
+    setIsFormModalOpen(false);
+    setSelectedBranch(null);
+    refreshBranches();
+  };
+
+  const renderContent = () => {
+    if (isLoading) return <p className="text-center p-8">Loading branches...</p>;
+
+    const needsSetup = error && (error.includes('does not exist') || error.includes('Backend not configured'));
+    if (needsSetup) {
+      return <DatabaseSetup />;
+    }
+
+    if (error) return <div className="bg-red-100 p-4 rounded-md text-red-700">{error}</div>;
+    if (branches.length === 0) return <p className="text-center p-8">No branches yet. Add one to start listing cars.</p>;
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Branch</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Address</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Opening Hours</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {branches.map(branch => (
+              <tr key={branch.id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-semibold text-gray-900">{branch.name}</div>
+                  {branch.phone && <div className="text-sm text-gray-500">{branch.phone}</div>}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-700">
+                  <div className="whitespace-pre-line">{branch.address}</div>
+                  <div className="text-gray-500">{[branch.city, `GST state ${branch.stateCode}`].filter(Boolean).join(' · ')}</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {branch.opensAt}–{branch.closesAt}
+                  <div className="text-xs text-gray-500">{branch.timezone}</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${branch.active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                    {branch.active ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                  <button onClick={() => setZonesBranch(branch)} className="text-primary hover:text-primary-hover">Zones</button>
+                  <button onClick={() => handleEdit(branch)} className="text-primary hover:text-primary-hover">Edit</button>
+                  <button onClick={() => handleDelete(branch)} className="text-red-600 hover:text-red-800">Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <AdminPageLayout
+        title="Branches"
+        subtitle="Locations cars are picked up from and returned to, and their doorstep delivery zones. The one-way fee is set under Pricing."
+        headerAction={
+          <button onClick={handleAddNew} className="px-4 py-2 bg-primary text-white font-semibold rounded-lg shadow-md hover:bg-primary-hover">
+            + Add Branch
+          </button>
+        }
+      >
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+          {renderContent()}
+        </div>
+      </AdminPageLayout>
+
+      {isFormModalOpen && (
+        <BranchFormModal
+          isOpen={isFormModalOpen}
+          onClose={() => setIsFormModalOpen(false)}
+          onSave={handleSave}
+          branch={selectedBranch}
+        />
+      )}
+
+      {zonesBranch && <DeliveryZonesModal branch={zonesBranch} onClose={() => setZonesBranch(null)} />}
+
+      {selectedBranch && (
+        <ConfirmationModal
+          isOpen={isConfirmModalOpen}
+          onClose={() => setIsConfirmModalOpen(false)}
+          onConfirm={confirmDelete}
+          title="Delete Branch"
+          message={<>Are you sure you want to delete <strong>{selectedBranch.name}</strong>? This cannot be undone.</>}
+          confirmText="Delete"
+          isConfirming={isProcessing}
+        />
+      )}
+    </>
+  );
+};
+
+export default BranchManagement;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { adminCreateBooking } from '../lib/adminService';
+import { createMaintenanceBlock } from '../lib/fleetCalendarService';
+import { fetchUsersWithRoles } from '../lib/userService';
+import { calculateBookingPrice } from '../lib/bookingUtils';
+import type { BookingPriceDetails, UserDetail } from '../types';
+
+interface CalendarSlotModalProps {
+  car: { id: string; title: string };
+  start: Date;
+  end: Date;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+type Mode = 'booking' | 'block';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// yyyy-mm-ddThh:mm in local time, for datetime-local inputs.
+const toDateTimeInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Started by dragging over an empty stretch of a car's row in the fleet calendar: books the car for a customer,
+// or blocks it for maintenance.
+const CalendarSlotModal: React.FC<CalendarSlotModalProps> = ({ car, start, end, onClose, onCreated }) => {
+  const [mode, setMode] = useState<Mode>('booking');
+  const [period, setPeriod] = useState({ start: toDateTimeInput(start), end: toDateTimeInput(end) });
+  const [users, setUsers] = useState<UserDetail[]>([]);
+  const [customerQuery, setCustomerQuery] = useState('');
+  const [userId, setUserId] = useState('');
+  const [confirmNow, setConfirmNow] = useState(true);
+  const [note, setNote] = useState('');
+  const [price, setPrice] = useState<BookingPriceDetails | null>(null);
+  const [priceError, setPriceError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchUsersWithRoles().then(({ users: fetchedUsers }) => setUsers(fetchedUsers.filter(u => u.status === 'active')));
+  }, []);
+
+  // Price the booking as the customer would be charged, whenever the period changes.
+  useEffect(() => {
+    if (mode !== 'booking') return;
+    let cancelled = false;
+    const [pickupDate, pickupTime] = period.start.split('T');
+    const [returnDate, returnTime] = period.end.split('T');
+    calculateBookingPrice(car.id, { pickupDate, pickupTime, returnDate, returnTime }).then(({ price: newPrice, error }) => {
+      if (cancelled) return;
+      setPrice(error ? null : newPrice);
+      setPriceError(error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, car.id, period.start, period.end]);
+
+  const query = customerQuery.trim().toLowerCase();
+  const matchingUsers = users
+    .filter(u => !query || [u.name, u.email, u.phone].some(value => value?.toLowerCase().includes(query)))
+    .slice(0, 50);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const startDate = new Date(period.start);
+    const endDate = new Date(period.end);
+    if (!(endDate > startDate)) {
+      addToast('The end must be after the start.', 'error');
+      return;
+    }
+
+    setIsSubmitting(true);
+    if (mode === 'booking') {
+      if (!userId) {
+        addToast('Choose the customer to book for.', 'error');
+        setIsSubmitting(false);
+        return;
+      }
+      const { error } = await adminCreateBooking({ userId, carId: car.id, start: startDate, end: endDate, confirm: confirmNow, note });
+      setIsSubmitting(false);
+      if (error) {
+        addToast(`Failed to create booking: ${error}`, 'error');
+        return;
+      }
+      addToast(confirmNow ? 'Booking created and confirmed.' : 'Booking created. The customer has 24 hours to pay.', 'success');
+    } else {
+      const { error } = await createMaintenanceBlock(car.id, startDate, endDate, note);
+      setIsSubmitting(false);
+      if (error) {
+        addToast(`Failed to block the car: ${error}`, 'error');
+        return;
+      }
+      addToast(`${car.title} blocked for maintenance.`, 'success');
+    }
+    onCreated();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg mx-auto max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">{mode === 'booking' ? 'New Booking' : 'Maintenance Block'}</h2>
+            <p className="text-sm text-gray-500">{car.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="flex gap-2 text-sm">
+            <button type="button" onClick={() => setMode('booking')} className={`px-3 py-1 rounded-full ${mode === 'booking' ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}>
+              Booking
+            </button>
+            <button type="button" onClick={() => setMode('block')} className={`px-3 py-1 rounded-full ${mode === 'block' ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}>
+              Maintenance
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="slotStart" className="block text-sm font-medium text-gray-700 mb-1">{mode === 'booking' ? 'Pickup' : 'From'}</label>
+              <input id="slotStart" type="datetime-local" value={period.start} onChange={e => setPeriod(prev => ({ ...prev, start: e.target.value }))} required className="w-full p-2 border rounded-md" />
+            </div>
+            <div>
+              <label htmlFor="slotEnd" className="block text-sm font-medium text-gray-700 mb-1">{mode === 'booking' ? 'Return' : 'Until'}</label>
+              <input id="slotEnd" type="datetime-local" value={period.end} onChange={e => setPeriod(prev => ({ ...prev, end: e.target.value }))} required className="w-full p-2 border rounded-md" />
+            </div>
+          </div>
+
+          {mode === 'booking' && (
+            <>
+              <div>
+                <label htmlFor="customerQuery" className="block text-sm font-medium text-gray-700 mb-1">Customer</label>
+                <input
+                  id="customerQuery"
+                  type="search"
+                  value={customerQuery}
+                  onChange={e => setCustomerQuery(e.target.value)}
+                  placeholder="Search by name, email or phone"
+                  className="w-full p-2 border rounded-md mb-2"
+                />
+                <select value={userId} onChange={e => setUserId(e.target.value)} required size={5} className="w-full p-2 border rounded-md bg-white text-sm">
+                  {matchingUsers.map(u => (
+                    <option key={u.id} value={u.id}>{u.name || 'No name'} · {u.email || u.phone || u.id}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="bg-gray-50 p-4 rounded-lg text-sm">
+                {priceError ? (
+                  <p className="text-red-600">{priceError}</p>
+                ) : price ? (
+                  <div className="flex justify-between font-semibold">
+                    <span>Total, including GST</span>
+                    <span>₹{formatAmount(price.totalAmount)}</span>
+                  </div>
+                ) : (
+                  <p className="text-gray-500">Calculating the price...</p>
+                )}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={confirmNow} onChange={e => setConfirmNow(e.target.checked)} />
+                Paid at the counter: confirm the booking now
+              </label>
+              {!confirmNow && <p className="text-xs text-gray-500">The customer has 24 hours to pay from their dashboard, after which the booking is cancelled.</p>}
+            </>
+          )}
+
+          <div>
+            <label htmlFor="slotNote" className="block text-sm font-medium text-gray-700 mb-1">{mode === 'booking' ? 'Note (optional)' : 'Reason'}</label>
+            <textarea id="slotNote" value={note} onChange={e => setNote(e.target.value)} rows={2} maxLength={500} required={mode === 'block'} className="w-full p-2 border rounded-md" />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 font-semibold hover:bg-gray-300 transition">
+              Close
+            </button>
+            <button type="submit" disabled={isSubmitting} className="px-4 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:opacity-50">
+              {isSubmitting ? 'Saving...' : mode === 'booking' ? 'Create Booking' : 'Block Car'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSlotModal;
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { fetchCancellationPolicy, upsertCancellationPolicyTier, deleteCancellationPolicyTier } from '../lib/pricingService';
+import type { CancellationPolicyTier } from '../types';
+
+type TierForm = { id?: string; min_hours_before_pickup: string; refund_percent: string };
+
+// Edits the refund tiers applied when a customer cancels. Each tier gives its refund to cancellations made
+// at least that many hours before pickup; cancellations after pickup are never refunded.
+const CancellationPolicyEditor: React.FC = () => {
+    const [tiers, setTiers] = useState<CancellationPolicyTier[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [editingTier, setEditingTier] = useState<TierForm | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const { addToast } = useToast();
+
+    const loadTiers = useCallback(async () => {
+        const { tiers: data, error: fetchError } = await fetchCancellationPolicy();
+        setTiers(data);
+        setError(fetchError);
+    }, []);
+
+    useEffect(() => {
+        loadTiers();
+    }, [loadTiers]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setEditingTier(prev => prev && ({ ...prev, [name]: value }));
+    };
+
+    const handleSave = async () => {
+        if (!editingTier) return;
+        const hours = parseFloat(editingTier.min_hours_before_pickup);
+        const percent = parseFloat(editingTier.refund_percent);
+        if (isNaN(hours) || hours < 0) {
+            addToast('Notice period must be zero or more hours.', 'error');
+            return;
+        }
+        if (isNaN(percent) || percent < 0 || percent > 100) {
+            addToast('Refund must be between 0 and 100%.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const { error: saveError } = await upsertCancellationPolicyTier({ min_hours_before_pickup: hours, refund_percent: percent }, editingTier.id);
+        if (saveError) {
+            addToast(`Failed to save tier: ${saveError}`, 'error');
+        } else {
+            addToast('Cancellation policy updated.', 'success');
+            setEditingTier(null);
+            await loadTiers();
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (tier: CancellationPolicyTier) => {
+        const { error: deleteError } = await deleteCancellationPolicyTier(tier.id);
+        if (deleteError) {
+            addToast(`Failed to delete tier: ${deleteError}`, 'error');
+        } else {
+            addToast('Cancellation tier deleted.', 'success');
+            await loadTiers();
+        }
+    };
+
+    const renderEditRow = () => editingTier && (
+        <tr>
+            <td className="px-6 py-2 text-sm">
+                <input type="number" name="min_hours_before_pickup" value={editingTier.min_hours_before_pickup} onChange={handleChange} min="0" step="0.5" className="w-28 p-1 border rounded-md" /> hours
+            </td>
+            <td className="px-6 py-2 text-sm">
+                <input type="number" name="refund_percent" value={editingTier.refund_percent} onChange={handleChange} min="0" max="100" step="0.01" className="w-24 p-1 border rounded-md" /> %
+            </td>
+            <td className="px-6 py-2 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                <button onClick={handleSave} disabled={isSaving} className="text-primary hover:text-primary-hover disabled:opacity-50">Save</button>
+                <button onClick={() => setEditingTier(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+            </td>
+        </tr>
+    );
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm mt-6">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold text-foreground">Cancellation Policy</h2>
+                <button onClick={() => setEditingTier({ min_hours_before_pickup: '', refund_percent: '' })} disabled={!!editingTier} className="text-sm text-primary hover:text-primary-hover font-medium disabled:opacity-50">
+                    + Add Tier
+                </button>
+            </div>
+            {error && <p className="bg-red-100 p-3 rounded-md text-red-700 text-sm mb-4">{error}</p>}
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cancelled At Least</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Refund</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {tiers.map(tier => editingTier?.id === tier.id ? <React.Fragment key={tier.id}>{renderEditRow()}</React.Fragment> : (
+                        <tr key={tier.id}>
+                            <td className="px-6 py-3 text-sm text-gray-900">{tier.min_hours_before_pickup} hours before pickup</td>
+                            <td className="px-6 py-3 text-sm font-semibold text-gray-900">{tier.refund_percent}%</td>
+                            <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                                <button onClick={() => setEditingTier({ id: tier.id, min_hours_before_pickup: tier.min_hours_before_pickup.toString(), refund_percent: tier.refund_percent.toString() })} disabled={!!editingTier} className="text-primary hover:text-primary-hover disabled:opacity-50">Edit</button>
+                                <button onClick={() => handleDelete(tier)} disabled={!!editingTier} className="text-red-600 hover:text-red-800 disabled:opacity-50">Delete</button>
+                            </td>
+                        </tr>
+                    ))}
+                    {editingTier && !editingTier.id && renderEditRow()}
+                    <tr>
+                        <td className="px-6 py-3 text-sm text-gray-500">After pickup</td>
+                        <td className="px-6 py-3 text-sm font-semibold text-gray-500">0%</td>
+                        <td />
+                    </tr>
+                </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-3">Refunds cover everything paid for the booking, including the hold advance and paid extensions.</p>
+        </div>
+    );
+};
+
+export default CancellationPolicyEditor;
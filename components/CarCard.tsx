@@ -2,6 +2,7 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import type { Car } from '../types';
 import { SeatIcon, FuelIcon, GearIcon } from '../constants';
 import { getCarImageUrl } from '../lib/carService';
+import UsageTerms from './common/UsageTerms';
 import { useIntersectionObserver } from '../lib/useIntersectionObserver';
 
 interface CarCardProps {
@@ -180,6 +181,12 @@ const CarCard: React.FC<CarCardProps> = ({ car, onBookNow, showBookingControls =
             <span>{car.transmission}</span>
           </div>
         </div>
+
+        {car.usageTerms && (
+          <div className="mb-4">
+            <UsageTerms terms={car.usageTerms} compact />
+          </div>
+        )}
         
         <div className="mt-auto flex justify-between items-center">
           <div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { upsertCar, getCarImageUrl } from '../lib/carService';
-import type { Car, FuelType, GearType, ImageState, CarFormData } from '../types';
+import { fetchBranches } from '../lib/branchService';
+import type { Branch, Car, FuelType, GearType, ImageState, CarFormData } from '../types';
 import { useToast } from '../contexts/ToastContext';
 
 interface CarFormModalProps {
@@ -14,8 +15,9 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ isOpen, onClose, onSave, ca
   const [formData, setFormData] = useState<CarFormData>({
     title: '', make: '', model: '', year: new Date().getFullYear(),
     seats: 5, fuelType: 'Petrol', transmission: 'Manual', pricePerDay: 1000,
-    verified: true, status: 'published',
+    category: 'sedan', turnaroundMinutes: null, kmPerDayAllowance: null, excessKmRate: null, depositAmount: null, branchId: '', verified: true, status: 'published',
   });
+  const [branches, setBranches] = useState<Branch[]>([]);
 
   const [images, setImages] = useState<ImageState[]>([]);
   const [selectedPreviewIndex, setSelectedPreviewIndex] = useState(0);
@@ -35,6 +37,12 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ isOpen, onClose, onSave, ca
       fuelType: car?.fuelType || 'Petrol',
       transmission: car?.transmission || 'Manual',
       pricePerDay: car?.pricePerDay || 1000,
+      category: car?.category || 'sedan',
+      turnaroundMinutes: car?.turnaroundMinutes ?? null,
+      kmPerDayAllowance: car?.kmPerDayAllowance ?? null,
+      excessKmRate: car?.excessKmRate ?? null,
+      depositAmount: car?.depositAmount ?? null,
+      branchId: car?.branchId || '',
       verified: true, // Always true
       status: car?.status || 'published',
     });
@@ -53,6 +61,12 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ isOpen, onClose, onSave, ca
     setLoading(false);
   }, [car]);
 
+  useEffect(() => {
+    if (isOpen) {
+      fetchBranches(false).then(({ branches: fetchedBranches }) => setBranches(fetchedBranches));
+    }
+  }, [isOpen]);
+
   useEffect(() => {
     if (isOpen) {
       resetState();
@@ -72,6 +86,25 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ isOpen, onClose, onSave, ca
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
+    if (name === 'turnaroundMinutes') {
+        // An empty field falls back to the category's buffer.
+        setFormData(prev => ({ ...prev, turnaroundMinutes: value === '' ? null : Math.max(0, parseInt(value, 10) || 0) }));
+        return;
+    }
+    // Likewise for the mileage allowance, excess-km rate and security deposit.
+    if (name === 'kmPerDayAllowance') {
+        setFormData(prev => ({ ...prev, kmPerDayAllowance: value === '' ? null : Math.max(1, parseInt(value, 10) || 1) }));
+        return;
+    }
+    if (name === 'excessKmRate') {
+        setFormData(prev => ({ ...prev, excessKmRate: value === '' ? null : Math.max(0, parseFloat(value) || 0) }));
+        return;
+    }
+    if (name === 'depositAmount') {
+        setFormData(prev => ({ ...prev, depositAmount: value === '' ? null : Math.max(0, parseFloat(value) || 0) }));
+        return;
+    }
+
     setFormData(prev => ({
         ...prev,
         [name]: (name === 'year' || name === 'seats' || name === 'pricePerDay') ? parseInt(value, 10) || 0 : value,
@@ -190,6 +223,41 @@ const CarFormModal: React.FC<CarFormModalProps> = ({ isOpen, onClose, onSave, ca
                         <option value="Automatic">Automatic</option>
                     </select>
                 </div>
+                <div>
+                    <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                    <select name="category" id="category" value={formData.category} onChange={handleChange} className="w-full p-2 border rounded bg-white text-foreground border-gray-300 focus:ring-primary focus:border-primary">
+                        <option value="hatchback">Hatchback</option>
+                        <option value="sedan">Sedan</option>
+                        <option value="suv">SUV</option>
+                        <option value="muv">MUV</option>
+                        <option value="luxury">Luxury</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="turnaroundMinutes" className="block text-sm font-medium text-gray-700 mb-1">Turnaround Between Rentals (minutes)</label>
+                    <input type="number" name="turnaroundMinutes" id="turnaroundMinutes" value={formData.turnaroundMinutes ?? ''} onChange={handleChange} min="0" placeholder="Category default" className="w-full p-2 border rounded border-gray-300 focus:ring-primary focus:border-primary" />
+                </div>
+                <div>
+                    <label htmlFor="kmPerDayAllowance" className="block text-sm font-medium text-gray-700 mb-1">Mileage Allowance (km/day)</label>
+                    <input type="number" name="kmPerDayAllowance" id="kmPerDayAllowance" value={formData.kmPerDayAllowance ?? ''} onChange={handleChange} min="1" placeholder="Category default" className="w-full p-2 border rounded border-gray-300 focus:ring-primary focus:border-primary" />
+                </div>
+                <div>
+                    <label htmlFor="excessKmRate" className="block text-sm font-medium text-gray-700 mb-1">Excess Rate (₹/km)</label>
+                    <input type="number" name="excessKmRate" id="excessKmRate" value={formData.excessKmRate ?? ''} onChange={handleChange} min="0" step="0.01" placeholder="Category default" className="w-full p-2 border rounded border-gray-300 focus:ring-primary focus:border-primary" />
+                </div>
+                <div>
+                    <label htmlFor="depositAmount" className="block text-sm font-medium text-gray-700 mb-1">Security Deposit (₹)</label>
+                    <input type="number" name="depositAmount" id="depositAmount" value={formData.depositAmount ?? ''} onChange={handleChange} min="0" step="0.01" placeholder="Category default" className="w-full p-2 border rounded border-gray-300 focus:ring-primary focus:border-primary" />
+                </div>
+                <div>
+                    <label htmlFor="branchId" className="block text-sm font-medium text-gray-700 mb-1">Branch</label>
+                    <select name="branchId" id="branchId" value={formData.branchId} onChange={handleChange} required className="w-full p-2 border rounded bg-white text-foreground border-gray-300 focus:ring-primary focus:border-primary">
+                        <option value="" disabled>Select a branch</option>
+                        {branches.map(branch => (
+                            <option key={branch.id} value={branch.id}>{branch.name}{branch.active ? '' : ' (inactive)'}</option>
+                        ))}
+                    </select>
+                </div>
                 <div>
                     <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
                     <select name="status" id="status" value={formData.status} onChange={handleChange} className="w-full p-2 border rounded bg-white text-foreground border-gray-300 focus:ring-primary focus:border-primary">
@@ -1,15 +1,20 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabaseClient';
 import { fetchCarsFromDB, deleteCar, updateCarAvailability, getCarImageUrl } from '../lib/carService';
+import { fetchBranches } from '../lib/branchService';
 import type { Car } from '../types';
 import CarFormModal from './CarFormModal';
 import ConfirmationModal from './ConfirmationModal';
 import AdminPageLayout from './AdminPageLayout';
 import { useToast } from '../contexts/ToastContext';
 import ToggleSwitch from './common/ToggleSwitch';
+import { describeDeposit, describeMileage } from './common/UsageTerms';
+import TurnaroundBufferEditor from './TurnaroundBufferEditor';
+import UsagePolicyEditor from './UsagePolicyEditor';
 
 const CarManagement: React.FC = () => {
   const [cars, setCars] = useState<Car[]>([]);
+  const [branchNames, setBranchNames] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -32,6 +37,7 @@ const CarManagement: React.FC = () => {
 
   useEffect(() => {
     refreshCars();
+    fetchBranches(false).then(({ branches }) => setBranchNames(Object.fromEntries(branches.map(b => [b.id, b.name]))));
 
     const channel = supabase
       .channel('car-management-realtime')
@@ -142,6 +148,10 @@ const CarManagement: React.FC = () => {
                                 <div className="text-sm text-gray-600 mt-1 space-y-0.5">
                                     <p><span className="font-semibold">Price:</span> ₹{car.pricePerDay}/day</p>
                                     <p><span className="font-semibold">Details:</span> {car.seats} Seats, {car.fuelType}, {car.transmission}</p>
+                                    <p><span className="font-semibold">Branch:</span> {branchNames[car.branchId] || '...'}</p>
+                                    {car.turnaroundMinutes !== null && <p><span className="font-semibold">Turnaround:</span> {car.turnaroundMinutes} min between rentals</p>}
+                                    {car.usageTerms && <p><span className="font-semibold">Mileage:</span> {describeMileage(car.usageTerms)}</p>}
+                                    {car.usageTerms && <p><span className="font-semibold">Deposit:</span> {describeDeposit(car.usageTerms)}</p>}
                                     <p><span className="font-semibold">Status:</span> 
                                         <span className={`capitalize font-medium ml-1 ${car.status === 'published' ? 'text-green-700' : 'text-yellow-700'}`}>
                                             {car.status}
@@ -206,6 +216,8 @@ const CarManagement: React.FC = () => {
                 </div>
             )}
         </div>
+        <TurnaroundBufferEditor />
+        <UsagePolicyEditor />
       </AdminPageLayout>
       
       {isModalOpen && (
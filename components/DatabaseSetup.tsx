@@ -6,6 +6,11 @@ const fullSetupSQL = `-- This script provides a comprehensive setup for the RP C
 
 -- === HELPER FUNCTIONS (Prerequisites) ===
 
+-- pgcrypto provides the HMAC used to verify payment gateway callbacks.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+-- btree_gist lets the car_reservations exclusion constraint compare car and booking ids alongside time ranges.
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
 -- Function to check if the current user is an admin. Used by RLS policies.
 CREATE OR REPLACE FUNCTION is_admin()
 RETURNS boolean
@@ -65,12 +70,54 @@ BEGIN
 END
 $$;
 
+-- Define reusable ENUM types for refund statuses and the reasons a refund is issued.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'refund_status_enum') THEN
+    CREATE TYPE refund_status_enum AS ENUM ('pending', 'processing', 'succeeded', 'failed');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'refund_reason_enum') THEN
+    CREATE TYPE refund_reason_enum AS ENUM ('customer_cancellation', 'service_issue', 'duplicate_payment', 'pricing_error', 'goodwill', 'other', 'booking_modification', 'deposit_release', 'late_payment');
+  ELSE
+    ALTER TYPE refund_reason_enum ADD VALUE IF NOT EXISTS 'booking_modification';
+    ALTER TYPE refund_reason_enum ADD VALUE IF NOT EXISTS 'deposit_release';
+    ALTER TYPE refund_reason_enum ADD VALUE IF NOT EXISTS 'late_payment';
+  END IF;
+END
+$$;
+
+-- Define a reusable ENUM type for car categories, used by category-based pricing.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'car_category') THEN
+    CREATE TYPE car_category AS ENUM ('hatchback', 'sedan', 'suv', 'muv', 'luxury');
+  END IF;
+END
+$$;
+
+-- Define a reusable ENUM type for pricing rule types.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'pricing_rule_type') THEN
+    CREATE TYPE pricing_rule_type AS ENUM ('weekend', 'date_range', 'duration_tier', 'car_category');
+  END IF;
+END
+$$;
+
 -- === TABLE CREATION & MIGRATIONS ===
 
 -- Ensure the 'cars' table has all required columns and correct types.
 ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS available boolean NOT NULL DEFAULT true;
 ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
 ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS verified boolean NOT NULL DEFAULT false;
+ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS category car_category NOT NULL DEFAULT 'sedan';
+-- Overrides the category's turnaround buffer for this car; null uses the category's (see turnaround_buffers).
+ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS turnaround_minutes integer CHECK (turnaround_minutes >= 0);
+-- Override the category's mileage allowance and excess-km rate for this car; null uses the category's (see usage_policies).
+ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS km_per_day_allowance integer CHECK (km_per_day_allowance > 0);
+ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS excess_km_rate numeric(10, 2) CHECK (excess_km_rate >= 0);
+-- Overrides the category's refundable security deposit for this car; null uses the category's.
+ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS deposit_amount numeric(10, 2) CHECK (deposit_amount >= 0);
 
 -- The following block performs a safe migration for the 'cars.status' column from text to the car_status enum.
 -- It handles dependencies like RLS policies that would otherwise block the ALTER TYPE command.
@@ -124,6 +171,217 @@ CREATE TABLE IF NOT EXISTS public.promo_codes (
     )
 );
 
+-- Create the 'booking_extras' catalogue. Prices are read from here by the server, never from the client.
+CREATE TABLE IF NOT EXISTS public.booking_extras (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    price_per_day numeric(10, 2) NOT NULL CHECK (price_per_day >= 0),
+    active boolean NOT NULL DEFAULT true,
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+INSERT INTO public.booking_extras (name, price_per_day, sort_order) VALUES
+    ('GPS', 200, 1),
+    ('Child Seat', 150, 2),
+    ('Insurance', 300, 3)
+ON CONFLICT (name) DO NOTHING;
+
+-- Create the 'booking_quotes' table. A quote is a server-computed, itemized price that a booking must reference.
+CREATE TABLE IF NOT EXISTS public.booking_quotes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    car_id uuid NOT NULL REFERENCES public.cars(id) ON DELETE CASCADE,
+    start_datetime timestamptz NOT NULL,
+    end_datetime timestamptz NOT NULL,
+    extras text[] NOT NULL DEFAULT '{}',
+    promo_code_id uuid REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+    price_details jsonb NOT NULL,
+    total_amount numeric(10, 2) NOT NULL,
+    advance_amount numeric(10, 2) NOT NULL,
+    expires_at timestamptz NOT NULL,
+    booking_id uuid, -- Set once the quote has been used to create a booking.
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS booking_quotes_user_id_idx ON public.booking_quotes (user_id);
+
+-- Create the single-row 'pricing_settings' table holding the global pricing constants.
+CREATE TABLE IF NOT EXISTS public.pricing_settings (
+    id boolean PRIMARY KEY DEFAULT true CHECK (id), -- Enforces a single row.
+    billing_unit_hours integer NOT NULL DEFAULT 12 CHECK (billing_unit_hours > 0),
+    service_charge_percent numeric(5, 2) NOT NULL DEFAULT 5 CHECK (service_charge_percent >= 0),
+    advance_percent numeric(5, 2) NOT NULL DEFAULT 10 CHECK (advance_percent > 0 AND advance_percent <= 100),
+    timezone text NOT NULL DEFAULT 'Asia/Kolkata',
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+INSERT INTO public.pricing_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+-- Charged once on one-way rentals, returned to a different branch than they were picked up from, to cover bringing
+-- the car back to its home branch.
+ALTER TABLE public.pricing_settings ADD COLUMN IF NOT EXISTS one_way_fee numeric(10, 2) NOT NULL DEFAULT 0 CHECK (one_way_fee >= 0);
+
+-- Create the 'turnaround_buffers' table: the time each car category needs between rentals for cleaning, refuelling
+-- and inspection. A car is unavailable for this long after every rental; cars.turnaround_minutes overrides it per car.
+CREATE TABLE IF NOT EXISTS public.turnaround_buffers (
+    category car_category PRIMARY KEY,
+    turnaround_minutes integer NOT NULL DEFAULT 60 CHECK (turnaround_minutes >= 0),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+INSERT INTO public.turnaround_buffers (category)
+SELECT unnest(enum_range(NULL::car_category))
+ON CONFLICT (category) DO NOTHING;
+
+-- Create the 'usage_policies' table: how far each car category may be driven and how it must come back fuelled.
+-- km_per_day is the allowance per rental day, null for unlimited; every km over it costs excess_km_rate. Under
+-- 'full_to_full' the car must come back with as much fuel (or charge) as it left with, else each missing percentage
+-- point costs refuel_rate_per_percent plus a flat refuel_service_fee; under 'included' there is no refuel charge.
+-- deposit_amount is the refundable security deposit collected with the booking payment (see booking_deposits).
+-- Bookings keep the terms they were made with (see bookings.usage_terms).
+CREATE TABLE IF NOT EXISTS public.usage_policies (
+    category car_category PRIMARY KEY,
+    km_per_day integer CHECK (km_per_day > 0),
+    excess_km_rate numeric(10, 2) NOT NULL DEFAULT 0 CHECK (excess_km_rate >= 0),
+    fuel_policy text NOT NULL DEFAULT 'full_to_full' CHECK (fuel_policy IN ('full_to_full', 'included')),
+    refuel_rate_per_percent numeric(10, 2) NOT NULL DEFAULT 0 CHECK (refuel_rate_per_percent >= 0),
+    refuel_service_fee numeric(10, 2) NOT NULL DEFAULT 0 CHECK (refuel_service_fee >= 0),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+ALTER TABLE public.usage_policies ADD COLUMN IF NOT EXISTS deposit_amount numeric(10, 2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+INSERT INTO public.usage_policies (category)
+SELECT unnest(enum_range(NULL::car_category))
+ON CONFLICT (category) DO NOTHING;
+
+-- Create the 'pricing_rules' table. Each rule adjusts the base rental by a percentage (negative for discounts).
+--   weekend:       applies to billing units that start on one of days_of_week (0 = Sunday).
+--   date_range:    applies to billing units that start between start_date and end_date (e.g. festivals).
+--   duration_tier: applies to the whole rental when it is at least min_days long. Only the longest matching tier applies.
+--   car_category:  applies to the whole rental for cars in car_category.
+-- For the other rule types, car_category optionally narrows the rule to one category.
+CREATE TABLE IF NOT EXISTS public.pricing_rules (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    rule_type pricing_rule_type NOT NULL,
+    adjustment_percent numeric(6, 2) NOT NULL CHECK (adjustment_percent >= -100),
+    days_of_week integer[],
+    start_date date,
+    end_date date,
+    min_days integer CHECK (min_days > 0),
+    car_category car_category,
+    priority integer NOT NULL DEFAULT 0,
+    active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT pricing_rule_fields CHECK (
+        (rule_type = 'weekend' AND days_of_week IS NOT NULL) OR
+        (rule_type = 'date_range' AND start_date IS NOT NULL AND end_date IS NOT NULL AND end_date >= start_date) OR
+        (rule_type = 'duration_tier' AND min_days IS NOT NULL) OR
+        (rule_type = 'car_category' AND car_category IS NOT NULL)
+    )
+);
+
+-- Create the 'cancellation_policy_tiers' table. A cancelled booking is refunded refund_percent of everything paid
+-- for it, using the tier with the largest min_hours_before_pickup that the cancellation still meets.
+-- Cancellations after pickup match no tier and are not refunded.
+CREATE TABLE IF NOT EXISTS public.cancellation_policy_tiers (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    min_hours_before_pickup numeric(6, 2) NOT NULL UNIQUE CHECK (min_hours_before_pickup >= 0),
+    refund_percent numeric(5, 2) NOT NULL CHECK (refund_percent >= 0 AND refund_percent <= 100),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+-- Seed the default policy (100% more than 48h before pickup, 50% within 48h) only on first setup.
+INSERT INTO public.cancellation_policy_tiers (min_hours_before_pickup, refund_percent)
+SELECT tier.hours, tier.percent FROM (VALUES (48, 100), (0, 50)) AS tier(hours, percent)
+WHERE NOT EXISTS (SELECT 1 FROM public.cancellation_policy_tiers);
+
+-- Create the single-row 'tax_settings' table holding the supplier's GST registration and invoicing details.
+CREATE TABLE IF NOT EXISTS public.tax_settings (
+    id boolean PRIMARY KEY DEFAULT true CHECK (id), -- Enforces a single row.
+    legal_name text NOT NULL DEFAULT 'RP Cars',
+    gstin text,
+    address text,
+    state_code text NOT NULL DEFAULT '36', -- GST state code of the supplier's registration.
+    default_pickup_state_code text NOT NULL DEFAULT '36', -- Place of supply for rentals without a specific pickup state.
+    sac_code text NOT NULL DEFAULT '996601', -- SAC for rental services of road vehicles.
+    invoice_prefix text NOT NULL DEFAULT 'RPC' CHECK (invoice_prefix ~ '^[A-Z0-9]{1,4}$'), -- Keeps invoice numbers within the 16 character GST limit.
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+INSERT INTO public.tax_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+-- Create the 'gst_state_rates' table. Supplies picked up in the supplier's own state are charged CGST + SGST,
+-- supplies picked up in any other state are charged IGST.
+CREATE TABLE IF NOT EXISTS public.gst_state_rates (
+    state_code text PRIMARY KEY,
+    state_name text NOT NULL,
+    cgst_percent numeric(5, 2) NOT NULL DEFAULT 9 CHECK (cgst_percent >= 0),
+    sgst_percent numeric(5, 2) NOT NULL DEFAULT 9 CHECK (sgst_percent >= 0),
+    igst_percent numeric(5, 2) NOT NULL DEFAULT 18 CHECK (igst_percent >= 0),
+    sac_code text, -- Overrides the default SAC code for supplies in this state.
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+INSERT INTO public.gst_state_rates (state_code, state_name) VALUES
+    ('01', 'Jammu and Kashmir'), ('02', 'Himachal Pradesh'), ('03', 'Punjab'), ('04', 'Chandigarh'),
+    ('05', 'Uttarakhand'), ('06', 'Haryana'), ('07', 'Delhi'), ('08', 'Rajasthan'), ('09', 'Uttar Pradesh'),
+    ('10', 'Bihar'), ('11', 'Sikkim'), ('12', 'Arunachal Pradesh'), ('13', 'Nagaland'), ('14', 'Manipur'),
+    ('15', 'Mizoram'), ('16', 'Tripura'), ('17', 'Meghalaya'), ('18', 'Assam'), ('19', 'West Bengal'),
+    ('20', 'Jharkhand'), ('21', 'Odisha'), ('22', 'Chhattisgarh'), ('23', 'Madhya Pradesh'), ('24', 'Gujarat'),
+    ('26', 'Dadra and Nagar Haveli and Daman and Diu'), ('27', 'Maharashtra'), ('29', 'Karnataka'), ('30', 'Goa'),
+    ('31', 'Lakshadweep'), ('32', 'Kerala'), ('33', 'Tamil Nadu'), ('34', 'Puducherry'),
+    ('35', 'Andaman and Nicobar Islands'), ('36', 'Telangana'), ('37', 'Andhra Pradesh'), ('38', 'Ladakh')
+ON CONFLICT (state_code) DO NOTHING;
+
+-- Create the 'branches' table: the sites cars are picked up from and returned to. Every car belongs to one branch and
+-- is picked up there. Opening hours are in the branch's own timezone, and the branch's state is the GST place of
+-- supply for rentals picked up there.
+CREATE TABLE IF NOT EXISTS public.branches (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    address text NOT NULL,
+    city text,
+    state_code text NOT NULL REFERENCES public.gst_state_rates(state_code),
+    phone text,
+    timezone text NOT NULL DEFAULT 'Asia/Kolkata',
+    opens_at time NOT NULL DEFAULT '08:00',
+    closes_at time NOT NULL DEFAULT '20:00',
+    active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT branch_opening_hours CHECK (closes_at > opens_at)
+);
+-- Fleets set up before branches existed start with a single branch in the default pickup state.
+INSERT INTO public.branches (name, address, state_code)
+SELECT 'Main Branch', 'Set the address in Admin > Branches', t.default_pickup_state_code
+FROM public.tax_settings t
+WHERE NOT EXISTS (SELECT 1 FROM public.branches);
+
+ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id) ON DELETE RESTRICT;
+UPDATE public.cars SET branch_id = (SELECT id FROM public.branches ORDER BY created_at LIMIT 1) WHERE branch_id IS NULL;
+ALTER TABLE public.cars ALTER COLUMN branch_id SET NOT NULL;
+CREATE INDEX IF NOT EXISTS cars_branch_id_idx ON public.cars (branch_id);
+
+-- Create the 'delivery_zones' table: doorstep delivery and collection fees by distance band around a branch.
+-- Customers choose the zone their address falls in and drivers check it on the run sheet, so no maps API is needed.
+CREATE TABLE IF NOT EXISTS public.delivery_zones (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id uuid NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    max_distance_km numeric(6, 1) NOT NULL CHECK (max_distance_km > 0),
+    fee numeric(10, 2) NOT NULL CHECK (fee >= 0),
+    active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (branch_id, name)
+);
+
+ALTER TABLE public.booking_quotes ADD COLUMN IF NOT EXISTS pickup_branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.booking_quotes ADD COLUMN IF NOT EXISTS return_branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.booking_quotes ADD COLUMN IF NOT EXISTS delivery_zone_id uuid REFERENCES public.delivery_zones(id) ON DELETE SET NULL;
+ALTER TABLE public.booking_quotes ADD COLUMN IF NOT EXISTS delivery_address text;
+ALTER TABLE public.booking_quotes ADD COLUMN IF NOT EXISTS collection_zone_id uuid REFERENCES public.delivery_zones(id) ON DELETE SET NULL;
+ALTER TABLE public.booking_quotes ADD COLUMN IF NOT EXISTS collection_address text;
+
+-- Optional GSTIN so business customers can claim input tax credit on their invoices.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS gstin text;
+
 -- Ensure the 'bookings' table status uses the correct enum and has all columns.
 -- 1. Normalize existing text data for bookings.status.
 DO $$
@@ -154,6 +412,86 @@ ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS hold_expires_at timestamptz
 -- Add columns for promo code support. This fixes the "promo_code_id does not exist" error.
 ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS promo_code_id uuid REFERENCES public.promo_codes(id) ON DELETE SET NULL;
 ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS discount_amount numeric(10, 2) DEFAULT 0;
+-- Link each booking to the quote it was priced from, and snapshot the extras that were charged.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS quote_id uuid REFERENCES public.booking_quotes(id) ON DELETE SET NULL;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS extras jsonb NOT NULL DEFAULT '[]'::jsonb;
+-- Cancellation details, recorded when a booking is cancelled by its customer.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS cancellation_reason text;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS refund_percent numeric(5, 2);
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS refund_amount numeric(10, 2);
+-- When the customer was last reminded to pay the balance of a hold before it expires.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS hold_reminder_sent_at timestamptz;
+-- When the customer was reminded of the upcoming pickup and of the return (see the scheduled reminder jobs).
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS pickup_reminder_sent_at timestamptz;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS return_reminder_sent_at timestamptz;
+-- Checkout deadline of a pending_payment booking. Unpaid bookings stop reserving the car and promo code after it,
+-- and expire_pending_payments cancels them as abandoned checkouts.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS payment_expires_at timestamptz;
+UPDATE public.bookings SET payment_expires_at = created_at + interval '30 minutes' WHERE status = 'pending_payment' AND payment_expires_at IS NULL;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS checkout_abandoned_at timestamptz;
+-- When an admin followed up with the customer about an abandoned checkout.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS abandoned_followed_up_at timestamptz;
+-- Client-generated key of the checkout that created the booking, so a resubmitted request returns the same booking.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS idempotency_key text;
+CREATE UNIQUE INDEX IF NOT EXISTS bookings_user_idempotency_key ON public.bookings (user_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
+-- Record whether the customer chose to pay in full or place a hold with an advance.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS payment_mode text CHECK (payment_mode IN ('full', 'hold'));
+UPDATE public.bookings SET payment_mode = CASE WHEN status = 'hold' THEN 'hold' ELSE 'full' END WHERE payment_mode IS NULL;
+ALTER TABLE public.bookings ALTER COLUMN payment_mode SET NOT NULL;
+-- Incremented each time the customer changes the booking's car or dates; see booking_modifications.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+-- When the customer collected the car and brought it back, recorded from the admin operations console.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS picked_up_at timestamptz;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS returned_at timestamptz;
+-- Where the car is collected and dropped off. A return branch other than the pickup branch makes the rental one-way.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS pickup_branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS return_branch_id uuid REFERENCES public.branches(id);
+UPDATE public.bookings b SET pickup_branch_id = c.branch_id, return_branch_id = c.branch_id
+FROM public.cars c
+WHERE c.id = b.car_id AND b.pickup_branch_id IS NULL;
+-- Doorstep service: the car is brought to delivery_address at pickup and fetched from collection_address at return,
+-- instead of the customer coming to the branch. The zones priced the service (see delivery_zones).
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS delivery_zone_id uuid REFERENCES public.delivery_zones(id) ON DELETE SET NULL;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS delivery_address text;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS collection_zone_id uuid REFERENCES public.delivery_zones(id) ON DELETE SET NULL;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS collection_address text;
+-- The car's mileage allowance and fuel policy when the booking was made (see usage_terms), settled at return by
+-- settle_booking_usage. Null for bookings made before usage policies existed, which are not settled.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS usage_terms jsonb;
+
+-- Create the 'payment_gateways' table. Each row configures one gateway adapter; payments.method holds the gateway id.
+-- public_config holds only publishable settings (e.g. a merchant or key id); secrets stay with the server-side gateway function.
+CREATE TABLE IF NOT EXISTS public.payment_gateways (
+    id text PRIMARY KEY CHECK (id IN ('mock', 'paytm', 'razorpay', 'card')),
+    display_name text NOT NULL,
+    enabled boolean NOT NULL DEFAULT false,
+    test_mode boolean NOT NULL DEFAULT true,
+    sort_order integer NOT NULL DEFAULT 0,
+    public_config jsonb NOT NULL DEFAULT '{}'::jsonb,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+-- Every gateway starts disabled. Real gateways are enabled once their credentials are configured; the mock gateway is
+-- only offered by development builds and only admins can complete its payments (see sign_mock_gateway_callback).
+INSERT INTO public.payment_gateways (id, display_name, enabled, sort_order) VALUES
+  ('mock', 'Test Gateway', false, 0),
+  ('paytm', 'Paytm', false, 1),
+  ('razorpay', 'Razorpay', false, 2),
+  ('card', 'Credit / Debit Card', false, 3)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create the 'payment_gateway_secrets' table. It has RLS enabled and no policies, so clients can never read it;
+-- only the callback verification functions use it. Set real secrets with an UPDATE in the SQL editor.
+CREATE TABLE IF NOT EXISTS public.payment_gateway_secrets (
+    gateway_id text PRIMARY KEY REFERENCES public.payment_gateways(id) ON DELETE CASCADE,
+    secret text NOT NULL,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+-- The mock gateway signs with a random secret generated on first setup.
+INSERT INTO public.payment_gateway_secrets (gateway_id, secret)
+VALUES ('mock', encode(extensions.gen_random_bytes(32), 'hex'))
+ON CONFLICT (gateway_id) DO NOTHING;
 
 -- Create 'payments' table
 CREATE TABLE IF NOT EXISTS public.payments (
@@ -171,6 +509,59 @@ CREATE TABLE IF NOT EXISTS public.payments (
     updated_at timestamptz NOT NULL DEFAULT now()
 );
 
+-- The gateway's order reference for a payment, recorded when checkout starts.
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS gateway_order_id text;
+-- What a payment is for: the initial booking payment (full amount or hold advance), the remaining balance of a hold,
+-- an extension, the price difference of a booking modification, or a charge raised after the rental.
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS payment_type text NOT NULL DEFAULT 'booking';
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_payment_type_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_payment_type_check CHECK (payment_type IN ('booking', 'balance', 'extension', 'modification', 'charge'));
+UPDATE public.payments SET payment_type = 'extension' WHERE extension_id IS NOT NULL AND payment_type = 'booking';
+-- Total of the payment's succeeded refunds, kept in sync by record_refund_result.
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS refunded_amount numeric(10, 2) NOT NULL DEFAULT 0;
+-- Client-generated key of the payment attempt, so a resubmitted request returns the same payment.
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS idempotency_key text;
+CREATE UNIQUE INDEX IF NOT EXISTS payments_user_idempotency_key ON public.payments (user_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
+-- The refundable security deposit included in amount. Only booking payments carry one; it is not part of the rental
+-- and is returned through the deposit settlement rather than cancellation refunds (see booking_deposits).
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS deposit_amount numeric(10, 2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+
+-- Create 'refunds' table. A payment can have several partial refunds; together they never exceed the payment amount.
+CREATE TABLE IF NOT EXISTS public.refunds (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id uuid NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+    booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+    currency text NOT NULL DEFAULT 'INR',
+    reason refund_reason_enum NOT NULL,
+    notes text,
+    status refund_status_enum NOT NULL DEFAULT 'pending',
+    gateway_refund_id text,
+    failure_reason text,
+    initiated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    processed_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS refunds_payment_id_idx ON public.refunds (payment_id);
+CREATE INDEX IF NOT EXISTS refunds_booking_id_idx ON public.refunds (booking_id);
+
+-- Create the 'payment_callbacks' table, an audit log of every gateway callback and whether it was accepted.
+CREATE TABLE IF NOT EXISTS public.payment_callbacks (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id uuid NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+    gateway text,
+    gateway_order_id text,
+    gateway_txn_id text,
+    amount numeric(10, 2),
+    status text NOT NULL,
+    signature text,
+    outcome text NOT NULL CHECK (outcome IN ('accepted', 'already_settled', 'missing_signature', 'invalid_signature', 'order_mismatch', 'amount_mismatch', 'replayed')),
+    received_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS payment_callbacks_payment_id_idx ON public.payment_callbacks (payment_id);
+
 -- Create 'booking_extensions' table
 CREATE TABLE IF NOT EXISTS public.booking_extensions (
     id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -185,16 +576,337 @@ CREATE TABLE IF NOT EXISTS public.booking_extensions (
     updated_at timestamptz NOT NULL DEFAULT now()
 );
 
+-- Snapshot of how an extension was priced (see calculate_extension_price), including its GST breakdown.
+ALTER TABLE public.booking_extensions ADD COLUMN IF NOT EXISTS price_details jsonb;
+-- Payment deadline of a pending extension. Unpaid extensions stop reserving the car after it,
+-- and expire_pending_payments cancels them.
+ALTER TABLE public.booking_extensions ADD COLUMN IF NOT EXISTS payment_expires_at timestamptz;
+UPDATE public.booking_extensions SET payment_expires_at = created_at + interval '30 minutes' WHERE payment_status = 'pending' AND payment_expires_at IS NULL;
+
 -- Add the foreign key from payments to booking_extensions now that both tables exist.
 ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS fk_extension_id;
 ALTER TABLE public.payments ADD CONSTRAINT fk_extension_id FOREIGN KEY (extension_id) REFERENCES public.booking_extensions(id) ON DELETE SET NULL;
 
+-- Create the 'booking_modifications' table, the version history of the changes customers make to a booking's car or
+-- dates. Each row snapshots the booking before and after the change. A change that costs more stays pending until the
+-- difference is paid; any other change is applied at once, and a lower price is refunded or kept as account credit
+-- (see modify_booking). version is the booking version the change produced, set when it is applied.
+CREATE TABLE IF NOT EXISTS public.booking_modifications (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    version integer,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'cancelled')),
+    previous_car_id uuid NOT NULL REFERENCES public.cars(id) ON DELETE CASCADE,
+    previous_start_datetime timestamptz NOT NULL,
+    previous_end_datetime timestamptz NOT NULL,
+    previous_total_amount numeric(10, 2) NOT NULL,
+    new_car_id uuid NOT NULL REFERENCES public.cars(id) ON DELETE CASCADE,
+    new_start_datetime timestamptz NOT NULL,
+    new_end_datetime timestamptz NOT NULL,
+    new_total_amount numeric(10, 2) NOT NULL,
+    price_details jsonb NOT NULL,
+    price_difference numeric(10, 2) NOT NULL, -- new_total_amount - previous_total_amount
+    credit_applied numeric(10, 2) NOT NULL DEFAULT 0, -- Account credit redeemed towards a higher price.
+    settlement text NOT NULL CHECK (settlement IN ('none', 'payment', 'refund', 'credit')),
+    payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL,
+    payment_expires_at timestamptz,
+    reason text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    applied_at timestamptz,
+    UNIQUE (booking_id, version)
+);
+CREATE INDEX IF NOT EXISTS booking_modifications_booking_id_idx ON public.booking_modifications (booking_id, created_at);
+
+-- The modification whose price difference a payment is for.
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS modification_id uuid REFERENCES public.booking_modifications(id) ON DELETE SET NULL;
+
+-- Create the 'account_credits' table, a ledger of each customer's account credit. Credit is issued when a booking
+-- modification lowers the price and the customer keeps the difference instead of a refund (amount > 0; payment_id is
+-- the payment it came out of), and redeemed towards the price difference of a later modification (amount < 0).
+CREATE TABLE IF NOT EXISTS public.account_credits (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    amount numeric(10, 2) NOT NULL CHECK (amount != 0),
+    booking_id uuid REFERENCES public.bookings(id) ON DELETE SET NULL,
+    modification_id uuid REFERENCES public.booking_modifications(id) ON DELETE SET NULL,
+    payment_id uuid REFERENCES public.payments(id) ON DELETE SET NULL,
+    description text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS account_credits_user_id_idx ON public.account_credits (user_id, created_at);
+
+-- Create the 'car_reservations' table, the database-level guarantee against double booking. Every pending_payment,
+-- hold or confirmed booking reserves its car for its period, and every pending extension for the hours it adds;
+-- the rows are maintained by triggers on bookings and booking_extensions. A pending booking modification likewise
+-- reserves its new car and dates until it is paid for. The exclusion constraint rejects any
+-- reservation overlapping another booking's on the same car, so concurrent checkouts cannot both succeed.
+-- Each period runs on past the rental by the car's turnaround buffer, so the next rental cannot start inside it.
+CREATE TABLE IF NOT EXISTS public.car_reservations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    car_id uuid NOT NULL REFERENCES public.cars(id) ON DELETE CASCADE,
+    booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    extension_id uuid REFERENCES public.booking_extensions(id) ON DELETE CASCADE,
+    period tstzrange NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+-- The buffer included at the end of period; null for reservations made before turnaround buffers existed.
+ALTER TABLE public.car_reservations ADD COLUMN IF NOT EXISTS turnaround_minutes integer;
+ALTER TABLE public.car_reservations ADD COLUMN IF NOT EXISTS modification_id uuid REFERENCES public.booking_modifications(id) ON DELETE CASCADE;
+-- Replaced by car_reservations_booking_key, which leaves out modification reservations.
+DROP INDEX IF EXISTS public.car_reservations_booking_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS car_reservations_booking_key ON public.car_reservations (booking_id) WHERE extension_id IS NULL AND modification_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS car_reservations_extension_idx ON public.car_reservations (extension_id) WHERE extension_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS car_reservations_modification_idx ON public.car_reservations (modification_id) WHERE modification_id IS NOT NULL;
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'car_reservations_no_overlap') THEN
+    -- A booking's extension or modification may touch or overlap the booking itself, so only different bookings conflict.
+    ALTER TABLE public.car_reservations ADD CONSTRAINT car_reservations_no_overlap
+      EXCLUDE USING gist (car_id WITH =, booking_id WITH <>, period WITH &&);
+  END IF;
+END
+$$;
+
+-- Create the 'car_maintenance_blocks' table: periods when a car is out of service for servicing or repair and cannot
+-- be rented. Managed from the fleet calendar; a trigger on car_reservations keeps bookings out of them.
+CREATE TABLE IF NOT EXISTS public.car_maintenance_blocks (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    car_id uuid NOT NULL REFERENCES public.cars(id) ON DELETE CASCADE,
+    starts_at timestamptz NOT NULL,
+    ends_at timestamptz NOT NULL,
+    reason text NOT NULL,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CHECK (ends_at > starts_at)
+);
+CREATE INDEX IF NOT EXISTS car_maintenance_blocks_car_id_idx ON public.car_maintenance_blocks (car_id, starts_at);
+
+-- === BOOKING LIFECYCLE ===
+-- The booking state machine. Every status change must be one of these transitions; the guard trigger on bookings
+-- rejects anything else, and the side effects of each change are applied by apply_booking_transition_trigger.
+-- lib/bookingLifecycle.ts declares the same transitions for the UI; keep the two in step.
+CREATE TABLE IF NOT EXISTS public.booking_status_transitions (
+    from_status booking_status_enum NOT NULL,
+    to_status booking_status_enum NOT NULL,
+    description text NOT NULL,
+    PRIMARY KEY (from_status, to_status)
+);
+INSERT INTO public.booking_status_transitions (from_status, to_status, description) VALUES
+  ('pending_payment', 'hold', 'The advance for a hold was paid.'),
+  ('pending_payment', 'confirmed', 'The booking was paid in full.'),
+  ('pending_payment', 'cancelled', 'Checkout was abandoned before payment.'),
+  ('hold', 'confirmed', 'The balance of the hold was paid.'),
+  ('hold', 'cancelled', 'The customer cancelled, or the hold expired unpaid.'),
+  ('confirmed', 'cancelled', 'The customer cancelled before the rental ended.'),
+  ('confirmed', 'completed', 'The rental period ended.')
+ON CONFLICT (from_status, to_status) DO UPDATE SET description = excluded.description;
+
+-- Create the 'booking_status_history' table, an audit log of every booking status change.
+CREATE TABLE IF NOT EXISTS public.booking_status_history (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    from_status booking_status_enum, -- NULL when the booking was created.
+    to_status booking_status_enum NOT NULL,
+    changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for scheduled jobs.
+    reason text,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS booking_status_history_booking_id_idx ON public.booking_status_history (booking_id, created_at);
+-- Bookings made before the history existed start with their current status.
+INSERT INTO public.booking_status_history (booking_id, from_status, to_status, created_at)
+SELECT b.id, NULL, b.status, b.created_at
+FROM public.bookings b
+WHERE NOT EXISTS (SELECT 1 FROM public.booking_status_history h WHERE h.booking_id = b.id);
+
+-- Create the 'booking_admin_actions' table, the audit log of what admins do to bookings from the operations console
+-- and the fleet calendar: creating, confirming, cancelling, recording pickup and return, inspecting the car, raising
+-- and waiving charges, settling security deposits, and internal notes.
+-- Written only by the admin_* functions.
+CREATE TABLE IF NOT EXISTS public.booking_admin_actions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    admin_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    action text NOT NULL,
+    note text,
+    details jsonb,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS booking_admin_actions_booking_id_idx ON public.booking_admin_actions (booking_id, created_at);
+ALTER TABLE public.booking_admin_actions DROP CONSTRAINT IF EXISTS booking_admin_actions_action_check;
+ALTER TABLE public.booking_admin_actions ADD CONSTRAINT booking_admin_actions_action_check CHECK (action IN ('create', 'confirm', 'cancel', 'pick_up', 'return', 'inspect', 'charge', 'waive_charge', 'settle_deposit', 'note'));
+
+-- Create the 'booking_inspections' table, the condition reports staff fill in when a car is handed over at pickup and
+-- taken back at return: the odometer, the fuel level (battery charge for electric cars), damage marks and photos.
+-- Each mark in damages is {area, type, note}, with area a zone of the car diagram; photo_paths are in the private
+-- inspection-photos bucket. Written only by admin_save_inspection. Once the customer acknowledges a report with
+-- acknowledge_inspection it can no longer be changed.
+CREATE TABLE IF NOT EXISTS public.booking_inspections (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    kind text NOT NULL CHECK (kind IN ('pickup', 'return')),
+    odometer_km integer NOT NULL CHECK (odometer_km >= 0),
+    energy_level_percent integer NOT NULL CHECK (energy_level_percent BETWEEN 0 AND 100),
+    damages jsonb NOT NULL DEFAULT '[]'::jsonb,
+    photo_paths text[] NOT NULL DEFAULT '{}',
+    notes text,
+    inspected_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    acknowledged_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (booking_id, kind)
+);
+
+-- Create the 'booking_charges' table: amounts a customer owes after the rental, such as repairs for damage found at
+-- return. A charge is due until the customer pays it through the gateway (see create_charge_payment) or an admin
+-- waives it. inspection_id is the return report the charge was raised from, if any.
+CREATE TABLE IF NOT EXISTS public.booking_charges (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    kind text NOT NULL CHECK (kind IN ('damage')),
+    description text NOT NULL,
+    amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+    status text NOT NULL DEFAULT 'due' CHECK (status IN ('due', 'paid', 'waived')),
+    inspection_id uuid REFERENCES public.booking_inspections(id) ON DELETE SET NULL,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS booking_charges_booking_id_idx ON public.booking_charges (booking_id, created_at);
+-- 'settlement' charges are raised when the car is taken back, for excess km and refuelling (see settle_booking_usage);
+-- line_items itemizes them as {description, amount}. A booking is settled once.
+ALTER TABLE public.booking_charges DROP CONSTRAINT IF EXISTS booking_charges_kind_check;
+ALTER TABLE public.booking_charges ADD CONSTRAINT booking_charges_kind_check CHECK (kind IN ('damage', 'fine', 'settlement'));
+ALTER TABLE public.booking_charges ADD COLUMN IF NOT EXISTS line_items jsonb;
+CREATE UNIQUE INDEX IF NOT EXISTS booking_charges_settlement_key ON public.booking_charges (booking_id) WHERE kind = 'settlement';
+
+-- The charge a payment is for.
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS charge_id uuid REFERENCES public.booking_charges(id) ON DELETE SET NULL;
+
+-- Create the 'booking_deposits' table: the refundable security deposit of each booking, collected with its booking
+-- payment (payment_id). It is 'collected' once paid and 'held' while the customer has the car. After the return an
+-- admin settles it (see admin_settle_deposit): charges still due, such as damage, fines or excess km, are deducted
+-- and the rest is refunded through refund_id, leaving it 'released' (nothing deducted), 'partially_released' or
+-- 'retained' (nothing left to refund). A cancelled booking's deposit is released in full.
+-- deductions lists the charges paid out of the deposit as {chargeId, kind, description, amount}.
+CREATE TABLE IF NOT EXISTS public.booking_deposits (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id uuid NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    payment_id uuid NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+    amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+    status text NOT NULL DEFAULT 'collected' CHECK (status IN ('collected', 'held', 'partially_released', 'released', 'retained')),
+    retained_amount numeric(10, 2) NOT NULL DEFAULT 0,
+    released_amount numeric(10, 2) NOT NULL DEFAULT 0,
+    deductions jsonb NOT NULL DEFAULT '[]'::jsonb,
+    refund_id uuid REFERENCES public.refunds(id) ON DELETE SET NULL,
+    settlement_note text,
+    settled_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    settled_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS booking_deposits_status_idx ON public.booking_deposits (status);
+
+-- The deposit a charge was paid out of, when it was deducted at settlement instead of paid through the gateway.
+ALTER TABLE public.booking_charges ADD COLUMN IF NOT EXISTS deposit_id uuid REFERENCES public.booking_deposits(id) ON DELETE SET NULL;
+
+-- Create the 'scheduled_jobs' table, the registry of background jobs. Each job calls a function that returns the
+-- number of rows it processed, every interval_minutes while enabled (see run_due_jobs).
+CREATE TABLE IF NOT EXISTS public.scheduled_jobs (
+    name text PRIMARY KEY,
+    description text NOT NULL,
+    function_name text NOT NULL,
+    interval_minutes integer NOT NULL CHECK (interval_minutes > 0),
+    enabled boolean NOT NULL DEFAULT true,
+    next_run_at timestamptz NOT NULL DEFAULT now(),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+-- Re-running the script keeps each job's interval and enabled flag as configured.
+INSERT INTO public.scheduled_jobs (name, description, function_name, interval_minutes) VALUES
+  ('expire-holds', 'Cancels holds whose balance was not paid before the hold expired.', 'cleanup_expired_holds', 15),
+  ('expire-pending-payments', 'Cancels checkouts and extensions not paid before their deadline.', 'expire_pending_payments', 5),
+  ('complete-ended-bookings', 'Marks confirmed bookings whose rental period has ended as completed.', 'complete_ended_bookings', 15),
+  ('send-hold-expiry-reminders', 'Reminds customers to pay the balance of holds expiring within 6 hours.', 'send_hold_expiry_reminders', 15),
+  ('send-pickup-reminders', 'Reminds customers of pickups within the next 24 hours.', 'send_pickup_reminders', 15),
+  ('send-return-reminders', 'Reminds customers to return the car when their rental ends within 3 hours.', 'send_return_reminders', 15)
+ON CONFLICT (name) DO UPDATE SET description = excluded.description, function_name = excluded.function_name;
+
+-- Create the 'job_runs' table, the history of every scheduled or manual job run. Kept for 30 days.
+CREATE TABLE IF NOT EXISTS public.job_runs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_name text NOT NULL REFERENCES public.scheduled_jobs(name) ON DELETE CASCADE,
+    status text NOT NULL CHECK (status IN ('succeeded', 'failed', 'skipped')),
+    processed_count integer,
+    error text,
+    triggered_by uuid REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for scheduled runs.
+    started_at timestamptz NOT NULL,
+    finished_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS job_runs_job_name_idx ON public.job_runs (job_name, started_at DESC);
+
+-- Create the 'invoice_sequences' table. Invoice numbers are sequential, without gaps, per Indian financial year (April to March).
+CREATE TABLE IF NOT EXISTS public.invoice_sequences (
+    financial_year text PRIMARY KEY, -- e.g. '2026-27'
+    last_number integer NOT NULL DEFAULT 0
+);
+
+-- Create the 'invoices' table. Invoices are immutable snapshots: supplier, customer and amounts are copied at issue time,
+-- so they survive later edits to settings, profiles, cars or the booking itself.
+CREATE TABLE IF NOT EXISTS public.invoices (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_number text NOT NULL UNIQUE,
+    financial_year text NOT NULL,
+    booking_id uuid REFERENCES public.bookings(id) ON DELETE SET NULL,
+    extension_id uuid REFERENCES public.booking_extensions(id) ON DELETE SET NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    issued_at timestamptz NOT NULL DEFAULT now(),
+    supplier jsonb NOT NULL,
+    customer jsonb NOT NULL,
+    place_of_supply text NOT NULL,
+    place_of_supply_name text NOT NULL,
+    sac_code text NOT NULL,
+    line_items jsonb NOT NULL,
+    taxable_amount numeric(10, 2) NOT NULL,
+    cgst_percent numeric(5, 2) NOT NULL DEFAULT 0,
+    cgst_amount numeric(10, 2) NOT NULL DEFAULT 0,
+    sgst_percent numeric(5, 2) NOT NULL DEFAULT 0,
+    sgst_amount numeric(10, 2) NOT NULL DEFAULT 0,
+    igst_percent numeric(5, 2) NOT NULL DEFAULT 0,
+    igst_amount numeric(10, 2) NOT NULL DEFAULT 0,
+    total_tax numeric(10, 2) NOT NULL,
+    total_amount numeric(10, 2) NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+-- Set for the invoice of a paid post-rental settlement.
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS charge_id uuid REFERENCES public.booking_charges(id) ON DELETE SET NULL;
+-- One invoice per booking, one per paid extension and one per paid settlement.
+DROP INDEX IF EXISTS public.invoices_booking_id_key;
+CREATE UNIQUE INDEX invoices_booking_id_key ON public.invoices (booking_id) WHERE extension_id IS NULL AND charge_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_extension_id_key ON public.invoices (extension_id) WHERE extension_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_charge_id_key ON public.invoices (charge_id) WHERE charge_id IS NOT NULL;
+
 -- Add Full-Text Search (FTS) column for performance.
 ALTER TABLE public.cars ADD COLUMN IF NOT EXISTS fts tsvector 
 GENERATED ALWAYS AS (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(make, '') || ' ' || coalesce(model, ''))) STORED;
 CREATE INDEX IF NOT EXISTS cars_fts_idx ON public.cars USING gin(fts);
 CREATE INDEX IF NOT EXISTS cars_status_idx ON public.cars (status);
 
+-- Create the 'notifications' table for in-app messages to customers, such as hold expiry reminders.
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    booking_id uuid REFERENCES public.bookings(id) ON DELETE CASCADE,
+    type text NOT NULL,
+    title text NOT NULL,
+    message text NOT NULL,
+    read_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON public.notifications (user_id, created_at DESC);
+
 -- Create the 'licenses' table if it doesn't exist.
 CREATE TABLE IF NOT EXISTS public.licenses (
     id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -215,8 +927,40 @@ DROP TRIGGER IF EXISTS set_timestamp ON public.payments;
 CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.payments FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
 DROP TRIGGER IF EXISTS set_timestamp ON public.booking_extensions;
 CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.booking_extensions FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.scheduled_jobs;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.scheduled_jobs FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
 DROP TRIGGER IF EXISTS set_timestamp ON public.promo_codes;
 CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.promo_codes FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.booking_extras;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.booking_extras FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.pricing_settings;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.pricing_settings FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.turnaround_buffers;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.turnaround_buffers FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.usage_policies;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.usage_policies FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.pricing_rules;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.pricing_rules FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.payment_gateways;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.payment_gateways FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.refunds;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.refunds FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.cancellation_policy_tiers;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.cancellation_policy_tiers FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.tax_settings;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.tax_settings FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.gst_state_rates;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.gst_state_rates FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.branches;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.branches FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.delivery_zones;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.delivery_zones FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.booking_inspections;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.booking_inspections FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.booking_charges;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.booking_charges FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
+DROP TRIGGER IF EXISTS set_timestamp ON public.booking_deposits;
+CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.booking_deposits FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
 DROP TRIGGER IF EXISTS set_timestamp ON public.profiles;
 CREATE TRIGGER set_timestamp BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE PROCEDURE trigger_set_timestamp();
 
@@ -243,10 +987,12 @@ ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
 DROP POLICY IF EXISTS "Allow admins full access to user_roles" ON public.user_roles;
 CREATE POLICY "Allow admins full access to user_roles" ON public.user_roles FOR ALL USING (is_admin());
 
--- Bookings Table: Users manage their own, admins have full access.
+-- Bookings Table: Users can view their own, admins have full access. Customers create and change bookings only
+-- through the booking functions, so prices, dates, cars and terms cannot be written straight through the API.
 ALTER TABLE public.bookings ENABLE ROW LEVEL SECURITY;
 DROP POLICY IF EXISTS "Allow users to manage their own bookings" ON public.bookings;
-CREATE POLICY "Allow users to manage their own bookings" ON public.bookings FOR ALL USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow users to view their own bookings" ON public.bookings;
+CREATE POLICY "Allow users to view their own bookings" ON public.bookings FOR SELECT USING (auth.uid() = user_id);
 DROP POLICY IF EXISTS "Allow admins full access to bookings" ON public.bookings;
 CREATE POLICY "Allow admins full access to bookings" ON public.bookings FOR ALL USING (is_admin());
 
@@ -271,6 +1017,185 @@ CREATE POLICY "Allow authenticated users to read promo codes" ON public.promo_co
 DROP POLICY IF EXISTS "Allow admins to manage promo codes" ON public.promo_codes;
 CREATE POLICY "Allow admins to manage promo codes" ON public.promo_codes FOR ALL USING (is_admin());
 
+-- Booking Extras: Public can read active extras, admins have full access.
+ALTER TABLE public.booking_extras ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to active extras" ON public.booking_extras;
+CREATE POLICY "Allow public read access to active extras" ON public.booking_extras FOR SELECT USING (active = true);
+DROP POLICY IF EXISTS "Allow admins to manage extras" ON public.booking_extras;
+CREATE POLICY "Allow admins to manage extras" ON public.booking_extras FOR ALL USING (is_admin());
+
+-- Booking Quotes: Users can view their own, admins have full access. Quotes are only created through RPCs.
+ALTER TABLE public.booking_quotes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own quotes" ON public.booking_quotes;
+CREATE POLICY "Allow users to view their own quotes" ON public.booking_quotes FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow admins full access to quotes" ON public.booking_quotes;
+CREATE POLICY "Allow admins full access to quotes" ON public.booking_quotes FOR ALL USING (is_admin());
+
+-- Pricing Settings & Rules: Public can read (prices are shown to everyone), admins have full access.
+ALTER TABLE public.pricing_settings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to pricing settings" ON public.pricing_settings;
+CREATE POLICY "Allow public read access to pricing settings" ON public.pricing_settings FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow admins to manage pricing settings" ON public.pricing_settings;
+CREATE POLICY "Allow admins to manage pricing settings" ON public.pricing_settings FOR ALL USING (is_admin());
+ALTER TABLE public.pricing_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.turnaround_buffers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to turnaround buffers" ON public.turnaround_buffers;
+CREATE POLICY "Allow public read access to turnaround buffers" ON public.turnaround_buffers FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow admins to manage turnaround buffers" ON public.turnaround_buffers;
+CREATE POLICY "Allow admins to manage turnaround buffers" ON public.turnaround_buffers FOR ALL USING (is_admin());
+ALTER TABLE public.usage_policies ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to usage policies" ON public.usage_policies;
+CREATE POLICY "Allow public read access to usage policies" ON public.usage_policies FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow admins to manage usage policies" ON public.usage_policies;
+CREATE POLICY "Allow admins to manage usage policies" ON public.usage_policies FOR ALL USING (is_admin());
+DROP POLICY IF EXISTS "Allow public read access to active pricing rules" ON public.pricing_rules;
+CREATE POLICY "Allow public read access to active pricing rules" ON public.pricing_rules FOR SELECT USING (active = true);
+DROP POLICY IF EXISTS "Allow admins to manage pricing rules" ON public.pricing_rules;
+CREATE POLICY "Allow admins to manage pricing rules" ON public.pricing_rules FOR ALL USING (is_admin());
+
+-- Payment Gateway Secrets: No policies, so only security definer functions can read them.
+ALTER TABLE public.payment_gateway_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Payment Callbacks: Admins can review the callback log. Entries are only written by verify_and_update_payment.
+ALTER TABLE public.payment_callbacks ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admins to view payment callbacks" ON public.payment_callbacks;
+CREATE POLICY "Allow admins to view payment callbacks" ON public.payment_callbacks FOR SELECT USING (is_admin());
+
+-- Reservations are written only by triggers.
+ALTER TABLE public.car_reservations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admins to view car reservations" ON public.car_reservations;
+CREATE POLICY "Allow admins to view car reservations" ON public.car_reservations FOR SELECT USING (is_admin());
+
+-- Jobs are configured and run through the job functions; admins can view them and their history.
+ALTER TABLE public.scheduled_jobs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admins to view scheduled jobs" ON public.scheduled_jobs;
+CREATE POLICY "Allow admins to view scheduled jobs" ON public.scheduled_jobs FOR SELECT USING (is_admin());
+ALTER TABLE public.job_runs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admins to view job runs" ON public.job_runs;
+CREATE POLICY "Allow admins to view job runs" ON public.job_runs FOR SELECT USING (is_admin());
+
+ALTER TABLE public.booking_status_transitions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow authenticated users to read booking transitions" ON public.booking_status_transitions;
+CREATE POLICY "Allow authenticated users to read booking transitions" ON public.booking_status_transitions FOR SELECT TO authenticated USING (true);
+
+-- The status history is written only by triggers.
+ALTER TABLE public.booking_status_history ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own booking history" ON public.booking_status_history;
+CREATE POLICY "Allow users to view their own booking history" ON public.booking_status_history FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.user_id = auth.uid())
+);
+DROP POLICY IF EXISTS "Allow admins to view booking history" ON public.booking_status_history;
+CREATE POLICY "Allow admins to view booking history" ON public.booking_status_history FOR SELECT USING (is_admin());
+
+-- Admin actions and internal notes are for admins only; customers never see them.
+ALTER TABLE public.booking_admin_actions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admins to view booking admin actions" ON public.booking_admin_actions;
+CREATE POLICY "Allow admins to view booking admin actions" ON public.booking_admin_actions FOR SELECT USING (is_admin());
+
+ALTER TABLE public.car_maintenance_blocks ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admins to view maintenance blocks" ON public.car_maintenance_blocks;
+CREATE POLICY "Allow admins to view maintenance blocks" ON public.car_maintenance_blocks FOR SELECT USING (is_admin());
+
+-- Booking modifications and account credits are written only by the modification functions.
+ALTER TABLE public.booking_modifications ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own booking modifications" ON public.booking_modifications;
+CREATE POLICY "Allow users to view their own booking modifications" ON public.booking_modifications FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow admins to view booking modifications" ON public.booking_modifications;
+CREATE POLICY "Allow admins to view booking modifications" ON public.booking_modifications FOR SELECT USING (is_admin());
+ALTER TABLE public.account_credits ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own account credits" ON public.account_credits;
+CREATE POLICY "Allow users to view their own account credits" ON public.account_credits FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow admins to view account credits" ON public.account_credits;
+CREATE POLICY "Allow admins to view account credits" ON public.account_credits FOR SELECT USING (is_admin());
+
+-- Inspections and charges are written only by the inspection functions; customers see those of their own bookings.
+ALTER TABLE public.booking_inspections ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own booking inspections" ON public.booking_inspections;
+CREATE POLICY "Allow users to view their own booking inspections" ON public.booking_inspections FOR SELECT USING (
+  exists (select 1 from public.bookings b where b.id = booking_id and b.user_id = auth.uid())
+);
+DROP POLICY IF EXISTS "Allow admins to view booking inspections" ON public.booking_inspections;
+CREATE POLICY "Allow admins to view booking inspections" ON public.booking_inspections FOR SELECT USING (is_admin());
+ALTER TABLE public.booking_charges ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own booking charges" ON public.booking_charges;
+CREATE POLICY "Allow users to view their own booking charges" ON public.booking_charges FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow admins to view booking charges" ON public.booking_charges;
+CREATE POLICY "Allow admins to view booking charges" ON public.booking_charges FOR SELECT USING (is_admin());
+
+-- Deposits are written only by the payment, cancellation and deposit settlement functions.
+ALTER TABLE public.booking_deposits ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own booking deposits" ON public.booking_deposits;
+CREATE POLICY "Allow users to view their own booking deposits" ON public.booking_deposits FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow admins to view booking deposits" ON public.booking_deposits;
+CREATE POLICY "Allow admins to view booking deposits" ON public.booking_deposits FOR SELECT USING (is_admin());
+
+-- Payment Gateways: Public can read (checkout lists the enabled gateways), admins have full access.
+ALTER TABLE public.payment_gateways ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to payment gateways" ON public.payment_gateways;
+CREATE POLICY "Allow public read access to payment gateways" ON public.payment_gateways FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow admins to manage payment gateways" ON public.payment_gateways;
+CREATE POLICY "Allow admins to manage payment gateways" ON public.payment_gateways FOR ALL USING (is_admin());
+
+-- Notifications: Users can view their own notifications and mark them as read. They are created by server functions.
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own notifications" ON public.notifications;
+CREATE POLICY "Allow users to view their own notifications" ON public.notifications FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow users to mark their own notifications as read" ON public.notifications;
+CREATE POLICY "Allow users to mark their own notifications as read" ON public.notifications FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow admins full access to notifications" ON public.notifications;
+CREATE POLICY "Allow admins full access to notifications" ON public.notifications FOR ALL USING (is_admin());
+
+-- Refunds: Users can view refunds of their own payments, admins have full access.
+-- Refunds are only created and updated through the refund functions.
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own refunds" ON public.refunds;
+CREATE POLICY "Allow users to view their own refunds" ON public.refunds FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow admins full access to refunds" ON public.refunds;
+CREATE POLICY "Allow admins full access to refunds" ON public.refunds FOR ALL USING (is_admin());
+
+-- Cancellation Policy: Public can read (it is shown before booking and cancelling), admins have full access.
+ALTER TABLE public.cancellation_policy_tiers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to cancellation policy" ON public.cancellation_policy_tiers;
+CREATE POLICY "Allow public read access to cancellation policy" ON public.cancellation_policy_tiers FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow admins to manage cancellation policy" ON public.cancellation_policy_tiers;
+CREATE POLICY "Allow admins to manage cancellation policy" ON public.cancellation_policy_tiers FOR ALL USING (is_admin());
+
+-- Tax Settings & GST Rates: Public can read (taxes are shown on every price), admins have full access.
+ALTER TABLE public.tax_settings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to tax settings" ON public.tax_settings;
+CREATE POLICY "Allow public read access to tax settings" ON public.tax_settings FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow admins to manage tax settings" ON public.tax_settings;
+CREATE POLICY "Allow admins to manage tax settings" ON public.tax_settings FOR ALL USING (is_admin());
+ALTER TABLE public.gst_state_rates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to GST rates" ON public.gst_state_rates;
+CREATE POLICY "Allow public read access to GST rates" ON public.gst_state_rates FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Allow admins to manage GST rates" ON public.gst_state_rates;
+CREATE POLICY "Allow admins to manage GST rates" ON public.gst_state_rates FOR ALL USING (is_admin());
+
+-- Branches: Public can read active branches (chosen when searching and booking), admins have full access.
+ALTER TABLE public.branches ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to active branches" ON public.branches;
+CREATE POLICY "Allow public read access to active branches" ON public.branches FOR SELECT USING (active = true);
+DROP POLICY IF EXISTS "Allow admins to manage branches" ON public.branches;
+CREATE POLICY "Allow admins to manage branches" ON public.branches FOR ALL USING (is_admin());
+
+-- Delivery Zones: Public can read active zones (offered when booking), admins have full access.
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access to active delivery zones" ON public.delivery_zones;
+CREATE POLICY "Allow public read access to active delivery zones" ON public.delivery_zones FOR SELECT USING (active = true);
+DROP POLICY IF EXISTS "Allow admins to manage delivery zones" ON public.delivery_zones;
+CREATE POLICY "Allow admins to manage delivery zones" ON public.delivery_zones FOR ALL USING (is_admin());
+
+-- Invoices: Users can view their own, admins can view all. Invoices are only issued by database triggers and never edited.
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow users to view their own invoices" ON public.invoices;
+CREATE POLICY "Allow users to view their own invoices" ON public.invoices FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Allow admins to view all invoices" ON public.invoices;
+CREATE POLICY "Allow admins to view all invoices" ON public.invoices FOR SELECT USING (is_admin());
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow admins to view invoice sequences" ON public.invoice_sequences;
+CREATE POLICY "Allow admins to view invoice sequences" ON public.invoice_sequences FOR SELECT USING (is_admin());
+
 -- === STORAGE SETUP & POLICIES ===
 
 -- Car Photos Bucket (Public)
@@ -292,6 +1217,20 @@ CREATE POLICY "Allow users to view their own licenses" ON storage.objects FOR SE
 DROP POLICY IF EXISTS "Allow admins to view all licenses" ON storage.objects;
 CREATE POLICY "Allow admins to view all licenses" ON storage.objects FOR SELECT TO authenticated USING (bucket_id = 'license-uploads' AND is_admin());
 
+-- Inspection Photos Bucket (Private). Photos are stored under the booking's ID; staff upload them, and customers can
+-- view the photos of their own bookings.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('inspection-photos', 'inspection-photos', false, 10485760, ARRAY['image/png', 'image/jpeg', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+DROP POLICY IF EXISTS "Allow admins to manage inspection photos" ON storage.objects;
+CREATE POLICY "Allow admins to manage inspection photos" ON storage.objects FOR ALL TO authenticated USING (bucket_id = 'inspection-photos' AND is_admin()) WITH CHECK (bucket_id = 'inspection-photos' AND is_admin());
+DROP POLICY IF EXISTS "Allow users to view their own inspection photos" ON storage.objects;
+CREATE POLICY "Allow users to view their own inspection photos" ON storage.objects FOR SELECT TO authenticated USING (
+  bucket_id = 'inspection-photos' AND exists (
+    select 1 from public.bookings b where b.id::text = (storage.foldername(name))[1] and b.user_id = auth.uid()
+  )
+);
+
 -- === RPC FUNCTIONS (Backend Logic) ===
 
 create or replace function get_dashboard_stats()
@@ -304,6 +1243,8 @@ declare
   total_cars_count int;
   active_bookings_count int;
   total_users_count int;
+  abandoned_checkouts_count int;
+  deposits_to_settle_count int;
 begin
   if not is_admin() then
     raise exception 'Admin privileges required';
@@ -315,10 +1256,19 @@ begin
   
   select count(*) into total_users_count from auth.users;
 
+  select count(*) into abandoned_checkouts_count from public.bookings
+  where checkout_abandoned_at is not null and abandoned_followed_up_at is null;
+
+  select count(*) into deposits_to_settle_count from public.booking_deposits d
+  join public.bookings b on b.id = d.booking_id
+  where d.status in ('collected', 'held') and (b.returned_at is not null or b.status = 'cancelled');
+
   return json_build_object(
     'total_cars', total_cars_count,
     'active_bookings', active_bookings_count,
-    'total_users', total_users_count
+    'total_users', total_users_count,
+    'abandoned_checkouts', abandoned_checkouts_count,
+    'deposits_to_settle', deposits_to_settle_count
   );
 end;
 $$;
@@ -409,6 +1359,143 @@ begin
 end;
 $$;
 
+-- Redemptions of a promo code: completed ones plus those reserved by checkouts still in progress.
+-- Abandoned checkouts stop counting once their payment deadline passes.
+create or replace function promo_code_uses(p_promo_code_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.times_used + (
+    select count(*)::integer from public.bookings b
+    where b.promo_code_id = p.id and b.status = 'pending_payment' and b.payment_expires_at > now()
+  )
+  from public.promo_codes p
+  where p.id = p_promo_code_id;
+$$;
+
+-- The time a car needs between rentals: its own turnaround_minutes, else its category's buffer.
+create or replace function car_turnaround(p_car_id uuid)
+returns interval
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(c.turnaround_minutes, tb.turnaround_minutes, 0) * interval '1 minute'
+  from public.cars c
+  left join public.turnaround_buffers tb on tb.category = c.category
+  where c.id = p_car_id;
+$$;
+
+-- The mileage allowance, fuel policy and security deposit a car is rented on: its own allowance, excess-km rate and
+-- deposit, else its category's (see usage_policies). Also readable as a column of cars through the API, e.g. select=id,usage_terms.
+create or replace function usage_terms(p_car public.cars)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'kmPerDay', coalesce(p_car.km_per_day_allowance, up.km_per_day),
+    'excessKmRate', coalesce(p_car.excess_km_rate, up.excess_km_rate, 0),
+    'fuelPolicy', coalesce(up.fuel_policy, 'included'),
+    'refuelRatePerPercent', coalesce(up.refuel_rate_per_percent, 0),
+    'refuelServiceFee', coalesce(up.refuel_service_fee, 0),
+    'depositAmount', coalesce(p_car.deposit_amount, up.deposit_amount, 0)
+  )
+  from (select 1) as one
+  left join public.usage_policies up on up.category = p_car.category;
+$$;
+
+-- The periods a car is rented or blocked for maintenance: held or confirmed bookings, completed bookings whose car is
+-- not back yet or whose turnaround buffer is still running, checkouts, extensions and booking modifications still
+-- awaiting payment, and maintenance blocks. Lapsed holds and checkouts are left out even before the sweeps cancel them.
+create or replace function car_busy_periods(p_car_id uuid, p_exclude_booking_id uuid default null)
+returns table (starts_at timestamptz, ends_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select b.start_datetime, b.end_datetime
+  from public.bookings b
+  where
+    b.car_id = p_car_id and
+    b.id is distinct from p_exclude_booking_id and
+    (b.status = 'confirmed' or (b.status = 'hold' and b.hold_expires_at > now()) or (b.status = 'pending_payment' and b.payment_expires_at > now())
+      or (b.status = 'completed' and (b.returned_at is null or b.end_datetime + coalesce(car_turnaround(b.car_id), interval '0') > now())))
+  union all
+  select be.requested_end - be.added_hours * interval '1 hour', be.requested_end
+  from public.booking_extensions be
+  join public.bookings b on b.id = be.booking_id
+  where
+    b.car_id = p_car_id and
+    b.id is distinct from p_exclude_booking_id and
+    be.payment_status = 'pending' and be.payment_expires_at > now()
+  union all
+  select bm.new_start_datetime, bm.new_end_datetime
+  from public.booking_modifications bm
+  where
+    bm.new_car_id = p_car_id and
+    bm.booking_id is distinct from p_exclude_booking_id and
+    bm.status = 'pending' and bm.payment_expires_at > now()
+  union all
+  select mb.starts_at, mb.ends_at
+  from public.car_maintenance_blocks mb
+  where mb.car_id = p_car_id;
+$$;
+
+-- Checks whether a car is free for a rental, allowing for its turnaround buffer after every other rental and after
+-- this one. Used for search and the booking form; the bookings themselves are guarded by car_reservations.
+-- reason is 'booked' when another rental overlaps the period, or 'turnaround' when only the buffer is in the way,
+-- in which case availableFrom is the earliest possible pickup or availableUntil the latest possible return.
+-- p_exclude_booking_id leaves a booking's own rental out, e.g. when checking its extension.
+create or replace function check_car_availability(
+  p_car_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_exclude_booking_id uuid default null
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  buffer interval := coalesce(car_turnaround(p_car_id), interval '0');
+  available_from timestamptz;
+  available_until timestamptz;
+begin
+  if exists (
+    select 1 from car_busy_periods(p_car_id, p_exclude_booking_id) busy
+    where tstzrange(busy.starts_at, busy.ends_at) && tstzrange(p_start, p_end)
+  ) then
+    return jsonb_build_object('available', false, 'reason', 'booked', 'turnaroundMinutes', (extract(epoch from buffer) / 60)::integer);
+  end if;
+
+  select max(busy.ends_at + buffer) into available_from
+  from car_busy_periods(p_car_id, p_exclude_booking_id) busy
+  where busy.ends_at <= p_start and busy.ends_at + buffer > p_start;
+
+  select min(busy.starts_at - buffer) into available_until
+  from car_busy_periods(p_car_id, p_exclude_booking_id) busy
+  where busy.starts_at >= p_end and busy.starts_at < p_end + buffer;
+
+  return jsonb_build_object(
+    'available', available_from is null and available_until is null,
+    'reason', case when available_from is not null or available_until is not null then 'turnaround' end,
+    'turnaroundMinutes', (extract(epoch from buffer) / 60)::integer,
+    'availableFrom', available_from,
+    'availableUntil', available_until
+  );
+end;
+$$;
+
 create or replace function get_available_cars(start_ts timestamptz, end_ts timestamptz)
 returns setof uuid
 language sql
@@ -416,14 +1503,7 @@ security definer
 set search_path = public
 as $$
   select id from public.cars
-  where not exists (
-    select 1
-    from public.bookings b
-    where
-      b.car_id = public.cars.id and
-      (b.status = 'confirmed' or (b.status = 'hold' and b.hold_expires_at > now())) and
-      tstzrange(b.start_datetime, b.end_datetime) && tstzrange(start_ts, end_ts)
-  );
+  where (check_car_availability(id, start_ts, end_ts)->>'available')::boolean;
 $$;
 
 create or replace function validate_promo_code(p_code text)
@@ -459,7 +1539,7 @@ begin
     result := jsonb_build_object('valid', false, 'message', 'This promo code is not yet valid.');
   elsif promo_record.valid_to is not null and promo_record.valid_to < now() then
     result := jsonb_build_object('valid', false, 'message', 'This promo code has expired.');
-  elsif promo_record.usage_limit > 0 and promo_record.times_used >= promo_record.usage_limit then
+  elsif promo_record.usage_limit > 0 and promo_code_uses(promo_record.id) >= promo_record.usage_limit then
     result := jsonb_build_object('valid', false, 'message', 'This promo code has reached its usage limit.');
   else
     -- All checks passed, the code is valid.
@@ -476,259 +1556,537 @@ begin
 end;
 $$;
 
-create or replace function create_booking_and_payment(
-  p_car_id uuid,
-  p_user_id uuid,
-  p_start_datetime timestamptz,
-  p_end_datetime timestamptz,
-  p_subtotal_amount numeric,
-  p_payment_amount numeric,
-  p_payment_method text,
-  p_promo_code_id uuid default null
+-- Computes the GST on an amount for a place of supply (GST state code; defaults to the default pickup state).
+-- With p_tax_inclusive, p_amount is treated as the final amount charged and the taxable value is derived from it.
+create or replace function calculate_gst(
+  p_amount numeric,
+  p_place_of_supply text default null,
+  p_tax_inclusive boolean default false
 )
-returns json
+returns jsonb
 language plpgsql
 security definer
 set search_path = public
 as $$
 declare
-  is_available boolean;
-  new_booking_id uuid;
-  new_payment_id uuid;
-  final_discount_amount numeric := 0;
-  final_total_amount numeric;
-  promo_record record;
-  total_after_discount numeric;
-  service_charge numeric;
+  settings public.tax_settings;
+  rate_record public.gst_state_rates;
+  place_of_supply text;
+  cgst_percent numeric := 0;
+  sgst_percent numeric := 0;
+  igst_percent numeric := 0;
+  taxable_amount numeric;
+  cgst_amount numeric;
+  sgst_amount numeric;
+  igst_amount numeric;
 begin
-  if p_promo_code_id is not null then
-    select * into promo_record from public.promo_codes 
-    where id = p_promo_code_id and active = true
-      and (valid_from is null or valid_from <= now())
-      and (valid_to is null or valid_to >= now())
-      and (usage_limit = 0 or times_used < usage_limit)
-    for update; 
+  select * into settings from public.tax_settings limit 1;
+  if not found then raise exception 'Tax is not configured. Please run the setup script.'; end if;
 
-    if promo_record is null then
-      raise exception 'Promo code is no longer valid. Please remove it and try again.';
-    end if;
+  place_of_supply := coalesce(p_place_of_supply, settings.default_pickup_state_code);
+  select * into rate_record from public.gst_state_rates where state_code = place_of_supply;
+  if not found then raise exception 'GST rates are not configured for state code %.', place_of_supply; end if;
 
-    if promo_record.discount_flat is not null then
-      final_discount_amount := promo_record.discount_flat;
-    elsif promo_record.discount_percent is not null then
-      final_discount_amount := p_subtotal_amount * (promo_record.discount_percent / 100.0);
-    end if;
-    
-    if final_discount_amount > p_subtotal_amount then
-       final_discount_amount := p_subtotal_amount;
-    end if;
+  if place_of_supply = settings.state_code then
+    cgst_percent := rate_record.cgst_percent;
+    sgst_percent := rate_record.sgst_percent;
+  else
+    igst_percent := rate_record.igst_percent;
   end if;
-  
-  -- Correctly calculate the final total amount, including service charge, to match the frontend calculation.
-  total_after_discount := p_subtotal_amount - final_discount_amount;
-  service_charge := total_after_discount * 0.05;
-  final_total_amount := total_after_discount + service_charge;
 
-  select not exists (
-    select 1
-    from public.bookings b
-    where
-      b.car_id = p_car_id and
-      (b.status = 'confirmed' or (b.status = 'hold' and b.hold_expires_at > now())) and
-      tstzrange(b.start_datetime, b.end_datetime) && tstzrange(p_start_datetime, p_end_datetime)
-    for update
-  ) into is_available;
-
-  if not is_available then
-    raise exception 'Car is not available for the selected time range.';
+  if p_tax_inclusive then
+    taxable_amount := p_amount / (1 + (cgst_percent + sgst_percent + igst_percent) / 100.0);
+  else
+    taxable_amount := p_amount;
   end if;
 
-  insert into public.bookings (car_id, user_id, start_datetime, end_datetime, total_amount, status, promo_code_id, discount_amount)
-  values (p_car_id, p_user_id, p_start_datetime, p_end_datetime, final_total_amount, 'pending_payment', p_promo_code_id, final_discount_amount)
-  returning id into new_booking_id;
+  cgst_amount := round(taxable_amount * cgst_percent / 100.0, 2);
+  sgst_amount := round(taxable_amount * sgst_percent / 100.0, 2);
+  igst_amount := round(taxable_amount * igst_percent / 100.0, 2);
 
-  insert into public.payments (booking_id, user_id, amount, method, status)
-  values (new_booking_id, p_user_id, p_payment_amount, p_payment_method, 'pending')
-  returning id into new_payment_id;
+  -- For inclusive amounts, absorb rounding into the taxable value so the invoice adds up to exactly what was charged.
+  if p_tax_inclusive then
+    taxable_amount := round(p_amount, 2) - cgst_amount - sgst_amount - igst_amount;
+  else
+    taxable_amount := round(taxable_amount, 2);
+  end if;
 
-  return json_build_object('bookingId', new_booking_id, 'paymentId', new_payment_id);
+  return jsonb_build_object(
+    'placeOfSupply', place_of_supply,
+    'placeOfSupplyName', rate_record.state_name,
+    'sacCode', coalesce(rate_record.sac_code, settings.sac_code),
+    'taxableAmount', taxable_amount,
+    'cgstPercent', cgst_percent,
+    'cgstAmount', cgst_amount,
+    'sgstPercent', sgst_percent,
+    'sgstAmount', sgst_amount,
+    'igstPercent', igst_percent,
+    'igstAmount', igst_amount,
+    'taxAmount', cgst_amount + sgst_amount + igst_amount
+  );
 end;
 $$;
 
-create or replace function verify_and_update_payment(
-  p_payment_id uuid,
-  p_gateway_txn_id text,
-  p_status text
+-- The single pricing evaluator. Every price shown to or charged from a customer comes from here:
+-- calculateBookingPrice in lib/bookingUtils.ts calls it directly, and the quote, booking and extension RPCs build on it.
+-- Car and extra prices, pricing settings and pricing rules are all read from the database.
+-- p_enforce_promo_validity is false when repricing an existing booking, whose promo was validated when it was redeemed.
+-- The pickup branch defaults to the car's own and the return branch to the pickup branch; returning to another
+-- branch adds the one-way fee. GST is charged for the pickup branch's state.
+-- Doorstep delivery and collection are priced by the chosen zones around the pickup and return branches.
+DROP FUNCTION IF EXISTS calculate_booking_price(uuid, timestamptz, timestamptz, text[], uuid);
+DROP FUNCTION IF EXISTS calculate_booking_price(uuid, timestamptz, timestamptz, text[], uuid, boolean);
+DROP FUNCTION IF EXISTS calculate_booking_price(uuid, timestamptz, timestamptz, text[], uuid, boolean, uuid, uuid);
+create or replace function calculate_booking_price(
+  p_car_id uuid,
+  p_start_datetime timestamptz,
+  p_end_datetime timestamptz,
+  p_extras text[] default '{}',
+  p_promo_code_id uuid default null,
+  p_enforce_promo_validity boolean default true,
+  p_pickup_branch_id uuid default null,
+  p_return_branch_id uuid default null,
+  p_delivery_zone_id uuid default null,
+  p_collection_zone_id uuid default null
 )
-returns boolean
+returns jsonb
 language plpgsql
 security definer
 set search_path = public
 as $$
 declare
-  payment_record public.payments;
-  booking_record public.bookings;
-  extension_record public.booking_extensions;
-  new_booking_status booking_status_enum;
-  new_hold_expires_at timestamptz;
+  car_record public.cars;
+  settings public.pricing_settings;
+  pickup_branch public.branches;
+  return_branch_id uuid;
+  rule_record public.pricing_rules;
+  promo_record record;
+  unit_interval interval;
+  diff_hours numeric;
+  billing_units int;
+  billing_days numeric;
+  unit_price numeric;
+  base_rental_price numeric;
+  matching_units int;
+  rule_amount numeric;
+  applied_rules jsonb := '[]'::jsonb;
+  rules_total numeric := 0;
+  selected_extras jsonb;
+  selected_extras_count int;
+  selected_extras_price numeric;
+  one_way_fee numeric := 0;
+  delivery_fee numeric := 0;
+  collection_fee numeric := 0;
+  subtotal numeric;
+  discount_amount numeric := 0;
+  total_after_discount numeric;
+  service_charge numeric;
+  tax_details jsonb;
+  total_amount numeric;
 begin
-  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+  select * into car_record from public.cars where id = p_car_id;
+  if not found then raise exception 'Car not found.'; end if;
 
-  select * into payment_record from public.payments where id = p_payment_id;
-  if payment_record is null then raise exception 'Payment not found.'; end if;
-  if payment_record.user_id != auth.uid() and not is_admin() then raise exception 'Authorization failed.'; end if;
-  if payment_record.status != 'pending' then return true; end if;
+  select * into settings from public.pricing_settings limit 1;
+  if not found then raise exception 'Pricing is not configured. Please run the setup script.'; end if;
 
-  if p_status = 'success' then
-    update public.payments set status = 'success', gateway_txn_id = p_gateway_txn_id where id = p_payment_id;
-    
-    select * into booking_record from public.bookings where id = payment_record.booking_id;
-    if booking_record.promo_code_id is not null and payment_record.extension_id is null then
-      update public.promo_codes 
-      set 
-        times_used = times_used + 1,
-        last_used_at = now()
-      where id = booking_record.promo_code_id;
+  if p_end_datetime <= p_start_datetime then
+    raise exception 'Return date and time must be after pickup date and time.';
+  end if;
+
+  select * into pickup_branch from public.branches where id = coalesce(p_pickup_branch_id, car_record.branch_id);
+  if not found then raise exception 'Pickup branch not found.'; end if;
+  return_branch_id := coalesce(p_return_branch_id, pickup_branch.id);
+  if return_branch_id != pickup_branch.id then
+    if not exists (select 1 from public.branches where id = return_branch_id) then raise exception 'Return branch not found.'; end if;
+    one_way_fee := settings.one_way_fee;
+  end if;
+
+  if p_delivery_zone_id is not null then
+    select z.fee into delivery_fee from public.delivery_zones z where z.id = p_delivery_zone_id and z.branch_id = pickup_branch.id;
+    if not found then raise exception 'Delivery is not offered to the selected zone.'; end if;
+  end if;
+  if p_collection_zone_id is not null then
+    select z.fee into collection_fee from public.delivery_zones z where z.id = p_collection_zone_id and z.branch_id = return_branch_id;
+    if not found then raise exception 'Collection is not offered from the selected zone.'; end if;
+  end if;
+
+  diff_hours := extract(epoch from (p_end_datetime - p_start_datetime)) / 3600.0;
+  if diff_hours < settings.billing_unit_hours then
+    raise exception 'Minimum booking duration is % hours.', settings.billing_unit_hours;
+  end if;
+
+  -- Bill in whole billing units, expressed as (fractional) days.
+  unit_interval := make_interval(hours => settings.billing_unit_hours);
+  billing_units := ceil(diff_hours / settings.billing_unit_hours);
+  billing_days := billing_units * settings.billing_unit_hours / 24.0;
+  unit_price := car_record.price_per_day * settings.billing_unit_hours / 24.0;
+  base_rental_price := unit_price * billing_units;
+
+  -- Calendar rules (weekend, date_range) apply per billing unit, based on the local date the unit starts on.
+  for rule_record in
+    select * from public.pricing_rules r
+    where r.active = true
+      and r.rule_type in ('weekend', 'date_range')
+      and (r.car_category is null or r.car_category = car_record.category)
+    order by r.priority, r.created_at
+  loop
+    select count(*) into matching_units
+    from generate_series(0, billing_units - 1) as g(i)
+    where (
+      rule_record.rule_type = 'weekend' and
+      extract(dow from (p_start_datetime + g.i * unit_interval) at time zone settings.timezone)::int = any(rule_record.days_of_week)
+    ) or (
+      rule_record.rule_type = 'date_range' and
+      ((p_start_datetime + g.i * unit_interval) at time zone settings.timezone)::date between rule_record.start_date and rule_record.end_date
+    );
+
+    if matching_units > 0 then
+      rule_amount := round(unit_price * matching_units * rule_record.adjustment_percent / 100.0, 2);
+      rules_total := rules_total + rule_amount;
+      applied_rules := applied_rules || jsonb_build_object('ruleId', rule_record.id, 'name', rule_record.name, 'ruleType', rule_record.rule_type, 'amount', rule_amount);
     end if;
+  end loop;
 
-    if payment_record.extension_id is not null then
-      update public.booking_extensions set payment_status = 'success' where id = payment_record.extension_id returning * into extension_record;
-      update public.bookings set end_datetime = extension_record.requested_end where id = extension_record.booking_id;
-    else
-      if abs(payment_record.amount - (booking_record.total_amount * 0.10)) < 0.01 then
-        new_booking_status := 'hold';
-        new_hold_expires_at := now() + interval '24 hours';
-      else
-        new_booking_status := 'confirmed';
-        new_hold_expires_at := null;
-      end if;
-      update public.bookings set status = new_booking_status, hold_expires_at = new_hold_expires_at where id = payment_record.booking_id;
+  -- Only the longest duration tier the rental qualifies for applies.
+  select * into rule_record from public.pricing_rules r
+  where r.active = true
+    and r.rule_type = 'duration_tier'
+    and r.min_days <= billing_days
+    and (r.car_category is null or r.car_category = car_record.category)
+  order by r.min_days desc, r.priority
+  limit 1;
+
+  if found then
+    rule_amount := round(base_rental_price * rule_record.adjustment_percent / 100.0, 2);
+    rules_total := rules_total + rule_amount;
+    applied_rules := applied_rules || jsonb_build_object('ruleId', rule_record.id, 'name', rule_record.name, 'ruleType', rule_record.rule_type, 'amount', rule_amount);
+  end if;
+
+  for rule_record in
+    select * from public.pricing_rules r
+    where r.active = true
+      and r.rule_type = 'car_category'
+      and r.car_category = car_record.category
+    order by r.priority, r.created_at
+  loop
+    rule_amount := round(base_rental_price * rule_record.adjustment_percent / 100.0, 2);
+    rules_total := rules_total + rule_amount;
+    applied_rules := applied_rules || jsonb_build_object('ruleId', rule_record.id, 'name', rule_record.name, 'ruleType', rule_record.rule_type, 'amount', rule_amount);
+  end loop;
+
+  -- Adjustments can at most cancel out the base rental, never make it negative.
+  rules_total := greatest(rules_total, -base_rental_price);
+
+  select
+    coalesce(jsonb_agg(jsonb_build_object('name', e.name, 'pricePerDay', e.price_per_day) order by e.sort_order), '[]'::jsonb),
+    count(*),
+    coalesce(sum(e.price_per_day), 0) * billing_days
+  into selected_extras, selected_extras_count, selected_extras_price
+  from public.booking_extras e
+  where e.active = true and e.name = any(coalesce(p_extras, '{}'));
+
+  if selected_extras_count < coalesce(array_length(p_extras, 1), 0) then
+    raise exception 'One or more selected extras are no longer available.';
+  end if;
+
+  subtotal := base_rental_price + rules_total + selected_extras_price + one_way_fee + delivery_fee + collection_fee;
+
+  if p_promo_code_id is not null then
+    select * into promo_record from public.promo_codes
+    where id = p_promo_code_id
+      and (not p_enforce_promo_validity or (
+        active = true
+        and (valid_from is null or valid_from <= now())
+        and (valid_to is null or valid_to >= now())
+        and (usage_limit = 0 or promo_code_uses(id) < usage_limit)
+      ));
+
+    if not found then
+      raise exception 'Promo code is no longer valid. Please remove it and try again.';
     end if;
 
-  else 
-    update public.payments set status = 'failed', gateway_txn_id = p_gateway_txn_id where id = p_payment_id;
-    if payment_record.extension_id is not null then
-      update public.booking_extensions set payment_status = 'failed' where id = payment_record.extension_id;
-    else
-      update public.bookings set status = 'cancelled' where id = payment_record.booking_id;
+    if promo_record.discount_flat is not null then
+      discount_amount := promo_record.discount_flat;
+    elsif promo_record.discount_percent is not null then
+      discount_amount := subtotal * (promo_record.discount_percent / 100.0);
     end if;
+    discount_amount := least(discount_amount, subtotal);
   end if;
-  
-  return true;
+
+  total_after_discount := subtotal - discount_amount;
+  service_charge := total_after_discount * settings.service_charge_percent / 100.0;
+  -- GST applies to the discounted rental plus the service charge.
+  tax_details := calculate_gst(round(total_after_discount + service_charge, 2), pickup_branch.state_code);
+  total_amount := (tax_details->>'taxableAmount')::numeric + (tax_details->>'taxAmount')::numeric;
+
+  return jsonb_build_object(
+    'billingDays', billing_days,
+    'baseRentalPrice', round(base_rental_price, 2),
+    'appliedRules', applied_rules,
+    'selectedExtrasPrice', round(selected_extras_price, 2),
+    'extras', selected_extras,
+    'pickupBranchId', pickup_branch.id,
+    'returnBranchId', return_branch_id,
+    'oneWayFee', one_way_fee,
+    'deliveryFee', delivery_fee,
+    'collectionFee', collection_fee,
+    'subtotal', round(subtotal, 2),
+    'discountAmount', round(discount_amount, 2),
+    'totalAfterDiscount', round(total_after_discount, 2),
+    'serviceChargePercent', settings.service_charge_percent,
+    'serviceCharge', round(service_charge, 2),
+    'tax', tax_details,
+    'totalAmount', round(total_amount, 2),
+    'advancePercent', settings.advance_percent,
+    'advanceAmount', round(total_amount * settings.advance_percent / 100.0, 2),
+    -- Collected with the booking payment on top of the total, and refunded after the return (see booking_deposits).
+    'depositAmount', (usage_terms(car_record)->>'depositAmount')::numeric
+  );
+end;
+$$;
+
+-- Prices extending a booking by p_added_hours as the difference between the whole rental with and without the
+-- extension, so an extended booking always costs the same as booking the longer period up front.
+-- The booking's extras and promo code carry over. Returns the extension's itemized price in the same shape as
+-- calculate_booking_price, with GST computed on the extension's own taxable value.
+create or replace function calculate_extension_price(p_booking_id uuid, p_added_hours integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  settings public.pricing_settings;
+  booking_extras text[];
+  new_end_datetime timestamptz;
+  current_price jsonb;
+  extended_price jsonb;
+  applied_rules jsonb;
+  taxable_amount numeric;
+  tax_details jsonb;
+begin
+  select * into booking_record from public.bookings where id = p_booking_id;
+  if not found or (booking_record.user_id != auth.uid() and not is_admin()) then
+    raise exception 'Booking not found or you do not have permission to extend it.';
+  end if;
+
+  select * into settings from public.pricing_settings limit 1;
+  if not found then raise exception 'Pricing is not configured. Please run the setup script.'; end if;
+
+  if p_added_hours is null or p_added_hours <= 0 or p_added_hours % settings.billing_unit_hours != 0 then
+    raise exception 'Extensions must be a multiple of % hours.', settings.billing_unit_hours;
+  end if;
+
+  new_end_datetime := booking_record.end_datetime + (p_added_hours * interval '1 hour');
+  -- The car is returned later, so the new return must still fall within the return branch's opening hours.
+  perform assert_branch_open(
+    coalesce(booking_record.return_branch_id, booking_record.pickup_branch_id, (select branch_id from public.cars where id = booking_record.car_id)),
+    new_end_datetime,
+    'Return'
+  );
+
+  -- Carry over the extras from the booking that are still offered.
+  select coalesce(array_agg(e.name), '{}') into booking_extras
+  from jsonb_array_elements(booking_record.extras) as x
+  join public.booking_extras e on e.name = x->>'name' and e.active = true;
+
+  current_price := calculate_booking_price(
+    booking_record.car_id, booking_record.start_datetime, booking_record.end_datetime, booking_extras,
+    booking_record.promo_code_id, false, booking_record.pickup_branch_id, booking_record.return_branch_id,
+    booking_record.delivery_zone_id, booking_record.collection_zone_id
+  );
+  extended_price := calculate_booking_price(
+    booking_record.car_id, booking_record.start_datetime, new_end_datetime, booking_extras,
+    booking_record.promo_code_id, false, booking_record.pickup_branch_id, booking_record.return_branch_id,
+    booking_record.delivery_zone_id, booking_record.collection_zone_id
+  );
+
+  -- Each rule's share of the extension is its amount over the extended rental less its amount over the current one.
+  select coalesce(jsonb_agg(jsonb_build_object('ruleId', d.rule_id, 'name', d.name, 'ruleType', d.rule_type, 'amount', d.amount) order by d.position), '[]'::jsonb)
+  into applied_rules
+  from (
+    select rule->>'ruleId' as rule_id, rule->>'name' as name, rule->>'ruleType' as rule_type,
+      sum(sign * (rule->>'amount')::numeric) as amount, min(position) as position
+    from (
+      select e.rule, e.position, 1 as sign from jsonb_array_elements(extended_price->'appliedRules') with ordinality as e(rule, position)
+      union all
+      select c.rule, c.position, -1 as sign from jsonb_array_elements(current_price->'appliedRules') with ordinality as c(rule, position)
+    ) as rules
+    group by 1, 2, 3
+    having sum(sign * (rule->>'amount')::numeric) != 0
+  ) as d;
+
+  -- Rules such as long rental discounts can make the extended rental barely more expensive; never charge less than zero.
+  taxable_amount := greatest((extended_price->'tax'->>'taxableAmount')::numeric - (current_price->'tax'->>'taxableAmount')::numeric, 0);
+  tax_details := calculate_gst(taxable_amount, extended_price->'tax'->>'placeOfSupply');
+
+  return jsonb_build_object(
+    'billingDays', (extended_price->>'billingDays')::numeric - (current_price->>'billingDays')::numeric,
+    'baseRentalPrice', (extended_price->>'baseRentalPrice')::numeric - (current_price->>'baseRentalPrice')::numeric,
+    'appliedRules', applied_rules,
+    'selectedExtrasPrice', (extended_price->>'selectedExtrasPrice')::numeric - (current_price->>'selectedExtrasPrice')::numeric,
+    'extras', extended_price->'extras',
+    'subtotal', (extended_price->>'subtotal')::numeric - (current_price->>'subtotal')::numeric,
+    'discountAmount', (extended_price->>'discountAmount')::numeric - (current_price->>'discountAmount')::numeric,
+    'totalAfterDiscount', (extended_price->>'totalAfterDiscount')::numeric - (current_price->>'totalAfterDiscount')::numeric,
+    'serviceChargePercent', extended_price->'serviceChargePercent',
+    'serviceCharge', (extended_price->>'serviceCharge')::numeric - (current_price->>'serviceCharge')::numeric,
+    'tax', tax_details,
+    'totalAmount', (tax_details->>'taxableAmount')::numeric + (tax_details->>'taxAmount')::numeric,
+    'advancePercent', 100,
+    'advanceAmount', (tax_details->>'taxableAmount')::numeric + (tax_details->>'taxAmount')::numeric,
+    'newEndDatetime', new_end_datetime
+  );
 end;
 $$;
 
-create or replace function cleanup_expired_holds()
+-- Raises unless p_branch_id is an active branch open at p_at, in the branch's own timezone.
+-- p_label names the handover in the message, e.g. 'Pickup'.
+create or replace function assert_branch_open(p_branch_id uuid, p_at timestamptz, p_label text)
 returns void
 language plpgsql
+stable
 security definer
 set search_path = public
 as $$
+declare
+  branch_record public.branches;
+  local_time time;
 begin
-  update public.bookings
-  set status = 'cancelled'
-  where
-    status = 'hold' and
-    hold_expires_at is not null and
-    hold_expires_at < now();
+  select * into branch_record from public.branches where id = p_branch_id and active = true;
+  if not found then raise exception '% branch is not available.', p_label; end if;
+
+  local_time := (p_at at time zone branch_record.timezone)::time;
+  if local_time < branch_record.opens_at or local_time > branch_record.closes_at then
+    raise exception '% must be between % and % at %.', p_label,
+      to_char(branch_record.opens_at, 'HH24:MI'), to_char(branch_record.closes_at, 'HH24:MI'), branch_record.name;
+  end if;
 end;
 $$;
 
--- FIX: Drop the function first to allow changing the return signature.
-DROP FUNCTION IF EXISTS get_user_bookings();
-create or replace function get_user_bookings()
+-- Creates a short-lived, itemized price quote for the current user. Bookings can only be created from a quote.
+-- The car is picked up from its own branch, and both handovers must fall within the branches' opening hours.
+-- Doorstep delivery and collection each need a zone and an address.
+DROP FUNCTION IF EXISTS create_booking_quote(uuid, timestamptz, timestamptz, text[], uuid);
+DROP FUNCTION IF EXISTS create_booking_quote(uuid, timestamptz, timestamptz, text[], uuid, uuid, uuid);
+create or replace function create_booking_quote(
+  p_car_id uuid,
+  p_start_datetime timestamptz,
+  p_end_datetime timestamptz,
+  p_extras text[] default '{}',
+  p_promo_code_id uuid default null,
+  p_pickup_branch_id uuid default null,
+  p_return_branch_id uuid default null,
+  p_delivery_zone_id uuid default null,
+  p_delivery_address text default null,
+  p_collection_zone_id uuid default null,
+  p_collection_address text default null
+)
 returns json
 language plpgsql
 security definer
 set search_path = public
 as $$
+declare
+  car_branch_id uuid;
+  price_details jsonb;
+  new_quote public.booking_quotes;
 begin
   if auth.uid() is null then
     raise exception 'Authentication required';
   end if;
 
-  return (
-    select json_agg(
-      json_build_object(
-        'id', b.id,
-        'created_at', b.created_at,
-        'user_id', b.user_id,
-        'car_id', b.car_id,
-        'customer_name', p.full_name,
-        'customer_phone', p.phone,
-        'car_title', c.title,
-        'start_datetime', b.start_datetime,
-        'end_datetime', b.end_datetime,
-        'total_amount', b.total_amount,
-        'status', b.status,
-        'hold_expires_at', b.hold_expires_at,
-        'discount_amount', b.discount_amount,
-        'promo_code_id', b.promo_code_id,
-        'cars', CASE WHEN c.id IS NOT NULL THEN json_build_object(
-          'id', c.id,
-          'title', c.title,
-          'make', c.make,
-          'model', c.model,
-          'year', c.year,
-          'seats', c.seats,
-          'fuelType', c.fuel_type,
-          'transmission', c.transmission,
-          'pricePerDay', c.price_per_day,
-          'verified', c.verified,
-          'status', c.status,
-          'imagePaths', COALESCE(c.image_paths, '{}'::text[]),
-          'available', c.available
-        ) ELSE NULL END,
-        'booking_extensions', (
-          select json_agg(
-            json_build_object(
-              'id', be.id,
-              'added_hours', be.added_hours,
-              'requested_end', be.requested_end,
-              'price', be.price,
-              'payment_status', be.payment_status,
-              'created_at', be.created_at
-            )
-          )
-          from public.booking_extensions be
-          where be.booking_id = b.id
-        )
-      )
-    )
-    from public.bookings b
-    left join public.cars c on b.car_id = c.id
-    left join public.profiles p on b.user_id = p.id
-    where b.user_id = auth.uid()
+  select branch_id into car_branch_id from public.cars where id = p_car_id;
+  if not found then raise exception 'Car not found.'; end if;
+  if p_pickup_branch_id is not null and p_pickup_branch_id != car_branch_id then
+    raise exception 'This car is not picked up from the selected branch.';
+  end if;
+
+  perform assert_branch_open(car_branch_id, p_start_datetime, 'Pickup');
+  perform assert_branch_open(coalesce(p_return_branch_id, car_branch_id), p_end_datetime, 'Return');
+
+  if p_delivery_zone_id is not null then
+    if nullif(trim(p_delivery_address), '') is null then raise exception 'Please enter the delivery address.'; end if;
+    if not exists (select 1 from public.delivery_zones where id = p_delivery_zone_id and active = true) then
+      raise exception 'Delivery is not offered to the selected zone.';
+    end if;
+  end if;
+  if p_collection_zone_id is not null then
+    if nullif(trim(p_collection_address), '') is null then raise exception 'Please enter the collection address.'; end if;
+    if not exists (select 1 from public.delivery_zones where id = p_collection_zone_id and active = true) then
+      raise exception 'Collection is not offered from the selected zone.';
+    end if;
+  end if;
+
+  price_details := calculate_booking_price(
+    p_car_id, p_start_datetime, p_end_datetime, p_extras, p_promo_code_id, true, car_branch_id, p_return_branch_id,
+    p_delivery_zone_id, p_collection_zone_id
+  );
+
+  insert into public.booking_quotes (
+    user_id, car_id, start_datetime, end_datetime, extras, promo_code_id, pickup_branch_id, return_branch_id,
+    delivery_zone_id, delivery_address, collection_zone_id, collection_address,
+    price_details, total_amount, advance_amount, expires_at
+  )
+  values (
+    auth.uid(), p_car_id, p_start_datetime, p_end_datetime, coalesce(p_extras, '{}'), p_promo_code_id,
+    (price_details->>'pickupBranchId')::uuid, (price_details->>'returnBranchId')::uuid,
+    p_delivery_zone_id, case when p_delivery_zone_id is not null then trim(p_delivery_address) end,
+    p_collection_zone_id, case when p_collection_zone_id is not null then trim(p_collection_address) end,
+    price_details, (price_details->>'totalAmount')::numeric, (price_details->>'advanceAmount')::numeric,
+    now() + interval '15 minutes'
+  )
+  returning * into new_quote;
+
+  return json_build_object(
+    'id', new_quote.id,
+    'carId', new_quote.car_id,
+    'startDatetime', new_quote.start_datetime,
+    'endDatetime', new_quote.end_datetime,
+    'extras', new_quote.extras,
+    'promoCodeId', new_quote.promo_code_id,
+    'pickupBranchId', new_quote.pickup_branch_id,
+    'returnBranchId', new_quote.return_branch_id,
+    'deliveryZoneId', new_quote.delivery_zone_id,
+    'deliveryAddress', new_quote.delivery_address,
+    'collectionZoneId', new_quote.collection_zone_id,
+    'collectionAddress', new_quote.collection_address,
+    'price', new_quote.price_details,
+    'expiresAt', new_quote.expires_at
   );
 end;
 $$;
 
-create or replace function update_user_profile(
-  p_full_name text,
-  p_phone text
-)
+-- FIX: Drop the old signature, which accepted a client-computed subtotal and payment amount.
+DROP FUNCTION IF EXISTS create_booking_and_payment(uuid, uuid, timestamptz, timestamptz, numeric, numeric, text, uuid);
+-- Raises unless the payment method names an enabled gateway.
+create or replace function require_enabled_gateway(p_payment_method text)
 returns void
 language plpgsql
+stable
 security definer
 set search_path = public
 as $$
 begin
-  if auth.uid() is null then
-    raise exception 'Authentication required';
+  if not exists (select 1 from public.payment_gateways where id = p_payment_method and enabled) then
+    raise exception 'Payment method % is not available.', coalesce(p_payment_method, '(none)');
   end if;
-  
-  update public.profiles
-  set
-    full_name = p_full_name,
-    phone = p_phone,
-    updated_at = now()
-  where id = auth.uid();
 end;
 $$;
 
-create or replace function create_extension_and_payment(
-  p_booking_id uuid,
-  p_added_hours integer
+-- Drop the version without an idempotency key.
+DROP FUNCTION IF EXISTS create_booking_and_payment(uuid, text, text);
+
+-- Creates a pending_payment booking and its first payment from a quote. Calling it again with the same
+-- idempotency key returns the same booking and pending payment instead of creating duplicates, or a new attempt
+-- replacing the pending payment when another gateway was chosen.
+create or replace function create_booking_and_payment(
+  p_quote_id uuid,
+  p_payment_mode text,
+  p_payment_method text,
+  p_idempotency_key text default null
 )
 returns json
 language plpgsql
@@ -736,52 +2094,3587 @@ security definer
 set search_path = public
 as $$
 declare
-  booking_record public.bookings;
-  car_record public.cars;
-  is_available boolean;
-  new_end_datetime timestamptz;
-  extension_price numeric;
-  new_extension_id uuid;
+  quote_record public.booking_quotes;
+  existing_booking public.bookings;
+  existing_payment public.payments;
+  new_booking_id uuid;
   new_payment_id uuid;
+  deposit numeric;
+  payment_amount numeric;
 begin
-  select * into booking_record from public.bookings where id = p_booking_id and user_id = auth.uid();
-  if booking_record is null then raise exception 'Booking not found or you do not have permission to extend it.'; end if;
-  if booking_record.status != 'confirmed' then raise exception 'Only confirmed bookings can be extended.'; end if;
-  if booking_record.end_datetime <= now() then raise exception 'Cannot extend a booking that has already ended.'; end if;
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
 
-  new_end_datetime := booking_record.end_datetime + (p_added_hours * interval '1 hour');
+  if p_payment_mode not in ('full', 'hold') then
+    raise exception 'Invalid payment mode.';
+  end if;
+  perform require_enabled_gateway(p_payment_method);
 
-  select not exists (
-    select 1
-    from public.bookings b
-    where
-      b.car_id = booking_record.car_id and
-      b.id != p_booking_id and
-      (b.status = 'confirmed' or (b.status = 'hold' and b.hold_expires_at > now())) and
-      tstzrange(b.start_datetime, b.end_datetime) && tstzrange(booking_record.end_datetime, new_end_datetime)
-    for update
-  ) into is_available;
+  select * into quote_record from public.booking_quotes
+  where id = p_quote_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Price quote not found.';
+  end if;
+
+  -- A repeated request for the same checkout (double click, resubmission) gets the original result.
+  -- The quote lock above makes concurrent repeats wait for the first request to commit.
+  if p_idempotency_key is not null then
+    select * into existing_booking from public.bookings
+    where user_id = auth.uid() and idempotency_key = p_idempotency_key;
+
+    if found then
+      if existing_booking.quote_id is distinct from p_quote_id then
+        raise exception 'This checkout was started for a different price quote.';
+      end if;
+      select * into existing_payment from public.payments
+      where booking_id = existing_booking.id and payment_type = 'booking' and status = 'pending'
+      order by created_at desc
+      limit 1;
+      if not found then
+        raise exception 'This checkout has already been processed.';
+      end if;
+      -- The customer went back and chose another gateway: replace the attempt, as retry_booking_payment would,
+      -- so the payment is never collected through a gateway other than the one its order is created with.
+      if existing_payment.method is distinct from p_payment_method then
+        if existing_booking.payment_expires_at < now() then
+          raise exception 'This booking can no longer be paid. Please start a new booking.';
+        end if;
+        -- The request's key moves to the new attempt, so repeating it returns that one.
+        update public.payments set status = 'cancelled', idempotency_key = null where id = existing_payment.id;
+        insert into public.payments (booking_id, user_id, amount, deposit_amount, method, status, idempotency_key)
+        values (existing_booking.id, auth.uid(), existing_payment.amount, existing_payment.deposit_amount, p_payment_method, 'pending', p_idempotency_key)
+        returning * into existing_payment;
+      end if;
+      return json_build_object('bookingId', existing_booking.id, 'paymentId', existing_payment.id, 'amount', existing_payment.amount);
+    end if;
+  end if;
+
+  if quote_record.booking_id is not null then
+    raise exception 'This price quote has already been used.';
+  end if;
+  if quote_record.expires_at < now() then
+    raise exception 'Price quote has expired.';
+  end if;
+
+  -- Lock the promo code and make sure it is still redeemable at the moment of booking.
+  if quote_record.promo_code_id is not null then
+    perform 1 from public.promo_codes
+    where id = quote_record.promo_code_id and active = true
+      and (valid_from is null or valid_from <= now())
+      and (valid_to is null or valid_to >= now())
+      and (usage_limit = 0 or promo_code_uses(id) < usage_limit)
+    for update;
 
-  if not is_available then
-    raise exception 'The car is not available for the requested extension period.';
+    if not found then
+      raise exception 'Promo code is no longer valid. Please remove it and try again.';
+    end if;
   end if;
 
-  select * into car_record from public.cars where id = booking_record.car_id;
-  extension_price := (p_added_hours / 24.0) * car_record.price_per_day;
+  -- Lapsed checkouts and holds on this car must not block the booking just because the sweeps have not run yet.
+  perform expire_pending_payments(quote_record.car_id);
+  perform cleanup_expired_holds(quote_record.car_id);
 
-  insert into public.booking_extensions (booking_id, user_id, added_hours, requested_end, price, payment_status)
-  values (p_booking_id, auth.uid(), p_added_hours, new_end_datetime, extension_price, 'pending')
-  returning id into new_extension_id;
+  -- The refundable security deposit is paid up front in both modes. Quotes from before deposits carry none.
+  deposit := coalesce((quote_record.price_details->>'depositAmount')::numeric, 0);
+  payment_amount := case when p_payment_mode = 'hold' then quote_record.advance_amount else quote_record.total_amount end + deposit;
 
-  insert into public.payments (booking_id, user_id, extension_id, amount, method, status)
-  values (p_booking_id, auth.uid(), new_extension_id, extension_price, 'paytm', 'pending')
+  -- The car and promo code stay reserved for 30 minutes while the customer completes checkout.
+  -- Inserting the booking reserves the car (see car_reservations); an overlapping booking, even one committed
+  -- concurrently, makes the insert fail instead of double booking the car.
+  begin
+    insert into public.bookings (car_id, user_id, start_datetime, end_datetime, total_amount, status, promo_code_id, discount_amount, quote_id, extras, payment_mode, payment_expires_at, idempotency_key, pickup_branch_id, return_branch_id, delivery_zone_id, delivery_address, collection_zone_id, collection_address)
+    values (
+      quote_record.car_id, auth.uid(), quote_record.start_datetime, quote_record.end_datetime,
+      quote_record.total_amount, 'pending_payment', quote_record.promo_code_id,
+      (quote_record.price_details->>'discountAmount')::numeric, quote_record.id,
+      coalesce(quote_record.price_details->'extras', '[]'::jsonb), p_payment_mode,
+      now() + interval '30 minutes', p_idempotency_key, quote_record.pickup_branch_id, quote_record.return_branch_id,
+      quote_record.delivery_zone_id, quote_record.delivery_address, quote_record.collection_zone_id, quote_record.collection_address
+    )
+    returning id into new_booking_id;
+  exception when exclusion_violation then
+    if check_car_availability(quote_record.car_id, quote_record.start_datetime, quote_record.end_datetime)->>'reason' = 'turnaround' then
+      raise exception using errcode = 'exclusion_violation',
+        message = 'Car is not available: it needs ' || (extract(epoch from car_turnaround(quote_record.car_id)) / 60)::integer || ' minutes between rentals for cleaning and inspection.';
+    end if;
+    raise exception using errcode = 'exclusion_violation', message = 'Car is not available for the selected time range.';
+  end;
+
+  insert into public.payments (booking_id, user_id, amount, deposit_amount, method, status, idempotency_key)
+  values (new_booking_id, auth.uid(), payment_amount, deposit, p_payment_method, 'pending', p_idempotency_key)
   returning id into new_payment_id;
 
-  update public.booking_extensions set payment_id = new_payment_id where id = new_extension_id;
+  update public.booking_quotes set booking_id = new_booking_id where id = quote_record.id;
 
-  return json_build_object('extensionId', new_extension_id, 'paymentId', new_payment_id);
+  return json_build_object('bookingId', new_booking_id, 'paymentId', new_payment_id, 'amount', payment_amount);
 end;
 $$;
+
+-- Starts a new payment attempt for a pending_payment booking whose earlier attempt failed or was abandoned
+-- at the gateway, reusing the booking instead of creating another. Earlier pending attempts are cancelled so only
+-- the latest can succeed, and the checkout deadline restarts. Repeating a call with the same idempotency key
+-- returns the same attempt.
+create or replace function retry_booking_payment(
+  p_booking_id uuid,
+  p_payment_method text,
+  p_idempotency_key text default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  existing_payment public.payments;
+  payment_amount numeric;
+  deposit numeric;
+  new_payment_id uuid;
+begin
+  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found or booking_record.user_id != auth.uid() then
+    raise exception 'Booking not found or you do not have permission to pay for it.';
+  end if;
+
+  if p_idempotency_key is not null then
+    select * into existing_payment from public.payments
+    where user_id = auth.uid() and idempotency_key = p_idempotency_key;
+    if found then
+      if existing_payment.booking_id != p_booking_id then
+        raise exception 'This payment attempt was started for a different booking.';
+      end if;
+      return json_build_object('bookingId', p_booking_id, 'paymentId', existing_payment.id, 'amount', existing_payment.amount);
+    end if;
+  end if;
+
+  if booking_record.status != 'pending_payment' or booking_record.payment_expires_at is null or booking_record.payment_expires_at < now() then
+    raise exception 'This booking can no longer be paid. Please start a new booking.';
+  end if;
+  perform require_enabled_gateway(p_payment_method);
+
+  -- Every attempt is for the amount chosen at checkout: the full total or the hold advance, plus the deposit.
+  select amount, deposit_amount into payment_amount, deposit from public.payments
+  where booking_id = p_booking_id and payment_type = 'booking'
+  order by created_at asc
+  limit 1;
+  if payment_amount is null then raise exception 'Booking has no payment to retry.'; end if;
+
+  update public.payments set status = 'cancelled'
+  where booking_id = p_booking_id and payment_type = 'booking' and status = 'pending';
+
+  insert into public.payments (booking_id, user_id, amount, deposit_amount, method, status, idempotency_key)
+  values (p_booking_id, auth.uid(), payment_amount, deposit, p_payment_method, 'pending', p_idempotency_key)
+  returning id into new_payment_id;
+
+  update public.bookings set payment_expires_at = now() + interval '30 minutes' where id = p_booking_id;
+
+  return json_build_object('bookingId', p_booking_id, 'paymentId', new_payment_id, 'amount', payment_amount);
+end;
+$$;
+
+-- Signature a gateway callback must carry: hex HMAC-SHA256, keyed with the gateway's secret, of
+-- 'order_id|amount|status|txn_id' with the amount formatted to two decimals (e.g. 'MOCK_ORD_1|1250.00|success|MOCK_TXN_9').
+-- The server-side gateway function signs Paytm and card callbacks this way after checking them with the gateway.
+-- Razorpay signs successful checkouts itself, as HMAC-SHA256 of 'order_id|payment_id' with the key secret.
+create or replace function payment_callback_signature(
+  p_method text,
+  p_gateway_order_id text,
+  p_amount numeric,
+  p_status text,
+  p_gateway_txn_id text
+)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select encode(extensions.hmac(
+    case
+      when p_method = 'razorpay' then coalesce(p_gateway_order_id, '') || '|' || coalesce(p_gateway_txn_id, '')
+      else coalesce(p_gateway_order_id, '') || '|' || coalesce(to_char(p_amount, 'FM9999999990.00'), '') || '|' || coalesce(p_status, '') || '|' || coalesce(p_gateway_txn_id, '')
+    end,
+    s.secret,
+    'sha256'
+  ), 'hex')
+  from public.payment_gateway_secrets s
+  where s.gateway_id = p_method;
+$$;
+
+-- Signs a callback on behalf of the mock gateway, standing in for the gateway's own server. Only works for an admin's
+-- own payments made through the mock gateway while it is enabled, so customers can never confirm a booking with it
+-- and real payments can never be signed this way.
+create or replace function sign_mock_gateway_callback(
+  p_payment_id uuid,
+  p_status text,
+  p_gateway_txn_id text
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  payment_record public.payments;
+begin
+  if not is_admin() then raise exception 'Only admins can use the test gateway.'; end if;
+  select * into payment_record from public.payments where id = p_payment_id and user_id = auth.uid();
+  if not found then raise exception 'Payment not found.'; end if;
+  if payment_record.method != 'mock' or not exists (select 1 from public.payment_gateways where id = 'mock' and enabled) then
+    raise exception 'The mock gateway is not available for this payment.';
+  end if;
+  if p_status not in ('success', 'failed', 'pending') then raise exception 'Invalid status: %', p_status; end if;
+
+  return json_build_object(
+    'orderId', payment_record.gateway_order_id,
+    'amount', payment_record.amount,
+    'signature', payment_callback_signature('mock', payment_record.gateway_order_id, payment_record.amount, p_status, p_gateway_txn_id)
+  );
+end;
+$$;
+
+-- Applies a verified payment outcome: marks the payment, then confirms, holds, extends or cancels the booking, or
+-- settles a charge. A booking payment that included a security deposit records it as collected.
+-- Internal; only called once a callback has passed verify_and_update_payment's checks.
+create or replace function settle_payment(
+  p_payment_id uuid,
+  p_status text,
+  p_gateway_txn_id text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  payment_record public.payments;
+  booking_record public.bookings;
+  extension_record public.booking_extensions;
+  new_booking_status booking_status_enum;
+  new_hold_expires_at timestamptz;
+begin
+  select * into payment_record from public.payments where id = p_payment_id;
+
+  if p_status = 'success' then
+    update public.payments set status = 'success', gateway_txn_id = p_gateway_txn_id where id = p_payment_id;
+    
+    select * into booking_record from public.bookings where id = payment_record.booking_id;
+    if booking_record.promo_code_id is not null and payment_record.payment_type = 'booking' then
+      update public.promo_codes 
+      set 
+        times_used = times_used + 1,
+        last_used_at = now()
+      where id = booking_record.promo_code_id;
+    end if;
+
+    if payment_record.extension_id is not null then
+      update public.booking_extensions set payment_status = 'success' where id = payment_record.extension_id returning * into extension_record;
+      update public.bookings set end_datetime = extension_record.requested_end where id = extension_record.booking_id;
+    elsif payment_record.payment_type = 'modification' then
+      -- The price difference of a modification has been paid, so the booking takes the new car and dates.
+      perform apply_booking_modification(payment_record.modification_id);
+    elsif payment_record.payment_type = 'charge' then
+      update public.booking_charges set status = 'paid' where id = payment_record.charge_id and status = 'due';
+    elsif payment_record.payment_type = 'balance' then
+      -- The balance of a hold has been paid, so the booking is now fully paid.
+      update public.bookings set status = 'confirmed', hold_expires_at = null
+      where id = payment_record.booking_id and status = 'hold';
+    else
+      if booking_record.payment_mode = 'hold' then
+        new_booking_status := 'hold';
+        new_hold_expires_at := now() + interval '24 hours';
+      else
+        new_booking_status := 'confirmed';
+        new_hold_expires_at := null;
+      end if;
+      update public.bookings set status = new_booking_status, hold_expires_at = new_hold_expires_at where id = payment_record.booking_id;
+      if payment_record.deposit_amount > 0 then
+        insert into public.booking_deposits (booking_id, user_id, payment_id, amount)
+        values (payment_record.booking_id, payment_record.user_id, payment_record.id, payment_record.deposit_amount)
+        on conflict (booking_id) do nothing;
+      end if;
+    end if;
+
+  else 
+    update public.payments set status = 'failed', gateway_txn_id = p_gateway_txn_id where id = p_payment_id;
+    if payment_record.extension_id is not null then
+      update public.booking_extensions set payment_status = 'failed' where id = payment_record.extension_id;
+    end if;
+    -- A modification whose payment failed is dropped; the customer can start the change again.
+    if payment_record.modification_id is not null then
+      perform cancel_booking_modification(payment_record.modification_id, 'failed');
+    end if;
+    -- A failed booking payment leaves the booking pending_payment until its checkout deadline, and a failed
+    -- balance payment leaves the hold in place until it expires, so the customer can try again in both cases.
+  end if;
+  
+end;
+$$;
+
+-- Handles a verified success for a payment that was already failed or cancelled: the gateway confirmed it after
+-- the checkout expired, or after a retry replaced the attempt. A booking still waiting for its payment takes it as
+-- usual. Otherwise nothing was bought with the money, so the payment is recorded as successful with a pending
+-- refund of all of it, and the customer and admins are notified; an admin sends the refund from the booking.
+-- Internal; only called by apply_payment_callback.
+create or replace function settle_late_payment(p_payment_id uuid, p_gateway_txn_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  payment_record public.payments;
+  booking_record public.bookings;
+  booking_reference text;
+begin
+  select * into payment_record from public.payments where id = p_payment_id;
+  select * into booking_record from public.bookings where id = payment_record.booking_id;
+
+  if payment_record.payment_type = 'booking' and booking_record.status = 'pending_payment' then
+    -- A newer attempt for the same checkout is no longer needed.
+    update public.payments set status = 'cancelled'
+    where booking_id = booking_record.id and payment_type = 'booking' and status = 'pending' and id != p_payment_id;
+    perform settle_payment(p_payment_id, 'success', p_gateway_txn_id);
+    return;
+  end if;
+
+  -- No deposit was collected with it either, so the refund covers the whole amount.
+  update public.payments set status = 'success', gateway_txn_id = p_gateway_txn_id, deposit_amount = 0
+  where id = p_payment_id;
+
+  insert into public.refunds (payment_id, booking_id, user_id, amount, currency, reason, notes)
+  values (
+    p_payment_id, payment_record.booking_id, payment_record.user_id, payment_record.amount, payment_record.currency,
+    'late_payment', 'The gateway confirmed this payment after the payment attempt had closed.'
+  );
+
+  booking_reference := '#' || upper(split_part(booking_record.id::text, '-', 1));
+  insert into public.notifications (user_id, booking_id, type, title, message)
+  values (
+    payment_record.user_id,
+    booking_record.id,
+    'late_payment_refund',
+    'We will refund a late payment',
+    'Your payment of ' || to_char(payment_record.amount, 'FM999999990.00') || ' INR for booking ' || booking_reference || ' was confirmed after the payment had expired, so it was not applied to the booking. It will be refunded to you.'
+  );
+  insert into public.notifications (user_id, booking_id, type, title, message)
+  select
+    ur.user_id,
+    booking_record.id,
+    'late_payment_refund',
+    'A late payment needs refunding',
+    'A payment of ' || to_char(payment_record.amount, 'FM999999990.00') || ' INR for booking ' || booking_reference || ' was confirmed after it had expired. A refund is waiting to be processed under the booking''s refunds.'
+  from public.user_roles ur
+  where ur.role = 'admin';
+end;
+$$;
+
+-- Drop the old unsigned version; callbacks must now carry the gateway's signature.
+DROP FUNCTION IF EXISTS verify_and_update_payment(uuid, text, text);
+
+-- Verifies a gateway callback and settles the payment if it is genuine. A callback is rejected when:
+--   * a success is not signed, or the signature does not match (see payment_callback_signature),
+--   * it is for a different gateway order than the one recorded for the payment,
+--   * its amount differs from the payment amount,
+--   * the same signed callback has already been accepted (a replay).
+-- Every callback is logged in payment_callbacks. Returns the payment's status after the callback and,
+-- for rejected callbacks, the reason, so the client never trusts the status in its own URL.
+-- Internal: verify_and_update_payment calls it for the payment's owner, and the payment-gateway function's
+-- sync_pending action for payments whose callback never arrived.
+create or replace function apply_payment_callback(
+  p_payment_id uuid,
+  p_gateway_order_id text,
+  p_amount numeric,
+  p_status text,
+  p_gateway_txn_id text,
+  p_signature text
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  payment_record public.payments;
+  expected_signature text;
+  rejection text;
+  callback_status text := case when p_status in ('success', 'failed', 'pending') then p_status else 'failed' end;
+  late_success boolean;
+begin
+  -- Lock the payment so two deliveries of the same callback are processed one after the other.
+  select * into payment_record from public.payments where id = p_payment_id for update;
+  if not found then raise exception 'Payment not found.'; end if;
+  late_success := callback_status = 'success' and payment_record.status in ('failed', 'cancelled');
+
+  if p_signature is not null then
+    expected_signature := payment_callback_signature(payment_record.method, p_gateway_order_id, p_amount, callback_status, p_gateway_txn_id);
+  end if;
+
+  if callback_status = 'success' and p_signature is null then
+    rejection := 'missing_signature';
+  elsif p_signature is not null and (expected_signature is null or p_signature != expected_signature) then
+    rejection := 'invalid_signature';
+  elsif payment_record.gateway_order_id is distinct from p_gateway_order_id then
+    rejection := 'order_mismatch';
+  elsif callback_status = 'success' and p_amount is distinct from payment_record.amount then
+    rejection := 'amount_mismatch';
+  elsif p_signature is not null and exists (
+    select 1 from public.payment_callbacks
+    where payment_id = p_payment_id and signature = p_signature and outcome = 'accepted'
+  ) then
+    rejection := 'replayed';
+  end if;
+
+  insert into public.payment_callbacks (payment_id, gateway, gateway_order_id, gateway_txn_id, amount, status, signature, outcome)
+  values (
+    p_payment_id, payment_record.method, p_gateway_order_id, p_gateway_txn_id, p_amount, callback_status, p_signature,
+    coalesce(rejection, case when payment_record.status = 'pending' or late_success then 'accepted' else 'already_settled' end)
+  );
+
+  if rejection is not null then
+    return json_build_object('accepted', false, 'reason', rejection, 'paymentStatus', payment_record.status);
+  end if;
+
+  if payment_record.status = 'pending' then
+    -- The gateway has not settled the payment yet (or did not answer); leave it pending for a later callback.
+    if callback_status = 'pending' then
+      if p_gateway_txn_id is not null then
+        update public.payments set gateway_txn_id = p_gateway_txn_id where id = p_payment_id;
+      end if;
+    else
+      perform settle_payment(p_payment_id, callback_status, p_gateway_txn_id);
+    end if;
+  elsif late_success then
+    -- The customer was charged even though the payment had closed; see settle_late_payment.
+    perform settle_late_payment(p_payment_id, p_gateway_txn_id);
+  end if;
+
+  return json_build_object(
+    'accepted', true,
+    'reason', null,
+    'paymentStatus', (select status from public.payments where id = p_payment_id),
+    'refundPending', exists (select 1 from public.refunds where payment_id = p_payment_id and reason = 'late_payment')
+  );
+end;
+$$;
+
+-- Verifies a callback the customer's browser brought back from the gateway (see apply_payment_callback).
+-- Only the payment's owner or an admin can submit it.
+create or replace function verify_and_update_payment(
+  p_payment_id uuid,
+  p_gateway_order_id text,
+  p_amount numeric,
+  p_status text,
+  p_gateway_txn_id text,
+  p_signature text
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  payment_owner uuid;
+begin
+  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+
+  select user_id into payment_owner from public.payments where id = p_payment_id;
+  if not found then raise exception 'Payment not found.'; end if;
+  if payment_owner != auth.uid() and not is_admin() then raise exception 'Authorization failed.'; end if;
+
+  return apply_payment_callback(p_payment_id, p_gateway_order_id, p_amount, p_status, p_gateway_txn_id, p_signature);
+end;
+$$;
+
+-- Whether a pending payment made through a real gateway may still be confirmed after p_deadline. The gateway can
+-- settle a checkout after its deadline, and its callback can be lost; the payment-gateway function's sync_pending
+-- action asks the gateway about such payments, and expire_pending_payments gives it 15 minutes to do so.
+-- Mock payments have no gateway to ask.
+create or replace function awaiting_gateway_confirmation(p_payment public.payments, p_deadline timestamptz)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select p_payment.status = 'pending'
+    and p_payment.gateway_order_id is not null
+    and p_payment.method in ('paytm', 'razorpay', 'card')
+    and now() < p_deadline + interval '15 minutes';
+$$;
+
+-- Cancels holds whose balance was not paid in time. p_car_id limits the sweep to one car; booking functions use
+-- it to release lapsed reservations before the schedule gets to them. Returns the number of holds cancelled.
+DROP FUNCTION IF EXISTS cleanup_expired_holds();
+-- It returned void before it became a scheduled job.
+DROP FUNCTION IF EXISTS cleanup_expired_holds(uuid);
+create or replace function cleanup_expired_holds(p_car_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cancelled_count integer;
+begin
+  update public.bookings
+  set
+    status = 'cancelled',
+    cancelled_at = now(),
+    cancellation_reason = 'Hold expired: balance not paid in time.'
+  where
+    status = 'hold' and
+    hold_expires_at is not null and
+    hold_expires_at < now() and
+    (p_car_id is null or car_id = p_car_id);
+
+  get diagnostics cancelled_count = row_count;
+  return cancelled_count;
+end;
+$$;
+
+-- Cancels pending_payment bookings whose checkout deadline has passed and fails their pending payments.
+-- They are kept as abandoned checkouts for admins to follow up on. Unpaid extensions and booking modifications past
+-- their deadline are cancelled the same way. p_car_id limits the sweep to one car. Returns the number of bookings expired.
+-- Checkouts paid through a real gateway are left a little longer while the gateway may still confirm them
+-- (see awaiting_gateway_confirmation).
+DROP FUNCTION IF EXISTS expire_pending_payments();
+create or replace function expire_pending_payments(p_car_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  expired_count integer;
+  lapsed_modification record;
+begin
+  with expired as (
+    update public.bookings
+    set
+      status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = 'Checkout abandoned: payment not completed in time.',
+      checkout_abandoned_at = now()
+    where
+      status = 'pending_payment' and
+      payment_expires_at is not null and
+      payment_expires_at < now() and
+      (p_car_id is null or car_id = p_car_id) and
+      not exists (
+        select 1 from public.payments p
+        where p.booking_id = bookings.id and awaiting_gateway_confirmation(p, bookings.payment_expires_at)
+      )
+    returning id
+  ),
+  failed_payments as (
+    update public.payments
+    set status = 'failed'
+    where booking_id in (select id from expired) and status = 'pending'
+  )
+  select count(*) into expired_count from expired;
+
+  with expired_extensions as (
+    update public.booking_extensions be
+    set payment_status = 'cancelled'
+    from public.bookings b
+    where
+      b.id = be.booking_id and
+      be.payment_status = 'pending' and
+      be.payment_expires_at < now() and
+      (p_car_id is null or b.car_id = p_car_id) and
+      not exists (
+        select 1 from public.payments p
+        where p.extension_id = be.id and awaiting_gateway_confirmation(p, be.payment_expires_at)
+      )
+    returning be.id
+  )
+  update public.payments
+  set status = 'failed'
+  where extension_id in (select id from expired_extensions) and status = 'pending';
+
+  for lapsed_modification in
+    select bm.id from public.booking_modifications bm
+    where bm.status = 'pending' and bm.payment_expires_at < now() and (p_car_id is null or bm.new_car_id = p_car_id)
+      and not exists (
+        select 1 from public.payments p
+        where p.modification_id = bm.id and awaiting_gateway_confirmation(p, bm.payment_expires_at)
+      )
+  loop
+    perform cancel_booking_modification(lapsed_modification.id, 'failed');
+  end loop;
+
+  return expired_count;
+end;
+$$;
+
+-- Completes confirmed bookings whose rental period has ended. Returns the number of bookings completed.
+create or replace function complete_ended_bookings()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  completed_count integer;
+begin
+  update public.bookings
+  set status = 'completed'
+  where status = 'confirmed' and end_datetime < now();
+
+  get diagnostics completed_count = row_count;
+  return completed_count;
+end;
+$$;
+
+-- Abandoned checkouts with the customer's contact details, newest first, for admins to follow up on.
+DROP FUNCTION IF EXISTS get_abandoned_checkouts();
+create or replace function get_abandoned_checkouts()
+returns table (
+  booking_id uuid,
+  user_id uuid,
+  customer_name text,
+  customer_email text,
+  customer_phone text,
+  car_title text,
+  start_datetime timestamptz,
+  end_datetime timestamptz,
+  total_amount numeric,
+  promo_code text,
+  created_at timestamptz,
+  abandoned_at timestamptz,
+  followed_up_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'Admin privileges required';
+  end if;
+
+  return query
+  select
+    b.id,
+    b.user_id,
+    p.full_name,
+    u.email::text,
+    p.phone,
+    c.title,
+    b.start_datetime,
+    b.end_datetime,
+    b.total_amount,
+    pc.code,
+    b.created_at,
+    b.checkout_abandoned_at,
+    b.abandoned_followed_up_at
+  from public.bookings b
+  join auth.users u on u.id = b.user_id
+  left join public.profiles p on p.id = b.user_id
+  left join public.cars c on c.id = b.car_id
+  left join public.promo_codes pc on pc.id = b.promo_code_id
+  where b.checkout_abandoned_at is not null
+  order by b.checkout_abandoned_at desc;
+end;
+$$;
+
+-- Reconciles a gateway settlement file against payments, matching rows to payments.gateway_txn_id.
+-- p_rows is an array of { rowNumber, txnId, orderId, amount, status } objects, with status normalised by the client to
+-- 'success', 'failed', 'pending' or 'refunded'. Each row gets one result:
+--   duplicate        the transaction id appears more than once in the file, or on more than one payment
+--   missing_payment  no payment through this gateway has the transaction id
+--   status_mismatch  the settlement status disagrees with the payment (a refunded row needs a refunded payment)
+--   amount_mismatch  the settled amount differs from the payment amount (or refunded amount, for refund rows)
+--   matched          everything agrees
+-- Successful payments through the gateway between p_from and p_to that are absent from the file are returned
+-- as 'missing_in_settlement' rows without a row number.
+DROP FUNCTION IF EXISTS reconcile_settlement(text, jsonb, timestamptz, timestamptz);
+create or replace function reconcile_settlement(p_gateway text, p_rows jsonb, p_from timestamptz, p_to timestamptz)
+returns table (
+  row_number integer,
+  gateway_txn_id text,
+  gateway_order_id text,
+  settled_amount numeric,
+  settled_status text,
+  payment_id uuid,
+  booking_id uuid,
+  payment_amount numeric,
+  payment_status text,
+  refunded_amount numeric,
+  result text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'Admin privileges required';
+  end if;
+
+  return query
+  with settlement as (
+    select * from jsonb_to_recordset(p_rows) as r("rowNumber" integer, "txnId" text, "orderId" text, amount numeric, status text)
+  ),
+  file_counts as (
+    select "txnId", count(*) as occurrences from settlement group by "txnId"
+  ),
+  payment_counts as (
+    select p.gateway_txn_id, count(*) as occurrences
+    from public.payments p
+    where p.method = p_gateway and p.gateway_txn_id in (select "txnId" from settlement)
+    group by p.gateway_txn_id
+  ),
+  matched as (
+    select distinct on (s."rowNumber")
+      s.*,
+      p.id as p_id,
+      p.booking_id as p_booking_id,
+      p.amount as p_amount,
+      p.status::text as p_status,
+      p.refunded_amount as p_refunded,
+      fc.occurrences as file_occurrences,
+      coalesce(pc.occurrences, 0) as payment_occurrences
+    from settlement s
+    join file_counts fc on fc."txnId" is not distinct from s."txnId"
+    left join public.payments p on p.method = p_gateway and p.gateway_txn_id = s."txnId"
+    left join payment_counts pc on pc.gateway_txn_id = s."txnId"
+    order by s."rowNumber", p.created_at
+  )
+  select
+    m."rowNumber",
+    m."txnId",
+    m."orderId",
+    m.amount,
+    m.status,
+    m.p_id,
+    m.p_booking_id,
+    m.p_amount,
+    m.p_status,
+    m.p_refunded,
+    case
+      when m."txnId" is null or m.file_occurrences > 1 or m.payment_occurrences > 1 then 'duplicate'
+      when m.p_id is null then 'missing_payment'
+      when (m.status = 'refunded' and (m.p_status != 'success' or m.p_refunded <= 0))
+        or (m.status = 'success' and m.p_status != 'success')
+        or (m.status = 'failed' and m.p_status not in ('failed', 'cancelled'))
+        or (m.status = 'pending' and m.p_status != 'pending')
+        or m.status is null or m.status not in ('success', 'failed', 'pending', 'refunded') then 'status_mismatch'
+      when m.amount is distinct from (case when m.status = 'refunded' then m.p_refunded else m.p_amount end) then 'amount_mismatch'
+      else 'matched'
+    end
+  from matched m
+
+  union all
+
+  select
+    null::integer,
+    p.gateway_txn_id,
+    p.gateway_order_id,
+    null::numeric,
+    null::text,
+    p.id,
+    p.booking_id,
+    p.amount,
+    p.status::text,
+    p.refunded_amount,
+    'missing_in_settlement'
+  from public.payments p
+  where p.method = p_gateway
+    and p.status = 'success'
+    and p.created_at >= p_from and p.created_at < p_to
+    and (p.gateway_txn_id is null or p.gateway_txn_id not in (select "txnId" from settlement where "txnId" is not null))
+
+  order by 1 nulls last, 2;
+end;
+$$;
+
+-- Records the mock gateway's order for a pending payment when checkout starts. Real gateways' orders are recorded by
+-- the payment-gateway edge function when it creates them, so the browser can never point a payment at another order.
+create or replace function set_payment_gateway_order(p_payment_id uuid, p_gateway_order_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.payments
+  set gateway_order_id = p_gateway_order_id
+  where id = p_payment_id and user_id = auth.uid() and status = 'pending' and method = 'mock';
+
+  if not found then raise exception 'Pending payment not found.'; end if;
+end;
+$$;
+
+-- Creates a pending payment for the rest of a held booking's total. Paying it confirms the booking.
+-- Any earlier unpaid balance payment for the booking is cancelled, so only the latest attempt can succeed.
+create or replace function create_balance_payment(p_booking_id uuid, p_payment_method text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  paid_amount numeric;
+  balance_amount numeric;
+  new_payment_id uuid;
+begin
+  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found or booking_record.user_id != auth.uid() then
+    raise exception 'Booking not found or you do not have permission to pay for it.';
+  end if;
+  if booking_record.status != 'hold' then
+    raise exception 'Only bookings on hold have a balance to pay.';
+  end if;
+  perform require_enabled_gateway(p_payment_method);
+  if booking_record.hold_expires_at is not null and booking_record.hold_expires_at < now() then
+    raise exception 'This hold has expired.';
+  end if;
+
+  -- The deposit paid with the advance does not count towards the rental.
+  select coalesce(sum(amount - deposit_amount), 0) into paid_amount
+  from public.payments
+  where booking_id = p_booking_id and payment_type in ('booking', 'balance') and status = 'success';
+
+  balance_amount := booking_record.total_amount - paid_amount;
+  if balance_amount <= 0 then
+    raise exception 'This booking has no balance left to pay.';
+  end if;
+
+  update public.payments set status = 'cancelled'
+  where booking_id = p_booking_id and payment_type = 'balance' and status = 'pending';
+
+  insert into public.payments (booking_id, user_id, payment_type, amount, method, status)
+  values (p_booking_id, auth.uid(), 'balance', balance_amount, p_payment_method, 'pending')
+  returning id into new_payment_id;
+
+  return json_build_object('bookingId', p_booking_id, 'paymentId', new_payment_id, 'amount', balance_amount);
+end;
+$$;
+
+-- Reminds customers to pay the balance of holds that expire within the next 6 hours. Each hold is reminded once.
+-- Returns the number of reminders sent. Runs on a schedule alongside cleanup_expired_holds.
+create or replace function send_hold_expiry_reminders()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reminder_count integer;
+begin
+  with due as (
+    update public.bookings
+    set hold_reminder_sent_at = now()
+    where
+      status = 'hold' and
+      hold_expires_at > now() and
+      hold_expires_at <= now() + interval '6 hours' and
+      hold_reminder_sent_at is null
+    returning id, user_id, hold_expires_at, total_amount
+  )
+  insert into public.notifications (user_id, booking_id, type, title, message)
+  select
+    due.user_id,
+    due.id,
+    'hold_expiring',
+    'Your booking hold expires soon',
+    'Pay the remaining balance before ' || to_char(due.hold_expires_at at time zone coalesce((select timezone from public.pricing_settings limit 1), 'Asia/Kolkata'), 'DD Mon YYYY HH24:MI') || ' to keep your booking. Unpaid holds are cancelled automatically.'
+  from due;
+
+  get diagnostics reminder_count = row_count;
+  return reminder_count;
+end;
+$$;
+
+-- Reminds customers of confirmed bookings starting within the next 24 hours. Each booking is reminded once.
+-- Returns the number of reminders sent.
+create or replace function send_pickup_reminders()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reminder_count integer;
+begin
+  with due as (
+    update public.bookings
+    set pickup_reminder_sent_at = now()
+    where
+      status = 'confirmed' and
+      start_datetime > now() and
+      start_datetime <= now() + interval '24 hours' and
+      pickup_reminder_sent_at is null
+    returning id, user_id, start_datetime
+  )
+  insert into public.notifications (user_id, booking_id, type, title, message)
+  select
+    due.user_id,
+    due.id,
+    'pickup_reminder',
+    'Your pickup is coming up',
+    'Your rental starts on ' || to_char(due.start_datetime at time zone coalesce((select timezone from public.pricing_settings limit 1), 'Asia/Kolkata'), 'DD Mon YYYY HH24:MI') || '. Please bring your driving licence.'
+  from due;
+
+  get diagnostics reminder_count = row_count;
+  return reminder_count;
+end;
+$$;
+
+-- Reminds customers of confirmed bookings ending within the next 3 hours to return the car, or extend in time.
+-- Each booking is reminded once; an extension made after the reminder does not send another. Returns the number sent.
+create or replace function send_return_reminders()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reminder_count integer;
+begin
+  with due as (
+    update public.bookings
+    set return_reminder_sent_at = now()
+    where
+      status = 'confirmed' and
+      end_datetime > now() and
+      end_datetime <= now() + interval '3 hours' and
+      return_reminder_sent_at is null
+    returning id, user_id, end_datetime
+  )
+  insert into public.notifications (user_id, booking_id, type, title, message)
+  select
+    due.user_id,
+    due.id,
+    'return_reminder',
+    'Your rental ends soon',
+    'Please return the car by ' || to_char(due.end_datetime at time zone coalesce((select timezone from public.pricing_settings limit 1), 'Asia/Kolkata'), 'DD Mon YYYY HH24:MI') || '. Need more time? Extend the booking from your dashboard.'
+  from due;
+
+  get diagnostics reminder_count = row_count;
+  return reminder_count;
+end;
+$$;
+
+-- Signatures and settlement are internal to callback verification.
+revoke execute on function payment_callback_signature(text, text, numeric, text, text) from public, anon, authenticated;
+revoke execute on function settle_payment(uuid, text, text) from public, anon, authenticated;
+revoke execute on function apply_payment_callback(uuid, text, numeric, text, text, text) from public, anon, authenticated;
+revoke execute on function settle_late_payment(uuid, text) from public, anon, authenticated;
+
+-- Holds are swept by a schedule, never by clients.
+revoke execute on function cleanup_expired_holds(uuid) from public, anon, authenticated;
+revoke execute on function expire_pending_payments(uuid) from public, anon, authenticated;
+revoke execute on function complete_ended_bookings() from public, anon, authenticated;
+revoke execute on function send_pickup_reminders() from public, anon, authenticated;
+revoke execute on function send_return_reminders() from public, anon, authenticated;
+revoke execute on function send_hold_expiry_reminders() from public, anon, authenticated;
+
+-- The part of a payment that has not yet been refunded, claimed by a pending refund or turned into account credit.
+-- A security deposit included in the payment is left out; it is returned by the deposit settlement instead.
+create or replace function payment_refundable_amount(p_payment_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.amount - p.deposit_amount - coalesce((
+    select sum(r.amount) from public.refunds r
+    where r.payment_id = p.id and r.status != 'failed' and r.reason != 'deposit_release'
+  ), 0) - coalesce((
+    select sum(ac.amount) from public.account_credits ac
+    where ac.payment_id = p.id and ac.amount > 0
+  ), 0)
+  from public.payments p
+  where p.id = p_payment_id;
+$$;
+-- Internal helper for the cancellation and refund functions, which check access themselves.
+revoke execute on function payment_refundable_amount(uuid) from public, anon, authenticated;
+
+-- Previews the refund for cancelling a booking under the current cancellation policy. Covers every successful
+-- payment for the booking: the full payment or hold advance, and any paid extensions. A security deposit collected
+-- for the booking is returned in full on top (depositAmount).
+create or replace function preview_booking_cancellation(p_booking_id uuid)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  hours_before_pickup numeric;
+  applied_percent numeric := 0;
+  paid_amount numeric;
+  deposit numeric;
+begin
+  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id;
+  if not found or (booking_record.user_id != auth.uid() and not is_admin()) then
+    raise exception 'Booking not found or you do not have permission to cancel it.';
+  end if;
+  if booking_record.status not in ('hold', 'confirmed') then
+    raise exception 'Only held or confirmed bookings can be cancelled.';
+  end if;
+  if booking_record.end_datetime <= now() then
+    raise exception 'This booking has already ended and can no longer be cancelled.';
+  end if;
+
+  hours_before_pickup := extract(epoch from (booking_record.start_datetime - now())) / 3600.0;
+
+  if hours_before_pickup >= 0 then
+    select t.refund_percent into applied_percent
+    from public.cancellation_policy_tiers t
+    where t.min_hours_before_pickup <= hours_before_pickup
+    order by t.min_hours_before_pickup desc
+    limit 1;
+    applied_percent := coalesce(applied_percent, 0);
+  end if;
+
+  select coalesce(sum(payment_refundable_amount(id)), 0) into paid_amount
+  from public.payments
+  where booking_id = p_booking_id and status = 'success'
+    and payment_type in ('booking', 'balance', 'extension', 'modification');
+
+  select coalesce(sum(d.amount), 0) into deposit
+  from public.booking_deposits d
+  where d.booking_id = p_booking_id and d.status = 'collected';
+
+  return json_build_object(
+    'bookingId', p_booking_id,
+    'hoursBeforePickup', round(hours_before_pickup, 1),
+    'paidAmount', paid_amount,
+    'refundPercent', applied_percent,
+    'refundAmount', round(paid_amount * applied_percent / 100.0, 2),
+    'depositAmount', deposit
+  );
+end;
+$$;
+
+-- Cancels a booking under the current cancellation policy. Recording the refund percent on the booking lets
+-- apply_booking_transition_trigger create the pending refunds, cancel pending payments and release the promo
+-- code in the same transaction. The refunds are sent to the gateway from the admin portal.
+create or replace function cancel_booking(p_booking_id uuid, p_reason text default null)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  preview json;
+begin
+  -- Lock the booking so a concurrent payment callback or cancellation cannot interleave.
+  perform 1 from public.bookings where id = p_booking_id for update;
+
+  preview := preview_booking_cancellation(p_booking_id);
+
+  update public.bookings
+  set
+    status = 'cancelled',
+    hold_expires_at = null,
+    cancelled_at = now(),
+    cancellation_reason = nullif(trim(p_reason), ''),
+    refund_percent = (preview->>'refundPercent')::numeric,
+    refund_amount = (preview->>'refundAmount')::numeric
+  where id = p_booking_id;
+
+  return preview;
+end;
+$$;
+
+-- Creates a pending refund against a successful payment. Admin only; the refund is sent to the gateway
+-- separately (see begin_refund_processing and record_refund_result).
+create or replace function create_refund(
+  p_payment_id uuid,
+  p_amount numeric,
+  p_reason refund_reason_enum,
+  p_notes text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  payment_record public.payments;
+  new_refund_id uuid;
+begin
+  if not is_admin() then raise exception 'Only admins can issue refunds.'; end if;
+
+  -- Lock the payment so concurrent refunds cannot together exceed the amount paid.
+  select * into payment_record from public.payments where id = p_payment_id for update;
+  if not found then raise exception 'Payment not found.'; end if;
+  if payment_record.status != 'success' then
+    raise exception 'Only successful payments can be refunded.';
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Refund amount must be greater than zero.';
+  end if;
+  if p_reason = 'deposit_release' then
+    raise exception 'Security deposits are refunded by settling the deposit.';
+  end if;
+  if round(p_amount, 2) > payment_refundable_amount(p_payment_id) then
+    raise exception 'Refund amount exceeds the refundable balance of %.', payment_refundable_amount(p_payment_id);
+  end if;
+
+  insert into public.refunds (payment_id, booking_id, user_id, amount, currency, reason, notes, initiated_by)
+  values (p_payment_id, payment_record.booking_id, payment_record.user_id, round(p_amount, 2), payment_record.currency, p_reason, nullif(trim(p_notes), ''), auth.uid())
+  returning id into new_refund_id;
+
+  return new_refund_id;
+end;
+$$;
+
+-- Marks a pending or failed refund as processing and returns what the gateway needs to issue it.
+-- Claiming the refund first stops two admins from sending the same refund to the gateway.
+-- A failed refund stops counting against the payment, so other refunds may have used its amount since;
+-- it is only retried while the payment still has that much left to refund.
+create or replace function begin_refund_processing(p_refund_id uuid)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  refund_record public.refunds;
+  payment_record public.payments;
+begin
+  if not is_admin() then raise exception 'Only admins can process refunds.'; end if;
+
+  -- Lock the payment before the refund, in the same order as create_refund, so the check below cannot race a new refund.
+  select p.* into payment_record
+  from public.payments p join public.refunds r on r.payment_id = p.id
+  where r.id = p_refund_id
+  for update of p;
+  if not found then raise exception 'Refund not found.'; end if;
+
+  select * into refund_record from public.refunds where id = p_refund_id for update;
+  if refund_record.status not in ('pending', 'failed') then
+    raise exception 'Refund is already being processed or has completed.';
+  end if;
+  if refund_record.status = 'failed' and refund_record.reason != 'deposit_release'
+     and refund_record.amount > payment_refundable_amount(payment_record.id) then
+    raise exception 'The payment has been refunded since this refund failed; only % is left to refund, so it cannot be retried.', payment_refundable_amount(payment_record.id);
+  end if;
+
+  update public.refunds
+  set status = 'processing', failure_reason = null
+  where id = p_refund_id
+  returning * into refund_record;
+
+  return json_build_object(
+    'refundId', refund_record.id,
+    'paymentId', payment_record.id,
+    'method', payment_record.method,
+    'gatewayTxnId', payment_record.gateway_txn_id,
+    'amount', refund_record.amount,
+    'currency', refund_record.currency
+  );
+end;
+$$;
+
+-- Returns what the gateway needs to look up a refund that is still processing, for checking its outcome.
+-- A refund sent or recorded in the last two minutes may still be on its way to the gateway, which would not
+-- know it yet and would report it as never made.
+create or replace function get_processing_refund(p_refund_id uuid)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  refund_record public.refunds;
+  payment_record public.payments;
+begin
+  if not is_admin() then raise exception 'Only admins can process refunds.'; end if;
+
+  select * into refund_record from public.refunds where id = p_refund_id;
+  if not found or refund_record.status != 'processing' then
+    raise exception 'Refund not found or not being processed.';
+  end if;
+  if refund_record.updated_at > now() - interval '2 minutes' then
+    raise exception 'The refund was sent to the gateway moments ago. Check its status again in a few minutes.';
+  end if;
+
+  select * into payment_record from public.payments where id = refund_record.payment_id;
+
+  return json_build_object(
+    'refundId', refund_record.id,
+    'paymentId', payment_record.id,
+    'method', payment_record.method,
+    'gatewayTxnId', payment_record.gateway_txn_id,
+    'amount', refund_record.amount,
+    'currency', refund_record.currency
+  );
+end;
+$$;
+
+-- Records the gateway's answer for a refund that is processing. A succeeded refund is added to the
+-- payment's refunded_amount; a failed one releases its amount so it can be retried or refunded again.
+-- A refund whose outcome is unknown is recorded as still processing, with the error as its failure_reason.
+create or replace function record_refund_result(
+  p_refund_id uuid,
+  p_status refund_status_enum,
+  p_gateway_refund_id text default null,
+  p_failure_reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  refund_record public.refunds;
+begin
+  if not is_admin() then raise exception 'Only admins can process refunds.'; end if;
+  if p_status not in ('processing', 'succeeded', 'failed') then
+    raise exception 'Invalid refund result: %', p_status;
+  end if;
+
+  select * into refund_record from public.refunds where id = p_refund_id for update;
+  if not found or refund_record.status != 'processing' then
+    raise exception 'Refund not found or not being processed.';
+  end if;
+
+  update public.refunds
+  set
+    status = p_status,
+    gateway_refund_id = coalesce(p_gateway_refund_id, gateway_refund_id),
+    failure_reason = case
+      when p_status = 'failed' then coalesce(p_failure_reason, 'Refund failed at the gateway.')
+      when p_status = 'processing' then p_failure_reason
+    end,
+    processed_at = case when p_status = 'succeeded' then now() else processed_at end
+  where id = p_refund_id;
+
+  if p_status = 'succeeded' then
+    update public.payments set refunded_amount = refunded_amount + refund_record.amount
+    where id = refund_record.payment_id;
+  end if;
+end;
+$$;
+
+-- FIX: Drop the function first to allow changing the return signature.
+DROP FUNCTION IF EXISTS get_user_bookings();
+create or replace function get_user_bookings()
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  return (
+    select json_agg(
+      json_build_object(
+        'id', b.id,
+        'created_at', b.created_at,
+        'user_id', b.user_id,
+        'car_id', b.car_id,
+        'customer_name', p.full_name,
+        'customer_phone', p.phone,
+        'car_title', c.title,
+        'start_datetime', b.start_datetime,
+        'end_datetime', b.end_datetime,
+        'total_amount', b.total_amount,
+        'status', b.status,
+        'payment_mode', b.payment_mode,
+        'hold_expires_at', b.hold_expires_at,
+        'discount_amount', b.discount_amount,
+        'promo_code_id', b.promo_code_id,
+        'cancelled_at', b.cancelled_at,
+        'cancellation_reason', b.cancellation_reason,
+        'refund_amount', b.refund_amount,
+        'version', b.version,
+        'pickup_branch_name', (select br.name from public.branches br where br.id = b.pickup_branch_id),
+        'return_branch_name', (select br.name from public.branches br where br.id = b.return_branch_id),
+        'delivery_address', b.delivery_address,
+        'collection_address', b.collection_address,
+        'usage_terms', b.usage_terms,
+        'inspections', (
+          select json_agg(json_build_object('id', i.id, 'kind', i.kind, 'acknowledged_at', i.acknowledged_at) order by i.created_at)
+          from public.booking_inspections i
+          where i.booking_id = b.id
+        ),
+        'charges', (
+          select json_agg(json_build_object(
+            'id', ch.id, 'kind', ch.kind, 'description', ch.description, 'amount', ch.amount, 'status', ch.status,
+            'line_items', ch.line_items, 'created_at', ch.created_at
+          ) order by ch.created_at)
+          from public.booking_charges ch
+          where ch.booking_id = b.id
+        ),
+        'amount_paid', (
+          select coalesce(sum(pay.amount - pay.deposit_amount), 0) from public.payments pay
+          where pay.booking_id = b.id and pay.payment_type in ('booking', 'balance', 'modification') and pay.status = 'success'
+        ),
+        'deposit', (
+          select json_build_object(
+            'id', d.id, 'amount', d.amount, 'status', d.status, 'retained_amount', d.retained_amount,
+            'released_amount', d.released_amount, 'deductions', d.deductions, 'settled_at', d.settled_at
+          )
+          from public.booking_deposits d
+          where d.booking_id = b.id
+        ),
+        'cars', CASE WHEN c.id IS NOT NULL THEN json_build_object(
+          'id', c.id,
+          'title', c.title,
+          'make', c.make,
+          'model', c.model,
+          'year', c.year,
+          'seats', c.seats,
+          'fuelType', c.fuel_type,
+          'transmission', c.transmission,
+          'pricePerDay', c.price_per_day,
+          'category', c.category,
+          'verified', c.verified,
+          'status', c.status,
+          'imagePaths', COALESCE(c.image_paths, '{}'::text[]),
+          'available', c.available
+        ) ELSE NULL END,
+        'booking_extensions', (
+          select json_agg(
+            json_build_object(
+              'id', be.id,
+              'added_hours', be.added_hours,
+              'requested_end', be.requested_end,
+              'price', be.price,
+              'payment_status', be.payment_status,
+              'created_at', be.created_at
+            )
+          )
+          from public.booking_extensions be
+          where be.booking_id = b.id
+        ),
+        'refunds', (
+          select json_agg(
+            json_build_object(
+              'id', r.id,
+              'payment_id', r.payment_id,
+              'amount', r.amount,
+              'reason', r.reason,
+              'status', r.status,
+              'processed_at', r.processed_at,
+              'created_at', r.created_at
+            ) order by r.created_at
+          )
+          from public.refunds r
+          where r.booking_id = b.id
+        )
+      )
+    )
+    from public.bookings b
+    left join public.cars c on b.car_id = c.id
+    left join public.profiles p on b.user_id = p.id
+    where b.user_id = auth.uid()
+  );
+end;
+$$;
+
+-- === BOOKING OPERATIONS ===
+-- The admin operations console. Every change an admin makes goes through one of the admin_* functions below, which
+-- record it in booking_admin_actions alongside the status change in booking_status_history.
+
+-- A booking as shown in the operations console, with its customer, extensions and refunds.
+create or replace function admin_booking_json(p_booking_id uuid)
+returns json
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select json_build_object(
+    'id', b.id,
+    'created_at', b.created_at,
+    'user_id', b.user_id,
+    'car_id', b.car_id,
+    'customer_name', p.full_name,
+    'customer_email', u.email,
+    'customer_phone', p.phone,
+    'car_title', c.title,
+    'start_datetime', b.start_datetime,
+    'end_datetime', b.end_datetime,
+    'total_amount', b.total_amount,
+    'status', b.status,
+    'payment_mode', b.payment_mode,
+    'hold_expires_at', b.hold_expires_at,
+    'payment_expires_at', b.payment_expires_at,
+    'discount_amount', b.discount_amount,
+    'promo_code_id', b.promo_code_id,
+    'cancelled_at', b.cancelled_at,
+    'cancellation_reason', b.cancellation_reason,
+    'refund_amount', b.refund_amount,
+    'version', b.version,
+    'picked_up_at', b.picked_up_at,
+    'returned_at', b.returned_at,
+    'pickup_branch_name', (select br.name from public.branches br where br.id = b.pickup_branch_id),
+    'return_branch_name', (select br.name from public.branches br where br.id = b.return_branch_id),
+    'delivery_address', b.delivery_address,
+    'collection_address', b.collection_address,
+    'usage_terms', b.usage_terms,
+    'inspections', (
+      select json_agg(json_build_object('id', i.id, 'kind', i.kind, 'acknowledged_at', i.acknowledged_at) order by i.created_at)
+      from public.booking_inspections i
+      where i.booking_id = b.id
+    ),
+    'charges', (
+      select json_agg(json_build_object(
+        'id', ch.id, 'kind', ch.kind, 'description', ch.description, 'amount', ch.amount, 'status', ch.status,
+        'line_items', ch.line_items, 'created_at', ch.created_at
+      ) order by ch.created_at)
+      from public.booking_charges ch
+      where ch.booking_id = b.id
+    ),
+    'amount_paid', (
+      select coalesce(sum(pay.amount - pay.deposit_amount), 0) from public.payments pay
+      where pay.booking_id = b.id and pay.payment_type in ('booking', 'balance', 'modification') and pay.status = 'success'
+    ),
+    'deposit', (
+      select json_build_object(
+        'id', d.id, 'amount', d.amount, 'status', d.status, 'retained_amount', d.retained_amount,
+        'released_amount', d.released_amount, 'deductions', d.deductions, 'settled_at', d.settled_at
+      )
+      from public.booking_deposits d
+      where d.booking_id = b.id
+    ),
+    'note_count', (select count(*) from public.booking_admin_actions a where a.booking_id = b.id and a.action = 'note'),
+    'booking_extensions', (
+      select json_agg(json_build_object(
+        'id', be.id,
+        'added_hours', be.added_hours,
+        'requested_end', be.requested_end,
+        'price', be.price,
+        'payment_status', be.payment_status,
+        'created_at', be.created_at
+      ) order by be.created_at)
+      from public.booking_extensions be
+      where be.booking_id = b.id
+    ),
+    'refunds', (
+      select json_agg(json_build_object(
+        'id', r.id,
+        'payment_id', r.payment_id,
+        'amount', r.amount,
+        'reason', r.reason,
+        'status', r.status,
+        'processed_at', r.processed_at,
+        'created_at', r.created_at
+      ) order by r.created_at)
+      from public.refunds r
+      where r.booking_id = b.id
+    )
+  )
+  from public.bookings b
+  left join auth.users u on u.id = b.user_id
+  left join public.profiles p on p.id = b.user_id
+  left join public.cars c on c.id = b.car_id
+  where b.id = p_booking_id;
+$$;
+-- Internal helper for search_bookings, which checks access itself.
+revoke execute on function admin_booking_json(uuid) from public, anon, authenticated;
+
+-- Lists bookings for the operations console, newest first, one page at a time. Every filter is optional: p_status and
+-- p_car_id match exactly, p_user_id limits the list to one customer, p_from and p_to keep bookings whose rental period
+-- overlaps the range, and p_search matches the booking reference, the customer's name, email or phone, or the car.
+-- Returns the page of bookings and the total number matching.
+create or replace function search_bookings(
+  p_status booking_status_enum default null,
+  p_car_id uuid default null,
+  p_user_id uuid default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_search text default null,
+  p_page integer default 1,
+  p_page_size integer default 20
+)
+returns json
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  search_pattern text := '%' || nullif(trim(p_search), '') || '%';
+  total_count integer;
+  page_rows json;
+begin
+  if not is_admin() then
+    raise exception 'Admin privileges required';
+  end if;
+  if p_page < 1 or p_page_size not between 1 and 100 then
+    raise exception 'Invalid page.';
+  end if;
+
+  select
+    count(*),
+    coalesce(json_agg(admin_booking_json(m.id) order by m.position) filter (
+      where m.position > (p_page - 1) * p_page_size and m.position <= p_page * p_page_size
+    ), '[]'::json)
+  into total_count, page_rows
+  from (
+    select b.id, row_number() over (order by b.created_at desc, b.id) as position
+    from public.bookings b
+    left join auth.users u on u.id = b.user_id
+    left join public.profiles p on p.id = b.user_id
+    left join public.cars c on c.id = b.car_id
+    where
+      (p_status is null or b.status = p_status) and
+      (p_car_id is null or b.car_id = p_car_id) and
+      (p_user_id is null or b.user_id = p_user_id) and
+      (p_from is null or b.end_datetime > p_from) and
+      (p_to is null or b.start_datetime < p_to) and
+      (search_pattern is null or
+        b.id::text ilike search_pattern or
+        p.full_name ilike search_pattern or
+        u.email ilike search_pattern or
+        p.phone ilike search_pattern or
+        c.title ilike search_pattern)
+  ) as m;
+
+  return json_build_object('total', total_count, 'bookings', page_rows);
+end;
+$$;
+
+-- Confirms a pending_payment or held booking that was paid outside the gateway, e.g. in cash at the counter.
+-- Pending gateway payments are cancelled so the customer cannot pay twice, and the promo code is counted as
+-- redeemed, as settle_payment does for a booking paid online.
+create or replace function admin_confirm_booking(p_booking_id uuid, p_note text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found then raise exception 'Booking not found.'; end if;
+  if booking_record.status not in ('pending_payment', 'hold') then
+    raise exception 'Only pending or held bookings can be confirmed.';
+  end if;
+
+  update public.payments set status = 'cancelled'
+  where booking_id = p_booking_id and payment_type in ('booking', 'balance') and status = 'pending';
+
+  if booking_record.status = 'pending_payment' and booking_record.promo_code_id is not null then
+    update public.promo_codes set times_used = times_used + 1, last_used_at = now()
+    where id = booking_record.promo_code_id;
+  end if;
+
+  update public.bookings set status = 'confirmed', hold_expires_at = null where id = p_booking_id;
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note)
+  values (p_booking_id, auth.uid(), 'confirm', nullif(trim(p_note), ''));
+end;
+$$;
+
+-- Cancels a booking for the customer or for operational reasons. Unlike cancel_booking, the admin chooses the refund
+-- percent instead of the cancellation policy; apply_booking_transition_trigger creates the pending refunds as usual.
+-- Returns the refund amount.
+create or replace function admin_cancel_booking(p_booking_id uuid, p_refund_percent numeric, p_reason text)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  paid_amount numeric;
+  refund numeric;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+  if nullif(trim(p_reason), '') is null then raise exception 'A reason is required to cancel a booking.'; end if;
+  if p_refund_percent is null or p_refund_percent < 0 or p_refund_percent > 100 then
+    raise exception 'Refund percent must be between 0 and 100.';
+  end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found then raise exception 'Booking not found.'; end if;
+  if booking_record.status not in ('pending_payment', 'hold', 'confirmed') then
+    raise exception 'Only pending, held or confirmed bookings can be cancelled.';
+  end if;
+
+  select coalesce(sum(payment_refundable_amount(id)), 0) into paid_amount
+  from public.payments
+  where booking_id = p_booking_id and status = 'success'
+    and payment_type in ('booking', 'balance', 'extension', 'modification');
+  refund := round(paid_amount * p_refund_percent / 100.0, 2);
+
+  update public.bookings
+  set
+    status = 'cancelled',
+    hold_expires_at = null,
+    cancelled_at = now(),
+    cancellation_reason = trim(p_reason),
+    refund_percent = p_refund_percent,
+    refund_amount = refund
+  where id = p_booking_id;
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note, details)
+  values (p_booking_id, auth.uid(), 'cancel', trim(p_reason), jsonb_build_object('refundPercent', p_refund_percent, 'refundAmount', refund));
+
+  return refund;
+end;
+$$;
+
+-- Records that the customer has collected the car of a confirmed booking, once its pickup inspection is saved. The
+-- booking can no longer be modified, and its security deposit is held until the deposit is settled.
+create or replace function admin_mark_picked_up(p_booking_id uuid, p_note text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found then raise exception 'Booking not found.'; end if;
+  if booking_record.status != 'confirmed' then raise exception 'Only confirmed bookings can be picked up.'; end if;
+  if booking_record.picked_up_at is not null then raise exception 'This booking has already been picked up.'; end if;
+  if not exists (select 1 from public.booking_inspections where booking_id = p_booking_id and kind = 'pickup') then
+    raise exception 'Inspect the car before handing it over.';
+  end if;
+
+  update public.bookings set picked_up_at = now() where id = p_booking_id;
+  update public.booking_deposits set status = 'held' where booking_id = p_booking_id and status = 'collected';
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note)
+  values (p_booking_id, auth.uid(), 'pick_up', nullif(trim(p_note), ''));
+end;
+$$;
+
+-- Records that the car of a picked-up booking has been returned, once its return inspection is saved. A confirmed
+-- booking is completed, which releases
+-- the car for the rest of its period if it came back early; one already completed by complete_ended_bookings just
+-- gets its return time. The booking is then settled against its mileage allowance and fuel policy.
+create or replace function admin_mark_returned(p_booking_id uuid, p_note text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found then raise exception 'Booking not found.'; end if;
+  if booking_record.status not in ('confirmed', 'completed') then
+    raise exception 'Only confirmed or completed bookings can be returned.';
+  end if;
+  if booking_record.picked_up_at is null then raise exception 'Record the pickup before the return.'; end if;
+  if booking_record.returned_at is not null then raise exception 'This booking has already been returned.'; end if;
+  if not exists (select 1 from public.booking_inspections where booking_id = p_booking_id and kind = 'return') then
+    raise exception 'Inspect the car before taking it back.';
+  end if;
+
+  update public.bookings set status = 'completed', returned_at = now() where id = p_booking_id;
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note)
+  values (p_booking_id, auth.uid(), 'return', nullif(trim(p_note), ''));
+
+  perform settle_booking_usage(p_booking_id);
+end;
+$$;
+
+-- Adds an internal note to a booking. Notes are visible to admins only.
+create or replace function admin_add_booking_note(p_booking_id uuid, p_note text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+  if nullif(trim(p_note), '') is null then raise exception 'The note cannot be empty.'; end if;
+  if not exists (select 1 from public.bookings where id = p_booking_id) then raise exception 'Booking not found.'; end if;
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note)
+  values (p_booking_id, auth.uid(), 'note', trim(p_note));
+end;
+$$;
+
+-- Everything that happened to a booking, oldest first: status changes, payments, extensions, refunds, modifications
+-- and admin actions including notes. Each event has a title and optional detail, amount, status and actor.
+create or replace function get_booking_timeline(p_booking_id uuid)
+returns json
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'Admin privileges required';
+  end if;
+
+  return (
+    select coalesce(json_agg(json_build_object(
+      'at', e.at, 'kind', e.kind, 'title', e.title, 'detail', e.detail, 'amount', e.amount, 'status', e.status, 'actor', e.actor
+    ) order by e.at), '[]'::json)
+    from (
+      select
+        h.created_at as at, 'status' as kind,
+        case when h.from_status is null then 'Booking created'
+          else initcap(replace(h.from_status::text, '_', ' ')) || ' → ' || initcap(replace(h.to_status::text, '_', ' ')) end as title,
+        h.reason as detail, null::numeric as amount, h.to_status::text as status, p.full_name as actor
+      from public.booking_status_history h
+      left join public.profiles p on p.id = h.changed_by
+      where h.booking_id = p_booking_id
+      union all
+      select pay.created_at, 'payment', initcap(pay.payment_type) || ' payment',
+        concat_ws(' · ', pay.method, pay.gateway_txn_id), pay.amount, pay.status::text, null
+      from public.payments pay
+      where pay.booking_id = p_booking_id
+      union all
+      select be.created_at, 'extension', 'Extension by ' || be.added_hours || ' hours', null, be.price, be.payment_status::text, null
+      from public.booking_extensions be
+      where be.booking_id = p_booking_id
+      union all
+      select r.created_at, 'refund', 'Refund', initcap(replace(r.reason::text, '_', ' ')) || coalesce(': ' || r.notes, ''), r.amount, r.status::text, p.full_name
+      from public.refunds r
+      left join public.profiles p on p.id = r.initiated_by
+      where r.booking_id = p_booking_id
+      union all
+      select bm.applied_at, 'modification', 'Changed to version ' || bm.version, bm.reason, bm.price_difference, bm.settlement, null
+      from public.booking_modifications bm
+      where bm.booking_id = p_booking_id and bm.status = 'applied'
+      union all
+      select a.created_at, 'admin',
+        case a.action
+          when 'create' then 'Created by admin'
+          when 'confirm' then 'Confirmed by admin'
+          when 'cancel' then 'Cancelled by admin'
+          when 'pick_up' then 'Car picked up'
+          when 'return' then 'Car returned'
+          when 'inspect' then initcap(a.details->>'kind') || ' inspection saved'
+          when 'charge' then 'Charge raised'
+          when 'waive_charge' then 'Charge waived'
+          when 'settle_deposit' then 'Deposit settled'
+          else 'Note'
+        end,
+        a.note, coalesce((a.details->>'refundAmount')::numeric, (a.details->>'amount')::numeric), a.action, p.full_name
+      from public.booking_admin_actions a
+      left join public.profiles p on p.id = a.admin_id
+      where a.booking_id = p_booking_id
+    ) as e
+  );
+end;
+$$;
+
+-- === FLEET CALENDAR ===
+-- The admin fleet calendar: every car's bookings, extensions, turnaround buffers and maintenance blocks over a period,
+-- and the functions behind dragging out a new booking or maintenance block on it.
+
+-- The calendar between p_from and p_to. Cars come with their turnaround buffer in minutes; bookings of every status
+-- whose rental or buffer overlaps the period come with their customer and extensions.
+create or replace function get_fleet_calendar(p_from timestamptz, p_to timestamptz)
+returns json
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'Admin privileges required';
+  end if;
+  if p_to <= p_from or p_to - p_from > interval '93 days' then
+    raise exception 'The calendar can show up to three months at a time.';
+  end if;
+
+  return json_build_object(
+    'cars', (
+      select coalesce(json_agg(json_build_object(
+        'id', c.id,
+        'title', c.title,
+        'status', c.status,
+        'turnaround_minutes', (extract(epoch from coalesce(car_turnaround(c.id), interval '0')) / 60)::integer
+      ) order by c.title), '[]'::json)
+      from public.cars c
+    ),
+    'bookings', (
+      select coalesce(json_agg(json_build_object(
+        'id', b.id,
+        'car_id', b.car_id,
+        'customer_name', p.full_name,
+        'start_datetime', b.start_datetime,
+        'end_datetime', b.end_datetime,
+        'status', b.status,
+        'hold_expires_at', b.hold_expires_at,
+        'payment_expires_at', b.payment_expires_at,
+        'picked_up_at', b.picked_up_at,
+        'returned_at', b.returned_at,
+        'booking_extensions', (
+          select coalesce(json_agg(json_build_object(
+            'id', be.id,
+            'added_hours', be.added_hours,
+            'requested_end', be.requested_end,
+            'payment_status', be.payment_status
+          ) order by be.created_at), '[]'::json)
+          from public.booking_extensions be
+          where be.booking_id = b.id and be.payment_status in ('pending', 'success')
+        )
+      ) order by b.start_datetime), '[]'::json)
+      from public.bookings b
+      left join public.profiles p on p.id = b.user_id
+      where
+        b.start_datetime < p_to and
+        greatest(b.end_datetime, (
+          select max(be.requested_end) from public.booking_extensions be
+          where be.booking_id = b.id and be.payment_status = 'pending'
+        )) + coalesce(car_turnaround(b.car_id), interval '0') > p_from
+    ),
+    'blocks', (
+      select coalesce(json_agg(json_build_object(
+        'id', mb.id,
+        'car_id', mb.car_id,
+        'starts_at', mb.starts_at,
+        'ends_at', mb.ends_at,
+        'reason', mb.reason
+      ) order by mb.starts_at), '[]'::json)
+      from public.car_maintenance_blocks mb
+      where mb.starts_at < p_to and mb.ends_at > p_from
+    )
+  );
+end;
+$$;
+
+-- Blocks a car for maintenance. The period, including the turnaround buffers of rentals either side, must be free
+-- of live bookings; lapsed checkouts and holds on the car are expired first.
+create or replace function create_maintenance_block(p_car_id uuid, p_starts_at timestamptz, p_ends_at timestamptz, p_reason text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_block_id uuid;
+begin
+  if not is_admin() then raise exception 'Only admins can manage maintenance blocks.'; end if;
+  if nullif(trim(p_reason), '') is null then raise exception 'A reason is required for a maintenance block.'; end if;
+  if p_ends_at <= p_starts_at then raise exception 'The block must end after it starts.'; end if;
+
+  perform 1 from public.cars where id = p_car_id for update;
+  if not found then raise exception 'Car not found.'; end if;
+
+  perform expire_pending_payments(p_car_id);
+  perform cleanup_expired_holds(p_car_id);
+
+  if exists (
+    select 1 from public.car_reservations r
+    where r.car_id = p_car_id and r.period && tstzrange(p_starts_at, p_ends_at)
+  ) then
+    raise exception 'The car is booked during this period. Move or cancel those bookings first.';
+  end if;
+  if exists (
+    select 1 from public.car_maintenance_blocks mb
+    where mb.car_id = p_car_id and tstzrange(mb.starts_at, mb.ends_at) && tstzrange(p_starts_at, p_ends_at)
+  ) then
+    raise exception 'The car already has a maintenance block during this period.';
+  end if;
+
+  insert into public.car_maintenance_blocks (car_id, starts_at, ends_at, reason, created_by)
+  values (p_car_id, p_starts_at, p_ends_at, trim(p_reason), auth.uid())
+  returning id into new_block_id;
+
+  return new_block_id;
+end;
+$$;
+
+-- Removes a maintenance block, freeing the car for bookings.
+create or replace function delete_maintenance_block(p_block_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then raise exception 'Only admins can manage maintenance blocks.'; end if;
+  delete from public.car_maintenance_blocks where id = p_block_id;
+  if not found then raise exception 'Maintenance block not found.'; end if;
+end;
+$$;
+
+-- Creates a booking for a customer from the fleet calendar, e.g. for a walk-in or phone booking, priced by
+-- calculate_booking_price without a promo code. With p_confirm the booking is confirmed at once as paid at the
+-- counter (see admin_confirm_booking); otherwise it waits in pending_payment for 24 hours for the customer to pay
+-- from their dashboard. Returns the new booking's id.
+create or replace function admin_create_booking(
+  p_user_id uuid,
+  p_car_id uuid,
+  p_start_datetime timestamptz,
+  p_end_datetime timestamptz,
+  p_extras text[] default '{}',
+  p_confirm boolean default false,
+  p_note text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  price_details jsonb;
+  total numeric;
+  new_booking_id uuid;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+  if not exists (select 1 from public.profiles where id = p_user_id) then raise exception 'Customer not found.'; end if;
+  if p_end_datetime <= p_start_datetime then raise exception 'The return must be after the pickup.'; end if;
+
+  perform expire_pending_payments(p_car_id);
+  perform cleanup_expired_holds(p_car_id);
+
+  price_details := calculate_booking_price(p_car_id, p_start_datetime, p_end_datetime, p_extras, null);
+  total := (price_details->>'totalAmount')::numeric;
+  perform assert_branch_open((price_details->>'pickupBranchId')::uuid, p_start_datetime, 'Pickup');
+  perform assert_branch_open((price_details->>'returnBranchId')::uuid, p_end_datetime, 'Return');
+
+  begin
+    insert into public.bookings (car_id, user_id, start_datetime, end_datetime, total_amount, status, discount_amount, extras, payment_mode, payment_expires_at, pickup_branch_id, return_branch_id)
+    values (
+      p_car_id, p_user_id, p_start_datetime, p_end_datetime, total, 'pending_payment', 0,
+      coalesce(price_details->'extras', '[]'::jsonb), 'full', now() + interval '24 hours',
+      (price_details->>'pickupBranchId')::uuid, (price_details->>'returnBranchId')::uuid
+    )
+    returning id into new_booking_id;
+  exception when exclusion_violation then
+    if check_car_availability(p_car_id, p_start_datetime, p_end_datetime)->>'reason' = 'turnaround' then
+      raise exception using errcode = 'exclusion_violation',
+        message = 'Car is not available: it needs ' || (extract(epoch from car_turnaround(p_car_id)) / 60)::integer || ' minutes between rentals for cleaning and inspection.';
+    end if;
+    raise exception using errcode = 'exclusion_violation', message = 'Car is not available for the selected time range.';
+  end;
+
+  -- The payment the customer completes from their dashboard, in full. It has no method on purpose: the customer
+  -- chooses the gateway there, and retry_booking_payment replaces it with a payment through that gateway.
+  insert into public.payments (booking_id, user_id, amount, status)
+  values (new_booking_id, p_user_id, total, 'pending');
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note, details)
+  values (new_booking_id, auth.uid(), 'create', nullif(trim(p_note), ''), jsonb_build_object('totalAmount', total));
+
+  if p_confirm then
+    perform admin_confirm_booking(new_booking_id, 'Paid at the counter.');
+  end if;
+
+  return new_booking_id;
+end;
+$$;
+
+-- === VEHICLE INSPECTIONS ===
+-- Condition reports staff fill in at pickup and return, which the customer acknowledges, and the charges raised for
+-- new damage found at return.
+
+-- Saves the pickup or return report of a booking, replacing the one saved before unless the customer has acknowledged
+-- it or the car has been returned, since the return settles the booking from the readings. A pickup report needs a
+-- confirmed booking; a return report needs the car to have been picked up, and cannot read less on the odometer than
+-- the pickup report. Photos must be stored under the booking's ID. The customer is asked to acknowledge the report.
+-- Returns the report's ID.
+create or replace function admin_save_inspection(
+  p_booking_id uuid,
+  p_kind text,
+  p_odometer_km integer,
+  p_energy_level_percent integer,
+  p_damages jsonb,
+  p_photo_paths text[],
+  p_notes text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  existing_report public.booking_inspections;
+  pickup_odometer integer;
+  damage jsonb;
+  damages jsonb := coalesce(p_damages, '[]'::jsonb);
+  inspection_id uuid;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+  if p_kind not in ('pickup', 'return') then raise exception 'Invalid inspection: choose pickup or return.'; end if;
+  if p_odometer_km is null or p_odometer_km < 0 then raise exception 'Enter the odometer reading.'; end if;
+  if p_energy_level_percent is null or p_energy_level_percent not between 0 and 100 then
+    raise exception 'The fuel or battery level must be between 0 and 100 percent.';
+  end if;
+  if jsonb_typeof(damages) != 'array' then raise exception 'Invalid damage marks.'; end if;
+  for damage in select * from jsonb_array_elements(damages) loop
+    if not coalesce(damage->>'area', '') = any (array['front_bumper', 'bonnet', 'windscreen', 'roof', 'rear_window', 'boot', 'rear_bumper', 'left_front_wing', 'left_front_door', 'left_rear_door', 'left_rear_quarter', 'right_front_wing', 'right_front_door', 'right_rear_door', 'right_rear_quarter', 'wheels', 'interior'])
+      or not coalesce(damage->>'type', '') = any (array['scratch', 'dent', 'crack', 'chip', 'missing']) then
+      raise exception 'Invalid damage mark: %', damage;
+    end if;
+  end loop;
+  if exists (select 1 from unnest(coalesce(p_photo_paths, '{}')) as photo where photo not like p_booking_id::text || '/%') then
+    raise exception 'Inspection photos must be uploaded for this booking.';
+  end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found then raise exception 'Booking not found.'; end if;
+  if booking_record.returned_at is not null then
+    raise exception 'The car has been returned, so its reports can no longer be changed.';
+  end if;
+  if p_kind = 'pickup' then
+    if booking_record.status != 'confirmed' then raise exception 'Only confirmed bookings can be inspected for pickup.'; end if;
+  else
+    if booking_record.picked_up_at is null then raise exception 'Record the pickup before inspecting the return.'; end if;
+    select odometer_km into pickup_odometer from public.booking_inspections where booking_id = p_booking_id and kind = 'pickup';
+    if p_odometer_km < pickup_odometer then
+      raise exception 'The odometer cannot read less than at pickup (% km).', pickup_odometer;
+    end if;
+  end if;
+
+  select * into existing_report from public.booking_inspections where booking_id = p_booking_id and kind = p_kind;
+  if found and existing_report.acknowledged_at is not null then
+    raise exception 'The customer has acknowledged this report, so it can no longer be changed.';
+  end if;
+
+  insert into public.booking_inspections (booking_id, kind, odometer_km, energy_level_percent, damages, photo_paths, notes, inspected_by)
+  values (p_booking_id, p_kind, p_odometer_km, p_energy_level_percent, damages, coalesce(p_photo_paths, '{}'), nullif(trim(p_notes), ''), auth.uid())
+  on conflict (booking_id, kind) do update set
+    odometer_km = excluded.odometer_km,
+    energy_level_percent = excluded.energy_level_percent,
+    damages = excluded.damages,
+    photo_paths = excluded.photo_paths,
+    notes = excluded.notes,
+    inspected_by = excluded.inspected_by
+  returning id into inspection_id;
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note, details)
+  values (p_booking_id, auth.uid(), 'inspect', nullif(trim(p_notes), ''), jsonb_build_object(
+    'kind', p_kind, 'odometerKm', p_odometer_km, 'energyLevelPercent', p_energy_level_percent, 'damageCount', jsonb_array_length(damages)
+  ));
+
+  if existing_report.id is null then
+    insert into public.notifications (user_id, booking_id, type, title, message)
+    values (
+      booking_record.user_id,
+      p_booking_id,
+      'inspection_ready',
+      'Please review the ' || p_kind || ' condition report',
+      'We recorded the car''s odometer, fuel level and any damage at ' || p_kind || '. Review the report under My Bookings and acknowledge it.'
+    );
+  end if;
+
+  return inspection_id;
+end;
+$$;
+
+-- Lets the customer confirm they have seen a condition report of their booking. Acknowledging twice is harmless.
+create or replace function acknowledge_inspection(p_inspection_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+
+  update public.booking_inspections i
+  set acknowledged_at = coalesce(i.acknowledged_at, now())
+  from public.bookings b
+  where i.id = p_inspection_id and b.id = i.booking_id and b.user_id = auth.uid();
+  if not found then raise exception 'Report not found or you do not have permission to acknowledge it.'; end if;
+end;
+$$;
+
+-- Raises a charge on a booking whose car has been picked up, e.g. for new damage found at return or a traffic fine, and
+-- tells the customer it is due; it can also be deducted from the security deposit (see admin_settle_deposit). p_inspection_id, if given, must be a report of the same booking. Returns the charge's ID.
+create or replace function admin_create_booking_charge(
+  p_booking_id uuid,
+  p_kind text,
+  p_amount numeric,
+  p_description text,
+  p_inspection_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  charge_id uuid;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+  if p_kind not in ('damage', 'fine') then raise exception 'Invalid charge type: %', p_kind; end if;
+  if p_amount is null or p_amount <= 0 then raise exception 'The charge must be more than zero.'; end if;
+  if nullif(trim(p_description), '') is null then raise exception 'Describe what the charge is for.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id;
+  if not found then raise exception 'Booking not found.'; end if;
+  if booking_record.picked_up_at is null then raise exception 'Charges can only be raised once the car has been picked up.'; end if;
+  if p_inspection_id is not null and not exists (
+    select 1 from public.booking_inspections where id = p_inspection_id and booking_id = p_booking_id
+  ) then
+    raise exception 'The inspection report is not for this booking.';
+  end if;
+
+  insert into public.booking_charges (booking_id, user_id, kind, description, amount, inspection_id, created_by)
+  values (p_booking_id, booking_record.user_id, p_kind, trim(p_description), round(p_amount, 2), p_inspection_id, auth.uid())
+  returning id into charge_id;
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note, details)
+  values (p_booking_id, auth.uid(), 'charge', trim(p_description), jsonb_build_object('chargeId', charge_id, 'kind', p_kind, 'amount', round(p_amount, 2)));
+
+  insert into public.notifications (user_id, booking_id, type, title, message)
+  values (
+    booking_record.user_id,
+    p_booking_id,
+    'charge_due',
+    'A charge was added to your booking',
+    trim(p_description) || ': ' || to_char(round(p_amount, 2), 'FM999999990.00') || ' INR. You can pay it under My Bookings.'
+  );
+
+  return charge_id;
+end;
+$$;
+
+-- Waives a charge that is still due; pending payments for it are cancelled so the customer cannot pay it by mistake.
+create or replace function admin_waive_booking_charge(p_charge_id uuid, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  charge_record public.booking_charges;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+  if nullif(trim(p_reason), '') is null then raise exception 'A reason is required to waive a charge.'; end if;
+
+  select * into charge_record from public.booking_charges where id = p_charge_id for update;
+  if not found then raise exception 'Charge not found.'; end if;
+  if charge_record.status != 'due' then raise exception 'Only charges that are due can be waived.'; end if;
+
+  update public.booking_charges set status = 'waived' where id = p_charge_id;
+  update public.payments set status = 'cancelled' where charge_id = p_charge_id and status = 'pending';
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note, details)
+  values (charge_record.booking_id, auth.uid(), 'waive_charge', trim(p_reason), jsonb_build_object('chargeId', p_charge_id, 'amount', charge_record.amount));
+end;
+$$;
+
+-- Creates a pending payment for a charge that is due on one of the customer's bookings. Paying it settles the charge;
+-- an earlier unpaid attempt is cancelled.
+create or replace function create_charge_payment(p_charge_id uuid, p_payment_method text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  charge_record public.booking_charges;
+  new_payment_id uuid;
+begin
+  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+
+  select * into charge_record from public.booking_charges where id = p_charge_id for update;
+  if not found or charge_record.user_id != auth.uid() then
+    raise exception 'Charge not found or you do not have permission to pay it.';
+  end if;
+  if charge_record.status != 'due' then raise exception 'This charge is not due.'; end if;
+  perform require_enabled_gateway(p_payment_method);
+
+  update public.payments set status = 'cancelled' where charge_id = p_charge_id and status = 'pending';
+
+  insert into public.payments (booking_id, user_id, charge_id, payment_type, amount, method, status)
+  values (charge_record.booking_id, auth.uid(), p_charge_id, 'charge', charge_record.amount, p_payment_method, 'pending')
+  returning id into new_payment_id;
+
+  return json_build_object('chargeId', p_charge_id, 'paymentId', new_payment_id, 'amount', charge_record.amount);
+end;
+$$;
+
+-- === MILEAGE AND FUEL ===
+
+-- Settles a returned booking against the mileage allowance and fuel policy it was made with, from its pickup and
+-- return reports: the km driven over the allowance for its rental days, and under a full-to-full policy the fuel (or
+-- charge) missing compared with pickup. Anything owed becomes one itemized 'settlement' charge and the customer is
+-- told it is due; paying it issues the settlement invoice. Bookings without usage terms or without both reports are
+-- not settled. Returns the charge's ID, or null when nothing is owed.
+create or replace function settle_booking_usage(p_booking_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  terms jsonb;
+  pickup_report public.booking_inspections;
+  return_report public.booking_inspections;
+  rental_days integer;
+  allowance_km integer;
+  excess_km integer;
+  fuel_short integer;
+  line_items jsonb := '[]'::jsonb;
+  total numeric;
+  charge_id uuid;
+begin
+  select * into booking_record from public.bookings where id = p_booking_id;
+  if not found then raise exception 'Booking not found.'; end if;
+  terms := booking_record.usage_terms;
+  if terms is null then return null; end if;
+  if exists (select 1 from public.booking_charges where booking_id = p_booking_id and kind = 'settlement') then
+    raise exception 'This booking has already been settled.';
+  end if;
+
+  select * into pickup_report from public.booking_inspections where booking_id = p_booking_id and kind = 'pickup';
+  select * into return_report from public.booking_inspections where booking_id = p_booking_id and kind = 'return';
+  if pickup_report.id is null or return_report.id is null then return null; end if;
+
+  -- Days as booked, including paid extensions; a part day counts as a whole one.
+  rental_days := greatest(1, ceil(extract(epoch from booking_record.end_datetime - booking_record.start_datetime) / 86400.0)::integer);
+
+  if terms->>'kmPerDay' is not null then
+    allowance_km := (terms->>'kmPerDay')::integer * rental_days;
+    excess_km := greatest(0, return_report.odometer_km - pickup_report.odometer_km - allowance_km);
+    if excess_km > 0 and (terms->>'excessKmRate')::numeric > 0 then
+      line_items := line_items || jsonb_build_object(
+        'description', 'Excess mileage: ' || excess_km || ' km over the ' || allowance_km || ' km allowance at '
+          || to_char((terms->>'excessKmRate')::numeric, 'FM999999990.00') || ' INR/km',
+        'amount', round(excess_km * (terms->>'excessKmRate')::numeric, 2)
+      );
+    end if;
+  end if;
+
+  if terms->>'fuelPolicy' = 'full_to_full' then
+    fuel_short := greatest(0, pickup_report.energy_level_percent - return_report.energy_level_percent);
+    if fuel_short > 0 and (terms->>'refuelRatePerPercent')::numeric > 0 then
+      line_items := line_items || jsonb_build_object(
+        'description', 'Refuelling: returned ' || fuel_short || '% below the pickup level',
+        'amount', round(fuel_short * (terms->>'refuelRatePerPercent')::numeric, 2)
+      );
+    end if;
+    if fuel_short > 0 and (terms->>'refuelServiceFee')::numeric > 0 then
+      line_items := line_items || jsonb_build_object('description', 'Refuelling service fee', 'amount', (terms->>'refuelServiceFee')::numeric);
+    end if;
+  end if;
+
+  select coalesce(sum((item->>'amount')::numeric), 0) into total from jsonb_array_elements(line_items) as item;
+  if total <= 0 then return null; end if;
+
+  insert into public.booking_charges (booking_id, user_id, kind, description, amount, line_items, inspection_id, created_by)
+  values (p_booking_id, booking_record.user_id, 'settlement', 'Mileage and fuel settlement', total, line_items, return_report.id, auth.uid())
+  returning id into charge_id;
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note, details)
+  values (p_booking_id, auth.uid(), 'charge', 'Mileage and fuel settlement', jsonb_build_object('chargeId', charge_id, 'kind', 'settlement', 'amount', total));
+
+  insert into public.notifications (user_id, booking_id, type, title, message)
+  values (
+    booking_record.user_id,
+    p_booking_id,
+    'charge_due',
+    'Your rental has been settled',
+    'Mileage and fuel settlement: ' || to_char(total, 'FM999999990.00') || ' INR for driving beyond your allowance or returning with less fuel. You can pay it under My Bookings.'
+  );
+
+  return charge_id;
+end;
+$$;
+
+-- Settlement happens when the car is taken back (see admin_mark_returned), never directly by clients.
+revoke execute on function settle_booking_usage(uuid) from public, anon, authenticated;
+
+-- === SECURITY DEPOSITS ===
+-- Deposits are collected with the booking payment and settled by an admin once the car is back (see booking_deposits).
+
+-- Settles the security deposit of a returned (or cancelled) booking. The chosen charges, which must still be due, are
+-- paid out of the deposit: they are marked paid, so a settlement charge gets its invoice as usual, and any pending
+-- payments for them are cancelled. The rest of the deposit becomes a pending 'deposit_release' refund against the
+-- payment it was collected with, sent to the gateway from the refunds screen. The customer is told the outcome.
+-- Returns the amount refunded.
+create or replace function admin_settle_deposit(p_booking_id uuid, p_charge_ids uuid[] default '{}', p_note text default null)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  deposit_record public.booking_deposits;
+  charge_ids uuid[] := coalesce(p_charge_ids, '{}');
+  deducted_charges jsonb;
+  deducted numeric;
+  deducted_count integer;
+  refund numeric;
+  new_refund_id uuid;
+  new_status text;
+begin
+  if not is_admin() then raise exception 'Only admins can manage bookings.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found then raise exception 'Booking not found.'; end if;
+  if booking_record.returned_at is null and booking_record.status != 'cancelled' then
+    raise exception 'The deposit can only be settled once the car has been returned.';
+  end if;
+
+  select * into deposit_record from public.booking_deposits where booking_id = p_booking_id for update;
+  if not found then raise exception 'This booking has no security deposit.'; end if;
+  if deposit_record.status not in ('collected', 'held') then raise exception 'This deposit has already been settled.'; end if;
+
+  perform 1 from public.booking_charges where id = any(charge_ids) for update;
+  select
+    coalesce(jsonb_agg(jsonb_build_object('chargeId', ch.id, 'kind', ch.kind, 'description', ch.description, 'amount', ch.amount) order by ch.created_at), '[]'::jsonb),
+    coalesce(sum(ch.amount), 0),
+    count(*)
+  into deducted_charges, deducted, deducted_count
+  from public.booking_charges ch
+  where ch.id = any(charge_ids) and ch.booking_id = p_booking_id and ch.status = 'due';
+
+  if deducted_count < cardinality(charge_ids) then
+    raise exception 'One or more of the charges are no longer due on this booking.';
+  end if;
+  if deducted > deposit_record.amount then
+    raise exception 'The deductions of % INR exceed the deposit of % INR. Leave some charges for the customer to pay.', deducted, deposit_record.amount;
+  end if;
+
+  update public.booking_charges set status = 'paid', deposit_id = deposit_record.id where id = any(charge_ids);
+  update public.payments set status = 'cancelled' where charge_id = any(charge_ids) and status = 'pending';
+
+  refund := deposit_record.amount - deducted;
+  if refund > 0 then
+    insert into public.refunds (payment_id, booking_id, user_id, amount, reason, notes, initiated_by)
+    values (deposit_record.payment_id, p_booking_id, deposit_record.user_id, refund, 'deposit_release', coalesce(nullif(trim(p_note), ''), 'Security deposit returned.'), auth.uid())
+    returning id into new_refund_id;
+  end if;
+
+  new_status := case when deducted = 0 then 'released' when refund = 0 then 'retained' else 'partially_released' end;
+  update public.booking_deposits
+  set
+    status = new_status,
+    retained_amount = deducted,
+    released_amount = refund,
+    deductions = deducted_charges,
+    refund_id = new_refund_id,
+    settlement_note = nullif(trim(p_note), ''),
+    settled_by = auth.uid(),
+    settled_at = now()
+  where id = deposit_record.id;
+
+  insert into public.booking_admin_actions (booking_id, admin_id, action, note, details)
+  values (
+    p_booking_id, auth.uid(), 'settle_deposit', nullif(trim(p_note), ''),
+    jsonb_build_object('depositId', deposit_record.id, 'refundAmount', refund, 'retainedAmount', deducted, 'chargeIds', to_jsonb(charge_ids))
+  );
+
+  insert into public.notifications (user_id, booking_id, type, title, message)
+  values (
+    deposit_record.user_id,
+    p_booking_id,
+    'deposit_settled',
+    'Your security deposit has been settled',
+    case
+      when deducted = 0 then 'Your deposit of ' || to_char(deposit_record.amount, 'FM999999990.00') || ' INR is being refunded in full.'
+      when refund = 0 then 'Your deposit of ' || to_char(deposit_record.amount, 'FM999999990.00') || ' INR has been used to pay the charges on your booking.'
+      else to_char(deducted, 'FM999999990.00') || ' INR of your deposit paid the charges on your booking; the remaining '
+        || to_char(refund, 'FM999999990.00') || ' INR is being refunded.'
+    end
+  );
+
+  return refund;
+end;
+$$;
+
+-- Lists security deposits for the settlement screen, with their booking, customer and car and the charges the
+-- booking owes. p_pending_only keeps deposits not yet settled, returned cars first; otherwise the most recently
+-- settled come first.
+create or replace function get_booking_deposits(p_pending_only boolean default true)
+returns json
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception 'Admin privileges required';
+  end if;
+
+  return (
+    select coalesce(json_agg(json_build_object(
+      'id', d.id,
+      'booking_id', d.booking_id,
+      'customer_name', p.full_name,
+      'customer_email', u.email,
+      'car_title', c.title,
+      'start_datetime', b.start_datetime,
+      'end_datetime', b.end_datetime,
+      'booking_status', b.status,
+      'returned_at', b.returned_at,
+      'amount', d.amount,
+      'status', d.status,
+      'retained_amount', d.retained_amount,
+      'released_amount', d.released_amount,
+      'deductions', d.deductions,
+      'settlement_note', d.settlement_note,
+      'settled_at', d.settled_at,
+      'refund_id', d.refund_id,
+      'refund_status', r.status,
+      'charges', (
+        select coalesce(json_agg(json_build_object(
+          'id', ch.id, 'kind', ch.kind, 'description', ch.description, 'amount', ch.amount, 'status', ch.status,
+          'line_items', ch.line_items, 'created_at', ch.created_at
+        ) order by ch.created_at), '[]'::json)
+        from public.booking_charges ch
+        where ch.booking_id = d.booking_id
+      )
+    ) order by
+      case when p_pending_only then (b.returned_at is null and b.status != 'cancelled') end,
+      case when p_pending_only then b.end_datetime end,
+      d.settled_at desc
+    ), '[]'::json)
+    from public.booking_deposits d
+    join public.bookings b on b.id = d.booking_id
+    left join auth.users u on u.id = d.user_id
+    left join public.profiles p on p.id = d.user_id
+    left join public.cars c on c.id = b.car_id
+    where (d.status in ('collected', 'held')) = p_pending_only
+  );
+end;
+$$;
+
+-- === DOORSTEP DELIVERY ===
+
+-- The drivers' run sheet: every doorstep delivery and collection on p_date, a local date in each branch's timezone,
+-- in time order. Deliveries happen at the booking's pickup time and collections at its return time. Cancelled
+-- bookings and lapsed checkouts are left out; done is set once the car was picked up or returned.
+create or replace function get_delivery_run_sheet(p_date date, p_branch_id uuid default null)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then raise exception 'Admin privileges required'; end if;
+
+  return coalesce((
+    select jsonb_agg(jsonb_build_object(
+      'bookingId', b.id,
+      'kind', r.kind,
+      'at', r.at,
+      'address', r.address,
+      'zoneName', z.name,
+      'maxDistanceKm', z.max_distance_km,
+      'branchName', br.name,
+      'customerName', p.full_name,
+      'customerPhone', p.phone,
+      'carTitle', c.title,
+      'status', b.status,
+      'done', case when r.kind = 'delivery' then b.picked_up_at is not null else b.returned_at is not null end
+    ) order by r.at, r.kind)
+    from (
+      select bk.id as booking_id, 'delivery' as kind, bk.start_datetime as at, bk.delivery_address as address,
+        bk.delivery_zone_id as zone_id, bk.pickup_branch_id as branch_id
+      from public.bookings bk
+      where bk.delivery_address is not null
+      union all
+      select bk.id, 'collection', bk.end_datetime, bk.collection_address, bk.collection_zone_id, bk.return_branch_id
+      from public.bookings bk
+      where bk.collection_address is not null
+    ) as r
+    join public.bookings b on b.id = r.booking_id
+    join public.branches br on br.id = r.branch_id
+    left join public.delivery_zones z on z.id = r.zone_id
+    left join public.profiles p on p.id = b.user_id
+    left join public.cars c on c.id = b.car_id
+    where b.status in ('hold', 'confirmed', 'completed')
+      and (r.at at time zone br.timezone)::date = p_date
+      and (p_branch_id is null or r.branch_id = p_branch_id)
+  ), '[]'::jsonb);
+end;
+$$;
+
+-- Drop the old signature first; the GSTIN parameter was added for business invoices.
+DROP FUNCTION IF EXISTS update_user_profile(text, text);
+create or replace function update_user_profile(
+  p_full_name text,
+  p_phone text,
+  p_gstin text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if nullif(trim(p_gstin), '') is not null and upper(trim(p_gstin)) !~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$' then
+    raise exception 'Please enter a valid 15 character GSTIN.';
+  end if;
+  
+  update public.profiles
+  set
+    full_name = p_full_name,
+    phone = p_phone,
+    gstin = upper(nullif(trim(p_gstin), '')),
+    updated_at = now()
+  where id = auth.uid();
+end;
+$$;
+
+-- Drop the old signature first; the payment method parameter was added with configurable gateways.
+DROP FUNCTION IF EXISTS create_extension_and_payment(uuid, integer);
+create or replace function create_extension_and_payment(
+  p_booking_id uuid,
+  p_added_hours integer,
+  p_payment_method text
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  new_end_datetime timestamptz;
+  price_details jsonb;
+  extension_price numeric;
+  new_extension_id uuid;
+  new_payment_id uuid;
+begin
+  select * into booking_record from public.bookings where id = p_booking_id and user_id = auth.uid() for update;
+  if booking_record is null then raise exception 'Booking not found or you do not have permission to extend it.'; end if;
+  if booking_record.status != 'confirmed' then raise exception 'Only confirmed bookings can be extended.'; end if;
+  if booking_record.end_datetime <= now() then raise exception 'Cannot extend a booking that has already ended.'; end if;
+  perform require_enabled_gateway(p_payment_method);
+
+  new_end_datetime := booking_record.end_datetime + (p_added_hours * interval '1 hour');
+
+  perform expire_pending_payments(booking_record.car_id);
+  perform cleanup_expired_holds(booking_record.car_id);
+
+  price_details := calculate_extension_price(p_booking_id, p_added_hours);
+  extension_price := (price_details->>'totalAmount')::numeric;
+
+  -- The pending extension reserves the added hours until its payment deadline; see car_reservations.
+  begin
+    insert into public.booking_extensions (booking_id, user_id, added_hours, requested_end, price, price_details, payment_status, payment_expires_at)
+    values (p_booking_id, auth.uid(), p_added_hours, new_end_datetime, extension_price, price_details, 'pending', now() + interval '30 minutes')
+    returning id into new_extension_id;
+  exception when exclusion_violation then
+    if check_car_availability(booking_record.car_id, booking_record.end_datetime, new_end_datetime, p_booking_id)->>'reason' = 'turnaround' then
+      raise exception using errcode = 'exclusion_violation',
+        message = 'The car is not available for the requested extension period: the next rental needs ' || (extract(epoch from car_turnaround(booking_record.car_id)) / 60)::integer || ' minutes to prepare the car.';
+    end if;
+    raise exception using errcode = 'exclusion_violation', message = 'The car is not available for the requested extension period.';
+  end;
+
+  insert into public.payments (booking_id, user_id, extension_id, payment_type, amount, method, status)
+  values (p_booking_id, auth.uid(), new_extension_id, 'extension', extension_price, p_payment_method, 'pending')
+  returning id into new_payment_id;
+
+  update public.booking_extensions set payment_id = new_payment_id where id = new_extension_id;
+
+  return json_build_object('extensionId', new_extension_id, 'paymentId', new_payment_id, 'amount', extension_price);
+end;
+$$;
+
+-- === BOOKING MODIFICATIONS ===
+
+-- The customer's account credit: credit issued less credit redeemed (see account_credits).
+create or replace function account_credit_balance(p_user_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(amount), 0) from public.account_credits where user_id = p_user_id;
+$$;
+
+-- Cancels a pending modification: its pending payment is marked p_payment_status, the car and dates it reserved are
+-- released and any account credit it redeemed is returned.
+create or replace function cancel_booking_modification(p_modification_id uuid, p_payment_status payment_status_enum default 'cancelled')
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  modification_record public.booking_modifications;
+begin
+  update public.booking_modifications set status = 'cancelled'
+  where id = p_modification_id and status = 'pending'
+  returning * into modification_record;
+  if not found then return; end if;
+
+  update public.payments set status = p_payment_status
+  where modification_id = p_modification_id and status = 'pending';
+
+  if modification_record.credit_applied > 0 then
+    insert into public.account_credits (user_id, amount, booking_id, modification_id, description)
+    values (modification_record.user_id, modification_record.credit_applied, modification_record.booking_id, p_modification_id, 'Credit returned: booking change not completed.');
+  end if;
+end;
+$$;
+
+-- Applies a pending modification: the booking takes the new car, dates and price and moves to the next version.
+-- A lower price is paid back out of the booking's payments, newest first, as pending refunds or as account credit
+-- according to the modification's settlement; whatever the payments cannot cover becomes credit.
+create or replace function apply_booking_modification(p_modification_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  modification_record public.booking_modifications;
+  booking_record public.bookings;
+  payment_record public.payments;
+  remaining numeric;
+  share numeric;
+begin
+  select * into modification_record from public.booking_modifications where id = p_modification_id for update;
+  if not found or modification_record.status != 'pending' then return; end if;
+
+  -- Moving the booking moves its reservation; see sync_booking_reservation_trigger.
+  begin
+    update public.bookings
+    set
+      car_id = modification_record.new_car_id,
+      start_datetime = modification_record.new_start_datetime,
+      end_datetime = modification_record.new_end_datetime,
+      total_amount = modification_record.new_total_amount,
+      discount_amount = (modification_record.price_details->>'discountAmount')::numeric,
+      extras = coalesce(modification_record.price_details->'extras', '[]'::jsonb),
+      version = version + 1,
+      pickup_reminder_sent_at = null,
+      return_reminder_sent_at = null
+    where id = modification_record.booking_id
+    returning * into booking_record;
+  exception when exclusion_violation then
+    raise exception using errcode = 'exclusion_violation', message = 'The car is no longer available for the new dates.';
+  end;
+
+  update public.booking_modifications
+  set status = 'applied', version = booking_record.version, applied_at = now()
+  where id = p_modification_id;
+
+  if modification_record.price_difference < 0 then
+    remaining := -modification_record.price_difference;
+    for payment_record in
+      select * from public.payments
+      where booking_id = modification_record.booking_id and status = 'success'
+        and payment_type in ('booking', 'balance', 'extension', 'modification')
+      order by created_at desc
+    loop
+      exit when remaining <= 0;
+      share := least(remaining, payment_refundable_amount(payment_record.id));
+      continue when share <= 0;
+      if modification_record.settlement = 'refund' then
+        insert into public.refunds (payment_id, booking_id, user_id, amount, currency, reason, notes, initiated_by)
+        values (payment_record.id, booking_record.id, booking_record.user_id, share, payment_record.currency, 'booking_modification', 'Booking changed to version ' || booking_record.version || '.', auth.uid());
+      else
+        insert into public.account_credits (user_id, amount, booking_id, modification_id, payment_id, description)
+        values (booking_record.user_id, share, booking_record.id, p_modification_id, payment_record.id, 'Price difference from changing a booking.');
+      end if;
+      remaining := remaining - share;
+    end loop;
+
+    if remaining > 0 then
+      insert into public.account_credits (user_id, amount, booking_id, modification_id, description)
+      values (booking_record.user_id, remaining, booking_record.id, p_modification_id, 'Price difference from changing a booking.');
+    end if;
+  end if;
+end;
+$$;
+
+-- Quotes changing a confirmed booking to another car and/or other dates before pickup. The new rental is priced from
+-- scratch with calculate_booking_price, carrying over the booking's extras and promo code as for extensions, and
+-- checked for availability leaving out the booking itself. Account credit is applied to a higher price first;
+-- amountDue is what is left to pay, and refundAmount what a lower price gives back.
+create or replace function preview_booking_modification(
+  p_booking_id uuid,
+  p_car_id uuid,
+  p_start_datetime timestamptz,
+  p_end_datetime timestamptz
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  car_record public.cars;
+  booking_extras text[];
+  price jsonb;
+  new_total numeric;
+  price_difference numeric;
+  credit_balance numeric;
+  credit_applied numeric := 0;
+begin
+  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id;
+  if not found or booking_record.user_id != auth.uid() then
+    raise exception 'Booking not found or you do not have permission to modify it.';
+  end if;
+  if booking_record.status != 'confirmed' then
+    raise exception 'Only confirmed bookings can be modified.';
+  end if;
+  if booking_record.start_datetime <= now() or booking_record.picked_up_at is not null then
+    raise exception 'This booking has already started and can no longer be modified.';
+  end if;
+  if p_start_datetime <= now() then
+    raise exception 'The new pickup time must be in the future.';
+  end if;
+  if exists (select 1 from public.booking_extensions where booking_id = p_booking_id and payment_status in ('pending', 'success')) then
+    raise exception 'Extended bookings cannot be modified.';
+  end if;
+  if p_car_id = booking_record.car_id and p_start_datetime = booking_record.start_datetime and p_end_datetime = booking_record.end_datetime then
+    raise exception 'Choose a different car or different dates to modify the booking.';
+  end if;
+
+  select * into car_record from public.cars where id = p_car_id;
+  if not found or (p_car_id != booking_record.car_id and car_record.status != 'published') then
+    raise exception 'This car is not available for booking.';
+  end if;
+  if p_car_id != booking_record.car_id and car_record.branch_id is distinct from booking_record.pickup_branch_id then
+    raise exception 'Choose a car from the branch this booking is picked up from.';
+  end if;
+  -- Moved handovers must fall within the branches' opening hours; unchanged ones were checked when booked.
+  if p_start_datetime != booking_record.start_datetime then
+    perform assert_branch_open(coalesce(booking_record.pickup_branch_id, car_record.branch_id), p_start_datetime, 'Pickup');
+  end if;
+  if p_end_datetime != booking_record.end_datetime then
+    perform assert_branch_open(coalesce(booking_record.return_branch_id, booking_record.pickup_branch_id, car_record.branch_id), p_end_datetime, 'Return');
+  end if;
+
+  select coalesce(array_agg(e.name), '{}') into booking_extras
+  from jsonb_array_elements(booking_record.extras) as x
+  join public.booking_extras e on e.name = x->>'name' and e.active = true;
+
+  price := calculate_booking_price(
+    p_car_id, p_start_datetime, p_end_datetime, booking_extras, booking_record.promo_code_id, false,
+    booking_record.pickup_branch_id, booking_record.return_branch_id, booking_record.delivery_zone_id, booking_record.collection_zone_id
+  );
+  new_total := (price->>'totalAmount')::numeric;
+  price_difference := new_total - booking_record.total_amount;
+  credit_balance := account_credit_balance(auth.uid());
+  if price_difference > 0 then
+    credit_applied := least(greatest(credit_balance, 0), price_difference);
+  end if;
+
+  return jsonb_build_object(
+    'bookingId', p_booking_id,
+    'version', booking_record.version,
+    'availability', check_car_availability(p_car_id, p_start_datetime, p_end_datetime, p_booking_id),
+    'price', price,
+    'currentTotal', booking_record.total_amount,
+    'newTotal', new_total,
+    'priceDifference', price_difference,
+    'creditBalance', credit_balance,
+    'creditApplied', credit_applied,
+    'amountDue', greatest(price_difference - credit_applied, 0),
+    'refundAmount', greatest(-price_difference, 0)
+  );
+end;
+$$;
+
+-- Changes a confirmed booking's car and/or dates, priced as in preview_booking_modification at the moment of the
+-- change. A higher price not covered by account credit is paid through p_payment_method: the modification and its
+-- payment stay pending, holding the new car and dates, for 30 minutes, and settle_payment applies it once paid.
+-- Anything else is applied at once, with a lower price refunded or, if p_settlement is 'credit', kept as account
+-- credit. A new change replaces one still awaiting payment.
+create or replace function modify_booking(
+  p_booking_id uuid,
+  p_car_id uuid,
+  p_start_datetime timestamptz,
+  p_end_datetime timestamptz,
+  p_settlement text default 'refund',
+  p_payment_method text default null,
+  p_reason text default null
+)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking_record public.bookings;
+  pending_modification record;
+  preview jsonb;
+  amount_due numeric;
+  settlement text;
+  new_modification_id uuid;
+  new_payment_id uuid;
+begin
+  if auth.uid() is null then raise exception 'Authentication required.'; end if;
+  if p_settlement not in ('refund', 'credit') then
+    raise exception 'Invalid settlement: choose a refund or account credit.';
+  end if;
+
+  -- Lock the booking so a concurrent payment callback, cancellation or change cannot interleave, and the customer's
+  -- profile so two changes cannot redeem the same account credit.
+  select * into booking_record from public.bookings where id = p_booking_id for update;
+  if not found or booking_record.user_id != auth.uid() then
+    raise exception 'Booking not found or you do not have permission to modify it.';
+  end if;
+  perform 1 from public.profiles where id = auth.uid() for update;
+
+  for pending_modification in
+    select id from public.booking_modifications where booking_id = p_booking_id and status = 'pending'
+  loop
+    perform cancel_booking_modification(pending_modification.id);
+  end loop;
+
+  -- Lapsed checkouts and holds on the new car must not block the change just because the sweeps have not run yet.
+  perform expire_pending_payments(p_car_id);
+  perform cleanup_expired_holds(p_car_id);
+
+  preview := preview_booking_modification(p_booking_id, p_car_id, p_start_datetime, p_end_datetime);
+  if not (preview->'availability'->>'available')::boolean then
+    if preview->'availability'->>'reason' = 'turnaround' then
+      raise exception 'Car is not available: it needs % minutes between rentals for cleaning and inspection.', preview->'availability'->>'turnaroundMinutes';
+    end if;
+    raise exception 'Car is not available for the selected time range.';
+  end if;
+
+  amount_due := (preview->>'amountDue')::numeric;
+  settlement := case
+    when amount_due > 0 then 'payment'
+    when (preview->>'priceDifference')::numeric > 0 then 'credit'
+    when (preview->>'priceDifference')::numeric < 0 then p_settlement
+    else 'none'
+  end;
+  if amount_due > 0 then
+    perform require_enabled_gateway(p_payment_method);
+  end if;
+
+  -- The pending modification reserves the new car and dates; see car_reservations.
+  begin
+    insert into public.booking_modifications (
+      booking_id, user_id, previous_car_id, previous_start_datetime, previous_end_datetime, previous_total_amount,
+      new_car_id, new_start_datetime, new_end_datetime, new_total_amount, price_details, price_difference,
+      credit_applied, settlement, payment_expires_at, reason
+    )
+    values (
+      p_booking_id, auth.uid(), booking_record.car_id, booking_record.start_datetime, booking_record.end_datetime, booking_record.total_amount,
+      p_car_id, p_start_datetime, p_end_datetime, (preview->>'newTotal')::numeric, preview->'price', (preview->>'priceDifference')::numeric,
+      (preview->>'creditApplied')::numeric, settlement,
+      case when amount_due > 0 then now() + interval '30 minutes' end, nullif(trim(p_reason), '')
+    )
+    returning id into new_modification_id;
+  exception when exclusion_violation then
+    raise exception using errcode = 'exclusion_violation', message = 'Car is not available for the selected time range.';
+  end;
+
+  if (preview->>'creditApplied')::numeric > 0 then
+    insert into public.account_credits (user_id, amount, booking_id, modification_id, description)
+    values (auth.uid(), -(preview->>'creditApplied')::numeric, p_booking_id, new_modification_id, 'Applied to the price difference of a booking change.');
+  end if;
+
+  if amount_due > 0 then
+    insert into public.payments (booking_id, user_id, modification_id, payment_type, amount, method, status)
+    values (p_booking_id, auth.uid(), new_modification_id, 'modification', amount_due, p_payment_method, 'pending')
+    returning id into new_payment_id;
+
+    update public.booking_modifications set payment_id = new_payment_id where id = new_modification_id;
+
+    return json_build_object('modificationId', new_modification_id, 'status', 'pending', 'paymentId', new_payment_id, 'amount', amount_due);
+  end if;
+
+  perform apply_booking_modification(new_modification_id);
+  return json_build_object('modificationId', new_modification_id, 'status', 'applied', 'paymentId', null, 'amount', 0);
+end;
+$$;
+
+-- Credit balances and applying or cancelling a modification are internal to the modification functions.
+revoke execute on function account_credit_balance(uuid) from public, anon, authenticated;
+revoke execute on function cancel_booking_modification(uuid, payment_status_enum) from public, anon, authenticated;
+revoke execute on function apply_booking_modification(uuid) from public, anon, authenticated;
+
+-- Returns the next invoice number for the financial year containing p_issued_at, e.g. 'RPC/26-27/00001'.
+-- The counter row is locked until the calling transaction ends, so numbers are unique and gapless.
+create or replace function next_invoice_number(p_issued_at timestamptz)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  prefix text;
+  local_date date;
+  fy_start_year int;
+  fy text;
+  seq int;
+begin
+  select invoice_prefix into prefix from public.tax_settings limit 1;
+  select (p_issued_at at time zone timezone)::date into local_date from public.pricing_settings limit 1;
+  local_date := coalesce(local_date, p_issued_at::date);
+
+  fy_start_year := extract(year from local_date)::int - case when extract(month from local_date) < 4 then 1 else 0 end;
+  fy := fy_start_year || '-' || lpad(((fy_start_year + 1) % 100)::text, 2, '0');
+
+  insert into public.invoice_sequences (financial_year, last_number)
+  values (fy, 1)
+  on conflict (financial_year) do update set last_number = public.invoice_sequences.last_number + 1
+  returning last_number into seq;
+
+  return json_build_object(
+    'financialYear', fy,
+    'invoiceNumber', coalesce(prefix, 'RPC') || '/' || right(fy, 5) || '/' || lpad(seq::text, greatest(5, length(seq::text)), '0')
+  );
+end;
+$$;
+
+-- Issues the tax invoice for a confirmed booking, for one of its paid extensions when p_extension_id is given, or for
+-- its paid settlement when p_charge_id is given. Idempotent: returns the existing invoice if one was already issued.
+-- Drop the old signature first; the charge parameter was added for settlement invoices.
+DROP FUNCTION IF EXISTS issue_invoice(uuid, uuid);
+create or replace function issue_invoice(p_booking_id uuid, p_extension_id uuid default null, p_charge_id uuid default null)
+returns public.invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  existing_invoice public.invoices;
+  new_invoice public.invoices;
+  booking_record public.bookings;
+  extension_record public.booking_extensions;
+  charge_record public.booking_charges;
+  item_index bigint;
+  item_amount numeric;
+  taxable_left numeric;
+  car_title text;
+  quote_price jsonb;
+  tax_details jsonb;
+  line_items jsonb;
+  extra_item jsonb;
+  numbering json;
+  supplier jsonb;
+  customer jsonb;
+  tz text;
+begin
+  if p_charge_id is not null then
+    select * into existing_invoice from public.invoices where charge_id = p_charge_id;
+  elsif p_extension_id is null then
+    select * into existing_invoice from public.invoices where booking_id = p_booking_id and extension_id is null and charge_id is null;
+  else
+    select * into existing_invoice from public.invoices where extension_id = p_extension_id;
+  end if;
+  if found then return existing_invoice; end if;
+
+  select * into booking_record from public.bookings where id = p_booking_id;
+  if not found then raise exception 'Booking not found.'; end if;
+
+  select title into car_title from public.cars where id = booking_record.car_id;
+  car_title := coalesce(car_title, 'Car');
+  select timezone into tz from public.pricing_settings limit 1;
+  tz := coalesce(tz, 'Asia/Kolkata');
+
+  if p_charge_id is not null then
+    select * into charge_record from public.booking_charges where id = p_charge_id and booking_id = p_booking_id;
+    if not found then raise exception 'Booking charge not found.'; end if;
+    if charge_record.kind != 'settlement' or charge_record.status != 'paid' then
+      raise exception 'Invoices are only issued for paid settlements.';
+    end if;
+
+    -- Settlement rates are tax inclusive, so each line shows its share of the taxable value; the last absorbs rounding.
+    tax_details := calculate_gst(charge_record.amount, (select state_code from public.branches where id = booking_record.pickup_branch_id), true);
+    taxable_left := (tax_details->>'taxableAmount')::numeric;
+    line_items := '[]'::jsonb;
+    for extra_item, item_index in
+      select value, ordinality from jsonb_array_elements(coalesce(charge_record.line_items, '[]'::jsonb)) with ordinality
+    loop
+      if item_index = jsonb_array_length(charge_record.line_items) then
+        item_amount := taxable_left;
+      else
+        item_amount := round((extra_item->>'amount')::numeric * (tax_details->>'taxableAmount')::numeric / charge_record.amount, 2);
+      end if;
+      taxable_left := taxable_left - item_amount;
+      line_items := line_items || jsonb_build_object('description', (extra_item->>'description') || ' - ' || car_title, 'amount', item_amount);
+    end loop;
+  elsif p_extension_id is null then
+    if booking_record.status not in ('confirmed', 'completed') then
+      raise exception 'Invoices are only issued for confirmed bookings.';
+    end if;
+
+    select price_details into quote_price from public.booking_quotes where id = booking_record.quote_id;
+
+    if quote_price ? 'tax' then
+      tax_details := quote_price->'tax';
+      line_items := jsonb_build_array(jsonb_build_object(
+        'description', 'Car rental - ' || car_title || ' (' || (quote_price->>'billingDays') || ' days, '
+          || to_char(booking_record.start_datetime at time zone tz, 'DD Mon YYYY HH24:MI') || ' to '
+          || to_char(booking_record.end_datetime at time zone tz, 'DD Mon YYYY HH24:MI') || ')',
+        'amount', (quote_price->>'subtotal')::numeric - (quote_price->>'selectedExtrasPrice')::numeric - coalesce((quote_price->>'oneWayFee')::numeric, 0)
+          - coalesce((quote_price->>'deliveryFee')::numeric, 0) - coalesce((quote_price->>'collectionFee')::numeric, 0)
+      ));
+      for extra_item in select * from jsonb_array_elements(coalesce(quote_price->'extras', '[]'::jsonb)) loop
+        line_items := line_items || jsonb_build_object(
+          'description', extra_item->>'name',
+          'amount', round((extra_item->>'pricePerDay')::numeric * (quote_price->>'billingDays')::numeric, 2)
+        );
+      end loop;
+      if coalesce((quote_price->>'oneWayFee')::numeric, 0) > 0 then
+        line_items := line_items || jsonb_build_object('description', 'One-way fee', 'amount', (quote_price->>'oneWayFee')::numeric);
+      end if;
+      if coalesce((quote_price->>'deliveryFee')::numeric, 0) > 0 then
+        line_items := line_items || jsonb_build_object('description', 'Doorstep delivery', 'amount', (quote_price->>'deliveryFee')::numeric);
+      end if;
+      if coalesce((quote_price->>'collectionFee')::numeric, 0) > 0 then
+        line_items := line_items || jsonb_build_object('description', 'Doorstep collection', 'amount', (quote_price->>'collectionFee')::numeric);
+      end if;
+      if (quote_price->>'discountAmount')::numeric > 0 then
+        line_items := line_items || jsonb_build_object('description', 'Discount', 'amount', -(quote_price->>'discountAmount')::numeric);
+      end if;
+      line_items := line_items || jsonb_build_object('description', 'Service charge', 'amount', (quote_price->>'serviceCharge')::numeric);
+    else
+      -- Bookings priced before GST was itemized: the amount charged is treated as tax inclusive.
+      tax_details := calculate_gst(booking_record.total_amount, null, true);
+      line_items := jsonb_build_array(jsonb_build_object(
+        'description', 'Car rental - ' || car_title || ' ('
+          || to_char(booking_record.start_datetime at time zone tz, 'DD Mon YYYY HH24:MI') || ' to '
+          || to_char(booking_record.end_datetime at time zone tz, 'DD Mon YYYY HH24:MI') || ')',
+        'amount', (tax_details->>'taxableAmount')::numeric
+      ));
+    end if;
+  else
+    select * into extension_record from public.booking_extensions where id = p_extension_id and booking_id = p_booking_id;
+    if not found then raise exception 'Booking extension not found.'; end if;
+    if extension_record.payment_status != 'success' then
+      raise exception 'Invoices are only issued for paid extensions.';
+    end if;
+
+    tax_details := coalesce(extension_record.price_details->'tax', calculate_gst(extension_record.price, null, true));
+    line_items := jsonb_build_array(jsonb_build_object(
+      'description', 'Rental extension - ' || car_title || ' (+' || extension_record.added_hours || ' hours, until '
+        || to_char(extension_record.requested_end at time zone tz, 'DD Mon YYYY HH24:MI') || ')',
+      'amount', (tax_details->>'taxableAmount')::numeric
+    ));
+  end if;
+
+  select jsonb_build_object(
+    'legalName', t.legal_name,
+    'gstin', t.gstin,
+    'address', t.address,
+    'stateCode', t.state_code,
+    'stateName', r.state_name
+  ) into supplier
+  from public.tax_settings t
+  left join public.gst_state_rates r on r.state_code = t.state_code
+  limit 1;
+
+  select jsonb_build_object(
+    'name', p.full_name,
+    'email', u.email,
+    'phone', p.phone,
+    'gstin', p.gstin
+  ) into customer
+  from auth.users u
+  left join public.profiles p on p.id = u.id
+  where u.id = booking_record.user_id;
+
+  numbering := next_invoice_number(now());
+
+  insert into public.invoices (
+    invoice_number, financial_year, booking_id, extension_id, charge_id, user_id, supplier, customer,
+    place_of_supply, place_of_supply_name, sac_code, line_items, taxable_amount,
+    cgst_percent, cgst_amount, sgst_percent, sgst_amount, igst_percent, igst_amount, total_tax, total_amount
+  )
+  values (
+    numbering->>'invoiceNumber', numbering->>'financialYear', p_booking_id, p_extension_id, p_charge_id, booking_record.user_id,
+    coalesce(supplier, '{}'::jsonb), coalesce(customer, '{}'::jsonb),
+    tax_details->>'placeOfSupply', tax_details->>'placeOfSupplyName', tax_details->>'sacCode', line_items,
+    (tax_details->>'taxableAmount')::numeric,
+    (tax_details->>'cgstPercent')::numeric, (tax_details->>'cgstAmount')::numeric,
+    (tax_details->>'sgstPercent')::numeric, (tax_details->>'sgstAmount')::numeric,
+    (tax_details->>'igstPercent')::numeric, (tax_details->>'igstAmount')::numeric,
+    (tax_details->>'taxAmount')::numeric,
+    (tax_details->>'taxableAmount')::numeric + (tax_details->>'taxAmount')::numeric
+  )
+  returning * into new_invoice;
+
+  return new_invoice;
+end;
+$$;
+
+-- Invoicing is internal: invoices are issued by the triggers below, never directly by clients.
+revoke execute on function next_invoice_number(timestamptz) from public, anon, authenticated;
+revoke execute on function issue_invoice(uuid, uuid, uuid) from public, anon, authenticated;
+
+-- Issue the invoice as soon as a booking becomes confirmed, however it got there (full payment, hold balance, admin action).
+create or replace function issue_booking_invoice_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'confirmed' and old.status is distinct from 'confirmed' then
+    perform issue_invoice(new.id, null);
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS issue_invoice_on_confirmation ON public.bookings;
+CREATE TRIGGER issue_invoice_on_confirmation AFTER UPDATE OF status ON public.bookings FOR EACH ROW EXECUTE PROCEDURE issue_booking_invoice_trigger();
+
+-- Issue the invoice for an extension once its payment succeeds.
+create or replace function issue_extension_invoice_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.payment_status = 'success' and old.payment_status is distinct from 'success' then
+    perform issue_invoice(new.booking_id, new.id);
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS issue_invoice_on_payment ON public.booking_extensions;
+CREATE TRIGGER issue_invoice_on_payment AFTER UPDATE OF payment_status ON public.booking_extensions FOR EACH ROW EXECUTE PROCEDURE issue_extension_invoice_trigger();
+
+-- Issue the settlement invoice once the settlement is paid. Damage charges are compensation, not a supply, and get none.
+create or replace function issue_charge_invoice_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.kind = 'settlement' and new.status = 'paid' and old.status is distinct from 'paid' then
+    perform issue_invoice(new.booking_id, null, new.id);
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS issue_invoice_on_charge_payment ON public.booking_charges;
+CREATE TRIGGER issue_invoice_on_charge_payment AFTER UPDATE OF status ON public.booking_charges FOR EACH ROW EXECUTE PROCEDURE issue_charge_invoice_trigger();
+
+-- Keep car_reservations in step with bookings: pending_payment, hold and confirmed bookings reserve their car for
+-- their whole period plus its turnaround buffer, and any other status releases it. A completed booking keeps its
+-- reservation until the car is returned and the buffer after it has run, as complete_ended_bookings completes
+-- rentals at their end time whether or not the car is back. Raises exclusion_violation if the period is taken.
+create or replace function sync_booking_reservation_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  buffer interval := coalesce(car_turnaround(new.car_id), interval '0');
+begin
+  delete from public.car_reservations where booking_id = new.id and extension_id is null and modification_id is null;
+  if new.status in ('pending_payment', 'hold', 'confirmed')
+    or (new.status = 'completed' and (new.returned_at is null or new.end_datetime + buffer > now())) then
+    insert into public.car_reservations (car_id, booking_id, period, turnaround_minutes)
+    values (new.car_id, new.id, tstzrange(new.start_datetime, new.end_datetime + buffer), extract(epoch from buffer) / 60);
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS sync_reservation ON public.bookings;
+CREATE TRIGGER sync_reservation AFTER INSERT OR UPDATE OF status, car_id, start_datetime, end_datetime, returned_at ON public.bookings FOR EACH ROW EXECUTE PROCEDURE sync_booking_reservation_trigger();
+
+-- A booking is made on its car's mileage allowance and fuel policy as they stand, and takes the new car's terms when
+-- a modification moves it to another car. Later policy changes do not affect it.
+create or replace function set_booking_usage_terms_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.car_id is distinct from old.car_id then
+    new.usage_terms := (select usage_terms(c) from public.cars c where c.id = new.car_id);
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS set_usage_terms ON public.bookings;
+CREATE TRIGGER set_usage_terms BEFORE INSERT OR UPDATE OF car_id ON public.bookings FOR EACH ROW EXECUTE PROCEDURE set_booking_usage_terms_trigger();
+
+-- A pending extension reserves the hours it adds and the turnaround buffer after them. Once paid, the booking's own
+-- reservation grows to cover them; a failed or cancelled extension releases them.
+create or replace function sync_extension_reservation_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.car_reservations where extension_id = new.id;
+  if new.payment_status = 'pending' then
+    insert into public.car_reservations (car_id, booking_id, extension_id, period, turnaround_minutes)
+    select
+      b.car_id, b.id, new.id,
+      tstzrange(new.requested_end - new.added_hours * interval '1 hour', new.requested_end + coalesce(car_turnaround(b.car_id), interval '0')),
+      extract(epoch from coalesce(car_turnaround(b.car_id), interval '0')) / 60
+    from public.bookings b
+    where b.id = new.booking_id;
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS sync_reservation ON public.booking_extensions;
+CREATE TRIGGER sync_reservation AFTER INSERT OR UPDATE OF payment_status, requested_end ON public.booking_extensions FOR EACH ROW EXECUTE PROCEDURE sync_extension_reservation_trigger();
+
+-- A pending booking modification reserves its new car and dates, plus the turnaround buffer. It belongs to the same
+-- booking, so it may overlap the booking's current reservation. Once applied, the booking's own reservation moves to
+-- the new car and dates; a cancelled modification releases them.
+create or replace function sync_modification_reservation_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  buffer interval := coalesce(car_turnaround(new.new_car_id), interval '0');
+begin
+  delete from public.car_reservations where modification_id = new.id;
+  if new.status = 'pending' then
+    insert into public.car_reservations (car_id, booking_id, modification_id, period, turnaround_minutes)
+    values (new.new_car_id, new.booking_id, new.id, tstzrange(new.new_start_datetime, new.new_end_datetime + buffer), extract(epoch from buffer) / 60);
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS sync_reservation ON public.booking_modifications;
+CREATE TRIGGER sync_reservation AFTER INSERT OR UPDATE OF status ON public.booking_modifications FOR EACH ROW EXECUTE PROCEDURE sync_modification_reservation_trigger();
+
+-- Keeps reservations, including their turnaround buffer, out of the car's maintenance blocks. The car row lock pairs
+-- with the one taken by create_maintenance_block, so a block and a booking created concurrently cannot both succeed.
+-- Raised as an exclusion_violation, so the booking functions report it like any other conflict.
+create or replace function check_maintenance_block_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from public.cars where id = new.car_id for share;
+  if exists (
+    select 1 from public.car_maintenance_blocks mb
+    where mb.car_id = new.car_id and tstzrange(mb.starts_at, mb.ends_at) && new.period
+  ) then
+    raise exception using errcode = 'exclusion_violation', message = 'Car is not available: it is blocked for maintenance during this period.';
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS check_maintenance_block ON public.car_reservations;
+CREATE TRIGGER check_maintenance_block BEFORE INSERT OR UPDATE OF car_id, period ON public.car_reservations FOR EACH ROW EXECUTE PROCEDURE check_maintenance_block_trigger();
+
+-- Reserve the cars of bookings and extensions made before car_reservations existed. Lapsed checkouts and holds are
+-- left to the sweeps; should the remaining data already overlap, the earliest booking keeps its reservation.
+INSERT INTO public.car_reservations (car_id, booking_id, period, turnaround_minutes)
+SELECT b.car_id, b.id, tstzrange(b.start_datetime, b.end_datetime + coalesce(car_turnaround(b.car_id), interval '0')), extract(epoch from coalesce(car_turnaround(b.car_id), interval '0')) / 60
+FROM public.bookings b
+WHERE (b.status = 'confirmed'
+    OR (b.status = 'completed' AND (b.returned_at IS NULL OR b.end_datetime + coalesce(car_turnaround(b.car_id), interval '0') > now()))
+    OR (b.status = 'hold' AND (b.hold_expires_at IS NULL OR b.hold_expires_at > now()))
+    OR (b.status = 'pending_payment' AND b.payment_expires_at > now()))
+  AND NOT EXISTS (SELECT 1 FROM public.car_reservations r WHERE r.booking_id = b.id AND r.extension_id IS NULL AND r.modification_id IS NULL)
+ORDER BY b.created_at
+ON CONFLICT DO NOTHING;
+INSERT INTO public.car_reservations (car_id, booking_id, extension_id, period, turnaround_minutes)
+SELECT b.car_id, b.id, be.id, tstzrange(be.requested_end - be.added_hours * interval '1 hour', be.requested_end + coalesce(car_turnaround(b.car_id), interval '0')), extract(epoch from coalesce(car_turnaround(b.car_id), interval '0')) / 60
+FROM public.booking_extensions be
+JOIN public.bookings b ON b.id = be.booking_id
+WHERE be.payment_status = 'pending' AND be.payment_expires_at > now()
+  AND NOT EXISTS (SELECT 1 FROM public.car_reservations r WHERE r.extension_id = be.id)
+ORDER BY be.created_at
+ON CONFLICT DO NOTHING;
+
+-- Add the turnaround buffer to reservations made before buffers existed, earliest rental first. Where rentals
+-- already booked back to back leave no room for it, the reservation keeps no buffer rather than failing the setup.
+DO $$
+DECLARE
+  reservation record;
+BEGIN
+  FOR reservation IN
+    SELECT id, car_id FROM public.car_reservations WHERE turnaround_minutes IS NULL ORDER BY lower(period)
+  LOOP
+    BEGIN
+      UPDATE public.car_reservations
+      SET period = tstzrange(lower(period), upper(period) + coalesce(car_turnaround(reservation.car_id), interval '0')),
+          turnaround_minutes = extract(epoch from coalesce(car_turnaround(reservation.car_id), interval '0')) / 60
+      WHERE id = reservation.id;
+    EXCEPTION WHEN exclusion_violation THEN
+      UPDATE public.car_reservations SET turnaround_minutes = 0 WHERE id = reservation.id;
+    END;
+  END LOOP;
+END
+$$;
+
+-- Guards every booking status change against booking_status_transitions. Clients can never write a status directly:
+-- the booking functions run as their owner, so a change made as anon or authenticated came straight from the API.
+-- Deliberately not security definer, so current_user is the role that made the change.
+create or replace function guard_booking_transition_trigger()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+  if current_user in ('anon', 'authenticated') then
+    raise exception 'Bookings can only be created or change status through the booking functions.';
+  end if;
+  if tg_op = 'INSERT' then
+    if new.status != 'pending_payment' then
+      raise exception 'A new booking must start as pending_payment.';
+    end if;
+  elsif not exists (
+    select 1 from public.booking_status_transitions
+    where from_status = old.status and to_status = new.status
+  ) then
+    raise exception 'A booking cannot change from % to %.', old.status, new.status;
+  end if;
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS guard_status_transition ON public.bookings;
+CREATE TRIGGER guard_status_transition BEFORE INSERT OR UPDATE OF status ON public.bookings FOR EACH ROW EXECUTE PROCEDURE guard_booking_transition_trigger();
+
+-- Records every status change in booking_status_history and applies its side effects. On cancellation:
+--   * pending payments and extensions are cancelled, as nothing is left to pay for,
+--   * the promo code redemption is released if it was counted, i.e. the booking had been paid for,
+--   * a pending refund is created for each successful payment at the booking's refund_percent (see cancel_booking),
+--   * pending modifications are cancelled, and account credit redeemed towards earlier ones is returned at the same percent.
+create or replace function apply_booking_transition_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pending_modification record;
+  redeemed_credit numeric;
+  deposit_record public.booking_deposits;
+  deposit_refund_id uuid;
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  insert into public.booking_status_history (booking_id, from_status, to_status, changed_by, reason)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    auth.uid(),
+    case when new.status = 'cancelled' then new.cancellation_reason end
+  );
+
+  if new.status = 'cancelled' then
+    update public.payments set status = 'cancelled'
+    where booking_id = new.id and status = 'pending';
+    update public.booking_extensions set payment_status = 'cancelled'
+    where booking_id = new.id and payment_status = 'pending';
+    for pending_modification in
+      select id from public.booking_modifications where booking_id = new.id and status = 'pending'
+    loop
+      perform cancel_booking_modification(pending_modification.id);
+    end loop;
+
+    if old.status in ('hold', 'confirmed') and new.promo_code_id is not null then
+      update public.promo_codes set times_used = greatest(times_used - 1, 0)
+      where id = new.promo_code_id;
+    end if;
+
+    -- Only what was paid for the rental is refunded under the policy. Charges raised after the rental stay paid,
+    -- and the security deposit is returned below or through admin_settle_deposit.
+    if coalesce(new.refund_percent, 0) > 0 then
+      insert into public.refunds (payment_id, booking_id, user_id, amount, reason, notes, initiated_by)
+      select refundable.id, new.id, refundable.user_id, refundable.refund, 'customer_cancellation', new.cancellation_reason, auth.uid()
+      from (
+        select p.id, p.user_id, round(payment_refundable_amount(p.id) * new.refund_percent / 100.0, 2) as refund
+        from public.payments p
+        where p.booking_id = new.id and p.status = 'success'
+          and p.payment_type in ('booking', 'balance', 'extension', 'modification')
+      ) as refundable
+      where refundable.refund > 0;
+
+      -- Credit not tied to a payment is what the customer redeemed towards modifications, net of credit returned.
+      select -coalesce(sum(amount), 0) into redeemed_credit
+      from public.account_credits
+      where booking_id = new.id and payment_id is null;
+      if redeemed_credit > 0 and round(redeemed_credit * new.refund_percent / 100.0, 2) > 0 then
+        insert into public.account_credits (user_id, amount, booking_id, description)
+        values (new.user_id, round(redeemed_credit * new.refund_percent / 100.0, 2), new.id, 'Credit returned: booking cancelled.');
+      end if;
+    end if;
+
+    -- The security deposit is returned in full whatever the cancellation policy, unless the car has been picked up;
+    -- then it is held for settlement like any other rental.
+    select * into deposit_record from public.booking_deposits where booking_id = new.id and status = 'collected' for update;
+    if found then
+      insert into public.refunds (payment_id, booking_id, user_id, amount, reason, notes, initiated_by)
+      values (deposit_record.payment_id, new.id, deposit_record.user_id, deposit_record.amount, 'deposit_release', 'Security deposit returned: booking cancelled.', auth.uid())
+      returning id into deposit_refund_id;
+      update public.booking_deposits
+      set status = 'released', released_amount = amount, refund_id = deposit_refund_id, settled_by = auth.uid(), settled_at = now()
+      where id = deposit_record.id;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS apply_status_transition ON public.bookings;
+CREATE TRIGGER apply_status_transition AFTER INSERT OR UPDATE OF status ON public.bookings FOR EACH ROW EXECUTE PROCEDURE apply_booking_transition_trigger();
+
+-- === SCHEDULED JOBS ===
+
+-- Runs a job now and records the run in job_runs. A run is skipped if the same job is already running, whether
+-- scheduled, from a worker or from the admin portal. A failing job is recorded with its error; its changes are
+-- rolled back and other jobs are unaffected. Internal; admins use trigger_job.
+create or replace function run_job(p_name text, p_triggered_by uuid default null)
+returns public.job_runs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  job public.scheduled_jobs;
+  run public.job_runs;
+  run_started_at timestamptz := clock_timestamp();
+  processed integer;
+begin
+  select * into job from public.scheduled_jobs where name = p_name;
+  if not found then raise exception 'Unknown job: %', p_name; end if;
+
+  -- The lock is held until the transaction ends, so overlapping runs never process the same rows twice.
+  if not pg_try_advisory_xact_lock(hashtext('scheduled_job:' || p_name)) then
+    insert into public.job_runs (job_name, status, error, triggered_by, started_at)
+    values (p_name, 'skipped', 'Another run of this job was in progress.', p_triggered_by, run_started_at)
+    returning * into run;
+    return run;
+  end if;
+
+  begin
+    execute format('select %I()', job.function_name) into processed;
+    insert into public.job_runs (job_name, status, processed_count, triggered_by, started_at, finished_at)
+    values (p_name, 'succeeded', coalesce(processed, 0), p_triggered_by, run_started_at, clock_timestamp())
+    returning * into run;
+  exception when others then
+    insert into public.job_runs (job_name, status, error, triggered_by, started_at, finished_at)
+    values (p_name, 'failed', sqlerrm, p_triggered_by, run_started_at, clock_timestamp())
+    returning * into run;
+  end;
+
+  update public.scheduled_jobs
+  set next_run_at = run_started_at + make_interval(mins => job.interval_minutes)
+  where name = p_name;
+
+  return run;
+end;
+$$;
+
+-- Runs every enabled job that is due and prunes old run history. Returns the number of jobs run.
+-- Called every minute by pg_cron, or by scripts/jobs-worker.mjs in development.
+create or replace function run_due_jobs()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  due_job text;
+  run_count integer := 0;
+begin
+  for due_job in
+    select name from public.scheduled_jobs
+    where enabled and next_run_at <= now()
+    order by next_run_at
+  loop
+    perform run_job(due_job);
+    run_count := run_count + 1;
+  end loop;
+
+  delete from public.job_runs where finished_at < now() - interval '30 days';
+  return run_count;
+end;
+$$;
+
+-- Runs a job on demand from the admin portal, whether or not it is enabled or due. Admin only.
+create or replace function trigger_job(p_name text)
+returns public.job_runs
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then raise exception 'Only admins can run jobs.'; end if;
+  return run_job(p_name, auth.uid());
+end;
+$$;
+
+-- Pauses or resumes a job's schedule. Admin only.
+create or replace function set_job_enabled(p_name text, p_enabled boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not is_admin() then raise exception 'Only admins can change jobs.'; end if;
+  update public.scheduled_jobs set enabled = p_enabled where name = p_name;
+  if not found then raise exception 'Unknown job: %', p_name; end if;
+end;
+$$;
+
+revoke execute on function run_job(text, uuid) from public, anon, authenticated;
+revoke execute on function run_due_jobs() from public, anon, authenticated;
+
+-- Run due jobs every minute when pg_cron is enabled (Database > Extensions in the Supabase dashboard). Each job's
+-- own schedule lives in scheduled_jobs. The per-job cron entries of earlier versions are removed.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobname) FROM cron.job
+    WHERE jobname IN ('cleanup-expired-holds', 'send-hold-expiry-reminders', 'expire-pending-payments', 'complete-ended-bookings');
+    PERFORM cron.schedule('run-due-jobs', '* * * * *', 'select public.run_due_jobs()');
+  END IF;
+END
+$$;
 `;
 
 const DatabaseSetup: React.FC = () => {
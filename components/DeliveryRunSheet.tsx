@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import { fetchBranches } from '../lib/branchService';
+import { fetchDeliveryRunSheet } from '../lib/deliveryService';
+import type { Branch, DeliveryRun } from '../types';
+import DatabaseSetup from './DatabaseSetup';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// yyyy-mm-dd in local time, for date inputs.
+const toDateInput = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' });
+
+// The drivers' list for a day: each doorstep delivery and collection with the address, customer and car, in time order.
+const DeliveryRunSheet: React.FC = () => {
+  const [date, setDate] = useState(toDateInput(new Date()));
+  const [branchId, setBranchId] = useState('');
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [runs, setRuns] = useState<DeliveryRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBranches(false).then(({ branches: fetchedBranches }) => setBranches(fetchedBranches));
+  }, []);
+
+  useEffect(() => {
+    if (!date) return;
+    let cancelled = false;
+    setIsLoading(true);
+    fetchDeliveryRunSheet(date, branchId || undefined).then(({ runs: fetchedRuns, error: fetchError }) => {
+      if (cancelled) return;
+      setRuns(fetchedRuns);
+      setError(fetchError);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, branchId]);
+
+  const renderContent = () => {
+    if (isLoading) return <p className="text-center p-8">Loading run sheet...</p>;
+
+    const needsSetup = error && (error.includes('does not exist') || error.includes('Backend not configured'));
+    if (needsSetup) {
+      return <DatabaseSetup />;
+    }
+
+    if (error) return <div className="bg-red-100 p-4 rounded-md text-red-700">{error}</div>;
+    if (runs.length === 0) return <p className="text-center p-8">No deliveries or collections on this day.</p>;
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Run</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Address</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Car</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {runs.map(run => (
+              <tr key={`${run.bookingId}-${run.kind}`} className={run.done ? 'text-gray-400' : ''}>
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold">{formatTime(run.at)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm">
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${run.kind === 'delivery' ? 'bg-amber-100 text-amber-800' : 'bg-indigo-100 text-indigo-800'}`}>
+                    {run.kind === 'delivery' ? 'Deliver' : 'Collect'}
+                  </span>
+                  <div className="text-xs text-gray-500 mt-1">{run.branchName}</div>
+                </td>
+                <td className="px-4 py-3 text-sm">
+                  <div className="whitespace-pre-line">{run.address}</div>
+                  {run.zoneName && <div className="text-xs text-gray-500">{run.zoneName} · up to {run.maxDistanceKm} km</div>}
+                </td>
+                <td className="px-4 py-3 text-sm">
+                  <div>{run.customerName || 'N/A'}</div>
+                  {run.customerPhone && <div className="text-gray-500">{run.customerPhone}</div>}
+                </td>
+                <td className="px-4 py-3 text-sm">
+                  <div>{run.carTitle || 'N/A'}</div>
+                  <div className="text-xs text-gray-400 font-mono">#{run.bookingId.split('-')[0].toUpperCase()}</div>
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm">
+                  {run.done ? 'Done' : run.status === 'hold' ? 'Balance due' : 'To do'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <AdminPageLayout
+      title="Delivery Run Sheet"
+      subtitle="Doorstep deliveries and collections for the day, by each branch's local time."
+      headerAction={
+        <button onClick={() => window.print()} className="px-4 py-2 bg-primary text-white font-semibold rounded-lg shadow-md hover:bg-primary-hover print:hidden">
+          Print
+        </button>
+      }
+    >
+      <div className="flex flex-wrap gap-4 mb-4 print:hidden">
+        <div>
+          <label htmlFor="runDate" className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input id="runDate" type="date" value={date} onChange={e => setDate(e.target.value)} className="p-2 border rounded-md" />
+        </div>
+        <div>
+          <label htmlFor="runBranch" className="block text-sm font-medium text-gray-700 mb-1">Branch</label>
+          <select id="runBranch" value={branchId} onChange={e => setBranchId(e.target.value)} className="p-2 border rounded-md bg-white">
+            <option value="">All branches</option>
+            {branches.map(branch => <option key={branch.id} value={branch.id}>{branch.name}</option>)}
+          </select>
+        </div>
+      </div>
+      <h2 className="hidden print:block text-lg font-semibold mb-2">
+        {new Date(`${date}T00:00`).toLocaleDateString('en-IN', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+        {branchId && ` · ${branches.find(b => b.id === branchId)?.name || ''}`}
+      </h2>
+      <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+        {renderContent()}
+      </div>
+    </AdminPageLayout>
+  );
+};
+
+export default DeliveryRunSheet;
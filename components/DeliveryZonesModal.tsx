@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { fetchDeliveryZones, upsertDeliveryZone, deleteDeliveryZone } from '../lib/deliveryService';
+import type { Branch, DeliveryZone, DeliveryZoneFormData } from '../types';
+
+interface DeliveryZonesModalProps {
+  branch: Branch;
+  onClose: () => void;
+}
+
+const emptyForm = (branchId: string): DeliveryZoneFormData => ({
+  branchId,
+  name: '',
+  maxDistanceKm: 5,
+  fee: 0,
+  active: true,
+});
+
+// The distance bands around a branch that doorstep delivery and collection are offered in, each with a flat fee.
+// Customers pick the band their address falls in; drivers check it on the run sheet.
+const DeliveryZonesModal: React.FC<DeliveryZonesModalProps> = ({ branch, onClose }) => {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formData, setFormData] = useState<DeliveryZoneFormData>(emptyForm(branch.id));
+  const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { addToast } = useToast();
+
+  const refreshZones = useCallback(async () => {
+    const { zones: data, error } = await fetchDeliveryZones(branch.id, false);
+    if (error) {
+      addToast(`Failed to load zones: ${error}`, 'error');
+    } else {
+      setZones(data);
+    }
+    setIsLoading(false);
+  }, [branch.id, addToast]);
+
+  useEffect(() => {
+    refreshZones();
+  }, [refreshZones]);
+
+  const resetForm = () => {
+    setFormData(emptyForm(branch.id));
+    setEditingZoneId(null);
+  };
+
+  const handleEdit = (zone: DeliveryZone) => {
+    const { id, ...rest } = zone;
+    setFormData(rest);
+    setEditingZoneId(id);
+  };
+
+  const handleDelete = async (zone: DeliveryZone) => {
+    const { error } = await deleteDeliveryZone(zone.id);
+    if (error) {
+      addToast(`Failed to delete: ${error}`, 'error');
+      return;
+    }
+    addToast(`${zone.name} deleted.`, 'success');
+    if (editingZoneId === zone.id) resetForm();
+    refreshZones();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(formData.maxDistanceKm > 0) || formData.fee < 0) {
+      addToast('Enter a distance above zero and a fee of zero or more.', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await upsertDeliveryZone(formData, editingZoneId || undefined);
+    setIsSaving(false);
+    if (error) {
+      addToast(`Failed to save: ${error}`, 'error');
+      return;
+    }
+    addToast(`Zone ${editingZoneId ? 'updated' : 'added'}.`, 'success');
+    resetForm();
+    refreshZones();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl mx-auto max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Delivery Zones</h2>
+            <p className="text-sm text-gray-500">{branch.name} · by road distance from the branch</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {isLoading ? (
+            <p className="text-center text-gray-500">Loading zones...</p>
+          ) : zones.length === 0 ? (
+            <p className="text-sm text-gray-500">No zones yet. Without one, customers cannot ask for doorstep service at this branch.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Zone</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Up To</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fee</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {zones.map(zone => (
+                  <tr key={zone.id} className={zone.active ? '' : 'text-gray-400'}>
+                    <td className="px-4 py-2">{zone.name}{!zone.active && ' (inactive)'}</td>
+                    <td className="px-4 py-2">{zone.maxDistanceKm} km</td>
+                    <td className="px-4 py-2">₹{zone.fee.toLocaleString()}</td>
+                    <td className="px-4 py-2 text-right space-x-2">
+                      <button onClick={() => handleEdit(zone)} className="text-primary hover:text-primary-hover">Edit</button>
+                      <button onClick={() => handleDelete(zone)} className="text-red-600 hover:text-red-800">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <form onSubmit={handleSubmit} className="border-t pt-4 space-y-3">
+            <h3 className="font-semibold">{editingZoneId ? 'Edit Zone' : 'Add Zone'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="zoneName" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input id="zoneName" type="text" value={formData.name} onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))} required placeholder="e.g. City centre" className="w-full p-2 border rounded-md" />
+              </div>
+              <div>
+                <label htmlFor="zoneDistance" className="block text-sm font-medium text-gray-700 mb-1">Up To (km)</label>
+                <input id="zoneDistance" type="number" min="0.1" step="0.1" value={formData.maxDistanceKm} onChange={e => setFormData(prev => ({ ...prev, maxDistanceKm: Number(e.target.value) }))} required className="w-full p-2 border rounded-md" />
+              </div>
+              <div>
+                <label htmlFor="zoneFee" className="block text-sm font-medium text-gray-700 mb-1">Fee (₹, each way)</label>
+                <input id="zoneFee" type="number" min="0" step="0.01" value={formData.fee} onChange={e => setFormData(prev => ({ ...prev, fee: Number(e.target.value) }))} required className="w-full p-2 border rounded-md" />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={formData.active} onChange={e => setFormData(prev => ({ ...prev, active: e.target.checked }))} className="h-4 w-4 text-primary rounded" />
+              Active (offered to customers)
+            </label>
+            <div className="flex justify-end gap-2">
+              {editingZoneId && (
+                <button type="button" onClick={resetForm} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 bg-white hover:bg-gray-100 transition">Cancel Edit</button>
+              )}
+              <button type="submit" disabled={isSaving} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+                {isSaving ? 'Saving...' : editingZoneId ? 'Update Zone' : 'Add Zone'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryZonesModal;
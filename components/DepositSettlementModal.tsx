@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { settleDeposit } from '../lib/depositService';
+import type { BookingChargeKind, DepositSettlementItem } from '../types';
+
+interface DepositSettlementModalProps {
+  deposit: DepositSettlementItem;
+  onClose: () => void;
+  onSettled: () => void;
+}
+
+const CHARGE_KIND_LABELS: Record<BookingChargeKind, string> = {
+  damage: 'Damage',
+  fine: 'Fine',
+  settlement: 'Excess km & fuel',
+};
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Settles a returned booking's security deposit: the admin picks which of the charges still due are deducted from it,
+// and the rest is refunded to the customer.
+const DepositSettlementModal: React.FC<DepositSettlementModalProps> = ({ deposit, onClose, onSettled }) => {
+  const dueCharges = deposit.charges.filter(c => c.status === 'due');
+  // Deduct every due charge that still fits in the deposit, oldest first.
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => {
+    let remaining = deposit.amount;
+    return dueCharges.filter(c => {
+      if (c.amount > remaining) return false;
+      remaining -= c.amount;
+      return true;
+    }).map(c => c.id);
+  });
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { addToast } = useToast();
+
+  const deducted = dueCharges.filter(c => selectedIds.includes(c.id)).reduce((sum, c) => sum + c.amount, 0);
+  // In paise, so the comparison with the deposit is exact.
+  const refund = Math.round((deposit.amount - deducted) * 100) / 100;
+
+  const toggleCharge = (chargeId: string) => {
+    setSelectedIds(prev => prev.includes(chargeId) ? prev.filter(id => id !== chargeId) : [...prev, chargeId]);
+  };
+
+  const handleSettle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const { refundAmount, error } = await settleDeposit(deposit.booking_id, selectedIds, note);
+    setIsSaving(false);
+    if (error) {
+      addToast(`Failed to settle the deposit: ${error}`, 'error');
+      return;
+    }
+    addToast(refundAmount ? `Deposit settled. A refund of ₹${formatAmount(refundAmount)} is ready to process.` : 'Deposit settled. Nothing is left to refund.', 'success');
+    onSettled();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <form onSubmit={handleSettle} className="bg-white rounded-lg shadow-2xl w-full max-w-lg mx-auto max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Settle Deposit</h2>
+            <p className="text-sm text-gray-500">#{deposit.booking_id.split('-')[0].toUpperCase()} · {deposit.customer_name || 'N/A'} · {deposit.car_title || 'N/A'}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          <div>
+            <p className="font-semibold mb-2">Deductions</p>
+            {dueCharges.length === 0 ? (
+              <p className="text-gray-500">No charges are due on this booking, so the deposit is refunded in full.</p>
+            ) : (
+              <ul className="space-y-2">
+                {dueCharges.map(c => (
+                  <li key={c.id}>
+                    <label className="flex items-start gap-2">
+                      <input type="checkbox" checked={selectedIds.includes(c.id)} onChange={() => toggleCharge(c.id)} className="mt-1" />
+                      <span className="flex-1">
+                        <span className="text-xs text-gray-500 mr-1">{CHARGE_KIND_LABELS[c.kind]}</span>
+                        {c.description}
+                        {c.line_items && (
+                          <span className="block text-xs text-gray-500">{c.line_items.map(item => `${item.description}: ₹${formatAmount(item.amount)}`).join(' · ')}</span>
+                        )}
+                      </span>
+                      <span className="whitespace-nowrap">₹{formatAmount(c.amount)}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {deposit.charges.some(c => c.status !== 'due') && (
+              <p className="text-xs text-gray-500 mt-2">Charges already paid or waived are not deducted.</p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">Charges left unticked stay due for the customer to pay.</p>
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg space-y-2">
+            <div className="flex justify-between"><span className="text-gray-600">Deposit</span><span>₹{formatAmount(deposit.amount)}</span></div>
+            <div className="flex justify-between"><span className="text-gray-600">Deducted</span><span>- ₹{formatAmount(deducted)}</span></div>
+            <div className="flex justify-between font-bold text-base border-t pt-2">
+              <span>Refund to customer</span>
+              <span className={refund < 0 ? 'text-red-600' : 'text-primary'}>₹{formatAmount(Math.max(refund, 0))}</span>
+            </div>
+            {refund < 0 && <p className="text-xs text-red-600">The deductions exceed the deposit. Leave some charges for the customer to pay.</p>}
+          </div>
+
+          <div>
+            <label htmlFor="settlementNote" className="block font-medium text-gray-700 mb-1">Note (optional)</label>
+            <textarea id="settlementNote" value={note} onChange={e => setNote(e.target.value)} rows={2} maxLength={500} placeholder="Shown with the refund" className="w-full p-2 border rounded-md" />
+          </div>
+        </div>
+
+        <div className="p-6 border-t flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 hover:bg-gray-300 transition">Cancel</button>
+          <button type="submit" disabled={isSaving || refund < 0} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+            {isSaving ? 'Settling...' : 'Settle Deposit'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DepositSettlementModal;
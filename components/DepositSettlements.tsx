@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import DepositSettlementModal from './DepositSettlementModal';
+import RefundStatusBadge from './common/RefundStatusBadge';
+import { useToast } from '../contexts/ToastContext';
+import { DEPOSIT_STATUS_LABELS, fetchBookingDeposits } from '../lib/depositService';
+import { checkRefundStatus, processRefund } from '../lib/refundService';
+import type { DepositSettlementItem } from '../types';
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Security deposits waiting to be settled once the car is back, and those already settled with their refunds.
+const DepositSettlements: React.FC = () => {
+  const [deposits, setDeposits] = useState<DepositSettlementItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showSettled, setShowSettled] = useState(false);
+  const [settling, setSettling] = useState<DepositSettlementItem | null>(null);
+  const [processingRefundId, setProcessingRefundId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const loadDeposits = useCallback(async () => {
+    setIsLoading(true);
+    const { deposits: data, error: fetchError } = await fetchBookingDeposits(!showSettled);
+    setDeposits(data);
+    setError(fetchError);
+    setIsLoading(false);
+  }, [showSettled]);
+
+  useEffect(() => {
+    loadDeposits();
+  }, [loadDeposits]);
+
+  const handleProcessRefund = async (refundId: string) => {
+    setProcessingRefundId(refundId);
+    const { status, outcomeUnknown, error: processError } = await processRefund(refundId);
+    if (processError) {
+      addToast(`Refund failed: ${processError}`, 'error');
+    } else if (outcomeUnknown) {
+      addToast('The gateway did not confirm the refund, so it may or may not have gone through. Check its status before issuing it again.', 'error');
+    } else if (status === 'failed') {
+      addToast('The gateway declined the refund. You can retry it.', 'error');
+    } else {
+      addToast(status === 'succeeded' ? 'Refund completed.' : 'Refund accepted by the gateway and is processing.', 'success');
+    }
+    setProcessingRefundId(null);
+    loadDeposits();
+  };
+
+  const handleCheckStatus = async (refundId: string) => {
+    setProcessingRefundId(refundId);
+    const { status, error: checkError } = await checkRefundStatus(refundId);
+    if (checkError) {
+      addToast(`Could not check the refund: ${checkError}`, 'error');
+    } else if (status === 'failed') {
+      addToast('The gateway did not make this refund. You can retry it.', 'error');
+    } else {
+      addToast(status === 'succeeded' ? 'Refund completed.' : 'The gateway is still processing the refund.', 'success');
+    }
+    setProcessingRefundId(null);
+    loadDeposits();
+  };
+
+  const renderAction = (deposit: DepositSettlementItem) => {
+    if (!deposit.settled_at) {
+      const isBack = !!deposit.returned_at || deposit.booking_status === 'cancelled';
+      return isBack ? (
+        <button onClick={() => setSettling(deposit)} className="px-3 py-1 text-sm bg-primary text-white rounded hover:bg-primary-hover transition">
+          Settle
+        </button>
+      ) : (
+        <span className="text-xs text-gray-500">Awaiting return</span>
+      );
+    }
+    if (!deposit.refund_id || !deposit.refund_status) return null;
+    return (
+      <div className="flex items-center justify-end gap-2">
+        <RefundStatusBadge status={deposit.refund_status} />
+        {(deposit.refund_status === 'pending' || deposit.refund_status === 'failed') && (
+          <button
+            onClick={() => handleProcessRefund(deposit.refund_id!)}
+            disabled={processingRefundId !== null}
+            className="text-primary hover:text-primary-hover font-medium text-sm disabled:opacity-50"
+          >
+            {processingRefundId === deposit.refund_id ? 'Processing...' : deposit.refund_status === 'failed' ? 'Retry' : 'Process'}
+          </button>
+        )}
+        {deposit.refund_status === 'processing' && (
+          <button
+            onClick={() => handleCheckStatus(deposit.refund_id!)}
+            disabled={processingRefundId !== null}
+            className="text-primary hover:text-primary-hover font-medium text-sm disabled:opacity-50"
+          >
+            {processingRefundId === deposit.refund_id ? 'Checking...' : 'Check status'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <p className="text-center text-gray-600 p-8">Loading deposits...</p>;
+    }
+    if (error) {
+      return <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">{error}</div>;
+    }
+    if (deposits.length === 0) {
+      return <p className="text-center text-gray-600 p-8">{showSettled ? 'No deposits have been settled yet.' : 'No deposits are waiting to be settled.'}</p>;
+    }
+    return (
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Car & Period</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{showSettled ? 'Deductions' : 'Charges Due'}</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Deposit</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{showSettled ? 'Refund' : 'Action'}</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {deposits.map(deposit => {
+            const dueCharges = deposit.charges.filter(c => c.status === 'due');
+            const items = deposit.settled_at ? deposit.deductions : dueCharges;
+            return (
+              <tr key={deposit.id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">{deposit.customer_name || 'N/A'}</div>
+                  {deposit.customer_email && (
+                    <a href={`mailto:${deposit.customer_email}`} className="block text-sm text-primary hover:underline">{deposit.customer_email}</a>
+                  )}
+                  <a href={`#/admin/bookings?search=${deposit.booking_id.split('-')[0]}`} className="block text-xs text-gray-500 hover:underline">
+                    #{deposit.booking_id.split('-')[0].toUpperCase()}
+                  </a>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <div className="text-gray-800 font-semibold">{deposit.car_title || 'N/A'}</div>
+                  <div>From: {formatDate(deposit.start_datetime)}</div>
+                  <div>To: {formatDate(deposit.end_datetime)}</div>
+                  {deposit.returned_at && <div>Returned: {formatDate(deposit.returned_at)}</div>}
+                  {deposit.booking_status === 'cancelled' && <div className="text-red-600">Cancelled</div>}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-600">
+                  {items.length === 0 ? (
+                    <span className="text-gray-400">None</span>
+                  ) : (
+                    <ul className="space-y-1">
+                      {items.map(item => (
+                        <li key={'chargeId' in item ? item.chargeId : item.id}>{item.description} · ₹{formatAmount(item.amount)}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {deposit.settlement_note && <p className="text-xs text-gray-500 mt-1">{deposit.settlement_note}</p>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                  <span className="font-semibold text-gray-900">₹{formatAmount(deposit.amount)}</span>
+                  <div className="text-xs text-gray-500">{DEPOSIT_STATUS_LABELS[deposit.status]}</div>
+                  {deposit.settled_at && (
+                    <div className="text-xs text-gray-500">
+                      Refunded ₹{formatAmount(deposit.released_amount)} · {formatDate(deposit.settled_at)}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm">{renderAction(deposit)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <AdminPageLayout
+      title="Security Deposits"
+      subtitle="Deduct charges from returned bookings' deposits and refund the rest."
+      headerAction={
+        <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showSettled} onChange={e => setShowSettled(e.target.checked)} />
+          Show settled
+        </label>
+      }
+    >
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+        {renderContent()}
+      </div>
+      {settling && (
+        <DepositSettlementModal
+          deposit={settling}
+          onClose={() => setSettling(null)}
+          onSettled={() => {
+            setSettling(null);
+            loadDeposits();
+          }}
+        />
+      )}
+    </AdminPageLayout>
+  );
+};
+
+export default DepositSettlements;
@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import ConfirmationModal from './ConfirmationModal';
+import CalendarSlotModal from './CalendarSlotModal';
+import { useToast } from '../contexts/ToastContext';
+import { fetchFleetCalendar, deleteMaintenanceBlock } from '../lib/fleetCalendarService';
+import { BOOKING_STATUS_LABELS } from '../lib/bookingLifecycle';
+import type { BookingStatus, FleetCalendarData, MaintenanceBlock } from '../types';
+
+type CalendarBooking = FleetCalendarData['bookings'][number];
+type CalendarCar = FleetCalendarData['cars'][number];
+type DragSelection = { carId: string; anchor: number; current: number };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const RANGE_OPTIONS = [7, 14, 30];
+
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  pending_payment: 'bg-gray-300 text-gray-800 border-gray-400',
+  hold: 'bg-yellow-200 text-yellow-900 border-yellow-400',
+  confirmed: 'bg-green-200 text-green-900 border-green-500',
+  completed: 'bg-blue-200 text-blue-900 border-blue-400',
+  cancelled: 'bg-red-100 text-red-800 border-red-300 opacity-60',
+};
+
+// Bookings that still hold their car, and so are followed by the car's turnaround buffer.
+const LIVE_STATUSES: BookingStatus[] = ['pending_payment', 'hold', 'confirmed'];
+
+const HATCHED = { backgroundImage: 'repeating-linear-gradient(45deg, rgba(0,0,0,0.12) 0 4px, transparent 4px 8px)' };
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+// yyyy-mm-dd in local time, for date inputs.
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// The end of a booking on the calendar: its return, or the end of a pending extension that reserves more hours.
+const reservedEnd = (booking: CalendarBooking) =>
+  Math.max(
+    new Date(booking.end_datetime).getTime(),
+    ...booking.booking_extensions.filter(e => e.payment_status === 'pending').map(e => new Date(e.requested_end).getTime())
+  );
+
+// The stretch a drag selects. A click rather than a drag selects a day.
+const selectedSpan = (drag: DragSelection) => {
+  const start = Math.min(drag.anchor, drag.current);
+  return { start, end: drag.anchor === drag.current ? start + DAY_MS : Math.max(drag.anchor, drag.current) };
+};
+
+// Cars as rows and time as columns. Bookings are bars coloured by status with their extensions and the turnaround
+// buffer after them; maintenance blocks are hatched. Clicking a booking opens it in Booking Management, and dragging
+// across an empty stretch of a row starts a new booking or maintenance block for that car.
+const FleetCalendar: React.FC = () => {
+  const [rangeStart, setRangeStart] = useState(startOfToday);
+  const [days, setDays] = useState(14);
+  const [calendar, setCalendar] = useState<FleetCalendarData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCancelled, setShowCancelled] = useState(false);
+  const [drag, setDrag] = useState<DragSelection | null>(null);
+  const [slot, setSlot] = useState<{ car: CalendarCar; start: Date; end: Date } | null>(null);
+  const [blockToDelete, setBlockToDelete] = useState<MaintenanceBlock | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const rowRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const { addToast } = useToast();
+
+  const from = rangeStart.getTime();
+  const to = from + days * DAY_MS;
+
+  const loadCalendar = useCallback(async () => {
+    setIsLoading(true);
+    const { calendar: data, error: fetchError } = await fetchFleetCalendar(new Date(from), new Date(to));
+    setCalendar(data);
+    setError(fetchError);
+    setIsLoading(false);
+  }, [from, to]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  // A drag released outside its row, e.g. over the car names, is dropped rather than left following the pointer.
+  const isDragging = drag !== null;
+  useEffect(() => {
+    if (!isDragging) return;
+    const cancelDrag = () => setDrag(null);
+    document.addEventListener('mouseup', cancelDrag);
+    return () => document.removeEventListener('mouseup', cancelDrag);
+  }, [isDragging]);
+
+  const toPercent = (time: number) => ((Math.min(Math.max(time, from), to) - from) / (to - from)) * 100;
+
+  const spanStyle = (start: number, end: number): React.CSSProperties => ({
+    left: `${toPercent(start)}%`,
+    width: `${Math.max(toPercent(end) - toPercent(start), 0.2)}%`,
+  });
+
+  // The time under the pointer in a car's row, snapped to the hour.
+  const timeAt = (carId: string, clientX: number) => {
+    const row = rowRefs.current[carId];
+    if (!row) return from;
+    const rect = row.getBoundingClientRect();
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return Math.round((from + fraction * (to - from)) / HOUR_MS) * HOUR_MS;
+  };
+
+  const handleMouseDown = (carId: string, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const time = timeAt(carId, e.clientX);
+    setDrag({ carId, anchor: time, current: time });
+  };
+
+  const handleMouseMove = (carId: string, e: React.MouseEvent) => {
+    if (drag?.carId === carId) setDrag({ ...drag, current: timeAt(carId, e.clientX) });
+  };
+
+  const handleMouseUp = () => {
+    if (!drag) return;
+    const car = calendar?.cars.find(c => c.id === drag.carId);
+    const { start, end } = selectedSpan(drag);
+    setDrag(null);
+    if (car) setSlot({ car, start: new Date(start), end: new Date(end) });
+  };
+
+  const handleDeleteBlock = async () => {
+    if (!blockToDelete) return;
+    setIsDeleting(true);
+    const { error: deleteError } = await deleteMaintenanceBlock(blockToDelete.id);
+    setIsDeleting(false);
+    if (deleteError) {
+      addToast(`Failed to remove the block: ${deleteError}`, 'error');
+      return;
+    }
+    addToast('Maintenance block removed.', 'success');
+    setBlockToDelete(null);
+    loadCalendar();
+  };
+
+  const shiftRange = (direction: number) => setRangeStart(new Date(from + direction * days * DAY_MS));
+
+  const renderBooking = (booking: CalendarBooking, turnaroundMinutes: number) => {
+    const start = new Date(booking.start_datetime).getTime();
+    const end = new Date(booking.end_datetime).getTime();
+    const heldUntil = reservedEnd(booking);
+    // The part of the bar inside the calendar's range, which extensions are positioned within.
+    const visibleStart = Math.max(start, from);
+    const visibleLength = Math.max(Math.min(end, to) - visibleStart, 1);
+    const isLive = LIVE_STATUSES.includes(booking.status);
+    const title = [
+      `#${booking.id.split('-')[0].toUpperCase()} · ${booking.customer_name || 'N/A'}`,
+      `${BOOKING_STATUS_LABELS[booking.status]}: ${formatDateTime(booking.start_datetime)} – ${formatDateTime(booking.end_datetime)}`,
+      booking.status === 'hold' && booking.hold_expires_at ? `Hold expires ${formatDateTime(booking.hold_expires_at)}` : null,
+      booking.status === 'pending_payment' && booking.payment_expires_at ? `Payment due by ${formatDateTime(booking.payment_expires_at)}` : null,
+      booking.picked_up_at ? `Picked up ${formatDateTime(booking.picked_up_at)}` : null,
+      booking.returned_at ? `Returned ${formatDateTime(booking.returned_at)}` : null,
+    ].filter(Boolean).join('\n');
+
+    return (
+      <React.Fragment key={booking.id}>
+        {end > from && <button
+          type="button"
+          onMouseDown={e => e.stopPropagation()}
+          onClick={() => { window.location.hash = `#/admin/bookings?search=${booking.id}`; }}
+          title={title}
+          style={spanStyle(start, end)}
+          className={`absolute top-1 bottom-1 rounded border text-xs px-1 overflow-hidden whitespace-nowrap text-left hover:ring-2 hover:ring-primary ${STATUS_STYLES[booking.status]}`}
+        >
+          {booking.booking_extensions.filter(ext => ext.payment_status === 'success').map(ext => {
+            const extEnd = new Date(ext.requested_end).getTime();
+            const extStart = Math.max(extEnd - ext.added_hours * HOUR_MS, visibleStart);
+            if (extEnd <= extStart) return null;
+            return (
+              <span
+                key={ext.id}
+                title={`Extended by ${ext.added_hours} hrs`}
+                className="absolute inset-y-0 bg-black bg-opacity-10 border-l border-dashed border-current"
+                style={{ left: `${((extStart - visibleStart) / visibleLength) * 100}%`, width: `${(Math.min(extEnd - extStart, visibleLength) / visibleLength) * 100}%` }}
+              />
+            );
+          })}
+          <span className="relative">
+            {booking.customer_name || 'N/A'}
+            {booking.status === 'hold' && booking.hold_expires_at && <> · hold until {formatDateTime(booking.hold_expires_at)}</>}
+          </span>
+        </button>}
+        {booking.booking_extensions.filter(ext => ext.payment_status === 'pending').map(ext => (
+          <div
+            key={ext.id}
+            title={`Extension awaiting payment: +${ext.added_hours} hrs`}
+            style={spanStyle(end, new Date(ext.requested_end).getTime())}
+            className="absolute top-1 bottom-1 rounded border-2 border-dashed border-green-500 pointer-events-none"
+          />
+        ))}
+        {isLive && turnaroundMinutes > 0 && (
+          <div
+            title={`Turnaround buffer: ${turnaroundMinutes} min`}
+            style={{ ...spanStyle(heldUntil, heldUntil + turnaroundMinutes * 60 * 1000), ...HATCHED }}
+            className="absolute top-3 bottom-3 bg-gray-100 pointer-events-none"
+          />
+        )}
+        {booking.status === 'hold' && booking.hold_expires_at && new Date(booking.hold_expires_at).getTime() > from && new Date(booking.hold_expires_at).getTime() < to && (
+          <div
+            title={`Hold expires ${formatDateTime(booking.hold_expires_at)}`}
+            style={{ left: `${toPercent(new Date(booking.hold_expires_at).getTime())}%` }}
+            className="absolute top-0 bottom-0 w-0.5 bg-yellow-600 pointer-events-none"
+          />
+        )}
+      </React.Fragment>
+    );
+  };
+
+  const renderCalendar = () => {
+    if (isLoading && !calendar) {
+      return <p className="text-center text-gray-600 p-8">Loading calendar...</p>;
+    }
+    if (error) {
+      return <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">{error}</div>;
+    }
+    if (!calendar || calendar.cars.length === 0) {
+      return <p className="text-center text-gray-600 p-8">No cars in the fleet yet.</p>;
+    }
+
+    const dayStarts = Array.from({ length: days }, (_, i) => from + i * DAY_MS);
+    const now = Date.now();
+    const bookings = calendar.bookings.filter(b => showCancelled || b.status !== 'cancelled');
+    const selection = drag && selectedSpan(drag);
+
+    return (
+      <div className="min-w-[900px] select-none" onMouseLeave={() => setDrag(null)}>
+        <div className="flex border-b">
+          <div className="w-48 shrink-0" />
+          <div className="flex-1 flex">
+            {dayStarts.map(day => (
+              <div key={day} className="flex-1 text-center text-xs text-gray-500 py-2 border-l">
+                {new Date(day).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' })}
+              </div>
+            ))}
+          </div>
+        </div>
+        {calendar.cars.map(car => (
+          <div key={car.id} className="flex border-b">
+            <div className="w-48 shrink-0 px-3 py-2 text-sm">
+              <div className="font-medium text-gray-900 truncate" title={car.title}>{car.title}</div>
+              {car.status !== 'published' && <div className="text-xs text-gray-500 capitalize">{car.status}</div>}
+            </div>
+            <div
+              ref={el => { rowRefs.current[car.id] = el; }}
+              className="flex-1 relative h-12 cursor-crosshair"
+              onMouseDown={e => handleMouseDown(car.id, e)}
+              onMouseMove={e => handleMouseMove(car.id, e)}
+              onMouseUp={handleMouseUp}
+            >
+              {dayStarts.map(day => (
+                <div key={day} className="absolute inset-y-0 border-l border-gray-100" style={{ left: `${toPercent(day)}%` }} />
+              ))}
+              {calendar.blocks.filter(block => block.car_id === car.id).map(block => (
+                <button
+                  key={block.id}
+                  type="button"
+                  onMouseDown={e => e.stopPropagation()}
+                  onClick={() => setBlockToDelete(block)}
+                  title={`Maintenance: ${block.reason}\n${formatDateTime(block.starts_at)} – ${formatDateTime(block.ends_at)}`}
+                  style={{ ...spanStyle(new Date(block.starts_at).getTime(), new Date(block.ends_at).getTime()), ...HATCHED }}
+                  className="absolute top-1 bottom-1 rounded border border-gray-400 bg-gray-200 text-xs text-gray-700 px-1 overflow-hidden whitespace-nowrap text-left"
+                >
+                  {block.reason}
+                </button>
+              ))}
+              {bookings.filter(b => b.car_id === car.id).map(b => renderBooking(b, car.turnaround_minutes))}
+              {now > from && now < to && (
+                <div className="absolute inset-y-0 w-0.5 bg-red-500 pointer-events-none" style={{ left: `${toPercent(now)}%` }} />
+              )}
+              {selection && drag?.carId === car.id && (
+                <div
+                  className="absolute top-1 bottom-1 rounded bg-primary bg-opacity-30 border border-primary pointer-events-none"
+                  style={spanStyle(selection.start, selection.end)}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <AdminPageLayout
+      title="Fleet Calendar"
+      subtitle="Every car's bookings, buffers and maintenance. Click a booking to open it, or drag across a free slot to book or block the car."
+      headerAction={
+        <button onClick={loadCalendar} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 font-semibold hover:bg-gray-300 transition">
+          Refresh
+        </button>
+      }
+    >
+      <div className="space-y-6">
+        <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="calendarStart" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              id="calendarStart"
+              type="date"
+              value={toDateInput(rangeStart)}
+              onChange={e => e.target.value && setRangeStart(new Date(`${e.target.value}T00:00:00`))}
+              className="p-2 border rounded-md"
+            />
+          </div>
+          <div>
+            <label htmlFor="calendarDays" className="block text-sm font-medium text-gray-700 mb-1">Show</label>
+            <select id="calendarDays" value={days} onChange={e => setDays(Number(e.target.value))} className="p-2 border rounded-md bg-white">
+              {RANGE_OPTIONS.map(option => <option key={option} value={option}>{option} days</option>)}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => shiftRange(-1)} className="px-3 py-2 rounded bg-gray-100 hover:bg-gray-200 transition">Previous</button>
+            <button onClick={() => setRangeStart(startOfToday())} className="px-3 py-2 rounded bg-gray-100 hover:bg-gray-200 transition">Today</button>
+            <button onClick={() => shiftRange(1)} className="px-3 py-2 rounded bg-gray-100 hover:bg-gray-200 transition">Next</button>
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <input type="checkbox" checked={showCancelled} onChange={e => setShowCancelled(e.target.checked)} />
+            Show cancelled
+          </label>
+          <div className="flex flex-wrap items-center gap-2 text-xs ml-auto">
+            {(Object.keys(STATUS_STYLES) as BookingStatus[]).map(status => (
+              <span key={status} className={`px-2 py-0.5 rounded border ${STATUS_STYLES[status]}`}>{BOOKING_STATUS_LABELS[status]}</span>
+            ))}
+            <span className="px-2 py-0.5 rounded border border-gray-400 bg-gray-200" style={HATCHED}>Maintenance / buffer</span>
+          </div>
+        </div>
+
+        <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+          {renderCalendar()}
+        </div>
+      </div>
+
+      {slot && (
+        <CalendarSlotModal car={slot.car} start={slot.start} end={slot.end} onClose={() => setSlot(null)} onCreated={loadCalendar} />
+      )}
+
+      <ConfirmationModal
+        isOpen={!!blockToDelete}
+        onClose={() => setBlockToDelete(null)}
+        onConfirm={handleDeleteBlock}
+        title="Remove Maintenance Block"
+        message={blockToDelete && (
+          <>
+            Remove the block "{blockToDelete.reason}" from {formatDateTime(blockToDelete.starts_at)} to {formatDateTime(blockToDelete.ends_at)}?
+            The car can be booked for this period again.
+          </>
+        )}
+        confirmText="Remove"
+        isConfirming={isDeleting}
+      />
+    </AdminPageLayout>
+  );
+};
+
+export default FleetCalendar;
@@ -47,9 +47,11 @@ const HomePage: React.FC = () => {
         isFetchingMore,
         hasMoreCars,
         error: carsError,
+        branches,
         searchTerm, setSearchTerm,
         seatFilter, setSeatFilter,
         fuelFilter, setFuelFilter,
+        branchFilter, setBranchFilter,
         pickupDate, setPickupDate,
         returnDate, setReturnDate,
         handleSearch,
@@ -107,6 +109,12 @@ const HomePage: React.FC = () => {
                         fuelType: carData.fuel_type,
                         transmission: carData.transmission,
                         pricePerDay: carData.price_per_day,
+                        category: carData.category,
+                        turnaroundMinutes: carData.turnaround_minutes,
+                        kmPerDayAllowance: carData.km_per_day_allowance,
+                        excessKmRate: carData.excess_km_rate != null ? Number(carData.excess_km_rate) : null,
+                        depositAmount: carData.deposit_amount != null ? Number(carData.deposit_amount) : null,
+                        branchId: carData.branch_id,
                         verified: carData.verified,
                         status: carData.status,
                         imagePaths: carData.image_paths || [],
@@ -173,6 +181,9 @@ const HomePage: React.FC = () => {
                     setSeatFilter={setSeatFilter}
                     fuelFilter={fuelFilter}
                     setFuelFilter={setFuelFilter}
+                    branches={branches}
+                    branchFilter={branchFilter}
+                    setBranchFilter={setBranchFilter}
                     onSearch={handleSearch}
                     pickupDate={pickupDate}
                     setPickupDate={setPickupDate}
@@ -0,0 +1,333 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import CarDiagram, { DAMAGE_TYPE_LABELS, getAreaLabel } from './common/CarDiagram';
+import InspectionReport from './common/InspectionReport';
+import { describeFuelPolicy, describeMileage } from './common/UsageTerms';
+import {
+  createBookingCharge,
+  fetchBookingInspections,
+  findNewDamage,
+  saveInspection,
+  uploadInspectionPhotos,
+  waiveBookingCharge,
+} from '../lib/inspectionService';
+import type { BookingCharge, BookingChargeKind, BookingDetail, DamageMark, DamageType, InspectionFormData, InspectionKind, VehicleInspection } from '../types';
+
+interface InspectionModalProps {
+  booking: BookingDetail;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const EMPTY_FORM: InspectionFormData = { odometerKm: 0, energyLevelPercent: 100, damages: [], photoPaths: [], notes: '' };
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// The condition reports of a booking, filled in by staff at pickup and return. Once both exist, damage found at return
+// that was not there at pickup is highlighted and can be charged to the customer.
+const InspectionModal: React.FC<InspectionModalProps> = ({ booking, onClose, onChanged }) => {
+  const [kind, setKind] = useState<InspectionKind>(booking.picked_up_at ? 'return' : 'pickup');
+  const [inspections, setInspections] = useState<VehicleInspection[] | null>(null);
+  const [formData, setFormData] = useState<InspectionFormData>(EMPTY_FORM);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [newPhotos, setNewPhotos] = useState<File[]>([]);
+  const [selectedArea, setSelectedArea] = useState<string | null>(null);
+  const [damageType, setDamageType] = useState<DamageType>('scratch');
+  const [damageNote, setDamageNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [charges, setCharges] = useState<BookingCharge[]>(booking.charges || []);
+  const [charge, setCharge] = useState<{ kind: BookingChargeKind; amount: string; description: string }>({ kind: 'damage', amount: '', description: '' });
+  const [waiving, setWaiving] = useState<{ chargeId: string; reason: string } | null>(null);
+  const [isCharging, setIsCharging] = useState(false);
+  const { addToast } = useToast();
+
+  const loadInspections = useCallback(async () => {
+    const { inspections: data, error } = await fetchBookingInspections(booking.id);
+    if (error) addToast(`Failed to load inspections: ${error}`, 'error');
+    setInspections(data);
+  }, [booking.id, addToast]);
+
+  useEffect(() => {
+    loadInspections();
+  }, [loadInspections]);
+
+  const pickupReport = inspections?.find(i => i.kind === 'pickup');
+  const returnReport = inspections?.find(i => i.kind === 'return');
+  const report = kind === 'pickup' ? pickupReport : returnReport;
+  const newDamage = returnReport ? findNewDamage(pickupReport, returnReport) : [];
+  const canInspect = kind === 'pickup' ? booking.status === 'confirmed' : !!booking.picked_up_at;
+
+  // Start the form from the saved report, or for a new return report from the pickup readings.
+  useEffect(() => {
+    if (!inspections) return;
+    const base = report || (kind === 'return' ? pickupReport : undefined);
+    setFormData(base ? {
+      odometerKm: base.odometerKm,
+      energyLevelPercent: base.energyLevelPercent,
+      damages: base.damages,
+      photoPaths: report ? report.photoPaths : [],
+      notes: report?.notes || '',
+    } : EMPTY_FORM);
+    setPhotoUrls(report ? Object.fromEntries(report.photoPaths.map((path, index) => [path, report.photoUrls[index]])) : {});
+    setNewPhotos([]);
+    setSelectedArea(null);
+  }, [inspections, kind, report, pickupReport]);
+
+  // Suggest a description for charging the new damage whenever the reports change.
+  useEffect(() => {
+    const damage = returnReport ? findNewDamage(pickupReport, returnReport) : [];
+    if (damage.length === 0) return;
+    const description = `Damage found at return: ${damage.map(m => `${getAreaLabel(m.area)} (${DAMAGE_TYPE_LABELS[m.type].toLowerCase()})`).join(', ')}`;
+    setCharge(prev => ({ ...prev, description }));
+  }, [returnReport, pickupReport]);
+
+  const addMark = () => {
+    if (!selectedArea) return;
+    const mark: DamageMark = { area: selectedArea, type: damageType, ...(damageNote.trim() ? { note: damageNote.trim() } : {}) };
+    setFormData(prev => ({ ...prev, damages: [...prev.damages, mark] }));
+    setDamageNote('');
+  };
+
+  const removeMark = (index: number) => {
+    setFormData(prev => ({ ...prev, damages: prev.damages.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pickupReport && kind === 'return' && formData.odometerKm < pickupReport.odometerKm) {
+      addToast(`The odometer cannot read less than at pickup (${pickupReport.odometerKm} km).`, 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    const { paths, error: uploadError } = await uploadInspectionPhotos(booking.id, kind, newPhotos);
+    if (uploadError) {
+      addToast(uploadError, 'error');
+      setIsSaving(false);
+      return;
+    }
+    const { error } = await saveInspection(booking.id, kind, { ...formData, photoPaths: [...formData.photoPaths, ...paths] });
+    setIsSaving(false);
+    if (error) {
+      addToast(`Failed to save the report: ${error}`, 'error');
+      return;
+    }
+    addToast(`${kind === 'pickup' ? 'Pickup' : 'Return'} report saved. The customer has been asked to acknowledge it.`, 'success');
+    await loadInspections();
+    onChanged();
+  };
+
+  const handleCharge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(charge.amount);
+    if (!(amount > 0)) {
+      addToast('Enter the amount to charge.', 'error');
+      return;
+    }
+    setIsCharging(true);
+    const { chargeId, error } = await createBookingCharge(booking.id, charge.kind, amount, charge.description, returnReport?.id);
+    setIsCharging(false);
+    if (error || !chargeId) {
+      addToast(`Failed to raise the charge: ${error}`, 'error');
+      return;
+    }
+    addToast(booking.deposit ? 'Charge raised. The customer can pay it from their dashboard, or it can be deducted from the deposit.' : 'Charge raised. The customer can pay it from their dashboard.', 'success');
+    setCharges(prev => [...prev, { id: chargeId, kind: charge.kind, description: charge.description.trim(), amount, status: 'due', created_at: new Date().toISOString() }]);
+    setCharge({ kind: 'damage', amount: '', description: '' });
+    onChanged();
+  };
+
+  const handleWaive = async () => {
+    if (!waiving) return;
+    setIsCharging(true);
+    const { error } = await waiveBookingCharge(waiving.chargeId, waiving.reason);
+    setIsCharging(false);
+    if (error) {
+      addToast(`Failed to waive the charge: ${error}`, 'error');
+      return;
+    }
+    addToast('Charge waived.', 'success');
+    setCharges(prev => prev.map(c => (c.id === waiving.chargeId ? { ...c, status: 'waived' } : c)));
+    setWaiving(null);
+    onChanged();
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="odometer" className="block text-sm font-medium text-gray-700 mb-1">Odometer (km)</label>
+          <input id="odometer" type="number" min="0" step="1" value={formData.odometerKm} onChange={e => setFormData(prev => ({ ...prev, odometerKm: Number(e.target.value) }))} required className="w-full p-2 border rounded-md" />
+        </div>
+        <div>
+          <label htmlFor="energyLevel" className="block text-sm font-medium text-gray-700 mb-1">Fuel / battery level: {formData.energyLevelPercent}%</label>
+          <input id="energyLevel" type="range" min="0" max="100" step="5" value={formData.energyLevelPercent} onChange={e => setFormData(prev => ({ ...prev, energyLevelPercent: Number(e.target.value) }))} className="w-full" />
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <CarDiagram marks={formData.damages} selectedArea={selectedArea} onAreaClick={setSelectedArea} />
+        <div className="flex-1 space-y-2 text-sm">
+          {selectedArea ? (
+            <div className="bg-gray-50 p-3 rounded-md space-y-2">
+              <p className="font-semibold">{getAreaLabel(selectedArea)}</p>
+              <select value={damageType} onChange={e => setDamageType(e.target.value as DamageType)} className="w-full p-2 border rounded-md bg-white">
+                {Object.entries(DAMAGE_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+              <input type="text" value={damageNote} onChange={e => setDamageNote(e.target.value)} maxLength={200} placeholder="Note, e.g. 5 cm, driver side" className="w-full p-2 border rounded-md" />
+              <button type="button" onClick={addMark} className="px-3 py-1 rounded bg-primary text-white hover:bg-primary-hover">Add Mark</button>
+            </div>
+          ) : (
+            <p className="text-gray-500">Click an area of the car to mark damage.</p>
+          )}
+          {formData.damages.length > 0 && (
+            <ul className="space-y-1">
+              {formData.damages.map((mark, index) => (
+                <li key={index} className="flex justify-between gap-2">
+                  <span>{getAreaLabel(mark.area)}: {DAMAGE_TYPE_LABELS[mark.type]}{mark.note && <span className="text-gray-500"> · {mark.note}</span>}</span>
+                  <button type="button" onClick={() => removeMark(index)} className="text-red-600 hover:text-red-800">Remove</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="inspectionPhotos" className="block text-sm font-medium text-gray-700 mb-1">Photos</label>
+        {formData.photoPaths.length > 0 && (
+          <div className="grid grid-cols-4 gap-2 mb-2">
+            {formData.photoPaths.map(path => (
+              <div key={path} className="relative">
+                <img src={photoUrls[path]} alt="Inspection" className="w-full h-20 object-cover rounded border" />
+                <button type="button" onClick={() => setFormData(prev => ({ ...prev, photoPaths: prev.photoPaths.filter(p => p !== path) }))} className="absolute top-1 right-1 bg-white rounded-full px-1 text-xs text-red-600">&times;</button>
+              </div>
+            ))}
+          </div>
+        )}
+        <input id="inspectionPhotos" type="file" accept="image/png,image/jpeg,image/webp" multiple onChange={e => setNewPhotos(Array.from(e.target.files || []))} className="text-sm" />
+        {newPhotos.length > 0 && <p className="text-xs text-gray-500 mt-1">{newPhotos.length} photo(s) will be uploaded when you save.</p>}
+      </div>
+
+      <div>
+        <label htmlFor="inspectionNotes" className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+        <textarea id="inspectionNotes" value={formData.notes} onChange={e => setFormData(prev => ({ ...prev, notes: e.target.value }))} rows={2} maxLength={1000} className="w-full p-2 border rounded-md" />
+      </div>
+
+      <div className="flex justify-end">
+        <button type="submit" disabled={isSaving} className="px-4 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:opacity-50">
+          {isSaving ? 'Saving...' : report ? 'Update Report' : 'Save Report'}
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderComparison = () => {
+    if (!returnReport) return null;
+    return (
+      <div className="border-t pt-4 space-y-3 text-sm">
+        <h3 className="font-semibold text-lg">Pickup vs Return</h3>
+        {pickupReport ? (
+          <p>
+            Driven {(returnReport.odometerKm - pickupReport.odometerKm).toLocaleString()} km · Fuel / battery {pickupReport.energyLevelPercent}% → {returnReport.energyLevelPercent}%
+            {booking.usage_terms && <span className="block text-gray-500">{describeMileage(booking.usage_terms)} · {describeFuelPolicy(booking.usage_terms)}.{!booking.returned_at && ' Excess km and refuelling are charged when you mark the car returned.'}</span>}
+          </p>
+        ) : (
+          <p className="text-gray-500">There is no pickup report, so all damage at return is shown as new.</p>
+        )}
+        {newDamage.length === 0 ? (
+          <p className="text-green-700">No new damage.</p>
+        ) : (
+          <ul className="text-red-700 list-disc ml-5">
+            {newDamage.map((mark, index) => (
+              <li key={index}>{getAreaLabel(mark.area)}: {DAMAGE_TYPE_LABELS[mark.type]}{mark.note && ` · ${mark.note}`}</li>
+            ))}
+          </ul>
+        )}
+
+        {charges.length > 0 && (
+          <ul className="space-y-1">
+            {charges.map(c => (
+              <li key={c.id} className="flex justify-between gap-2 items-center">
+                <span>{c.description}</span>
+                <span className="whitespace-nowrap">
+                  ₹{formatAmount(c.amount)} · <span className="capitalize">{c.status}</span>
+                  {c.status === 'due' && (
+                    <button type="button" onClick={() => setWaiving({ chargeId: c.id, reason: '' })} className="ml-2 text-primary hover:text-primary-hover">Waive</button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {waiving && (
+          <div className="flex gap-2">
+            <input type="text" value={waiving.reason} onChange={e => setWaiving({ ...waiving, reason: e.target.value })} placeholder="Reason for waiving" className="flex-1 p-2 border rounded-md" />
+            <button type="button" onClick={handleWaive} disabled={isCharging || !waiving.reason.trim()} className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50">Waive</button>
+            <button type="button" onClick={() => setWaiving(null)} className="px-3 py-1 rounded text-gray-600">Cancel</button>
+          </div>
+        )}
+
+        <form onSubmit={handleCharge} className="bg-gray-50 p-3 rounded-md space-y-2">
+          <p className="font-semibold">Charge the customer</p>
+          <select aria-label="Charge type" value={charge.kind} onChange={e => setCharge(prev => ({ ...prev, kind: e.target.value as BookingChargeKind }))} className="w-full p-2 border rounded-md bg-white">
+            <option value="damage">Damage</option>
+            <option value="fine">Fine (traffic, parking or toll)</option>
+          </select>
+          <input type="text" value={charge.description} onChange={e => setCharge(prev => ({ ...prev, description: e.target.value }))} required maxLength={300} placeholder="What the charge is for" className="w-full p-2 border rounded-md" />
+          <div className="flex gap-2">
+            <input type="number" min="1" step="0.01" value={charge.amount} onChange={e => setCharge(prev => ({ ...prev, amount: e.target.value }))} required placeholder="Amount (₹)" className="flex-1 p-2 border rounded-md" />
+            <button type="submit" disabled={isCharging} className="px-4 py-2 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700 transition disabled:opacity-50">
+              {isCharging ? 'Saving...' : 'Raise Charge'}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (!inspections) return <p className="text-sm text-gray-500">Loading reports...</p>;
+    // Reports are final once acknowledged, and once the car is back since the return settles mileage and fuel.
+    if (report && (report.acknowledgedAt || booking.returned_at)) {
+      return <InspectionReport inspection={report} newDamage={kind === 'return' ? newDamage : []} />;
+    }
+    if (booking.returned_at) return <p className="text-sm text-gray-500">The car has been returned without this report.</p>;
+    if (!canInspect) {
+      return (
+        <p className="text-sm text-gray-500">
+          {kind === 'pickup' ? 'Only confirmed bookings can be inspected for pickup.' : 'Record the pickup before inspecting the return.'}
+        </p>
+      );
+    }
+    return renderForm();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-3xl mx-auto max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Inspection</h2>
+            <p className="text-sm text-gray-500">{booking.car_title || 'Car'} · #{booking.id.split('-')[0].toUpperCase()} · {booking.customer_name || 'Customer'}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="flex gap-2 text-sm">
+            {(['pickup', 'return'] as InspectionKind[]).map(option => (
+              <button key={option} type="button" onClick={() => setKind(option)} className={`px-3 py-1 rounded-full ${kind === option ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}>
+                {option === 'pickup' ? 'Pickup' : 'Return'}
+                {inspections?.some(i => i.kind === option) && ' ✓'}
+              </button>
+            ))}
+          </div>
+          {renderBody()}
+          {kind === 'return' && renderComparison()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InspectionModal;
@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { withCallbackParams } from '../lib/gateways/gatewayUtils';
+import { signMockCallback } from '../lib/gateways/mockGateway';
+
+type Outcome = 'success' | 'failed' | 'pending' | 'timeout';
+
+// How long a simulated timeout waits before the customer gives up and returns to the app.
+const TIMEOUT_DELAY_MS = 5000;
+
+// Checkout page of the local mock gateway. Lets a tester decide how the payment ends, then returns to
+// the app's callback route the way a real gateway would, with a server-signed callback.
+const MockGatewayPage: React.FC = () => {
+    const params = new URLSearchParams(window.location.hash.split('?')[1]);
+    const orderId = params.get('order_id');
+    const paymentId = params.get('payment_id');
+    const amount = Number(params.get('amount') || 0);
+    const description = params.get('description') || 'Payment';
+    const returnPath = params.get('return') || '#/payment/callback';
+
+    const [outcome, setOutcome] = useState<Outcome | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!outcome) return;
+
+        const complete = async () => {
+            // A timed-out gateway never reports a status, so there is nothing to sign.
+            if (outcome === 'timeout') {
+                window.location.hash = withCallbackParams(returnPath, { gateway: 'mock', payment_id: paymentId, order_id: orderId });
+                return;
+            }
+
+            const txnId = `MOCK_TXN_${crypto.randomUUID()}`;
+            try {
+                const signed = await signMockCallback(paymentId!, outcome, txnId);
+                window.location.hash = withCallbackParams(returnPath, {
+                    gateway: 'mock',
+                    payment_id: paymentId,
+                    order_id: signed.orderId,
+                    txn_id: txnId,
+                    status: outcome,
+                    amount: signed.amount.toFixed(2),
+                    signature: signed.signature,
+                });
+            } catch (err: any) {
+                setError(err.message || 'Could not sign the gateway response.');
+                setOutcome(null);
+            }
+        };
+
+        const timer = setTimeout(complete, outcome === 'timeout' ? TIMEOUT_DELAY_MS : 1000);
+        return () => clearTimeout(timer);
+    }, [outcome, orderId, paymentId, returnPath]);
+
+    if (!orderId || !paymentId) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gray-100 font-sans">
+                <p className="bg-red-100 text-red-700 p-4 rounded-md">Invalid checkout link. Missing order or payment ID.</p>
+            </div>
+        );
+    }
+
+    const outcomeButton = (value: Outcome, label: string, className: string) => (
+        <button
+            onClick={() => setOutcome(value)}
+            disabled={outcome !== null}
+            className={`w-full px-6 py-3 rounded-lg font-semibold transition disabled:opacity-50 ${className}`}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100 font-sans p-4">
+            <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+                <div className="flex justify-between items-center mb-6">
+                    <h1 className="text-2xl font-bold text-foreground">Test Gateway</h1>
+                    <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">TEST MODE</span>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg mb-6 text-sm space-y-1">
+                    <p className="text-gray-600">{description}</p>
+                    <p className="text-3xl font-bold text-foreground">₹{amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                    <p className="text-xs text-gray-400 font-mono break-all">Order {orderId}</p>
+                </div>
+
+                {error && <p className="bg-red-100 text-red-700 p-3 rounded-md mb-4 text-sm">{error}</p>}
+
+                {outcome ? (
+                    <p className="text-center text-gray-600">
+                        {outcome === 'timeout' ? 'Waiting for the bank... (simulating a gateway timeout)' : 'Returning to RP Cars...'}
+                    </p>
+                ) : (
+                    <div className="space-y-3">
+                        {outcomeButton('success', 'Simulate Success', 'bg-green-600 text-white hover:bg-green-700')}
+                        {outcomeButton('failed', 'Simulate Failure', 'bg-red-600 text-white hover:bg-red-700')}
+                        {outcomeButton('pending', 'Simulate Pending', 'bg-yellow-500 text-white hover:bg-yellow-600')}
+                        {outcomeButton('timeout', 'Simulate Timeout', 'bg-gray-200 text-gray-800 hover:bg-gray-300')}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MockGatewayPage;
@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { fetchPaymentGateways, updatePaymentGateways } from '../lib/gatewayService';
+import type { PaymentGatewayConfig } from '../types';
+
+// Chooses the gateways customers can pay with and the order checkout lists them in; the first enabled gateway is the
+// default. Real gateways also need their credentials and the payment-gateway function (see the README).
+const PaymentGatewaySettings: React.FC = () => {
+    const [gateways, setGateways] = useState<PaymentGatewayConfig[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const { addToast } = useToast();
+
+    const loadGateways = useCallback(async () => {
+        const { gateways: data, error: fetchError } = await fetchPaymentGateways();
+        setGateways(data);
+        setError(fetchError);
+    }, []);
+
+    useEffect(() => {
+        loadGateways();
+    }, [loadGateways]);
+
+    const toggleGateway = (id: PaymentGatewayConfig['id']) => {
+        setGateways(prev => prev.map(g => g.id === id ? { ...g, enabled: !g.enabled } : g));
+    };
+
+    const moveGateway = (index: number, offset: number) => {
+        setGateways(prev => {
+            const next = [...prev];
+            [next[index], next[index + offset]] = [next[index + offset], next[index]];
+            return next;
+        });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!gateways.some(g => g.enabled)) {
+            addToast('Enable at least one gateway, or customers cannot pay online.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const { error: saveError } = await updatePaymentGateways(gateways.map((g, index) => ({ id: g.id, enabled: g.enabled, sort_order: index })));
+        if (saveError) {
+            addToast(`Failed to save payment gateways: ${saveError}`, 'error');
+        } else {
+            addToast('Payment gateways saved.', 'success');
+            await loadGateways();
+        }
+        setIsSaving(false);
+    };
+
+    return (
+        <form onSubmit={handleSave} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+            <h2 className="text-lg font-semibold text-foreground mb-1">Payment Gateways</h2>
+            <p className="text-sm text-gray-500 mb-4">Customers choose from the enabled gateways at checkout, in this order; the first is selected by default. Enable a real gateway only once its credentials are set up.</p>
+            {error && <p className="bg-red-100 p-3 rounded-md text-red-700 text-sm mb-4">{error}</p>}
+            <ul className="divide-y border rounded-lg">
+                {gateways.map((gateway, index) => (
+                    <li key={gateway.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                        <label className="flex items-center gap-3 cursor-pointer">
+                            <input type="checkbox" checked={gateway.enabled} onChange={() => toggleGateway(gateway.id)} className="h-4 w-4" />
+                            <span className="font-medium text-gray-800">{gateway.display_name}</span>
+                            {gateway.id === 'mock' ? (
+                                <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">Development builds only</span>
+                            ) : gateway.test_mode && (
+                                <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">Test mode</span>
+                            )}
+                        </label>
+                        <div className="flex gap-1">
+                            <button type="button" onClick={() => moveGateway(index, -1)} disabled={index === 0} aria-label={`Move ${gateway.display_name} up`} className="px-2 py-1 rounded border text-gray-600 hover:bg-gray-100 disabled:opacity-30">↑</button>
+                            <button type="button" onClick={() => moveGateway(index, 1)} disabled={index === gateways.length - 1} aria-label={`Move ${gateway.display_name} down`} className="px-2 py-1 rounded border text-gray-600 hover:bg-gray-100 disabled:opacity-30">↓</button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex justify-end mt-4">
+                <button type="submit" disabled={isSaving || gateways.length === 0} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+                    {isSaving ? 'Saving...' : 'Save Gateways'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default PaymentGatewaySettings;
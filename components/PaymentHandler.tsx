@@ -1,17 +1,37 @@
-import React, { useState, useEffect } from 'react';
-import { verifyPaytmPayment } from '../lib/bookingService';
+import React, { useState, useEffect, useRef } from 'react';
+import { verifyGatewayPayment, retryBookingPayment } from '../lib/bookingService';
+import { getPaymentGateway, startGatewayPayment } from '../lib/paymentGateway';
+import { usePaymentGateways } from '../lib/usePaymentGateways';
+import { parseError } from '../lib/errorUtils';
+import type { PaymentCallbackRejection } from '../types';
+
+const REJECTION_MESSAGES: Record<PaymentCallbackRejection, string> = {
+    missing_signature: 'The payment gateway response was not signed, so it could not be verified.',
+    invalid_signature: 'The payment gateway response could not be verified.',
+    order_mismatch: 'The payment gateway response is for a different order.',
+    amount_mismatch: 'The amount charged by the payment gateway does not match your booking.',
+    replayed: 'This payment response has already been processed.',
+};
 
 const PaymentHandler: React.FC = () => {
-    const [status, setStatus] = useState<'verifying' | 'success' | 'failed'>('verifying');
+    const [status, setStatus] = useState<'verifying' | 'success' | 'pending' | 'failed'>('verifying');
     const [error, setError] = useState<string | null>(null);
     const [redirectPath, setRedirectPath] = useState<string>('#/');
+    const [isRetrying, setIsRetrying] = useState(false);
+    const { gateways } = usePaymentGateways();
+    // One key for this failure screen, so repeated clicks on Retry start a single new attempt.
+    const retryKey = useRef(crypto.randomUUID());
 
     useEffect(() => {
         const handlePaymentCallback = async () => {
             try {
                 const hashParams = new URLSearchParams(window.location.hash.split('?')[1]);
-                const paymentId = hashParams.get('payment_id');
-                const paymentStatusFromUrl = hashParams.get('status');
+                // Each gateway returns its own parameters; its adapter maps them to a common result.
+                const gatewayId = hashParams.get('gateway');
+                if (!gatewayId) {
+                    throw new Error('Invalid payment callback URL. The payment gateway is missing.');
+                }
+                const callback = getPaymentGateway(gatewayId).parseCallback(hashParams);
                 
                 // For initial bookings
                 const bookingId = hashParams.get('booking_id');
@@ -20,26 +40,52 @@ const PaymentHandler: React.FC = () => {
                 // For extensions
                 const extensionId = hashParams.get('extension_id');
 
-                if (!paymentId || paymentId === 'undefined' || !paymentStatusFromUrl) {
+                // For the remaining balance of a hold
+                const isBalancePayment = hashParams.get('balance') === '1';
+
+                // For the price difference of a booking modification
+                const modificationId = hashParams.get('modification_id');
+
+                // For a charge raised after the rental, e.g. for damage
+                const chargeId = hashParams.get('charge_id');
+
+                if (!callback.paymentId || callback.paymentId === 'undefined') {
                     throw new Error('Invalid payment callback URL. Missing or invalid required parameters.');
                 }
-                
-                // Simulate payment failure for testing if needed
-                // const paymentStatus = 'failed';
-                const paymentStatus = paymentStatusFromUrl;
 
-                const { success, error: verificationError } = await verifyPaytmPayment(paymentId, paymentStatus);
+                const { success, result, error: verificationError } = await verifyGatewayPayment(callback);
 
-                if (!success) {
+                if (!success || !result) {
                     throw new Error(verificationError || 'Payment verification failed.');
                 }
-                
-                if (paymentStatus === 'success') {
+
+                // The server's view of the payment decides what is shown, never the status in this URL.
+                if (!result.accepted && result.paymentStatus !== 'success') {
+                    const reason = result.reason ? REJECTION_MESSAGES[result.reason] : 'Payment verification failed.';
+                    throw new Error(`${reason} If you were charged, please contact support with your booking details.`);
+                }
+
+                if (result.refundPending) {
+                    throw new Error('Your payment was confirmed after it had expired, so it was not applied to your booking. It will be refunded to you in full.');
+                }
+
+                if (result.paymentStatus === 'pending') {
+                    setStatus('pending');
+                } else if (result.paymentStatus === 'success') {
                     // Clear any previous attempt info on success
                     sessionStorage.removeItem('paymentAttemptInfo');
                     if (extensionId) {
                         sessionStorage.setItem('postExtensionSuccess', 'true');
                         setRedirectPath('#/dashboard');
+                    } else if (isBalancePayment) {
+                        sessionStorage.setItem('postBalanceSuccess', 'true');
+                        setRedirectPath('#/dashboard');
+                    } else if (modificationId) {
+                        sessionStorage.setItem('postModificationSuccess', 'true');
+                        setRedirectPath('#/dashboard');
+                    } else if (chargeId) {
+                        sessionStorage.setItem('postChargeSuccess', 'true');
+                        setRedirectPath('#/dashboard');
                     } else if (bookingId && carId) {
                         sessionStorage.setItem('postPaymentInfo', JSON.stringify({ carId, bookingId }));
                         setRedirectPath('#/');
@@ -66,12 +112,61 @@ const PaymentHandler: React.FC = () => {
         }
     }, [status, redirectPath]);
 
-    const handleRetry = () => {
+    // Reopens the booking modal at the payment step to book again with a fresh quote.
+    const restartBooking = () => {
+        const attemptInfoRaw = sessionStorage.getItem('paymentAttemptInfo');
+        if (attemptInfoRaw) {
+            try {
+                const attemptInfo = JSON.parse(attemptInfoRaw);
+                attemptInfo.bookingData = { ...attemptInfo.bookingData, quote: null, bookingId: undefined };
+                sessionStorage.setItem('paymentAttemptInfo', JSON.stringify(attemptInfo));
+            } catch (e) { console.error("Error resetting payment attempt info:", e); }
+        }
         // This flag will be picked up by HomePage to re-open the booking modal
         sessionStorage.setItem('retryPayment', 'true');
         window.location.hash = '#/';
     };
 
+    const handleRetry = async () => {
+        const hashParams = new URLSearchParams(window.location.hash.split('?')[1]);
+        // Failed balance, extension and charge payments are retried from the dashboard, where the booking is shown.
+        // A failed modification payment cancels the modification, so the change is started again there too.
+        if (hashParams.get('balance') === '1' || hashParams.get('extension_id') || hashParams.get('modification_id') || hashParams.get('charge_id')) {
+            window.location.hash = '#/dashboard';
+            return;
+        }
+
+        const bookingId = hashParams.get('booking_id');
+        const carId = hashParams.get('car_id');
+        // Prefer the gateway the customer just used, if it is still enabled.
+        const gateway = gateways.find(g => g.id === hashParams.get('gateway')) || gateways[0];
+        if (!bookingId || !carId || !gateway) {
+            restartBooking();
+            return;
+        }
+
+        // The failed booking is still reserved until its checkout deadline, so pay for it again rather than rebooking.
+        setIsRetrying(true);
+        const { data, error: retryError } = await retryBookingPayment(bookingId, gateway.id, retryKey.current);
+        if (retryError || !data) {
+            restartBooking();
+            return;
+        }
+
+        try {
+            await startGatewayPayment(gateway, {
+                paymentId: data.paymentId,
+                amount: data.amount,
+                currency: 'INR',
+                description: `Booking #${bookingId.split('-')[0].toUpperCase()}`,
+                returnPath: `#/payment/callback?booking_id=${bookingId}&car_id=${carId}`,
+            });
+        } catch (err: unknown) {
+            setError(parseError(err));
+            setIsRetrying(false);
+        }
+    };
+
     return (
         <div className="flex items-center justify-center min-h-screen bg-gray-100 font-sans">
             <div className="bg-white p-8 rounded-lg shadow-lg text-center max-w-md w-full">
@@ -92,6 +187,16 @@ const PaymentHandler: React.FC = () => {
                         <p className="text-gray-600 mt-2">Your booking has been updated. Redirecting you now...</p>
                     </>
                 )}
+                {status === 'pending' && (
+                    <>
+                        <svg className="w-16 h-16 mx-auto text-yellow-500 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                        <h1 className="text-2xl font-bold text-foreground">Payment Pending</h1>
+                        <p className="text-gray-600 mt-2">We haven't received a final confirmation from the payment gateway yet. We'll keep checking with the gateway, and your booking will update within a few minutes of its confirmation. Please don't pay again in the meantime. If your booking hasn't updated after 20 minutes, contact support.</p>
+                        <a href="#/dashboard" className="mt-6 inline-block px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition">
+                            Go to My Bookings
+                        </a>
+                    </>
+                )}
                 {status === 'failed' && (
                     <>
                          <svg className="w-16 h-16 mx-auto text-red-500 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
@@ -103,9 +208,10 @@ const PaymentHandler: React.FC = () => {
                             </a>
                              <button 
                                 onClick={handleRetry}
-                                className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition"
+                                disabled={isRetrying}
+                                className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:opacity-50"
                             >
-                                Retry Payment
+                                {isRetrying ? 'Processing...' : 'Retry Payment'}
                             </button>
                         </div>
                     </>
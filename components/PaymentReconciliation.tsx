@@ -0,0 +1,243 @@
+import React, { useState, useMemo } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import { useToast } from '../contexts/ToastContext';
+import { parseSettlementFile, SETTLEMENT_FORMATS } from '../lib/settlementParsers';
+import type { SettlementFormat } from '../lib/settlementParsers';
+import { reconcileSettlement, exportReconciliationCsv, RECONCILIATION_OUTCOME_LABELS } from '../lib/reconciliationService';
+import { PAYMENT_METHOD_LABELS } from '../lib/paymentService';
+import PaymentGatewaySettings from './PaymentGatewaySettings';
+import type { PaymentMethod, ReconciliationOutcome, ReconciliationResult, SettlementRow } from '../types';
+
+const OUTCOME_STYLES: Record<ReconciliationOutcome, string> = {
+  matched: 'bg-green-100 text-green-800',
+  duplicate: 'bg-purple-100 text-purple-800',
+  missing_payment: 'bg-red-100 text-red-800',
+  missing_in_settlement: 'bg-red-100 text-red-800',
+  amount_mismatch: 'bg-yellow-100 text-yellow-800',
+  status_mismatch: 'bg-yellow-100 text-yellow-800',
+};
+
+const formatAmount = (amount: number | null) =>
+  amount === null ? '—' : `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// yyyy-mm-dd in local time, for date inputs.
+const toDateInput = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Imports a gateway settlement CSV and matches it against recorded payments, flagging every discrepancy.
+const PaymentReconciliation: React.FC = () => {
+  const [format, setFormat] = useState<SettlementFormat>('paytm');
+  const [gateway, setGateway] = useState<PaymentMethod>('paytm');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<SettlementRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [period, setPeriod] = useState({ from: '', to: '' });
+  const [results, setResults] = useState<ReconciliationResult[] | null>(null);
+  const [outcomeFilter, setOutcomeFilter] = useState<ReconciliationOutcome | 'all' | 'issues'>('issues');
+  const [isReconciling, setIsReconciling] = useState(false);
+  const { addToast } = useToast();
+
+  const effectiveGateway = SETTLEMENT_FORMATS[format].gateway || gateway;
+
+  const handleFormatChange = (value: SettlementFormat) => {
+    setFormat(value);
+    setRows([]);
+    setFileName(null);
+    setParseError(null);
+    setResults(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rows: parsed, error } = parseSettlementFile(await file.text(), format);
+    setFileName(file.name);
+    setRows(parsed);
+    setParseError(error);
+    setResults(null);
+
+    // Suggest the period covered by the file, so payments it should contain but does not are reported.
+    const dates = parsed.map(r => r.txnDate).filter((d): d is string => d !== null).sort();
+    if (dates.length > 0) {
+      setPeriod({ from: toDateInput(dates[0]), to: toDateInput(dates[dates.length - 1]) });
+    }
+  };
+
+  const handleReconcile = async () => {
+    if (!period.from || !period.to) {
+      addToast('Choose the period the settlement covers.', 'error');
+      return;
+    }
+    const from = new Date(`${period.from}T00:00:00`);
+    const to = new Date(`${period.to}T00:00:00`);
+    to.setDate(to.getDate() + 1); // The period includes the whole last day.
+
+    setIsReconciling(true);
+    const { results: data, error } = await reconcileSettlement(effectiveGateway, rows, from.toISOString(), to.toISOString());
+    setIsReconciling(false);
+    if (error) {
+      addToast(`Reconciliation failed: ${error}`, 'error');
+      return;
+    }
+    setResults(data);
+  };
+
+  const counts = useMemo(() => {
+    const totals = Object.keys(RECONCILIATION_OUTCOME_LABELS).reduce(
+      (acc, outcome) => ({ ...acc, [outcome]: 0 }),
+      {} as Record<ReconciliationOutcome, number>
+    );
+    (results || []).forEach(r => { totals[r.result] += 1; });
+    return totals;
+  }, [results]);
+
+  const visibleResults = (results || []).filter(r =>
+    outcomeFilter === 'all' ? true : outcomeFilter === 'issues' ? r.result !== 'matched' : r.result === outcomeFilter
+  );
+
+  const handleExport = () => {
+    if (!results) return;
+    const baseName = (fileName || 'settlement').replace(/\.csv$/i, '');
+    exportReconciliationCsv(results, `${baseName}-reconciliation.csv`);
+  };
+
+  return (
+    <AdminPageLayout
+      title="Payment Reconciliation"
+      subtitle="Choose the gateways customers pay with and match their settlement files against recorded payments."
+    >
+      <div className="space-y-6">
+        <PaymentGatewaySettings />
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="format" className="block text-sm font-medium text-gray-700 mb-1">File format</label>
+              <select id="format" value={format} onChange={e => handleFormatChange(e.target.value as SettlementFormat)} className="w-full p-2 border rounded-md bg-white">
+                {Object.entries(SETTLEMENT_FORMATS).map(([value, definition]) => (
+                  <option key={value} value={value}>{definition.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="gateway" className="block text-sm font-medium text-gray-700 mb-1">Gateway</label>
+              <select
+                id="gateway"
+                value={effectiveGateway}
+                onChange={e => setGateway(e.target.value as PaymentMethod)}
+                disabled={SETTLEMENT_FORMATS[format].gateway !== null}
+                className="w-full p-2 border rounded-md bg-white disabled:bg-gray-100"
+              >
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">Period from</label>
+              <input id="from" type="date" value={period.from} onChange={e => setPeriod(prev => ({ ...prev, from: e.target.value }))} className="w-full p-2 border rounded-md" />
+            </div>
+            <div>
+              <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">Period to</label>
+              <input id="to" type="date" value={period.to} onChange={e => setPeriod(prev => ({ ...prev, to: e.target.value }))} className="w-full p-2 border rounded-md" />
+            </div>
+          </div>
+
+          {format === 'standard' && (
+            <p className="text-xs text-gray-500">
+              Standard CSV columns: <span className="font-mono">txn_id, order_id, amount, status, txn_date</span>. Status is one of success, failed, pending or refunded; order_id and txn_date are optional.
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 font-semibold hover:bg-gray-300 transition cursor-pointer">
+              Choose CSV
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+            {fileName && <span className="text-sm text-gray-600">{fileName} · {rows.length} transactions</span>}
+            <button
+              onClick={handleReconcile}
+              disabled={rows.length === 0 || isReconciling}
+              className="px-4 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:opacity-50"
+            >
+              {isReconciling ? 'Reconciling...' : 'Reconcile'}
+            </button>
+          </div>
+          {parseError && <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm">{parseError}</p>}
+        </div>
+
+        {results && (
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+            <div className="p-4 border-b flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <button onClick={() => setOutcomeFilter('issues')} className={`px-3 py-1 rounded-full ${outcomeFilter === 'issues' ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}>
+                  Issues ({results.length - counts.matched})
+                </button>
+                <button onClick={() => setOutcomeFilter('all')} className={`px-3 py-1 rounded-full ${outcomeFilter === 'all' ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}>
+                  All ({results.length})
+                </button>
+                {(Object.keys(RECONCILIATION_OUTCOME_LABELS) as ReconciliationOutcome[]).filter(outcome => counts[outcome] > 0).map(outcome => (
+                  <button key={outcome} onClick={() => setOutcomeFilter(outcome)} className={`px-3 py-1 rounded-full ${outcomeFilter === outcome ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}>
+                    {RECONCILIATION_OUTCOME_LABELS[outcome]} ({counts[outcome]})
+                  </button>
+                ))}
+              </div>
+              <button onClick={handleExport} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 font-semibold hover:bg-gray-300 transition">
+                Export CSV
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              {visibleResults.length === 0 ? (
+                <p className="text-center text-gray-600 p-8">{outcomeFilter === 'issues' ? 'Every transaction matched.' : 'Nothing to show.'}</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transaction</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Settlement</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {visibleResults.map((r, index) => (
+                      <tr key={`${r.row_number ?? 'p'}-${r.payment_id ?? index}`}>
+                        <td className="px-4 py-3 text-gray-500">{r.row_number ?? '—'}</td>
+                        <td className="px-4 py-3">
+                          <div className="font-mono text-xs break-all">{r.gateway_txn_id || '—'}</div>
+                          {r.booking_id && <div className="text-xs text-gray-500">Booking #{r.booking_id.split('-')[0].toUpperCase()}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          <div>{formatAmount(r.settled_amount)}</div>
+                          <div className="text-xs text-gray-500 capitalize">{r.settled_status || '—'}</div>
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          <div>{formatAmount(r.payment_amount)}</div>
+                          <div className="text-xs text-gray-500 capitalize">
+                            {r.payment_status || '—'}
+                            {r.refunded_amount !== null && r.refunded_amount > 0 && ` · refunded ${formatAmount(r.refunded_amount)}`}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${OUTCOME_STYLES[r.result]}`}>
+                            {RECONCILIATION_OUTCOME_LABELS[r.result]}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminPageLayout>
+  );
+};
+
+export default PaymentReconciliation;
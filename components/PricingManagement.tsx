@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import PricingRuleFormModal from './PricingRuleFormModal';
+import CancellationPolicyEditor from './CancellationPolicyEditor';
+import ConfirmationModal from './ConfirmationModal';
+import { useToast } from '../contexts/ToastContext';
+import { fetchPricingSettings, updatePricingSettings, fetchPricingRules, deletePricingRule } from '../lib/pricingService';
+import type { PricingRule } from '../types';
+import DatabaseSetup from './DatabaseSetup';
+import { supabase } from '../lib/supabaseClient';
+
+const DAYS_OF_WEEK = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const RULE_TYPE_LABELS: Record<PricingRule['rule_type'], string> = {
+    weekend: 'Day of week',
+    date_range: 'Date range',
+    duration_tier: 'Long rental',
+    car_category: 'Car category',
+};
+
+const PricingManagement: React.FC = () => {
+    const [rules, setRules] = useState<PricingRule[]>([]);
+    const [settingsForm, setSettingsForm] = useState({ billing_unit_hours: '', service_charge_percent: '', advance_percent: '', timezone: '', one_way_fee: '' });
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isSavingSettings, setIsSavingSettings] = useState(false);
+    const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+    const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
+    const [selectedRule, setSelectedRule] = useState<PricingRule | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const { addToast } = useToast();
+
+    const refreshRules = useCallback(async () => {
+        const { rules: data, error: fetchError } = await fetchPricingRules();
+        if (fetchError) {
+            setError(fetchError);
+        } else {
+            setRules(data);
+            setError(null);
+        }
+    }, []);
+
+    const loadSettings = useCallback(async () => {
+        const { settings, error: fetchError } = await fetchPricingSettings();
+        if (fetchError || !settings) {
+            setError(fetchError || 'Pricing settings not found.');
+            return;
+        }
+        setSettingsForm({
+            billing_unit_hours: settings.billing_unit_hours.toString(),
+            service_charge_percent: settings.service_charge_percent.toString(),
+            advance_percent: settings.advance_percent.toString(),
+            timezone: settings.timezone,
+            one_way_fee: settings.one_way_fee.toString(),
+        });
+    }, []);
+
+    useEffect(() => {
+        const initialLoad = async () => {
+            setIsLoading(true);
+            await Promise.all([loadSettings(), refreshRules()]);
+            setIsLoading(false);
+        };
+        initialLoad();
+
+        const channel = supabase
+          .channel('pricing-management-realtime')
+          .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'pricing_rules' },
+            () => {
+              refreshRules();
+            }
+          )
+          .subscribe();
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+    }, [loadSettings, refreshRules]);
+
+    const handleSettingsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setSettingsForm(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSaveSettings = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const billingUnitHours = parseInt(settingsForm.billing_unit_hours, 10);
+        const serviceChargePercent = parseFloat(settingsForm.service_charge_percent);
+        const advancePercent = parseFloat(settingsForm.advance_percent);
+        const oneWayFee = parseFloat(settingsForm.one_way_fee);
+
+        if (!(billingUnitHours > 0) || !(serviceChargePercent >= 0) || !(advancePercent > 0 && advancePercent <= 100) || !(oneWayFee >= 0)) {
+            addToast('Please enter valid pricing settings.', 'error');
+            return;
+        }
+
+        setIsSavingSettings(true);
+        const { error: saveError } = await updatePricingSettings({
+            billing_unit_hours: billingUnitHours,
+            service_charge_percent: serviceChargePercent,
+            advance_percent: advancePercent,
+            timezone: settingsForm.timezone.trim(),
+            one_way_fee: oneWayFee,
+        });
+        if (saveError) {
+            addToast(`Failed to save settings: ${saveError}`, 'error');
+        } else {
+            addToast('Pricing settings saved. New quotes will use them immediately.', 'success');
+            await loadSettings();
+        }
+        setIsSavingSettings(false);
+    };
+
+    const handleAddNew = () => {
+        setSelectedRule(null);
+        setIsFormModalOpen(true);
+    };
+
+    const handleEdit = (rule: PricingRule) => {
+        setSelectedRule(rule);
+        setIsFormModalOpen(true);
+    };
+
+    const handleDelete = (rule: PricingRule) => {
+        setSelectedRule(rule);
+        setIsConfirmModalOpen(true);
+    };
+
+    const confirmDelete = async () => {
+        if (!selectedRule) return;
+        setIsProcessing(true);
+        const { error: deleteError } = await deletePricingRule(selectedRule.id);
+        if (deleteError) {
+            addToast(`Failed to delete: ${deleteError}`, 'error');
+        } else {
+            addToast('Pricing rule deleted successfully!', 'success');
+            await refreshRules();
+        }
+        setIsProcessing(false);
+        setIsConfirmModalOpen(false);
+        setSelectedRule(null);
+    };
+
+    const handleSave = () => {
+        setIsFormModalOpen(false);
+        setSelectedRule(null);
+        refreshRules();
+    };
+
+    const describeCondition = (rule: PricingRule) => {
+        switch (rule.rule_type) {
+            case 'weekend':
+                return (rule.days_of_week || []).map(d => DAYS_OF_WEEK[d]).join(', ');
+            case 'date_range':
+                return `${rule.start_date} to ${rule.end_date}`;
+            case 'duration_tier':
+                return `${rule.min_days}+ days`;
+            case 'car_category':
+                return '';
+        }
+    };
+
+    const renderSettings = () => (
+        <form onSubmit={handleSaveSettings} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm mb-6">
+            <h2 className="text-lg font-semibold text-foreground mb-4">Global Settings</h2>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div>
+                    <label htmlFor="billing_unit_hours" className="block text-sm font-medium text-gray-700 mb-1">Billing Unit (hours)</label>
+                    <input type="number" name="billing_unit_hours" value={settingsForm.billing_unit_hours} onChange={handleSettingsChange} required min="1" className="w-full p-2 border rounded-md" />
+                </div>
+                <div>
+                    <label htmlFor="service_charge_percent" className="block text-sm font-medium text-gray-700 mb-1">Service Charge (%)</label>
+                    <input type="number" name="service_charge_percent" value={settingsForm.service_charge_percent} onChange={handleSettingsChange} required min="0" step="0.01" className="w-full p-2 border rounded-md" />
+                </div>
+                <div>
+                    <label htmlFor="advance_percent" className="block text-sm font-medium text-gray-700 mb-1">Advance (%)</label>
+                    <input type="number" name="advance_percent" value={settingsForm.advance_percent} onChange={handleSettingsChange} required min="1" max="100" step="0.01" className="w-full p-2 border rounded-md" />
+                </div>
+                <div>
+                    <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+                    <input type="text" name="timezone" value={settingsForm.timezone} onChange={handleSettingsChange} required className="w-full p-2 border rounded-md" />
+                </div>
+                <div>
+                    <label htmlFor="one_way_fee" className="block text-sm font-medium text-gray-700 mb-1">One-way Fee (₹)</label>
+                    <input type="number" name="one_way_fee" value={settingsForm.one_way_fee} onChange={handleSettingsChange} required min="0" step="0.01" className="w-full p-2 border rounded-md" />
+                    <p className="text-xs text-gray-500 mt-1">Charged when a car is returned to another branch.</p>
+                </div>
+            </div>
+            <div className="flex justify-end mt-4">
+                <button type="submit" disabled={isSavingSettings} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+                    {isSavingSettings ? 'Saving...' : 'Save Settings'}
+                </button>
+            </div>
+        </form>
+    );
+
+    const renderRules = () => {
+        if (rules.length === 0) return <p className="text-center p-8">No pricing rules yet. Rentals are charged at each car's base price.</p>;
+
+        return (
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Applies To</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Adjustment</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {rules.map(rule => (
+                            <tr key={rule.id}>
+                                <td className="px-6 py-4 whitespace-nowrap font-semibold text-sm text-gray-900">{rule.name}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{RULE_TYPE_LABELS[rule.rule_type]}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                    {[describeCondition(rule), rule.car_category ? rule.car_category.toUpperCase() : 'All cars'].filter(Boolean).join(' · ')}
+                                </td>
+                                <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${rule.adjustment_percent < 0 ? 'text-green-600' : 'text-orange-600'}`}>
+                                    {rule.adjustment_percent > 0 ? '+' : ''}{rule.adjustment_percent}%
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${rule.active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                                        {rule.active ? 'Active' : 'Inactive'}
+                                    </span>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                                    <button onClick={() => handleEdit(rule)} className="text-primary hover:text-primary-hover">Edit</button>
+                                    <button onClick={() => handleDelete(rule)} className="text-red-600 hover:text-red-800">Delete</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
+
+    const renderContent = () => {
+        if (isLoading) return <p className="text-center p-8">Loading pricing...</p>;
+
+        const needsSetup = error && (
+            error.includes('does not exist') ||
+            error.includes('Backend not configured')
+        );
+
+        if (needsSetup) {
+            return <DatabaseSetup />;
+        }
+
+        if (error) return <div className="bg-red-100 p-4 rounded-md text-red-700">{error}</div>;
+
+        return (
+            <>
+                {renderSettings()}
+                <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+                    <h2 className="text-lg font-semibold text-foreground mb-4">Pricing Rules</h2>
+                    {renderRules()}
+                </div>
+                <CancellationPolicyEditor />
+            </>
+        );
+    };
+
+    return (
+        <>
+            <AdminPageLayout
+                title="Pricing"
+                subtitle="Configure billing settings, rules for weekends, seasons, long rentals and car categories, and the cancellation policy."
+                headerAction={
+                    <button onClick={handleAddNew} className="px-4 py-2 bg-primary text-white font-semibold rounded-lg shadow-md hover:bg-primary-hover">
+                        + Add New Rule
+                    </button>
+                }
+            >
+                {renderContent()}
+            </AdminPageLayout>
+
+            {isFormModalOpen && (
+                <PricingRuleFormModal
+                    isOpen={isFormModalOpen}
+                    onClose={() => setIsFormModalOpen(false)}
+                    onSave={handleSave}
+                    rule={selectedRule}
+                />
+            )}
+
+            {selectedRule && (
+                 <ConfirmationModal
+                    isOpen={isConfirmModalOpen}
+                    onClose={() => setIsConfirmModalOpen(false)}
+                    onConfirm={confirmDelete}
+                    title="Delete Pricing Rule"
+                    message={<>Are you sure you want to delete the rule <strong>{selectedRule.name}</strong>? Existing bookings keep their prices.</>}
+                    confirmText="Delete"
+                    isConfirming={isProcessing}
+                 />
+            )}
+        </>
+    );
+};
+
+export default PricingManagement;
@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { upsertPricingRule } from '../lib/pricingService';
+import type { CarCategory, PricingRule, PricingRuleType } from '../types';
+
+interface PricingRuleFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: () => void;
+  rule: PricingRule | null;
+}
+
+const DAYS_OF_WEEK = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_FORM = {
+  name: '',
+  rule_type: 'weekend' as PricingRuleType,
+  adjustment_percent: '10',
+  days_of_week: [0, 6] as number[],
+  start_date: '',
+  end_date: '',
+  min_days: '7',
+  car_category: '' as CarCategory | '',
+  priority: '0',
+  active: true,
+};
+
+const PricingRuleFormModal: React.FC<PricingRuleFormModalProps> = ({ isOpen, onClose, onSave, rule }) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(false);
+  const { addToast } = useToast();
+  const isEditMode = !!rule;
+
+  useEffect(() => {
+    if (isOpen) {
+      if (rule) {
+        setFormData({
+          name: rule.name,
+          rule_type: rule.rule_type,
+          adjustment_percent: rule.adjustment_percent.toString(),
+          days_of_week: rule.days_of_week || [],
+          start_date: rule.start_date || '',
+          end_date: rule.end_date || '',
+          min_days: rule.min_days?.toString() || '',
+          car_category: rule.car_category || '',
+          priority: rule.priority.toString(),
+          active: rule.active,
+        });
+      } else {
+        setFormData(EMPTY_FORM);
+      }
+    }
+  }, [isOpen, rule]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    if (type === 'checkbox') {
+        const { checked } = e.target as HTMLInputElement;
+        setFormData(prev => ({ ...prev, [name]: checked }));
+    } else {
+        setFormData(prev => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    setFormData(prev => ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day)
+        ? prev.days_of_week.filter(d => d !== day)
+        : [...prev.days_of_week, day].sort(),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const adjustment = parseFloat(formData.adjustment_percent);
+    if (isNaN(adjustment) || adjustment === 0 || adjustment < -100) {
+      addToast('Adjustment must be a non-zero percentage of at least -100.', 'error');
+      return;
+    }
+    if (formData.rule_type === 'weekend' && formData.days_of_week.length === 0) {
+      addToast('Select at least one day of the week.', 'error');
+      return;
+    }
+    if (formData.rule_type === 'date_range' && (!formData.start_date || !formData.end_date || formData.end_date < formData.start_date)) {
+      addToast('Provide a valid date range.', 'error');
+      return;
+    }
+    if (formData.rule_type === 'car_category' && !formData.car_category) {
+      addToast('Select the car category this rule applies to.', 'error');
+      return;
+    }
+
+    setLoading(true);
+
+    const dataToSave: Partial<PricingRule> = {
+      name: formData.name,
+      rule_type: formData.rule_type,
+      adjustment_percent: adjustment,
+      days_of_week: formData.days_of_week,
+      start_date: formData.start_date || null,
+      end_date: formData.end_date || null,
+      min_days: parseInt(formData.min_days, 10) || null,
+      car_category: formData.car_category || null,
+      priority: parseInt(formData.priority, 10) || 0,
+      active: formData.active,
+    };
+
+    const { error } = await upsertPricingRule(dataToSave, rule?.id);
+
+    if (error) {
+      addToast(`Failed to save: ${error}`, 'error');
+    } else {
+      addToast(`Pricing rule ${isEditMode ? 'updated' : 'created'} successfully!`, 'success');
+      onSave();
+    }
+    setLoading(false);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg mx-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b">
+          <h2 className="text-2xl font-bold">{isEditMode ? 'Edit Pricing Rule' : 'Create Pricing Rule'}</h2>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input type="text" name="name" value={formData.name} onChange={handleChange} required placeholder="e.g. Weekend surcharge" className="w-full p-2 border rounded-md" />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="rule_type" className="block text-sm font-medium text-gray-700 mb-1">Rule Type</label>
+                    <select name="rule_type" value={formData.rule_type} onChange={handleChange} className="w-full p-2 border rounded-md bg-white">
+                        <option value="weekend">Day of week</option>
+                        <option value="date_range">Date range (season/festival)</option>
+                        <option value="duration_tier">Long rental discount</option>
+                        <option value="car_category">Car category</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="adjustment_percent" className="block text-sm font-medium text-gray-700 mb-1">Adjustment (%)</label>
+                    <input type="number" name="adjustment_percent" value={formData.adjustment_percent} onChange={handleChange} required min="-100" step="0.01" className="w-full p-2 border rounded-md" />
+                    <p className="text-xs text-gray-500 mt-1">Use a negative value for discounts.</p>
+                </div>
+            </div>
+
+            {formData.rule_type === 'weekend' && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Applies On</label>
+                    <div className="flex flex-wrap gap-2">
+                        {DAYS_OF_WEEK.map((label, day) => (
+                            <button
+                                key={label}
+                                type="button"
+                                onClick={() => toggleDay(day)}
+                                className={`px-3 py-1 rounded-md border text-sm transition-colors ${formData.days_of_week.includes(day) ? 'bg-primary text-white border-primary' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {formData.rule_type === 'date_range' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="start_date" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                        <input type="date" name="start_date" value={formData.start_date} onChange={handleChange} required className="w-full p-2 border rounded-md" />
+                    </div>
+                    <div>
+                        <label htmlFor="end_date" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                        <input type="date" name="end_date" value={formData.end_date} onChange={handleChange} required className="w-full p-2 border rounded-md" />
+                    </div>
+                </div>
+            )}
+
+            {formData.rule_type === 'duration_tier' && (
+                <div>
+                    <label htmlFor="min_days" className="block text-sm font-medium text-gray-700 mb-1">Minimum Rental Length (days)</label>
+                    <input type="number" name="min_days" value={formData.min_days} onChange={handleChange} required min="1" className="w-full p-2 border rounded-md" />
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="car_category" className="block text-sm font-medium text-gray-700 mb-1">
+                        Car Category{formData.rule_type !== 'car_category' && ' (optional)'}
+                    </label>
+                    <select name="car_category" value={formData.car_category} onChange={handleChange} className="w-full p-2 border rounded-md bg-white">
+                        <option value="">{formData.rule_type === 'car_category' ? 'Select a category' : 'All categories'}</option>
+                        <option value="hatchback">Hatchback</option>
+                        <option value="sedan">Sedan</option>
+                        <option value="suv">SUV</option>
+                        <option value="muv">MUV</option>
+                        <option value="luxury">Luxury</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                    <input type="number" name="priority" value={formData.priority} onChange={handleChange} className="w-full p-2 border rounded-md" />
+                    <p className="text-xs text-gray-500 mt-1">Lower numbers are listed first on the price breakdown.</p>
+                </div>
+            </div>
+
+            <div className="flex items-center">
+              <input type="checkbox" name="active" checked={formData.active} onChange={handleChange} id="active" className="h-4 w-4 text-primary rounded" />
+              <label htmlFor="active" className="ml-2 block text-sm">Active</label>
+            </div>
+          </div>
+          <div className="p-6 border-t flex justify-end space-x-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 bg-white hover:bg-gray-100 transition">Cancel</button>
+            <button type="submit" disabled={loading} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+              {loading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PricingRuleFormModal;
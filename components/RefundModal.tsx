@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { fetchBookingPaymentsWithRefunds, createRefund, processRefund, checkRefundStatus, REFUND_REASON_LABELS } from '../lib/refundService';
+import { PAYMENT_TYPE_LABELS } from '../lib/paymentService';
+import type { BookingDetail, Payment, Refund, RefundReason } from '../types';
+import RefundStatusBadge from './common/RefundStatusBadge';
+
+interface RefundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRefundsChanged: () => void;
+  booking: BookingDetail;
+}
+
+type PaymentWithRefunds = Payment & { refunds: Refund[] };
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Everything not yet refunded or claimed by a pending/processing refund, matching payment_refundable_amount in SQL.
+// The security deposit is left out; it is refunded by settling the deposit.
+const refundableAmount = (payment: PaymentWithRefunds) =>
+  payment.amount - payment.deposit_amount
+  - payment.refunds.filter(r => r.status !== 'failed' && r.reason !== 'deposit_release').reduce((sum, r) => sum + r.amount, 0);
+
+const RefundModal: React.FC<RefundModalProps> = ({ isOpen, onClose, onRefundsChanged, booking }) => {
+  const [payments, setPayments] = useState<PaymentWithRefunds[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ payment_id: '', amount: '', reason: 'service_issue' as RefundReason, notes: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [processingRefundId, setProcessingRefundId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const loadPayments = useCallback(async () => {
+    const { payments: data, error: fetchError } = await fetchBookingPaymentsWithRefunds(booking.id);
+    setPayments(data);
+    setError(fetchError);
+    setIsLoading(false);
+    const firstRefundable = data.find(p => p.status === 'success' && refundableAmount(p) > 0);
+    setFormData(prev => ({ ...prev, payment_id: prev.payment_id || firstRefundable?.id || '' }));
+  }, [booking.id]);
+
+  useEffect(() => {
+    if (isOpen) loadPayments();
+  }, [isOpen, loadPayments]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleProcess = async (refundId: string) => {
+    setProcessingRefundId(refundId);
+    const { status, outcomeUnknown, error: processError } = await processRefund(refundId);
+    if (processError) {
+      addToast(`Refund failed: ${processError}`, 'error');
+    } else if (outcomeUnknown) {
+      addToast('The gateway did not confirm the refund, so it may or may not have gone through. Check its status before issuing it again.', 'error');
+    } else if (status === 'failed') {
+      addToast('The gateway declined the refund. You can retry it.', 'error');
+    } else {
+      addToast(status === 'succeeded' ? 'Refund completed.' : 'Refund accepted by the gateway and is processing.', 'success');
+    }
+    setProcessingRefundId(null);
+    await loadPayments();
+    onRefundsChanged();
+  };
+
+  const handleCheckStatus = async (refundId: string) => {
+    setProcessingRefundId(refundId);
+    const { status, error: checkError } = await checkRefundStatus(refundId);
+    if (checkError) {
+      addToast(`Could not check the refund: ${checkError}`, 'error');
+    } else if (status === 'failed') {
+      addToast('The gateway did not make this refund. You can retry it.', 'error');
+    } else {
+      addToast(status === 'succeeded' ? 'Refund completed.' : 'The gateway is still processing the refund.', 'success');
+    }
+    setProcessingRefundId(null);
+    await loadPayments();
+    onRefundsChanged();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payment = payments.find(p => p.id === formData.payment_id);
+    const amount = parseFloat(formData.amount);
+    if (!payment) {
+      addToast('Select a payment to refund.', 'error');
+      return;
+    }
+    if (isNaN(amount) || amount <= 0 || amount > refundableAmount(payment)) {
+      addToast(`Enter an amount between 0 and ₹${formatAmount(refundableAmount(payment))}.`, 'error');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { refundId, error: createError } = await createRefund(payment.id, amount, formData.reason, formData.notes);
+    setIsSubmitting(false);
+    if (createError || !refundId) {
+      addToast(`Failed to create refund: ${createError}`, 'error');
+      return;
+    }
+    setFormData(prev => ({ ...prev, amount: '', notes: '' }));
+    await handleProcess(refundId);
+  };
+
+  if (!isOpen) return null;
+
+  const refundablePayments = payments.filter(p => p.status === 'success' && refundableAmount(p) > 0);
+
+  const renderPayments = () => {
+    if (isLoading) return <p className="text-sm text-gray-500">Loading payments...</p>;
+    if (error) return <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm">{error}</p>;
+    if (payments.length === 0) return <p className="text-sm text-gray-500">No payments recorded for this booking.</p>;
+
+    return payments.map(payment => (
+      <div key={payment.id} className="border rounded-md p-3 text-sm">
+        <div className="flex justify-between items-center">
+          <div>
+            <span className="font-semibold">₹{formatAmount(payment.amount)}</span>
+            <span className="text-gray-500 ml-2">{PAYMENT_TYPE_LABELS[payment.payment_type]} · {payment.method || 'N/A'} · {payment.status}</span>
+            {payment.deposit_amount > 0 && <span className="text-xs text-gray-500 ml-2">incl. ₹{formatAmount(payment.deposit_amount)} deposit</span>}
+          </div>
+          {payment.refunded_amount > 0 && <span className="text-xs text-gray-500">Refunded ₹{formatAmount(payment.refunded_amount)}</span>}
+        </div>
+        {payment.gateway_txn_id && <p className="text-xs text-gray-400 font-mono mt-1">{payment.gateway_txn_id}</p>}
+        {payment.refunds.map(refund => (
+          <div key={refund.id} className="flex justify-between items-center gap-2 mt-2 pl-3 border-l-2">
+            <div>
+              <span>₹{formatAmount(refund.amount)}</span>
+              <span className="text-gray-500 ml-2">{REFUND_REASON_LABELS[refund.reason]}</span>
+              {refund.failure_reason && <p className="text-xs text-red-600">{refund.failure_reason}</p>}
+            </div>
+            <div className="flex items-center gap-2">
+              <RefundStatusBadge status={refund.status} />
+              {(refund.status === 'pending' || refund.status === 'failed') && (
+                <button
+                  onClick={() => handleProcess(refund.id)}
+                  disabled={processingRefundId !== null}
+                  className="text-primary hover:text-primary-hover font-medium disabled:opacity-50"
+                >
+                  {processingRefundId === refund.id ? 'Processing...' : refund.status === 'failed' ? 'Retry' : 'Process'}
+                </button>
+              )}
+              {refund.status === 'processing' && (
+                <button
+                  onClick={() => handleCheckStatus(refund.id)}
+                  disabled={processingRefundId !== null}
+                  className="text-primary hover:text-primary-hover font-medium disabled:opacity-50"
+                >
+                  {processingRefundId === refund.id ? 'Checking...' : 'Check status'}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    ));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg mx-auto max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Refunds</h2>
+            <p className="text-sm text-gray-500">#{booking.id.split('-')[0].toUpperCase()} · {booking.customer_name || 'N/A'}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+        <div className="p-6 space-y-3">{renderPayments()}</div>
+        {refundablePayments.length > 0 && (
+          <form onSubmit={handleSubmit} className="p-6 border-t space-y-4">
+            <h3 className="font-semibold">Issue Refund</h3>
+            <div>
+              <label htmlFor="payment_id" className="block text-sm font-medium text-gray-700 mb-1">Payment</label>
+              <select name="payment_id" value={formData.payment_id} onChange={handleChange} required className="w-full p-2 border rounded-md bg-white">
+                {refundablePayments.map(p => (
+                  <option key={p.id} value={p.id}>
+                    {PAYMENT_TYPE_LABELS[p.payment_type]} payment · ₹{formatAmount(refundableAmount(p))} refundable
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-1">Amount (₹)</label>
+                <input type="number" name="amount" value={formData.amount} onChange={handleChange} required min="0.01" step="0.01" className="w-full p-2 border rounded-md" />
+              </div>
+              <div>
+                <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <select name="reason" value={formData.reason} onChange={handleChange} className="w-full p-2 border rounded-md bg-white">
+                  {Object.entries(REFUND_REASON_LABELS).filter(([value]) => value !== 'deposit_release').map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+              <textarea name="notes" value={formData.notes} onChange={handleChange} rows={2} className="w-full p-2 border rounded-md" />
+            </div>
+            <div className="flex justify-end">
+              <button type="submit" disabled={isSubmitting || processingRefundId !== null} className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition disabled:opacity-50">
+                {isSubmitting ? 'Creating...' : 'Refund'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RefundModal;
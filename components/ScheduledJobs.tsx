@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import ToggleSwitch from './common/ToggleSwitch';
+import { useToast } from '../contexts/ToastContext';
+import { fetchScheduledJobs, triggerJob, setJobEnabled } from '../lib/jobService';
+import type { JobRun, JobRunStatus, ScheduledJob } from '../types';
+
+const RUN_STATUS_STYLES: Record<JobRunStatus, string> = {
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-800',
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const formatInterval = (minutes: number) =>
+  minutes % 60 === 0 ? `Every ${minutes / 60 === 1 ? 'hour' : `${minutes / 60} hours`}` : `Every ${minutes} min`;
+
+const RunStatusBadge: React.FC<{ run: JobRun }> = ({ run }) => (
+  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full capitalize ${RUN_STATUS_STYLES[run.status]}`}>
+    {run.status}
+  </span>
+);
+
+// Background jobs with their schedule and run history. Admins can pause a job or run it immediately.
+const ScheduledJobs: React.FC = () => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyJob, setBusyJob] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const loadJobs = useCallback(async () => {
+    const { jobs: fetchedJobs, runs: fetchedRuns, error: fetchError } = await fetchScheduledJobs();
+    setJobs(fetchedJobs);
+    setRuns(fetchedRuns);
+    setError(fetchError);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const handleRunNow = async (job: ScheduledJob) => {
+    setBusyJob(job.name);
+    const { run, error: runError } = await triggerJob(job.name);
+    if (runError || !run) {
+      addToast(`Failed to run ${job.name}: ${runError}`, 'error');
+    } else if (run.status === 'succeeded') {
+      addToast(`${job.name} finished: ${run.processed_count ?? 0} processed.`, 'success');
+    } else {
+      addToast(`${job.name} ${run.status}: ${run.error}`, 'error');
+    }
+    await loadJobs();
+    setBusyJob(null);
+  };
+
+  const handleToggleEnabled = async (job: ScheduledJob) => {
+    setBusyJob(job.name);
+    const { error: updateError } = await setJobEnabled(job.name, !job.enabled);
+    if (updateError) {
+      addToast(`Failed to update ${job.name}: ${updateError}`, 'error');
+    } else {
+      await loadJobs();
+    }
+    setBusyJob(null);
+  };
+
+  const renderJobs = () => {
+    if (isLoading) {
+      return <p className="text-center text-gray-600 p-8">Loading jobs...</p>;
+    }
+    if (error) {
+      return <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">{error}</div>;
+    }
+    return (
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schedule</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Run</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Enabled</th>
+            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {jobs.map(job => (
+            <tr key={job.name}>
+              <td className="px-6 py-4">
+                <div className="text-sm font-medium text-gray-900 font-mono">{job.name}</div>
+                <div className="text-sm text-gray-500">{job.description}</div>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                <div>{formatInterval(job.interval_minutes)}</div>
+                {job.enabled && <div className="text-xs">Next {formatDate(job.next_run_at)}</div>}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                {job.last_run ? (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <RunStatusBadge run={job.last_run} />
+                      <span>{formatDate(job.last_run.started_at)}</span>
+                    </div>
+                    {job.last_run.status === 'succeeded' && <div className="text-xs">{job.last_run.processed_count} processed</div>}
+                  </>
+                ) : (
+                  'Never'
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-right">
+                <ToggleSwitch checked={job.enabled} onChange={() => handleToggleEnabled(job)} disabled={busyJob !== null} />
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                <button
+                  onClick={() => handleRunNow(job)}
+                  disabled={busyJob !== null}
+                  className="text-primary hover:text-primary-hover font-medium disabled:opacity-50"
+                >
+                  {busyJob === job.name ? 'Running...' : 'Run now'}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <AdminPageLayout
+      title="Scheduled Jobs"
+      subtitle="Background jobs that expire holds and checkouts, complete bookings and send reminders."
+      headerAction={
+        <button onClick={loadJobs} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 font-semibold hover:bg-gray-300 transition">
+          Refresh
+        </button>
+      }
+    >
+      <div className="space-y-6">
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+          {renderJobs()}
+        </div>
+
+        {!isLoading && !error && (
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+            <h2 className="text-lg font-semibold p-4 border-b">Recent Runs</h2>
+            {runs.length === 0 ? (
+              <p className="text-center text-gray-600 p-8">
+                No runs yet. Jobs run every minute once pg_cron is enabled, or with <span className="font-mono">npm run jobs:worker</span> in development.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {runs.map(run => (
+                  <li key={run.id} className="px-4 py-3 text-sm flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div className="flex items-center gap-3">
+                      <RunStatusBadge run={run} />
+                      <span className="font-mono">{run.job_name}</span>
+                      <span className="text-gray-500">{run.triggered_by ? 'manual' : 'scheduled'}</span>
+                    </div>
+                    <div className="text-gray-500 sm:text-right">
+                      {run.status === 'succeeded' ? `${run.processed_count} processed` : run.error}
+                      <span className="ml-3">{formatDate(run.started_at)}</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </AdminPageLayout>
+  );
+};
+
+export default ScheduledJobs;
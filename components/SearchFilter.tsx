@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import type { FuelType } from '../types';
+import type { Branch, FuelType } from '../types';
 
 interface SearchFilterProps {
   searchTerm: string;
@@ -8,6 +8,9 @@ interface SearchFilterProps {
   setSeatFilter: (seats: number | 'all') => void;
   fuelFilter: FuelType[];
   setFuelFilter: (fuel: FuelType[]) => void;
+  branches: Branch[];
+  branchFilter: string;
+  setBranchFilter: (branchId: string) => void;
   onSearch: () => void;
   pickupDate: string;
   setPickupDate: (date: string) => void;
@@ -24,7 +27,7 @@ const ChevronDownIcon: React.FC<{ className?: string }> = ({ className }) => (
 
 const SearchFilter: React.FC<SearchFilterProps> = ({ 
   searchTerm, setSearchTerm, seatFilter, setSeatFilter, fuelFilter, setFuelFilter,
-  onSearch, pickupDate, setPickupDate, returnDate, setReturnDate
+  branches, branchFilter, setBranchFilter, onSearch, pickupDate, setPickupDate, returnDate, setReturnDate
 }) => {
   const [isSeatsOpen, setIsSeatsOpen] = useState(false);
   const [isFuelOpen, setIsFuelOpen] = useState(false);
@@ -91,6 +94,22 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-primary focus:border-primary transition duration-150 ease-in-out"
             />
           </div>
+          {/* Pickup Branch */}
+          {branches.length > 1 && (
+            <div className="lg:flex-initial">
+              <label htmlFor="pickupBranch" className="block text-sm font-medium text-gray-700 mb-1">Pickup Branch</label>
+              <select
+                id="pickupBranch" value={branchFilter}
+                onChange={(e) => setBranchFilter(e.target.value)}
+                className="w-full px-4 py-3 bg-white border border-gray-300 rounded-lg focus:ring-primary focus:border-primary transition"
+              >
+                <option value="">All Branches</option>
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
           {/* Pickup Date */}
           <div className="lg:flex-initial">
             <label htmlFor="pickupDate" className="block text-sm font-medium text-gray-700 mb-1">Pickup Date</label>
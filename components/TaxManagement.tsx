@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AdminPageLayout from './AdminPageLayout';
+import { useToast } from '../contexts/ToastContext';
+import { fetchTaxSettings, updateTaxSettings, fetchGstStateRates, updateGstStateRate } from '../lib/taxService';
+import type { GstStateRate, TaxSettings } from '../types';
+import DatabaseSetup from './DatabaseSetup';
+
+const TaxManagement: React.FC = () => {
+    const [settingsForm, setSettingsForm] = useState<Omit<TaxSettings, 'updated_at'> | null>(null);
+    const [rates, setRates] = useState<GstStateRate[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isSavingSettings, setIsSavingSettings] = useState(false);
+    const [editingRate, setEditingRate] = useState<{ state_code: string; cgst_percent: string; sgst_percent: string; igst_percent: string; sac_code: string } | null>(null);
+    const [isSavingRate, setIsSavingRate] = useState(false);
+    const { addToast } = useToast();
+
+    const loadData = useCallback(async () => {
+        const [{ settings, error: settingsError }, { rates: rateData, error: ratesError }] = await Promise.all([
+            fetchTaxSettings(),
+            fetchGstStateRates(),
+        ]);
+        if (settingsError || ratesError || !settings) {
+            setError(settingsError || ratesError || 'Tax settings not found.');
+            return;
+        }
+        const { updated_at: _updatedAt, ...editable } = settings;
+        setSettingsForm(editable);
+        setRates(rateData);
+        setError(null);
+    }, []);
+
+    useEffect(() => {
+        const initialLoad = async () => {
+            setIsLoading(true);
+            await loadData();
+            setIsLoading(false);
+        };
+        initialLoad();
+    }, [loadData]);
+
+    const handleSettingsChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setSettingsForm(prev => prev && ({ ...prev, [name]: value }));
+    };
+
+    const handleSaveSettings = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!settingsForm) return;
+        if (!/^[A-Za-z0-9]{1,4}$/.test(settingsForm.invoice_prefix.trim())) {
+            addToast('Invoice prefix must be 1-4 letters or digits.', 'error');
+            return;
+        }
+        setIsSavingSettings(true);
+        const { error: saveError } = await updateTaxSettings(settingsForm);
+        if (saveError) {
+            addToast(`Failed to save settings: ${saveError}`, 'error');
+        } else {
+            addToast('GST settings saved.', 'success');
+            await loadData();
+        }
+        setIsSavingSettings(false);
+    };
+
+    const handleEditRate = (rate: GstStateRate) => {
+        setEditingRate({
+            state_code: rate.state_code,
+            cgst_percent: rate.cgst_percent.toString(),
+            sgst_percent: rate.sgst_percent.toString(),
+            igst_percent: rate.igst_percent.toString(),
+            sac_code: rate.sac_code || '',
+        });
+    };
+
+    const handleRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setEditingRate(prev => prev && ({ ...prev, [name]: value }));
+    };
+
+    const handleSaveRate = async () => {
+        if (!editingRate) return;
+        const percents = [editingRate.cgst_percent, editingRate.sgst_percent, editingRate.igst_percent].map(parseFloat);
+        if (percents.some(p => isNaN(p) || p < 0)) {
+            addToast('GST rates must be zero or more.', 'error');
+            return;
+        }
+        setIsSavingRate(true);
+        const { error: saveError } = await updateGstStateRate({
+            state_code: editingRate.state_code,
+            cgst_percent: percents[0],
+            sgst_percent: percents[1],
+            igst_percent: percents[2],
+            sac_code: editingRate.sac_code || null,
+        });
+        if (saveError) {
+            addToast(`Failed to save rate: ${saveError}`, 'error');
+        } else {
+            addToast('GST rate updated.', 'success');
+            setEditingRate(null);
+            await loadData();
+        }
+        setIsSavingRate(false);
+    };
+
+    const stateOptions = rates.map(rate => (
+        <option key={rate.state_code} value={rate.state_code}>{rate.state_code} - {rate.state_name}</option>
+    ));
+
+    const renderSettings = () => settingsForm && (
+        <form onSubmit={handleSaveSettings} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm mb-6">
+            <h2 className="text-lg font-semibold text-foreground mb-4">Supplier & Invoicing</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="legal_name" className="block text-sm font-medium text-gray-700 mb-1">Legal Name</label>
+                    <input type="text" name="legal_name" value={settingsForm.legal_name} onChange={handleSettingsChange} required className="w-full p-2 border rounded-md" />
+                </div>
+                <div>
+                    <label htmlFor="gstin" className="block text-sm font-medium text-gray-700 mb-1">GSTIN</label>
+                    <input type="text" name="gstin" value={settingsForm.gstin || ''} onChange={handleSettingsChange} maxLength={15} className="w-full p-2 border rounded-md uppercase" />
+                </div>
+                <div className="md:col-span-2">
+                    <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">Registered Address</label>
+                    <textarea name="address" value={settingsForm.address || ''} onChange={handleSettingsChange} rows={2} className="w-full p-2 border rounded-md" />
+                </div>
+                <div>
+                    <label htmlFor="state_code" className="block text-sm font-medium text-gray-700 mb-1">Registered State</label>
+                    <select name="state_code" value={settingsForm.state_code} onChange={handleSettingsChange} className="w-full p-2 border rounded-md bg-white">{stateOptions}</select>
+                </div>
+                <div>
+                    <label htmlFor="default_pickup_state_code" className="block text-sm font-medium text-gray-700 mb-1">Default Pickup State</label>
+                    <select name="default_pickup_state_code" value={settingsForm.default_pickup_state_code} onChange={handleSettingsChange} className="w-full p-2 border rounded-md bg-white">{stateOptions}</select>
+                    <p className="text-xs text-gray-500 mt-1">Place of supply used to choose CGST + SGST or IGST.</p>
+                </div>
+                <div>
+                    <label htmlFor="sac_code" className="block text-sm font-medium text-gray-700 mb-1">Default SAC Code</label>
+                    <input type="text" name="sac_code" value={settingsForm.sac_code} onChange={handleSettingsChange} required className="w-full p-2 border rounded-md" />
+                </div>
+                <div>
+                    <label htmlFor="invoice_prefix" className="block text-sm font-medium text-gray-700 mb-1">Invoice Prefix</label>
+                    <input type="text" name="invoice_prefix" value={settingsForm.invoice_prefix} onChange={handleSettingsChange} required maxLength={4} className="w-full p-2 border rounded-md uppercase" />
+                    <p className="text-xs text-gray-500 mt-1">Invoices are numbered {settingsForm.invoice_prefix.toUpperCase() || 'RPC'}/YY-YY/00001, restarting each financial year.</p>
+                </div>
+            </div>
+            <div className="flex justify-end mt-4">
+                <button type="submit" disabled={isSavingSettings} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+                    {isSavingSettings ? 'Saving...' : 'Save Settings'}
+                </button>
+            </div>
+        </form>
+    );
+
+    const renderRates = () => (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+            <h2 className="text-lg font-semibold text-foreground mb-4">GST Rates by Pickup State</h2>
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">State</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">CGST %</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">SGST %</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">IGST %</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">SAC Override</th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {rates.map(rate => {
+                            const isEditing = editingRate?.state_code === rate.state_code;
+                            const input = (name: 'cgst_percent' | 'sgst_percent' | 'igst_percent' | 'sac_code') => (
+                                <input type={name === 'sac_code' ? 'text' : 'number'} name={name} value={editingRate?.[name] ?? ''} onChange={handleRateChange} min="0" step="0.01" className="w-24 p-1 border rounded-md" />
+                            );
+                            return (
+                                <tr key={rate.state_code}>
+                                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                                        <span className="font-mono mr-2">{rate.state_code}</span>{rate.state_name}
+                                        {settingsForm?.state_code === rate.state_code && <span className="ml-2 text-xs text-primary font-semibold">(Registered)</span>}
+                                    </td>
+                                    <td className="px-4 py-2 text-sm">{isEditing ? input('cgst_percent') : rate.cgst_percent}</td>
+                                    <td className="px-4 py-2 text-sm">{isEditing ? input('sgst_percent') : rate.sgst_percent}</td>
+                                    <td className="px-4 py-2 text-sm">{isEditing ? input('igst_percent') : rate.igst_percent}</td>
+                                    <td className="px-4 py-2 text-sm">{isEditing ? input('sac_code') : (rate.sac_code || '-')}</td>
+                                    <td className="px-4 py-2 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                                        {isEditing ? (
+                                            <>
+                                                <button onClick={handleSaveRate} disabled={isSavingRate} className="text-primary hover:text-primary-hover disabled:opacity-50">Save</button>
+                                                <button onClick={() => setEditingRate(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+                                            </>
+                                        ) : (
+                                            <button onClick={() => handleEditRate(rate)} className="text-primary hover:text-primary-hover">Edit</button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+
+    const renderContent = () => {
+        if (isLoading) return <p className="text-center p-8">Loading GST settings...</p>;
+
+        const needsSetup = error && (
+            error.includes('does not exist') ||
+            error.includes('Backend not configured')
+        );
+
+        if (needsSetup) {
+            return <DatabaseSetup />;
+        }
+
+        if (error) return <div className="bg-red-100 p-4 rounded-md text-red-700">{error}</div>;
+
+        return (
+            <>
+                {renderSettings()}
+                {renderRates()}
+            </>
+        );
+    };
+
+    return (
+        <AdminPageLayout
+            title="GST & Invoicing"
+            subtitle="Configure GST registration, rates by pickup state, SAC codes and invoice numbering."
+        >
+            {renderContent()}
+        </AdminPageLayout>
+    );
+};
+
+export default TaxManagement;
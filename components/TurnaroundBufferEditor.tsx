@@ -0,0 +1,83 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { fetchTurnaroundBuffers, updateTurnaroundBuffers } from '../lib/carService';
+import type { CarCategory } from '../types';
+
+const CATEGORY_LABELS: Record<CarCategory, string> = {
+    hatchback: 'Hatchback',
+    sedan: 'Sedan',
+    suv: 'SUV',
+    muv: 'MUV',
+    luxury: 'Luxury',
+};
+
+// Edits the time each car category is blocked after a rental for cleaning, refuelling and inspection.
+// Searches, bookings and extensions all allow for it; a car's own turnaround setting overrides its category's.
+const TurnaroundBufferEditor: React.FC = () => {
+    const [form, setForm] = useState<Partial<Record<CarCategory, string>>>({});
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const { addToast } = useToast();
+
+    const loadBuffers = useCallback(async () => {
+        const { buffers, error: fetchError } = await fetchTurnaroundBuffers();
+        setForm(Object.fromEntries(buffers.map(b => [b.category, b.turnaround_minutes.toString()])));
+        setError(fetchError);
+    }, []);
+
+    useEffect(() => {
+        loadBuffers();
+    }, [loadBuffers]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const buffers = (Object.keys(form) as CarCategory[]).map(category => ({
+            category,
+            turnaround_minutes: parseInt(form[category] || '', 10),
+        }));
+        if (buffers.some(b => isNaN(b.turnaround_minutes) || b.turnaround_minutes < 0)) {
+            addToast('Turnaround buffers must be zero or more minutes.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const { error: saveError } = await updateTurnaroundBuffers(buffers);
+        if (saveError) {
+            addToast(`Failed to save turnaround buffers: ${saveError}`, 'error');
+        } else {
+            addToast('Turnaround buffers saved. They apply to bookings made from now on.', 'success');
+            await loadBuffers();
+        }
+        setIsSaving(false);
+    };
+
+    return (
+        <form onSubmit={handleSave} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm mt-6">
+            <h2 className="text-lg font-semibold text-foreground mb-1">Turnaround Between Rentals</h2>
+            <p className="text-sm text-gray-500 mb-4">Minutes a car stays unavailable after each rental. Set a car's own turnaround to override its category.</p>
+            {error && <p className="bg-red-100 p-3 rounded-md text-red-700 text-sm mb-4">{error}</p>}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {(Object.keys(CATEGORY_LABELS) as CarCategory[]).filter(category => form[category] !== undefined).map(category => (
+                    <div key={category}>
+                        <label htmlFor={`turnaround-${category}`} className="block text-sm font-medium text-gray-700 mb-1">{CATEGORY_LABELS[category]}</label>
+                        <input
+                            type="number"
+                            id={`turnaround-${category}`}
+                            value={form[category]}
+                            onChange={e => setForm(prev => ({ ...prev, [category]: e.target.value }))}
+                            required
+                            min="0"
+                            className="w-full p-2 border rounded-md"
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-end mt-4">
+                <button type="submit" disabled={isSaving} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+                    {isSaving ? 'Saving...' : 'Save Buffers'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default TurnaroundBufferEditor;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { fetchUsagePolicies, updateUsagePolicies } from '../lib/carService';
+import type { CarCategory, FuelPolicy } from '../types';
+
+const CATEGORY_LABELS: Record<CarCategory, string> = {
+    hatchback: 'Hatchback',
+    sedan: 'Sedan',
+    suv: 'SUV',
+    muv: 'MUV',
+    luxury: 'Luxury',
+};
+
+interface PolicyForm {
+    kmPerDay: string; // Empty for unlimited
+    excessKmRate: string;
+    fuelPolicy: FuelPolicy;
+    refuelRatePerPercent: string;
+    refuelServiceFee: string;
+    depositAmount: string;
+}
+
+// Edits how far each car category may be driven per rental day, how it must come back fuelled and the refundable
+// security deposit it takes. Customers see the terms before booking and are charged for excess km and refuelling when
+// the car is returned; a car's own allowance, excess rate and deposit override its category's.
+const UsagePolicyEditor: React.FC = () => {
+    const [form, setForm] = useState<Partial<Record<CarCategory, PolicyForm>>>({});
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const { addToast } = useToast();
+
+    const loadPolicies = useCallback(async () => {
+        const { policies, error: fetchError } = await fetchUsagePolicies();
+        setForm(Object.fromEntries(policies.map(p => [p.category, {
+            kmPerDay: p.km_per_day?.toString() ?? '',
+            excessKmRate: p.excess_km_rate.toString(),
+            fuelPolicy: p.fuel_policy,
+            refuelRatePerPercent: p.refuel_rate_per_percent.toString(),
+            refuelServiceFee: p.refuel_service_fee.toString(),
+            depositAmount: p.deposit_amount.toString(),
+        }])));
+        setError(fetchError);
+    }, []);
+
+    useEffect(() => {
+        loadPolicies();
+    }, [loadPolicies]);
+
+    const updateField = (category: CarCategory, field: keyof PolicyForm, value: string) => {
+        setForm(prev => ({ ...prev, [category]: { ...prev[category]!, [field]: value } }));
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const policies = (Object.keys(form) as CarCategory[]).map(category => {
+            const policy = form[category]!;
+            return {
+                category,
+                km_per_day: policy.kmPerDay === '' ? null : parseInt(policy.kmPerDay, 10),
+                excess_km_rate: parseFloat(policy.excessKmRate),
+                fuel_policy: policy.fuelPolicy,
+                refuel_rate_per_percent: parseFloat(policy.refuelRatePerPercent),
+                refuel_service_fee: parseFloat(policy.refuelServiceFee),
+                deposit_amount: parseFloat(policy.depositAmount),
+            };
+        });
+        if (policies.some(p => p.km_per_day !== null && (isNaN(p.km_per_day) || p.km_per_day < 1))) {
+            addToast('Mileage allowances must be at least 1 km a day, or empty for unlimited.', 'error');
+            return;
+        }
+        if (policies.some(p => [p.excess_km_rate, p.refuel_rate_per_percent, p.refuel_service_fee, p.deposit_amount].some(v => isNaN(v) || v < 0))) {
+            addToast('Rates, fees and deposits must be zero or more.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const { error: saveError } = await updateUsagePolicies(policies);
+        if (saveError) {
+            addToast(`Failed to save mileage, fuel and deposit policies: ${saveError}`, 'error');
+        } else {
+            addToast('Mileage, fuel and deposit policies saved. They apply to bookings made from now on.', 'success');
+            await loadPolicies();
+        }
+        setIsSaving(false);
+    };
+
+    return (
+        <form onSubmit={handleSave} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm mt-6">
+            <h2 className="text-lg font-semibold text-foreground mb-1">Mileage, Fuel and Deposit</h2>
+            <p className="text-sm text-gray-500 mb-4">Km included per rental day (empty for unlimited) and the rate for every km over it. Under full to full, each percent of fuel or charge missing at return costs the refuel rate, plus the service fee. The deposit is paid with the booking and refunded after the return, less any deductions.</p>
+            {error && <p className="bg-red-100 p-3 rounded-md text-red-700 text-sm mb-4">{error}</p>}
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-600">
+                            <th className="py-2 pr-3 font-medium">Category</th>
+                            <th className="py-2 pr-3 font-medium">Km/day</th>
+                            <th className="py-2 pr-3 font-medium">Excess ₹/km</th>
+                            <th className="py-2 pr-3 font-medium">Fuel policy</th>
+                            <th className="py-2 pr-3 font-medium">Refuel ₹ per 1%</th>
+                            <th className="py-2 pr-3 font-medium">Refuel fee ₹</th>
+                            <th className="py-2 font-medium">Deposit ₹</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {(Object.keys(CATEGORY_LABELS) as CarCategory[]).filter(category => form[category] !== undefined).map(category => {
+                            const policy = form[category]!;
+                            const isFullToFull = policy.fuelPolicy === 'full_to_full';
+                            return (
+                                <tr key={category} className="border-t">
+                                    <td className="py-2 pr-3 font-medium text-gray-700">{CATEGORY_LABELS[category]}</td>
+                                    <td className="py-2 pr-3">
+                                        <input type="number" aria-label={`${CATEGORY_LABELS[category]} km per day`} value={policy.kmPerDay} onChange={e => updateField(category, 'kmPerDay', e.target.value)} min="1" placeholder="Unlimited" className="w-24 p-2 border rounded-md" />
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <input type="number" aria-label={`${CATEGORY_LABELS[category]} excess rate`} value={policy.excessKmRate} onChange={e => updateField(category, 'excessKmRate', e.target.value)} required min="0" step="0.01" className="w-24 p-2 border rounded-md" />
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <select aria-label={`${CATEGORY_LABELS[category]} fuel policy`} value={policy.fuelPolicy} onChange={e => updateField(category, 'fuelPolicy', e.target.value)} className="p-2 border rounded-md bg-white">
+                                            <option value="full_to_full">Full to full</option>
+                                            <option value="included">No refuel charge</option>
+                                        </select>
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <input type="number" aria-label={`${CATEGORY_LABELS[category]} refuel rate`} value={policy.refuelRatePerPercent} onChange={e => updateField(category, 'refuelRatePerPercent', e.target.value)} required min="0" step="0.01" disabled={!isFullToFull} className="w-24 p-2 border rounded-md disabled:bg-gray-100" />
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <input type="number" aria-label={`${CATEGORY_LABELS[category]} refuel fee`} value={policy.refuelServiceFee} onChange={e => updateField(category, 'refuelServiceFee', e.target.value)} required min="0" step="0.01" disabled={!isFullToFull} className="w-24 p-2 border rounded-md disabled:bg-gray-100" />
+                                    </td>
+                                    <td className="py-2">
+                                        <input type="number" aria-label={`${CATEGORY_LABELS[category]} deposit`} value={policy.depositAmount} onChange={e => updateField(category, 'depositAmount', e.target.value)} required min="0" step="0.01" className="w-28 p-2 border rounded-md" />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <div className="flex justify-end mt-4">
+                <button type="submit" disabled={isSaving} className="px-4 py-2 rounded-lg bg-primary text-white hover:bg-primary-hover transition disabled:opacity-50">
+                    {isSaving ? 'Saving...' : 'Save Policies'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default UsagePolicyEditor;
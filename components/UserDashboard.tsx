@@ -6,10 +6,12 @@ import { useToast } from '../contexts/ToastContext';
 import Modal from './Modal';
 
 import BookingHistory from './dashboard/BookingHistory';
+import PaymentHistory from './dashboard/PaymentHistory';
 import ProfileSettings from './dashboard/ProfileSettings';
 import LicenseManagement from './dashboard/LicenseManagement';
+import NotificationsPanel from './dashboard/NotificationsPanel';
 
-type Tab = 'bookings' | 'profile' | 'license';
+type Tab = 'bookings' | 'payments' | 'profile' | 'license';
 
 // Component defined outside for stability and performance.
 const TabButton: React.FC<{
@@ -43,12 +45,29 @@ const UserDashboard: React.FC = () => {
             addToast('Booking extended successfully!', 'success');
             sessionStorage.removeItem('postExtensionSuccess');
         }
+        const postBalanceSuccess = sessionStorage.getItem('postBalanceSuccess');
+        if (postBalanceSuccess) {
+            addToast('Balance paid. Your booking is confirmed!', 'success');
+            sessionStorage.removeItem('postBalanceSuccess');
+        }
+        const postModificationSuccess = sessionStorage.getItem('postModificationSuccess');
+        if (postModificationSuccess) {
+            addToast('Payment received. Your booking has been updated!', 'success');
+            sessionStorage.removeItem('postModificationSuccess');
+        }
+        const postChargeSuccess = sessionStorage.getItem('postChargeSuccess');
+        if (postChargeSuccess) {
+            addToast('Payment received. Thank you for settling the charge.', 'success');
+            sessionStorage.removeItem('postChargeSuccess');
+        }
     }, [addToast]);
 
     const renderContent = () => {
         switch (activeTab) {
             case 'bookings':
                 return <BookingHistory />;
+            case 'payments':
+                return <PaymentHistory />;
             case 'profile':
                 return <ProfileSettings />;
             case 'license':
@@ -64,7 +83,7 @@ const UserDashboard: React.FC = () => {
             <main className="flex-grow container mx-auto px-4 py-8 md:py-12">
                 <header className="mb-8">
                     <h1 className="text-3xl md:text-4xl font-bold text-foreground">My Account</h1>
-                    <p className="text-gray-500 mt-1">Manage your bookings, profile, and documents.</p>
+                    <p className="text-gray-500 mt-1">Manage your bookings, payments, profile, and documents.</p>
                 </header>
 
                 <div className="flex flex-col md:flex-row gap-8">
@@ -72,6 +91,7 @@ const UserDashboard: React.FC = () => {
                     <aside className="md:w-1/4">
                         <nav className="flex flex-col gap-2 bg-white p-4 rounded-lg border">
                             <TabButton tab="bookings" label="My Bookings" activeTab={activeTab} setActiveTab={setActiveTab} />
+                            <TabButton tab="payments" label="Payments" activeTab={activeTab} setActiveTab={setActiveTab} />
                             <TabButton tab="profile" label="Profile Settings" activeTab={activeTab} setActiveTab={setActiveTab} />
                             <TabButton tab="license" label="Driver's License" activeTab={activeTab} setActiveTab={setActiveTab} />
                              <button
@@ -84,6 +104,7 @@ const UserDashboard: React.FC = () => {
                     </aside>
                     {/* Main Content */}
                     <div className="md:w-3/4">
+                        <NotificationsPanel />
                         <div className="bg-white p-4 sm:p-6 rounded-lg border min-h-[400px]">
                            {renderContent()}
                         </div>
@@ -1,6 +1,6 @@
 import React, { useMemo } from 'react';
 import type { Car, BookingDraft } from '../../types';
-import { calculateBookingPrice } from '../../lib/bookingUtils';
+import { EMPTY_PRICE } from '../../lib/bookingUtils';
 
 interface ConfirmationStepProps {
   car: Car;
@@ -12,13 +12,14 @@ interface ConfirmationStepProps {
 }
 
 const ConfirmationStep: React.FC<ConfirmationStepProps> = ({ car, bookingData, onClose }) => {
-  const { datesData, extrasData } = bookingData;
+  const { datesData, quote } = bookingData;
 
-  const { totalAmount, advanceAmount } = useMemo(() => {
-    return calculateBookingPrice(datesData, extrasData, car.pricePerDay);
-  }, [datesData, extrasData, car.pricePerDay]);
+  const { totalAmount, advanceAmount, depositAmount = 0 } = useMemo(() => {
+    // The booking was created from this quote, so it holds the exact amounts charged.
+    return quote?.price || EMPTY_PRICE;
+  }, [quote]);
 
-  const amountPaid = bookingData.paymentData?.paymentMode === 'hold' ? advanceAmount : totalAmount;
+  const amountPaid = (bookingData.paymentData?.paymentMode === 'hold' ? advanceAmount : totalAmount) + depositAmount;
   
   const handleViewBookings = () => {
     onClose();
@@ -43,6 +44,9 @@ const ConfirmationStep: React.FC<ConfirmationStepProps> = ({ car, bookingData, o
           <div className="flex justify-between"><span>Pickup</span><span>{datesData?.pickupDate} {datesData?.pickupTime}</span></div>
           <div className="flex justify-between"><span>Return</span><span>{datesData?.returnDate} {datesData?.returnTime}</span></div>
           <div className="flex justify-between"><span>Amount Paid</span><span className="font-bold">₹{amountPaid.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span></div>
+          {depositAmount > 0 && (
+            <p className="text-xs text-gray-500">Includes a ₹{depositAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} refundable security deposit, returned after the rental.</p>
+          )}
           {bookingData.paymentData?.paymentMode === 'hold' && (
             <p className="text-xs text-red-600 mt-1">Remaining payment due at pickup (or within 24h for hold).</p>
           )}
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { Car, BookingDraft } from '../../types';
-import { calculateBookingPrice } from '../../lib/bookingUtils';
+import type { Branch, Car, BookingDraft, BookingPriceDetails, CarAvailability, DatesData, DoorstepData } from '../../types';
+import { calculateBookingPrice, checkCarAvailability, EMPTY_PRICE } from '../../lib/bookingUtils';
+import { fetchBranches, isBranchOpenAt } from '../../lib/branchService';
+import DeliveryOptions from './DeliveryOptions';
 
 interface DatesStepProps {
   car: Car;
@@ -8,9 +10,38 @@ interface DatesStepProps {
   updateBookingData: (updates: Partial<BookingDraft>) => void;
   nextStep: () => void;
   prevStep: () => void;
+  // Replaces the new-booking price and availability check, e.g. to quote a change to an existing booking.
+  // Branches and doorstep service cannot be changed when quoting this way.
+  quote?: (dates: DatesData) => Promise<{ price: BookingPriceDetails; availability: CarAvailability | null; error: string | null }>;
+  nextLabel?: string;
 }
 
-const DatesStep: React.FC<DatesStepProps> = ({ car, bookingData, updateBookingData, nextStep, prevStep }) => {
+const formatMinutes = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} minutes`;
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+// Explains why the car cannot be booked for the selected times, or returns null if it can.
+const describeUnavailability = (availability: CarAvailability | null): string | null => {
+  if (!availability || availability.available) return null;
+  if (availability.reason === 'booked') {
+    return 'This car is already booked for part of the selected period. Please choose different dates.';
+  }
+  const suggestions = [
+    availability.availableFrom && `The earliest pickup is ${formatDateTime(availability.availableFrom)}.`,
+    availability.availableUntil && `The latest return is ${formatDateTime(availability.availableUntil)}.`,
+  ].filter(Boolean).join(' ');
+  return `This car needs ${formatMinutes(availability.turnaroundMinutes)} between rentals for cleaning, refuelling and inspection, so it is not ready for these times. ${suggestions}`;
+};
+
+// Explains why a handover cannot happen at a branch at the given time, or returns null if it can.
+const describeClosedBranch = (label: string, branch: Branch | undefined, at: Date): string | null => {
+  if (!branch || isNaN(at.getTime()) || isBranchOpenAt(branch, at)) return null;
+  return `${label} must be between ${branch.opensAt} and ${branch.closesAt} at ${branch.name}.`;
+};
+
+const DatesStep: React.FC<DatesStepProps> = ({ car, bookingData, updateBookingData, nextStep, prevStep, quote, nextLabel = 'Next: Terms' }) => {
   const today = useMemo(() => new Date(), []);
   const tomorrow = useMemo(() => {
     const d = new Date(today);
@@ -24,8 +55,34 @@ const DatesStep: React.FC<DatesStepProps> = ({ car, bookingData, updateBookingDa
   const [pickupTime, setPickupTime] = useState(bookingData.datesData?.pickupTime || '09:00');
   const [returnDate, setReturnDate] = useState(bookingData.datesData?.returnDate || formatDate(tomorrow));
   const [returnTime, setReturnTime] = useState(bookingData.datesData?.returnTime || '09:00');
+  const [returnBranchId, setReturnBranchId] = useState(bookingData.datesData?.returnBranchId || car.branchId);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [doorstep, setDoorstep] = useState<DoorstepData>({
+    deliveryZoneId: bookingData.datesData?.deliveryZoneId,
+    deliveryAddress: bookingData.datesData?.deliveryAddress,
+    collectionZoneId: bookingData.datesData?.collectionZoneId,
+    collectionAddress: bookingData.datesData?.collectionAddress,
+  });
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (quote) return;
+    fetchBranches().then(({ branches: fetchedBranches }) => setBranches(fetchedBranches));
+  }, [quote]);
+
+  // The car is always picked up from its own branch; it can be returned to any branch.
+  const pickupBranch = branches.find(b => b.id === car.branchId);
+  const returnBranch = branches.find(b => b.id === returnBranchId);
+  const closedReason =
+    describeClosedBranch('Pickup', pickupBranch, new Date(`${pickupDate}T${pickupTime}`)) ||
+    describeClosedBranch('Return', returnBranch, new Date(`${returnDate}T${returnTime}`));
+
+  // Collection zones belong to the return branch, so a different return branch needs a zone of its own.
+  const handleReturnBranchChange = (branchId: string) => {
+    setReturnBranchId(branchId);
+    setDoorstep(prev => ({ ...prev, collectionZoneId: undefined }));
+  };
+
   // Initialize with default values if not present in bookingData
   useEffect(() => {
     if (!bookingData.datesData) {
@@ -40,11 +97,49 @@ const DatesStep: React.FC<DatesStepProps> = ({ car, bookingData, updateBookingDa
     }
   }, [bookingData.datesData, today, tomorrow, updateBookingData]);
 
-  const { billingDays, totalAmount } = useMemo(() => {
-    const dates = { pickupDate, pickupTime, returnDate, returnTime };
-    const { billingDays, totalAmount } = calculateBookingPrice(dates, undefined, car.pricePerDay);
-    return { billingDays, totalAmount };
-  }, [pickupDate, pickupTime, returnDate, returnTime, car.pricePerDay]);
+  const [price, setPrice] = useState<BookingPriceDetails>(EMPTY_PRICE);
+  const [priceError, setPriceError] = useState<string | null>(null);
+  const [isPricing, setIsPricing] = useState(false);
+  const [availability, setAvailability] = useState<CarAvailability | null>(null);
+  const { billingDays, totalAmount } = price;
+  const unavailableReason = describeUnavailability(availability);
+
+  // Preview the price from the server pricing engine and check the car is free, debounced while the user edits the inputs.
+  useEffect(() => {
+    let cancelled = false;
+    setIsPricing(true);
+    const timer = setTimeout(async () => {
+      const dates: DatesData = quote
+        ? { pickupDate, pickupTime, returnDate, returnTime }
+        : {
+            pickupDate, pickupTime, returnDate, returnTime, pickupBranchId: car.branchId, returnBranchId,
+            deliveryZoneId: doorstep.deliveryZoneId, collectionZoneId: doorstep.collectionZoneId,
+          };
+      if (quote) {
+        const quoted = await quote(dates);
+        if (cancelled) return;
+        setPrice(quoted.price);
+        setPriceError(quoted.error);
+        setAvailability(quoted.availability);
+        setIsPricing(false);
+        return;
+      }
+      const [{ price: newPrice, error: newError }, { availability: newAvailability }] = await Promise.all([
+        calculateBookingPrice(car.id, dates),
+        checkCarAvailability(car.id, dates),
+      ]);
+      if (cancelled) return;
+      setPrice(newPrice);
+      setPriceError(newError);
+      setAvailability(newAvailability);
+      setIsPricing(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pickupDate, pickupTime, returnDate, returnTime, returnBranchId, doorstep.deliveryZoneId, doorstep.collectionZoneId, car.id, car.branchId, quote]);
 
   const handleNext = () => {
     // Basic validation
@@ -65,9 +160,29 @@ const DatesStep: React.FC<DatesStepProps> = ({ car, bookingData, updateBookingDa
       setError('Return date and time must be after pickup date and time.');
       return;
     }
+    if (closedReason) {
+      setError(closedReason);
+      return;
+    }
+    if (doorstep.deliveryZoneId && !doorstep.deliveryAddress?.trim()) {
+      setError('Please enter the address to deliver the car to.');
+      return;
+    }
+    if (doorstep.collectionZoneId && !doorstep.collectionAddress?.trim()) {
+      setError('Please enter the address to collect the car from.');
+      return;
+    }
     
-    if (billingDays === 0) {
-      setError('Minimum booking duration is 12 hours.');
+    if (isPricing) {
+      setError('Please wait while we calculate your price.');
+      return;
+    }
+    if (unavailableReason) {
+      setError(unavailableReason);
+      return;
+    }
+    if (priceError || billingDays === 0) {
+      setError(priceError || 'Unable to price the selected dates. Please try different dates.');
       return;
     }
 
@@ -78,6 +193,14 @@ const DatesStep: React.FC<DatesStepProps> = ({ car, bookingData, updateBookingDa
         pickupTime,
         returnDate,
         returnTime,
+        ...(quote ? {} : {
+          pickupBranchId: car.branchId,
+          returnBranchId,
+          deliveryZoneId: doorstep.deliveryZoneId,
+          deliveryAddress: doorstep.deliveryZoneId ? doorstep.deliveryAddress?.trim() : undefined,
+          collectionZoneId: doorstep.collectionZoneId,
+          collectionAddress: doorstep.collectionZoneId ? doorstep.collectionAddress?.trim() : undefined,
+        }),
       }
     });
     nextStep();
@@ -138,14 +261,73 @@ const DatesStep: React.FC<DatesStepProps> = ({ car, bookingData, updateBookingDa
         </div>
       </div>
 
+      {!quote && branches.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Pickup Branch</span>
+            <div className="px-4 py-2 border border-gray-200 rounded-lg bg-gray-50 text-sm">
+              <p className="font-semibold">{pickupBranch?.name || 'Unavailable'}</p>
+              {pickupBranch && (
+                <p className="text-gray-500">{pickupBranch.address} · Open {pickupBranch.opensAt}–{pickupBranch.closesAt}</p>
+              )}
+            </div>
+          </div>
+          <div>
+            <label htmlFor="returnBranch" className="block text-sm font-medium text-gray-700 mb-1">Return Branch</label>
+            <select
+              id="returnBranch"
+              value={returnBranchId}
+              onChange={e => handleReturnBranchChange(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-primary focus:border-primary"
+            >
+              {branches.map(branch => (
+                <option key={branch.id} value={branch.id}>
+                  {branch.name}{branch.id === car.branchId ? ' (same as pickup)' : ''}
+                </option>
+              ))}
+            </select>
+            {returnBranch && (
+              <p className="text-xs text-gray-500 mt-1">{returnBranch.address} · Open {returnBranch.opensAt}–{returnBranch.closesAt}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!quote && returnBranchId && (
+        <DeliveryOptions pickupBranchId={car.branchId} returnBranchId={returnBranchId} value={doorstep} onChange={setDoorstep} />
+      )}
+
+      {closedReason && (
+        <p className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded-md text-sm">{closedReason}</p>
+      )}
+
+      {unavailableReason && !isPricing && (
+        <p className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded-md text-sm">{unavailableReason}</p>
+      )}
+
       <div className="bg-blue-50 p-4 rounded-lg">
         <div className="flex justify-between items-center text-lg">
           <span className="font-semibold text-foreground">Total Rental Price</span>
-          <span className="font-bold text-primary">
+          <span className={`font-bold text-primary transition-opacity ${isPricing ? 'opacity-60' : ''}`}>
             {totalAmount > 0 ? `₹${totalAmount.toLocaleString()}` : 'Select dates'}
           </span>
         </div>
         {billingDays > 0 && <p className="text-sm text-gray-600 text-right mt-1">For {billingDays} billing day(s)</p>}
+        {price.appliedRules.map(rule => (
+          <p key={rule.ruleId} className={`text-sm text-right ${rule.amount < 0 ? 'text-green-600' : 'text-gray-600'}`}>
+            {rule.name}: {rule.amount < 0 ? '- ' : '+ '}₹{Math.abs(rule.amount).toLocaleString()}
+          </p>
+        ))}
+        {!!price.oneWayFee && (
+          <p className="text-sm text-right text-gray-600">One-way fee: + ₹{price.oneWayFee.toLocaleString()}</p>
+        )}
+        {!!price.deliveryFee && (
+          <p className="text-sm text-right text-gray-600">Doorstep delivery: + ₹{price.deliveryFee.toLocaleString()}</p>
+        )}
+        {!!price.collectionFee && (
+          <p className="text-sm text-right text-gray-600">Doorstep collection: + ₹{price.collectionFee.toLocaleString()}</p>
+        )}
+        {priceError && !isPricing && <p className="text-sm text-red-600 text-right mt-1">{priceError}</p>}
       </div>
 
       <div className="flex justify-between space-x-4 pt-4">
@@ -159,7 +341,7 @@ const DatesStep: React.FC<DatesStepProps> = ({ car, bookingData, updateBookingDa
           onClick={handleNext}
           className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition"
         >
-          Next: Terms
+          {nextLabel}
         </button>
       </div>
     </div>
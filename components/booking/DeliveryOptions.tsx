@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import type { DeliveryZone, DoorstepData } from '../../types';
+import { fetchDeliveryZones } from '../../lib/deliveryService';
+
+interface DeliveryOptionsProps {
+  pickupBranchId: string;
+  returnBranchId: string;
+  value: DoorstepData;
+  onChange: (value: DoorstepData) => void;
+}
+
+interface DoorstepFieldProps {
+  kind: 'delivery' | 'collection';
+  zones: DeliveryZone[];
+  zoneId: string | undefined;
+  address: string | undefined;
+  onChange: (zoneId: string | undefined, address: string | undefined) => void;
+}
+
+const describeZone = (zone: DeliveryZone) => `${zone.name} (up to ${zone.maxDistanceKm} km) · ₹${zone.fee.toLocaleString()}`;
+
+// One doorstep service: off means the customer comes to the branch; on asks for a zone and the address within it.
+const DoorstepField: React.FC<DoorstepFieldProps> = ({ kind, zones, zoneId, address, onChange }) => {
+  const isDelivery = kind === 'delivery';
+  const enabled = !!zoneId;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={e => onChange(e.target.checked ? zones[0].id : undefined, address)}
+          className="h-4 w-4 text-primary rounded"
+        />
+        {isDelivery ? 'Deliver the car to me' : 'Collect the car from me'}
+      </label>
+      {enabled && (
+        <>
+          <select
+            aria-label={isDelivery ? 'Delivery zone' : 'Collection zone'}
+            value={zoneId}
+            onChange={e => onChange(e.target.value, address)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:ring-primary focus:border-primary"
+          >
+            {zones.map(zone => <option key={zone.id} value={zone.id}>{describeZone(zone)}</option>)}
+          </select>
+          <textarea
+            aria-label={isDelivery ? 'Delivery address' : 'Collection address'}
+            value={address || ''}
+            onChange={e => onChange(zoneId, e.target.value)}
+            rows={2}
+            maxLength={500}
+            placeholder={isDelivery ? 'Where should we bring the car?' : 'Where should we pick the car up?'}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-primary focus:border-primary"
+          />
+          <p className="text-xs text-gray-500">
+            Choose the zone by road distance from the {isDelivery ? 'pickup' : 'return'} branch. Our driver will call before arriving.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Doorstep delivery at pickup and collection at return, priced by the distance zones around each branch.
+// Only shown for branches that have zones.
+const DeliveryOptions: React.FC<DeliveryOptionsProps> = ({ pickupBranchId, returnBranchId, value, onChange }) => {
+  const [deliveryZones, setDeliveryZones] = useState<DeliveryZone[]>([]);
+  const [collectionZones, setCollectionZones] = useState<DeliveryZone[]>([]);
+
+  useEffect(() => {
+    fetchDeliveryZones(pickupBranchId).then(({ zones }) => setDeliveryZones(zones));
+  }, [pickupBranchId]);
+
+  useEffect(() => {
+    fetchDeliveryZones(returnBranchId).then(({ zones }) => setCollectionZones(zones));
+  }, [returnBranchId]);
+
+  if (deliveryZones.length === 0 && collectionZones.length === 0) return null;
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-700 mb-1">Doorstep Service</span>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {deliveryZones.length > 0 && (
+          <DoorstepField
+            kind="delivery"
+            zones={deliveryZones}
+            zoneId={value.deliveryZoneId}
+            address={value.deliveryAddress}
+            onChange={(deliveryZoneId, deliveryAddress) => onChange({ ...value, deliveryZoneId, deliveryAddress })}
+          />
+        )}
+        {collectionZones.length > 0 && (
+          <DoorstepField
+            kind="collection"
+            zones={collectionZones}
+            zoneId={value.collectionZoneId}
+            address={value.collectionAddress}
+            onChange={(collectionZoneId, collectionAddress) => onChange({ ...value, collectionZoneId, collectionAddress })}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryOptions;
@@ -1,9 +1,13 @@
-import React, { useState, useMemo } from 'react';
-import type { Car, BookingDraft, BookingExtra, ValidatedPromo } from '../../types';
-import { calculateBookingPrice } from '../../lib/bookingUtils';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { Car, BookingDraft, BookingExtra, BookingQuote, ValidatedPromo } from '../../types';
+import { isQuoteStale } from '../../lib/bookingUtils';
 import { validatePromoCode } from '../../lib/promoService';
+import { createBookingQuote, fetchBookingExtras } from '../../lib/quoteService';
+import { useDebounce } from '../../lib/useDebounce';
 import { useToast } from '../../contexts/ToastContext';
 import { parseError } from '../../lib/errorUtils';
+import PriceSummary from './PriceSummary';
+import UsageTerms from '../common/UsageTerms';
 
 interface ExtrasStepProps {
   car: Car;
@@ -13,35 +17,67 @@ interface ExtrasStepProps {
   prevStep: () => void;
 }
 
-const defaultExtras: BookingExtra[] = [
-  { name: 'GPS', pricePerDay: 200, selected: false },
-  { name: 'Child Seat', pricePerDay: 150, selected: false },
-  { name: 'Insurance', pricePerDay: 300, selected: false },
-];
-
 const ExtrasStep: React.FC<ExtrasStepProps> = ({ car, bookingData, updateBookingData, nextStep, prevStep }) => {
-  const [extras, setExtras] = useState<BookingExtra[]>(bookingData.extrasData?.extras || defaultExtras);
+  const [extras, setExtras] = useState<BookingExtra[]>(bookingData.extrasData?.extras || []);
+  const [isLoadingExtras, setIsLoadingExtras] = useState(!bookingData.extrasData?.extras);
   const [advancePaymentOptionSelected, setAdvancePaymentOptionSelected] = useState(bookingData.extrasData?.advancePaymentOptionSelected || false);
 
   const [promoCodeInput, setPromoCodeInput] = useState(bookingData.promoCodeInput || '');
   const [isApplyingPromo, setIsApplyingPromo] = useState(false);
   const { addToast } = useToast();
 
+  const [quote, setQuote] = useState<BookingQuote | null>(bookingData.quote || null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  // Guards against out-of-order responses when selections change quickly.
+  const latestQuoteRequest = useRef(0);
+
   const { datesData, appliedPromo } = bookingData;
-  
-  const { 
-    billingDays, 
-    baseRentalPrice, 
-    selectedExtrasPrice,
-    subtotal,
-    discountAmount,
-    serviceCharge, 
-    totalAmount, 
-    advanceAmount 
-  } = useMemo(() => {
-      const extrasDataForCalc = { extras };
-      return calculateBookingPrice(datesData, extrasDataForCalc, car.pricePerDay, appliedPromo);
-  }, [datesData, extras, car.pricePerDay, appliedPromo]);
+
+  // Load the extras catalogue from the server on first visit to this step.
+  useEffect(() => {
+    if (bookingData.extrasData?.extras) return;
+    const loadExtras = async () => {
+      const { extras: catalogue, error } = await fetchBookingExtras();
+      if (error) {
+        setQuoteError(error);
+      } else {
+        setExtras(catalogue);
+      }
+      setIsLoadingExtras(false);
+    };
+    loadExtras();
+  }, [bookingData.extrasData?.extras]);
+
+  // Re-quote whenever the selections change. Debounced so rapid toggling results in one request: the quote is only
+  // requested once the debounced key has caught up with the current selections.
+  const currentSelectionKey = JSON.stringify({ extras: extras.filter(e => e.selected).map(e => e.name), promo: appliedPromo?.id || null });
+  const selectionKey = useDebounce(currentSelectionKey, 400);
+
+  // Resolves to the new quote, or null if it failed or a later request superseded it.
+  const requestQuote = useCallback(async (): Promise<BookingQuote | null> => {
+    if (!datesData) return null;
+    const requestId = ++latestQuoteRequest.current;
+    setIsQuoting(true);
+    setQuoteError(null);
+    const { quote: newQuote, error } = await createBookingQuote(car.id, datesData, extras, appliedPromo);
+    if (requestId !== latestQuoteRequest.current) return null;
+    setIsQuoting(false);
+    if (error || !newQuote) {
+      setQuoteError(error || 'Could not confirm the price for this booking.');
+      setQuote(null);
+      return null;
+    }
+    setQuote(newQuote);
+    return newQuote;
+  }, [car.id, datesData, extras, appliedPromo]);
+
+  useEffect(() => {
+    if (isLoadingExtras || !datesData || selectionKey !== currentSelectionKey) return;
+    if (isQuoteStale(quote, car.id, datesData, extras, appliedPromo)) {
+      requestQuote();
+    }
+  }, [selectionKey, currentSelectionKey, isLoadingExtras, datesData, car.id, extras, appliedPromo, quote, requestQuote]);
 
   const handleExtraToggle = (index: number) => {
     setExtras(prev => prev.map((extra, i) => 
@@ -67,8 +103,7 @@ const ExtrasStep: React.FC<ExtrasStepProps> = ({ car, bookingData, updateBooking
         if (data?.valid === true) {
             const promo = data as ValidatedPromo;
             updateBookingData({ appliedPromo: promo });
-            const tempDiscount = calculateBookingPrice(datesData, {extras}, car.pricePerDay, promo).discountAmount;
-            addToast(`Success! A discount of ₹${tempDiscount.toFixed(2)} has been applied.`, 'success');
+            addToast(`Success! Promo code ${promo.code} has been applied.`, 'success');
         } else {
             addToast(data?.message ?? 'Invalid promo code.', 'error');
             updateBookingData({ appliedPromo: null });
@@ -86,7 +121,14 @@ const ExtrasStep: React.FC<ExtrasStepProps> = ({ car, bookingData, updateBooking
       updateBookingData({ promoCodeInput: '', appliedPromo: null });
   }
 
-  const handleNext = () => {
+  const handleNext = async () => {
+    if (isQuoting) return;
+    let activeQuote = quote;
+    if (isQuoteStale(activeQuote, car.id, datesData, extras, appliedPromo)) {
+      // The quote expired or the selections changed since it was issued; fetch a fresh one first.
+      activeQuote = await requestQuote();
+      if (!activeQuote) return;
+    }
     // Explicitly pass the appliedPromo from the component's current props
     // to ensure it's included in the state update, preventing it from being lost.
     updateBookingData({ 
@@ -95,7 +137,8 @@ const ExtrasStep: React.FC<ExtrasStepProps> = ({ car, bookingData, updateBooking
         advancePaymentOptionSelected
       },
       promoCodeInput,
-      appliedPromo: bookingData.appliedPromo
+      appliedPromo: bookingData.appliedPromo,
+      quote: activeQuote,
     });
     nextStep();
   };
@@ -103,8 +146,11 @@ const ExtrasStep: React.FC<ExtrasStepProps> = ({ car, bookingData, updateBooking
   return (
     <div className="space-y-6">
       <p className="text-gray-700">Customize your booking with optional extras for a better experience.</p>
+
+      {quoteError && <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm">{quoteError}</p>}
       
       <div className="space-y-3">
+        {isLoadingExtras && <p className="text-sm text-gray-500">Loading extras...</p>}
         {extras.map((extra, index) => (
           <div key={extra.name} className="flex items-center justify-between border border-gray-200 p-3 rounded-lg bg-gray-50">
             <label htmlFor={`extra-${index}`} className="flex items-center cursor-pointer flex-grow">
@@ -145,19 +191,13 @@ const ExtrasStep: React.FC<ExtrasStepProps> = ({ car, bookingData, updateBooking
         </div>
       </div>
 
-      <div className="bg-blue-50 p-4 rounded-lg">
-        <h4 className="font-semibold text-lg text-foreground mb-2">Booking Summary</h4>
-        <div className="space-y-1 text-gray-700 text-sm">
-          <div className="flex justify-between"><span>Base Rental ({billingDays} billing days)</span><span>₹{baseRentalPrice.toLocaleString()}</span></div>
-          <div className="flex justify-between"><span>Selected Extras</span><span>₹{selectedExtrasPrice.toLocaleString()}</span></div>
-          <div className="flex justify-between font-semibold"><span>Subtotal</span><span>₹{subtotal.toLocaleString()}</span></div>
-          {discountAmount > 0 && (
-            <div className="flex justify-between text-green-600"><span>Discount ({appliedPromo?.code})</span><span>- ₹{discountAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span></div>
-          )}
-          <div className="flex justify-between"><span>Service Charge (5%)</span><span>₹{serviceCharge.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span></div>
-          <div className="flex justify-between font-bold text-base border-t border-blue-200 pt-2 mt-2"><span>Grand Total</span><span>₹{totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span></div>
-        </div>
-      </div>
+      {car.usageTerms && <UsageTerms terms={car.usageTerms} />}
+
+      {quote ? (
+        <PriceSummary title="Booking Summary" price={quote.price} promoCode={appliedPromo?.code} isUpdating={isQuoting} />
+      ) : (
+        <div className="bg-blue-50 p-4 rounded-lg text-sm text-gray-600">{isQuoting ? 'Calculating your price...' : 'Price unavailable.'}</div>
+      )}
 
       <div className="flex items-center p-3 border border-gray-200 rounded-lg bg-yellow-50">
         <input
@@ -168,7 +208,7 @@ const ExtrasStep: React.FC<ExtrasStepProps> = ({ car, bookingData, updateBooking
           className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
         />
         <label htmlFor="advancePayment" className="ml-3 text-sm font-medium text-gray-900 cursor-pointer">
-          Pay 10% advance (₹{advanceAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}) to reserve now
+          Pay {quote ? `${quote.price.advancePercent}%` : 'an'} advance{quote && ` (₹${quote.price.advanceAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })})`} to reserve now
         </label>
       </div>
 
@@ -181,7 +221,8 @@ const ExtrasStep: React.FC<ExtrasStepProps> = ({ car, bookingData, updateBooking
         </button>
         <button
           onClick={handleNext}
-          className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition"
+          disabled={!quote || isQuoting}
+          className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:opacity-50"
         >
           Next: Payment
         </button>
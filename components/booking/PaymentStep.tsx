@@ -1,8 +1,13 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createBookingAndPayment } from '../../lib/bookingService';
-import type { Car, BookingDraft } from '../../types';
+import { createBookingQuote } from '../../lib/quoteService';
+import type { Car, BookingDraft, BookingQuote, PaymentGatewayConfig } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
-import { calculateBookingPrice } from '../../lib/bookingUtils';
+import { isQuoteStale } from '../../lib/bookingUtils';
+import { startGatewayPayment } from '../../lib/paymentGateway';
+import { usePaymentGateways } from '../../lib/usePaymentGateways';
+import { parseError } from '../../lib/errorUtils';
+import PriceSummary from './PriceSummary';
 
 interface PaymentStepProps {
   car: Car;
@@ -22,55 +27,94 @@ const PaymentStep: React.FC<PaymentStepProps> = ({ car, bookingData, updateBooki
   const { user } = useAuth();
   const { datesData, extrasData, appliedPromo } = bookingData;
   const [paymentProcessing, setPaymentProcessing] = useState(false);
+  const [activeGateway, setActiveGateway] = useState<PaymentGatewayConfig | null>(null);
   const [error, setError] = useState<string | null>(null);
-
-  const {
-    billingDays,
-    baseRentalPrice,
-    selectedExtrasPrice,
-    subtotal,
-    discountAmount,
-    serviceCharge,
-    totalAmount,
-    advanceAmount,
-  } = useMemo(() => calculateBookingPrice(datesData, extrasData, car.pricePerDay, appliedPromo), [car, datesData, extrasData, appliedPromo]);
+  const { gateways, isLoading: isLoadingGateways, error: gatewaysError } = usePaymentGateways();
+
+  const [quote, setQuote] = useState<BookingQuote | null>(bookingData.quote || null);
+  // One key per quote, so a double click or resubmission returns the booking already created, while a refreshed
+  // quote starts a new attempt instead of conflicting with the one made for the expired quote.
+  const idempotencyKeys = useRef<Record<string, string>>({});
+  const [isQuoting, setIsQuoting] = useState(false);
+
+  const extras = useMemo(() => extrasData?.extras || [], [extrasData?.extras]);
+
+  // Quotes are short-lived. Fetch a fresh one if the saved quote has expired (e.g. after a payment retry).
+  const refreshQuote = useCallback(async (): Promise<BookingQuote | null> => {
+    if (!datesData) return null;
+    setIsQuoting(true);
+    const { quote: newQuote, error: quoteError } = await createBookingQuote(car.id, datesData, extras, appliedPromo);
+    setIsQuoting(false);
+    if (quoteError || !newQuote) {
+        setError(quoteError || 'Could not confirm the price for this booking.');
+        return null;
+    }
+    setQuote(newQuote);
+    updateBookingData({ quote: newQuote });
+    return newQuote;
+  }, [car.id, datesData, extras, appliedPromo, updateBookingData]);
+
+  useEffect(() => {
+    if (isQuoteStale(quote, car.id, datesData, extras, appliedPromo)) {
+        refreshQuote();
+    }
+  }, [quote, car.id, datesData, extras, appliedPromo, refreshQuote]);
 
   const paymentMode = extrasData?.advancePaymentOptionSelected ? 'hold' : 'full';
-  const amountToPay = paymentMode === 'hold' ? advanceAmount : totalAmount;
+  const depositAmount = quote?.price.depositAmount ?? 0;
+  // The refundable deposit is collected with the booking payment in both modes.
+  const amountToPay = quote ? (paymentMode === 'hold' ? quote.price.advanceAmount : quote.price.totalAmount) + depositAmount : 0;
   
-  const handlePaytmPayment = async () => {
+  const handlePayment = async (gateway: PaymentGatewayConfig) => {
     if (!user) {
         setError('You must be signed in to complete the booking.');
         return;
     }
+    setActiveGateway(gateway);
     setPaymentProcessing(true);
     setError(null);
 
+    let activeQuote = quote;
+    if (isQuoteStale(activeQuote, car.id, datesData, extras, appliedPromo)) {
+        activeQuote = await refreshQuote();
+        if (!activeQuote) {
+            setPaymentProcessing(false);
+            return;
+        }
+    }
+
     // Save current booking state to session storage for potential retry
-    sessionStorage.setItem('paymentAttemptInfo', JSON.stringify({ car, bookingData }));
+    sessionStorage.setItem('paymentAttemptInfo', JSON.stringify({ car, bookingData: { ...bookingData, quote: activeQuote } }));
 
-    // Step 1: Create the booking and a pending payment record
-    const { data: initialData, error: creationError } = await createBookingAndPayment(
-        bookingData, car, user, amountToPay, 'paytm'
-    );
+    // Step 1: Create the booking and a pending payment record from the server quote
+    const idempotencyKey = idempotencyKeys.current[activeQuote!.id] ??= crypto.randomUUID();
+    const { data: initialData, error: creationError } = await createBookingAndPayment(activeQuote!.id, paymentMode, gateway.id, idempotencyKey);
 
-    if (creationError) {
-        setError(creationError);
+    if (creationError || !initialData) {
+        setError(creationError || 'Failed to create booking.');
         setPaymentProcessing(false);
         return;
     }
     
-    const { bookingId, paymentId } = initialData;
-    updateBookingData({ bookingId, paymentData: { paymentMode, paymentId } });
-
-    // Step 2: Simulate redirect to Paytm and back to our callback handler
-    // In a real app, you would use Paytm's JS SDK or redirect to their URL here.
-    setTimeout(() => {
-        // Close the modal as the user is "redirected"
+    const { bookingId, paymentId, amount } = initialData;
+    updateBookingData({ bookingId, quote: activeQuote, paymentData: { paymentMode, paymentId } });
+
+    // Step 2: Hand over to the gateway, which returns to our callback handler when the payment completes
+    try {
+        await startGatewayPayment(gateway, {
+            paymentId,
+            amount,
+            currency: 'INR',
+            description: `${car.title} booking`,
+            returnPath: `#/payment/callback?booking_id=${bookingId}&car_id=${car.id}`,
+            customer: { email: user.email, phone: bookingData.phoneData?.phone },
+        });
+        // Close the modal as the user is redirected
         onClose();
-        // Simulate a successful payment by redirecting to our callback handler
-        window.location.hash = `#/payment/callback?payment_id=${paymentId}&booking_id=${bookingId}&car_id=${car.id}&status=success`;
-    }, 2000); // 2-second delay to simulate the process
+    } catch (err: unknown) {
+        setError(parseError(err));
+        setPaymentProcessing(false);
+    }
   };
 
   if (paymentProcessing) {
@@ -80,7 +124,7 @@ const PaymentStep: React.FC<PaymentStepProps> = ({ car, bookingData, updateBooki
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            <p className="font-semibold text-lg">Connecting to Paytm...</p>
+            <p className="font-semibold text-lg">Connecting to {activeGateway?.display_name || 'the payment gateway'}...</p>
             <p className="text-gray-600">You will be redirected to complete your payment securely.</p>
         </div>
       );
@@ -92,39 +136,37 @@ const PaymentStep: React.FC<PaymentStepProps> = ({ car, bookingData, updateBooki
       
       {error && <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm">{error}</p>}
 
-      <div className="bg-blue-50 p-4 rounded-lg">
-        <h4 className="font-semibold text-lg text-foreground mb-2">Payment Breakdown</h4>
-        <div className="space-y-1 text-gray-700 text-sm">
-          <div className="flex justify-between"><span>Base Rental ({billingDays} billing days)</span><span>₹{baseRentalPrice.toLocaleString()}</span></div>
-          <div className="flex justify-between"><span>Selected Extras</span><span>₹{selectedExtrasPrice.toLocaleString()}</span></div>
-          <div className="flex justify-between font-semibold"><span>Subtotal</span><span>₹{subtotal.toLocaleString()}</span></div>
-          {discountAmount > 0 && (
-            <div className="flex justify-between text-green-600"><span>Discount ({bookingData.appliedPromo?.code})</span><span>- ₹{discountAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span></div>
-          )}
-          <div className="flex justify-between"><span>Service Charge (5%)</span><span>₹{serviceCharge.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span></div>
-          <div className="flex justify-between font-bold text-base border-t border-blue-200 pt-2 mt-2"><span>Grand Total</span><span>₹{totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span></div>
-        </div>
-      </div>
+      {quote ? (
+        <PriceSummary title="Payment Breakdown" price={quote.price} promoCode={appliedPromo?.code} isUpdating={isQuoting} />
+      ) : (
+        <div className="bg-blue-50 p-4 rounded-lg text-sm text-gray-600">{isQuoting ? 'Confirming your price...' : 'Price unavailable.'}</div>
+      )}
 
       <div className="p-4 rounded-lg border-2 border-primary text-center">
         <p className="text-sm font-semibold text-gray-600">
-            {paymentMode === 'full' ? 'FULL AMOUNT TO PAY' : 'PAYABLE ADVANCE (10%)'}
+            {paymentMode === 'full' ? 'FULL AMOUNT TO PAY' : `PAYABLE ADVANCE${quote ? ` (${quote.price.advancePercent}%)` : ''}`}
         </p>
         <p className="text-3xl font-bold text-foreground mt-1">₹{amountToPay.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+        {depositAmount > 0 && (
+          <p className="text-xs text-gray-500 mt-1">Includes a ₹{depositAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} refundable security deposit</p>
+        )}
       </div>
 
       <div className="pt-4 space-y-3">
-        <button
-          onClick={handlePaytmPayment}
-          disabled={paymentProcessing}
-          className="w-full px-6 py-3 rounded-lg bg-[#00B9F1] text-white font-bold hover:opacity-90 transition disabled:bg-opacity-50 flex items-center justify-center"
-        >
-          <PaytmIcon className="h-5 mr-3" /> Pay with Paytm
-        </button>
-        {/* Placeholder for other payment methods */}
-        <button disabled className="w-full px-6 py-3 rounded-lg bg-gray-300 text-gray-500 font-semibold cursor-not-allowed">
-            Pay with Card (Coming Soon)
-        </button>
+        {isLoadingGateways && <p className="text-sm text-gray-500 text-center">Loading payment options...</p>}
+        {gatewaysError && <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm">{gatewaysError}</p>}
+        {gateways.map(gateway => (
+          <button
+            key={gateway.id}
+            onClick={() => handlePayment(gateway)}
+            disabled={paymentProcessing || isQuoting || !quote}
+            className={`w-full px-6 py-3 rounded-lg text-white font-bold hover:opacity-90 transition disabled:bg-opacity-50 flex items-center justify-center ${gateway.id === 'paytm' ? 'bg-[#00B9F1]' : 'bg-primary'}`}
+          >
+            {gateway.id === 'paytm' && <PaytmIcon className="h-5 mr-3" />}
+            Pay with {gateway.display_name}
+            {gateway.test_mode && <span className="ml-2 text-xs font-normal opacity-80">(test)</span>}
+          </button>
+        ))}
       </div>
 
       <div className="flex justify-start pt-4">
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { BookingPriceDetails } from '../../types';
+
+interface PriceSummaryProps {
+  title: string;
+  price: BookingPriceDetails;
+  promoCode?: string | null;
+  isUpdating?: boolean;
+}
+
+const formatAmount = (amount: number) => amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Itemized price breakdown, including GST, shared by the Extras and Payment steps.
+const PriceSummary: React.FC<PriceSummaryProps> = ({ title, price, promoCode, isUpdating = false }) => (
+  <div className={`bg-blue-50 p-4 rounded-lg transition-opacity ${isUpdating ? 'opacity-60' : ''}`}>
+    <div className="flex justify-between items-center mb-2">
+      <h4 className="font-semibold text-lg text-foreground">{title}</h4>
+      {isUpdating && <span className="text-xs text-gray-500">Updating price...</span>}
+    </div>
+    <div className="space-y-1 text-gray-700 text-sm">
+      <div className="flex justify-between"><span>Base Rental ({price.billingDays} billing days)</span><span>₹{price.baseRentalPrice.toLocaleString()}</span></div>
+      {price.appliedRules.map(rule => (
+        <div key={rule.ruleId} className={`flex justify-between ${rule.amount < 0 ? 'text-green-600' : ''}`}>
+          <span>{rule.name}</span><span>{rule.amount < 0 ? '- ' : '+ '}₹{formatAmount(Math.abs(rule.amount))}</span>
+        </div>
+      ))}
+      <div className="flex justify-between"><span>Selected Extras</span><span>₹{price.selectedExtrasPrice.toLocaleString()}</span></div>
+      {!!price.oneWayFee && <div className="flex justify-between"><span>One-way Fee</span><span>₹{formatAmount(price.oneWayFee)}</span></div>}
+      {!!price.deliveryFee && <div className="flex justify-between"><span>Doorstep Delivery</span><span>₹{formatAmount(price.deliveryFee)}</span></div>}
+      {!!price.collectionFee && <div className="flex justify-between"><span>Doorstep Collection</span><span>₹{formatAmount(price.collectionFee)}</span></div>}
+      <div className="flex justify-between font-semibold"><span>Subtotal</span><span>₹{price.subtotal.toLocaleString()}</span></div>
+      {price.discountAmount > 0 && (
+        <div className="flex justify-between text-green-600"><span>Discount{promoCode ? ` (${promoCode})` : ''}</span><span>- ₹{formatAmount(price.discountAmount)}</span></div>
+      )}
+      <div className="flex justify-between"><span>Service Charge ({price.serviceChargePercent}%)</span><span>₹{formatAmount(price.serviceCharge)}</span></div>
+      {price.tax && (
+        <>
+          <div className="flex justify-between border-t border-blue-200 pt-1 mt-1"><span>Taxable Value</span><span>₹{formatAmount(price.tax.taxableAmount)}</span></div>
+          {price.tax.cgstPercent > 0 && <div className="flex justify-between"><span>CGST ({price.tax.cgstPercent}%)</span><span>₹{formatAmount(price.tax.cgstAmount)}</span></div>}
+          {price.tax.sgstPercent > 0 && <div className="flex justify-between"><span>SGST ({price.tax.sgstPercent}%)</span><span>₹{formatAmount(price.tax.sgstAmount)}</span></div>}
+          {price.tax.igstPercent > 0 && <div className="flex justify-between"><span>IGST ({price.tax.igstPercent}%)</span><span>₹{formatAmount(price.tax.igstAmount)}</span></div>}
+        </>
+      )}
+      <div className="flex justify-between font-bold text-base border-t border-blue-200 pt-2 mt-2"><span>Grand Total</span><span>₹{formatAmount(price.totalAmount)}</span></div>
+      {!!price.depositAmount && (
+        <div className="flex justify-between"><span>Refundable Security Deposit <span className="text-xs text-gray-500">(paid now, returned after the rental)</span></span><span>₹{formatAmount(price.depositAmount)}</span></div>
+      )}
+    </div>
+  </div>
+);
+
+export default PriceSummary;
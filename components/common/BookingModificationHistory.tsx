@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { fetchBookingModifications } from '../../lib/bookingService';
+import type { BookingModification } from '../../types';
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+const describeSettlement = (modification: BookingModification) => {
+  const difference = Math.abs(modification.price_difference).toLocaleString();
+  switch (modification.settlement) {
+    case 'payment':
+      return `₹${difference} more, paid`;
+    case 'refund':
+      return `₹${difference} less, refunded`;
+    case 'credit':
+      return modification.price_difference < 0 ? `₹${difference} less, kept as credit` : `₹${difference} more, paid with credit`;
+    default:
+      return 'No price change';
+  }
+};
+
+// Toggles a booking's modification history, one entry per applied version, oldest first. Fetched on first open.
+const BookingModificationHistory: React.FC<{ bookingId: string }> = ({ bookingId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [modifications, setModifications] = useState<BookingModification[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (opening) {
+      const { modifications: data, error: fetchError } = await fetchBookingModifications(bookingId);
+      setModifications(data.filter(m => m.status === 'applied'));
+      setError(fetchError);
+    }
+  };
+
+  const renderList = () => {
+    if (error) return <p className="text-red-600">{error}</p>;
+    if (!modifications) return <p className="text-gray-500">Loading changes...</p>;
+    if (modifications.length === 0) return <p className="text-gray-500">No changes recorded.</p>;
+
+    return modifications.map(modification => (
+      <div key={modification.id} className="py-1">
+        <div className="flex justify-between gap-3">
+          <span className="font-semibold">Version {modification.version}</span>
+          <span className="text-gray-500 whitespace-nowrap">{formatDateTime(modification.applied_at || modification.created_at)}</span>
+        </div>
+        <p className="text-gray-500 whitespace-normal">
+          {formatDateTime(modification.previous_start_datetime)} – {formatDateTime(modification.previous_end_datetime)}
+          {' → '}
+          {formatDateTime(modification.new_start_datetime)} – {formatDateTime(modification.new_end_datetime)}
+          {modification.new_car_id !== modification.previous_car_id && <> (car changed)</>}
+        </p>
+        <p className="text-gray-500 whitespace-normal">
+          {describeSettlement(modification)}
+          {modification.reason && <> · {modification.reason}</>}
+        </p>
+      </div>
+    ));
+  };
+
+  return (
+    <div className="text-sm">
+      <button onClick={handleToggle} className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition">
+        {isOpen ? 'Hide Changes' : 'Changes'}
+      </button>
+      {isOpen && <div className="mt-2 p-2 border rounded bg-gray-50 text-left min-w-[16rem]">{renderList()}</div>}
+    </div>
+  );
+};
+
+export default BookingModificationHistory;
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { fetchBookingStatusHistory } from '../../lib/bookingService';
+import { BOOKING_STATUS_LABELS, BOOKING_TRANSITIONS } from '../../lib/bookingLifecycle';
+import type { BookingStatusChange } from '../../types';
+
+const describeChange = (change: BookingStatusChange) => {
+  if (!change.from_status) return 'Booking created.';
+  const transition = BOOKING_TRANSITIONS.find(t => t.from === change.from_status && t.to === change.to_status);
+  return transition?.description || '';
+};
+
+// Toggles a booking's status audit log, oldest change first. The log is fetched on first open.
+const BookingStatusHistory: React.FC<{ bookingId: string }> = ({ bookingId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [history, setHistory] = useState<BookingStatusChange[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (opening) {
+      const { history: data, error: fetchError } = await fetchBookingStatusHistory(bookingId);
+      setHistory(data);
+      setError(fetchError);
+    }
+  };
+
+  const renderList = () => {
+    if (error) return <p className="text-red-600">{error}</p>;
+    if (!history) return <p className="text-gray-500">Loading history...</p>;
+    if (history.length === 0) return <p className="text-gray-500">No status changes recorded.</p>;
+
+    return history.map(change => (
+      <div key={change.id} className="py-1">
+        <div className="flex justify-between gap-3">
+          <span className="font-semibold">
+            {change.from_status ? `${BOOKING_STATUS_LABELS[change.from_status]} → ` : ''}{BOOKING_STATUS_LABELS[change.to_status]}
+          </span>
+          <span className="text-gray-500 whitespace-nowrap">
+            {new Date(change.created_at).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+          </span>
+        </div>
+        <p className="text-gray-500 whitespace-normal">
+          {describeChange(change)}
+          {change.reason && <> {change.reason}</>}
+          {!change.changed_by && change.from_status && <> (automatic)</>}
+        </p>
+      </div>
+    ));
+  };
+
+  return (
+    <div className="text-sm">
+      <button onClick={handleToggle} className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition">
+        {isOpen ? 'Hide History' : 'History'}
+      </button>
+      {isOpen && <div className="mt-2 p-2 border rounded bg-gray-50 text-left min-w-[16rem]">{renderList()}</div>}
+    </div>
+  );
+};
+
+export default BookingStatusHistory;
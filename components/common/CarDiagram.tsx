@@ -0,0 +1,92 @@
+import React from 'react';
+import type { DamageMark, DamageType } from '../../types';
+
+// The zones of the top-down car diagram, front at the top. The server accepts damage marks on these areas only
+// (see admin_save_inspection). Wheels and interior have no shape and are offered as buttons.
+export const CAR_DIAGRAM_AREAS: { id: string; label: string; shape?: { x: number; y: number; width: number; height: number } }[] = [
+  { id: 'front_bumper', label: 'Front bumper', shape: { x: 50, y: 10, width: 100, height: 20 } },
+  { id: 'bonnet', label: 'Bonnet', shape: { x: 50, y: 30, width: 100, height: 70 } },
+  { id: 'windscreen', label: 'Windscreen', shape: { x: 50, y: 100, width: 100, height: 30 } },
+  { id: 'roof', label: 'Roof', shape: { x: 50, y: 130, width: 100, height: 110 } },
+  { id: 'rear_window', label: 'Rear window', shape: { x: 50, y: 240, width: 100, height: 25 } },
+  { id: 'boot', label: 'Boot', shape: { x: 50, y: 265, width: 100, height: 55 } },
+  { id: 'rear_bumper', label: 'Rear bumper', shape: { x: 50, y: 320, width: 100, height: 20 } },
+  { id: 'left_front_wing', label: 'Left front wing', shape: { x: 20, y: 30, width: 30, height: 70 } },
+  { id: 'left_front_door', label: 'Left front door', shape: { x: 20, y: 100, width: 30, height: 75 } },
+  { id: 'left_rear_door', label: 'Left rear door', shape: { x: 20, y: 175, width: 30, height: 75 } },
+  { id: 'left_rear_quarter', label: 'Left rear quarter', shape: { x: 20, y: 250, width: 30, height: 70 } },
+  { id: 'right_front_wing', label: 'Right front wing', shape: { x: 150, y: 30, width: 30, height: 70 } },
+  { id: 'right_front_door', label: 'Right front door', shape: { x: 150, y: 100, width: 30, height: 75 } },
+  { id: 'right_rear_door', label: 'Right rear door', shape: { x: 150, y: 175, width: 30, height: 75 } },
+  { id: 'right_rear_quarter', label: 'Right rear quarter', shape: { x: 150, y: 250, width: 30, height: 70 } },
+  { id: 'wheels', label: 'Wheels and tyres' },
+  { id: 'interior', label: 'Interior' },
+];
+
+export const DAMAGE_TYPE_LABELS: Record<DamageType, string> = {
+  scratch: 'Scratch',
+  dent: 'Dent',
+  crack: 'Crack',
+  chip: 'Chip',
+  missing: 'Missing part',
+};
+
+export const getAreaLabel = (areaId: string) => CAR_DIAGRAM_AREAS.find(a => a.id === areaId)?.label || areaId;
+
+interface CarDiagramProps {
+  marks: DamageMark[];
+  // Marks to show as new damage, e.g. found at return but not at pickup.
+  highlighted?: DamageMark[];
+  selectedArea?: string | null;
+  // Makes the areas clickable, to add marks.
+  onAreaClick?: (areaId: string) => void;
+}
+
+// A top-down car with its damaged areas shaded: yellow for recorded damage, red for new damage.
+const CarDiagram: React.FC<CarDiagramProps> = ({ marks, highlighted = [], selectedArea, onAreaClick }) => {
+  const fillFor = (areaId: string) => {
+    if (highlighted.some(m => m.area === areaId)) return '#fca5a5';
+    if (marks.some(m => m.area === areaId)) return '#fde68a';
+    return '#f9fafb';
+  };
+
+  const buttonClass = (areaId: string) =>
+    `px-2 py-1 text-xs rounded border ${selectedArea === areaId ? 'border-primary ring-1 ring-primary' : 'border-gray-300'}`;
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <svg viewBox="0 0 200 350" className="w-40 h-auto" role="img" aria-label="Car diagram, front at the top">
+        {CAR_DIAGRAM_AREAS.filter(area => area.shape).map(area => (
+          <rect
+            key={area.id}
+            {...area.shape}
+            rx={4}
+            fill={fillFor(area.id)}
+            stroke={selectedArea === area.id ? '#2563eb' : '#9ca3af'}
+            strokeWidth={selectedArea === area.id ? 3 : 1}
+            onClick={onAreaClick ? () => onAreaClick(area.id) : undefined}
+            className={onAreaClick ? 'cursor-pointer hover:opacity-75' : undefined}
+          >
+            <title>{area.label}</title>
+          </rect>
+        ))}
+      </svg>
+      <div className="flex gap-2">
+        {CAR_DIAGRAM_AREAS.filter(area => !area.shape).map(area => (
+          <button
+            key={area.id}
+            type="button"
+            disabled={!onAreaClick}
+            onClick={() => onAreaClick?.(area.id)}
+            className={buttonClass(area.id)}
+            style={{ backgroundColor: fillFor(area.id) }}
+          >
+            {area.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CarDiagram;
@@ -0,0 +1,68 @@
+import React from 'react';
+import CarDiagram, { DAMAGE_TYPE_LABELS, getAreaLabel } from './CarDiagram';
+import type { DamageMark, VehicleInspection } from '../../types';
+
+interface InspectionReportProps {
+  inspection: VehicleInspection;
+  // Marks to flag as new damage, e.g. on a return report compared with the pickup report.
+  newDamage?: DamageMark[];
+}
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+// A saved condition report, read-only: readings, damage on the car diagram, notes and photos.
+const InspectionReport: React.FC<InspectionReportProps> = ({ inspection, newDamage = [] }) => (
+  <div className="space-y-4 text-sm">
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <p className="text-gray-500">Odometer</p>
+        <p className="font-semibold">{inspection.odometerKm.toLocaleString()} km</p>
+      </div>
+      <div>
+        <p className="text-gray-500">Fuel / battery</p>
+        <p className="font-semibold">{inspection.energyLevelPercent}%</p>
+      </div>
+    </div>
+
+    <div className="flex flex-col md:flex-row gap-4">
+      <CarDiagram marks={inspection.damages} highlighted={newDamage} />
+      <div className="flex-1">
+        <p className="text-gray-500 mb-1">Damage</p>
+        {inspection.damages.length === 0 ? (
+          <p>No damage recorded.</p>
+        ) : (
+          <ul className="space-y-1">
+            {inspection.damages.map((mark, index) => {
+              const isNew = newDamage.includes(mark);
+              return (
+                <li key={index} className={isNew ? 'text-red-700 font-semibold' : ''}>
+                  {getAreaLabel(mark.area)}: {DAMAGE_TYPE_LABELS[mark.type]}
+                  {mark.note && <span className="text-gray-500 font-normal"> · {mark.note}</span>}
+                  {isNew && <span className="ml-1 text-xs">(new)</span>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {inspection.notes && <p className="mt-3 whitespace-pre-line text-gray-700">{inspection.notes}</p>}
+      </div>
+    </div>
+
+    {inspection.photoUrls.length > 0 && (
+      <div className="grid grid-cols-3 md:grid-cols-4 gap-2">
+        {inspection.photoUrls.map((url, index) => (
+          <a key={inspection.photoPaths[index]} href={url} target="_blank" rel="noopener noreferrer">
+            <img src={url} alt={`Inspection photo ${index + 1}`} className="w-full h-24 object-cover rounded border" />
+          </a>
+        ))}
+      </div>
+    )}
+
+    <p className="text-xs text-gray-500">
+      Recorded {formatDateTime(inspection.inspectedAt)}
+      {inspection.acknowledgedAt ? ` · Acknowledged by the customer ${formatDateTime(inspection.acknowledgedAt)}` : ' · Not yet acknowledged by the customer'}
+    </p>
+  </div>
+);
+
+export default InspectionReport;
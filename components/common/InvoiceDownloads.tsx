@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { fetchBookingInvoices, downloadInvoice } from '../../lib/invoiceService';
+import type { Invoice } from '../../types';
+
+// Toggles a list of a booking's invoices, each downloadable as HTML or PDF. Invoices are fetched on first open.
+const InvoiceDownloads: React.FC<{ bookingId: string }> = ({ bookingId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [invoices, setInvoices] = useState<Invoice[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (opening) {
+      const { invoices: data, error: fetchError } = await fetchBookingInvoices(bookingId);
+      setInvoices(data);
+      setError(fetchError);
+    }
+  };
+
+  const renderList = () => {
+    if (error) return <p className="text-red-600">{error}</p>;
+    if (!invoices) return <p className="text-gray-500">Loading invoices...</p>;
+    if (invoices.length === 0) return <p className="text-gray-500">No invoice issued yet. Invoices are issued once a booking is confirmed.</p>;
+
+    return invoices.map(invoice => (
+      <div key={invoice.id} className="flex justify-between items-center gap-3 py-1">
+        <div>
+          <span className="font-mono font-semibold">{invoice.invoice_number}</span>
+          <span className="text-gray-500 ml-2">{invoice.charge_id ? 'Settlement' : invoice.extension_id ? 'Extension' : 'Booking'} · ₹{invoice.total_amount.toLocaleString()}</span>
+        </div>
+        <div className="space-x-2 whitespace-nowrap">
+          <button onClick={() => downloadInvoice(invoice, 'pdf')} className="text-primary hover:text-primary-hover font-medium">PDF</button>
+          <button onClick={() => downloadInvoice(invoice, 'html')} className="text-primary hover:text-primary-hover font-medium">HTML</button>
+        </div>
+      </div>
+    ));
+  };
+
+  return (
+    <div className="text-sm">
+      <button onClick={handleToggle} className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition">
+        {isOpen ? 'Hide Invoices' : 'Invoices'}
+      </button>
+      {isOpen && <div className="mt-2 p-2 border rounded bg-gray-50 text-left">{renderList()}</div>}
+    </div>
+  );
+};
+
+export default InvoiceDownloads;
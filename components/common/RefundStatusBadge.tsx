@@ -0,0 +1,24 @@
+import React from 'react';
+import type { RefundStatus } from '../../types';
+
+const STYLES: Record<RefundStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  processing: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const LABELS: Record<RefundStatus, string> = {
+  pending: 'Refund Pending',
+  processing: 'Refund Processing',
+  succeeded: 'Refunded',
+  failed: 'Refund Failed',
+};
+
+const RefundStatusBadge: React.FC<{ status: RefundStatus }> = ({ status }) => (
+  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full whitespace-nowrap ${STYLES[status]}`}>
+    {LABELS[status]}
+  </span>
+);
+
+export default RefundStatusBadge;
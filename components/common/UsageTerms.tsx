@@ -0,0 +1,52 @@
+import React from 'react';
+import type { UsageTerms as UsageTermsData } from '../../types';
+
+export const describeMileage = (terms: UsageTermsData): string => {
+  if (terms.kmPerDay === null) return 'Unlimited km';
+  const allowance = `${terms.kmPerDay.toLocaleString()} km/day included`;
+  return terms.excessKmRate > 0 ? `${allowance}, then ₹${terms.excessKmRate.toLocaleString()}/km` : allowance;
+};
+
+export const describeFuelPolicy = (terms: UsageTermsData): string => {
+  if (terms.fuelPolicy === 'included') return 'No refuel charge';
+  const charges = [
+    terms.refuelRatePerPercent > 0 && `₹${terms.refuelRatePerPercent.toLocaleString()} per 1% short`,
+    terms.refuelServiceFee > 0 && `a ₹${terms.refuelServiceFee.toLocaleString()} refuelling fee`,
+  ].filter(Boolean);
+  return charges.length > 0
+    ? `Full to full: return it with as much fuel or charge as at pickup, or pay ${charges.join(' plus ')}`
+    : 'Full to full: return it with as much fuel or charge as at pickup';
+};
+
+export const describeDeposit = (terms: UsageTermsData): string =>
+  terms.depositAmount ? `₹${terms.depositAmount.toLocaleString()} refundable security deposit` : 'No security deposit';
+
+interface UsageTermsProps {
+  terms: UsageTermsData;
+  // One line for cards; the full terms otherwise.
+  compact?: boolean;
+}
+
+// The mileage allowance, fuel policy and security deposit of a rental, so customers know what is settled at return.
+const UsageTerms: React.FC<UsageTermsProps> = ({ terms, compact = false }) => {
+  if (compact) {
+    return (
+      <p className="text-xs text-gray-500">
+        {describeMileage(terms)} · {terms.fuelPolicy === 'full_to_full' ? 'Full-to-full fuel' : 'No refuel charge'}
+        {!!terms.depositAmount && ` · ₹${terms.depositAmount.toLocaleString()} deposit`}
+      </p>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 p-3 rounded-lg text-sm space-y-1">
+      <p className="font-semibold text-gray-800">Mileage, fuel and deposit</p>
+      <p><span className="text-gray-500">Mileage:</span> {describeMileage(terms)}</p>
+      <p><span className="text-gray-500">Fuel:</span> {describeFuelPolicy(terms)}</p>
+      <p><span className="text-gray-500">Deposit:</span> {describeDeposit(terms)}</p>
+      <p className="text-xs text-gray-500">Excess km and refuelling are worked out from the odometer and fuel readings at pickup and return, and billed after the rental. The deposit is paid with your booking and refunded after the return, less any charges still unpaid.</p>
+    </div>
+  );
+};
+
+export default UsageTerms;
@@ -2,10 +2,25 @@ import React, { useState, useEffect, Suspense, lazy, useCallback } from 'react';
 import { fetchUserBookings } from '../../lib/userService';
 import type { BookingDetail } from '../../types';
 import CarCard from '../CarCard';
+import InvoiceDownloads from '../common/InvoiceDownloads';
+import RefundStatusBadge from '../common/RefundStatusBadge';
+import BookingModificationHistory from '../common/BookingModificationHistory';
+import { describeMileage } from '../common/UsageTerms';
+import { DEPOSIT_STATUS_LABELS } from '../../lib/depositService';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabaseClient';
+import { createBalancePayment } from '../../lib/bookingService';
+import { createChargePayment } from '../../lib/inspectionService';
+import { canCancelBooking, canExtendBooking, canModifyBooking, canPayBalance, getBalanceDue, hasInvoices } from '../../lib/bookingLifecycle';
+import { startGatewayPayment } from '../../lib/paymentGateway';
+import { usePaymentGateways } from '../../lib/usePaymentGateways';
+import { parseError } from '../../lib/errorUtils';
+import { useToast } from '../../contexts/ToastContext';
 
 const ExtendBookingModal = lazy(() => import('./ExtendBookingModal'));
+const CancelBookingModal = lazy(() => import('./CancelBookingModal'));
+const ModifyBookingModal = lazy(() => import('./ModifyBookingModal'));
+const InspectionReportsModal = lazy(() => import('./InspectionReportsModal'));
 
 // Placeholder for bookings where the car has been deleted
 const DeletedCarCard: React.FC = () => (
@@ -22,8 +37,16 @@ const BookingHistory: React.FC = () => {
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isExtendModalOpen, setIsExtendModalOpen] = useState(false);
+    const [isCancelModalOpen, setIsCancelModalOpen] = useState(false);
+    const [isModifyModalOpen, setIsModifyModalOpen] = useState(false);
     const [selectedBooking, setSelectedBooking] = useState<BookingDetail | null>(null);
+    const [payingBalanceId, setPayingBalanceId] = useState<string | null>(null);
+    const [payingChargeId, setPayingChargeId] = useState<string | null>(null);
+    const [reportsBooking, setReportsBooking] = useState<BookingDetail | null>(null);
     const { user } = useAuth();
+    const { addToast } = useToast();
+    // Balance payments go through the default gateway.
+    const { gateways } = usePaymentGateways();
 
     const loadBookings = useCallback(async () => {
         // Don't show loader on subsequent re-fetches from real-time updates
@@ -48,6 +71,21 @@ const BookingHistory: React.FC = () => {
                 { event: '*', schema: 'public', table: 'bookings', filter: `user_id=eq.${user.id}` },
                 () => loadBookings()
             )
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'refunds', filter: `user_id=eq.${user.id}` },
+                () => loadBookings()
+            )
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'booking_charges', filter: `user_id=eq.${user.id}` },
+                () => loadBookings()
+            )
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'booking_deposits', filter: `user_id=eq.${user.id}` },
+                () => loadBookings()
+            )
             .on(
                 'postgres_changes',
                 { event: '*', schema: 'public', table: 'cars' },
@@ -65,8 +103,78 @@ const BookingHistory: React.FC = () => {
         setIsExtendModalOpen(true);
     };
     
+    const handleCancelClick = (booking: BookingDetail) => {
+        setSelectedBooking(booking);
+        setIsCancelModalOpen(true);
+    };
+
+    const handleModifyClick = (booking: BookingDetail) => {
+        setSelectedBooking(booking);
+        setIsModifyModalOpen(true);
+    };
+    
+    const handlePayBalance = async (booking: BookingDetail) => {
+        const gateway = gateways[0];
+        if (!gateway) {
+            addToast('Online payments are currently unavailable.', 'error');
+            return;
+        }
+        setPayingBalanceId(booking.id);
+        const { data, error: apiError } = await createBalancePayment(booking.id, gateway.id);
+        if (apiError || !data) {
+            addToast(apiError || 'Failed to start the balance payment.', 'error');
+            setPayingBalanceId(null);
+            return;
+        }
+
+        try {
+            await startGatewayPayment(gateway, {
+                paymentId: data.paymentId,
+                amount: data.amount,
+                currency: 'INR',
+                description: `Balance for booking #${booking.id.split('-')[0].toUpperCase()}`,
+                returnPath: '#/payment/callback?balance=1',
+                customer: { email: user?.email, phone: booking.customer_phone },
+            });
+        } catch (err: unknown) {
+            addToast(parseError(err), 'error');
+            setPayingBalanceId(null);
+        }
+    };
+
+    const handlePayCharge = async (booking: BookingDetail, chargeId: string) => {
+        const gateway = gateways[0];
+        if (!gateway) {
+            addToast('Online payments are currently unavailable.', 'error');
+            return;
+        }
+        setPayingChargeId(chargeId);
+        const { data, error: apiError } = await createChargePayment(chargeId, gateway.id);
+        if (apiError || !data) {
+            addToast(apiError || 'Failed to start the payment.', 'error');
+            setPayingChargeId(null);
+            return;
+        }
+
+        try {
+            await startGatewayPayment(gateway, {
+                paymentId: data.paymentId,
+                amount: data.amount,
+                currency: 'INR',
+                description: `Charge on booking #${booking.id.split('-')[0].toUpperCase()}`,
+                returnPath: `#/payment/callback?charge_id=${chargeId}`,
+                customer: { email: user?.email, phone: booking.customer_phone },
+            });
+        } catch (err: unknown) {
+            addToast(parseError(err), 'error');
+            setPayingChargeId(null);
+        }
+    };
+
     const handleModalClose = () => {
         setIsExtendModalOpen(false);
+        setIsCancelModalOpen(false);
+        setIsModifyModalOpen(false);
         setSelectedBooking(null);
         // Data will refresh via real-time subscription, no need for manual call
     };
@@ -130,7 +238,14 @@ const BookingHistory: React.FC = () => {
                 ) : (
                     <div className="space-y-6">
                         {bookings.map(booking => {
-                           const isExtendable = booking.status === 'confirmed' && new Date(booking.end_datetime) > new Date();
+                           const isExtendable = canExtendBooking(booking);
+                           const isCancellable = canCancelBooking(booking);
+                           // Moving to another car needs the current car's details, so bookings of deleted cars cannot be modified.
+                           const isModifiable = canModifyBooking(booking) && !!booking.cars;
+                           const balanceDue = getBalanceDue(booking);
+                           const isBalancePayable = balanceDue > 0 && canPayBalance(booking);
+                           const dueCharges = (booking.charges || []).filter(c => c.status === 'due');
+                           const unacknowledgedReports = (booking.inspections || []).filter(i => !i.acknowledged_at).length;
                            return (
                                 <div key={booking.id} className="bg-white p-4 border rounded-lg hover:shadow-sm transition-shadow flex flex-col md:flex-row gap-6">
                                     <div className="md:w-2/5 flex-shrink-0">
@@ -150,20 +265,109 @@ const BookingHistory: React.FC = () => {
                                         </div>
                                         <div className="text-sm mt-2 pt-2 border-t flex-grow space-y-1">
                                             <p><strong>Booked on:</strong> {new Date(booking.created_at).toLocaleDateString()}</p>
-                                            <p><strong>From:</strong> {formatDate(booking.start_datetime)}</p>
-                                            <p><strong>To:</strong> {formatDate(booking.end_datetime)}</p>
+                                            <p><strong>From:</strong> {formatDate(booking.start_datetime)}{booking.pickup_branch_name && <> at {booking.pickup_branch_name}</>}</p>
+                                            <p><strong>To:</strong> {formatDate(booking.end_datetime)}{booking.return_branch_name && <> at {booking.return_branch_name}</>}</p>
+                                            {booking.delivery_address && <p><strong>Delivered to:</strong> {booking.delivery_address}</p>}
+                                            {booking.collection_address && <p><strong>Collected from:</strong> {booking.collection_address}</p>}
+                                            {booking.usage_terms && <p><strong>Mileage:</strong> {describeMileage(booking.usage_terms)}</p>}
+                                            {booking.deposit && (
+                                                <div>
+                                                    <p>
+                                                        <strong>Security deposit:</strong> ₹{booking.deposit.amount.toLocaleString()} · {DEPOSIT_STATUS_LABELS[booking.deposit.status]}
+                                                        {booking.deposit.settled_at && booking.deposit.released_amount > 0 && <> · ₹{booking.deposit.released_amount.toLocaleString()} refunded</>}
+                                                    </p>
+                                                    {booking.deposit.deductions.length > 0 && (
+                                                        <ul className="ml-4 text-xs text-gray-600 list-disc list-inside">
+                                                            {booking.deposit.deductions.map(deduction => (
+                                                                <li key={deduction.chargeId}>Deducted: {deduction.description} · ₹{deduction.amount.toLocaleString()}</li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                    {dueCharges.length > 0 && !booking.deposit.settled_at && (
+                                                        <p className="text-xs text-gray-500">Charges still unpaid when the deposit is settled are deducted from it.</p>
+                                                    )}
+                                                </div>
+                                            )}
+                                            {booking.status === 'hold' && booking.hold_expires_at && (
+                                                <p className="text-yellow-800"><strong>Hold expires:</strong> {formatDate(booking.hold_expires_at)} · Balance due ₹{balanceDue.toLocaleString()}</p>
+                                            )}
                                             {booking.discount_amount && booking.discount_amount > 0 && (
                                                 <p className="text-green-600"><strong>Discount:</strong> -₹{Number(booking.discount_amount).toLocaleString()}</p>
                                             )}
+                                            {booking.cancelled_at && (
+                                                <p className="text-red-700">
+                                                    <strong>Cancelled:</strong> {formatDate(booking.cancelled_at)} · Refund ₹{Number(booking.refund_amount || 0).toLocaleString()}
+                                                </p>
+                                            )}
+                                            {booking.refunds && booking.refunds.map(refund => (
+                                                <p key={refund.id} className="flex items-center gap-2">
+                                                    <strong>Refund:</strong> ₹{refund.amount.toLocaleString()}
+                                                    <RefundStatusBadge status={refund.status} />
+                                                    {refund.processed_at && <span className="text-xs text-gray-500">on {formatDate(refund.processed_at)}</span>}
+                                                </p>
+                                            ))}
+                                            {dueCharges.map(charge => (
+                                                <div key={charge.id} className="text-red-700">
+                                                    <p className="flex items-center gap-2">
+                                                        <strong>Charge due:</strong> ₹{charge.amount.toLocaleString()} · {charge.description}
+                                                        <button onClick={() => handlePayCharge(booking, charge.id)} disabled={payingChargeId !== null} className="px-2 py-0.5 text-xs bg-primary text-white rounded hover:bg-primary-hover transition disabled:opacity-50">
+                                                            {payingChargeId === charge.id ? 'Processing...' : 'Pay now'}
+                                                        </button>
+                                                    </p>
+                                                    {charge.line_items && (
+                                                        <ul className="ml-4 text-xs text-gray-600 list-disc list-inside">
+                                                            {charge.line_items.map((item, index) => (
+                                                                <li key={index}>{item.description}: ₹{item.amount.toLocaleString()}</li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                </div>
+                                            ))}
                                         </div>
                                         <div className="flex justify-between items-center mt-auto pt-2 border-t">
-                                            <p className="text-base font-semibold">Total Paid: ₹{Number(booking.total_amount).toLocaleString()}</p>
-                                            {isExtendable && (
-                                                <button onClick={() => handleExtendClick(booking)} className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition">
-                                                    Extend Booking
-                                                </button>
+                                            {booking.status === 'hold' ? (
+                                                <p className="text-base font-semibold">Paid: ₹{(booking.amount_paid || 0).toLocaleString()} of ₹{Number(booking.total_amount).toLocaleString()}</p>
+                                            ) : (
+                                                <p className="text-base font-semibold">Total Paid: ₹{Number(booking.total_amount).toLocaleString()}</p>
                                             )}
+                                            <div className="flex gap-2">
+                                                {isBalancePayable && (
+                                                    <button onClick={() => handlePayBalance(booking)} disabled={payingBalanceId !== null} className="px-3 py-1 text-sm bg-primary text-white rounded hover:bg-primary-hover transition disabled:opacity-50">
+                                                        {payingBalanceId === booking.id ? 'Processing...' : `Pay remaining ₹${balanceDue.toLocaleString()}`}
+                                                    </button>
+                                                )}
+                                                {booking.inspections && booking.inspections.length > 0 && (
+                                                    <button onClick={() => setReportsBooking(booking)} className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition">
+                                                        Condition Reports{unacknowledgedReports > 0 && ` (${unacknowledgedReports} to review)`}
+                                                    </button>
+                                                )}
+                                                {isExtendable && (
+                                                    <button onClick={() => handleExtendClick(booking)} className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition">
+                                                        Extend Booking
+                                                    </button>
+                                                )}
+                                                {isModifiable && (
+                                                    <button onClick={() => handleModifyClick(booking)} className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition">
+                                                        Modify Booking
+                                                    </button>
+                                                )}
+                                                {isCancellable && (
+                                                    <button onClick={() => handleCancelClick(booking)} className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200 transition">
+                                                        Cancel Booking
+                                                    </button>
+                                                )}
+                                            </div>
                                         </div>
+                                        {hasInvoices(booking) && (
+                                            <div className="pt-2">
+                                                <InvoiceDownloads bookingId={booking.id} />
+                                            </div>
+                                        )}
+                                        {(booking.version || 1) > 1 && (
+                                            <div className="pt-2">
+                                                <BookingModificationHistory bookingId={booking.id} />
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                            );
@@ -180,6 +384,30 @@ const BookingHistory: React.FC = () => {
                         booking={selectedBooking}
                     />
                 )}
+                {isCancelModalOpen && selectedBooking && (
+                    <CancelBookingModal
+                        isOpen={isCancelModalOpen}
+                        onClose={handleModalClose}
+                        booking={selectedBooking}
+                    />
+                )}
+                {isModifyModalOpen && selectedBooking && (
+                    <ModifyBookingModal
+                        isOpen={isModifyModalOpen}
+                        onClose={handleModalClose}
+                        booking={selectedBooking}
+                    />
+                )}
+                {reportsBooking && (
+                    <InspectionReportsModal
+                        booking={reportsBooking}
+                        onClose={() => {
+                            setReportsBooking(null);
+                            // Acknowledging a report does not touch the booking, so refresh the flags here.
+                            loadBookings();
+                        }}
+                    />
+                )}
             </Suspense>
         </>
     );
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import type { BookingDetail, CancellationPolicyTier, CancellationPreview } from '../../types';
+import { previewBookingCancellation, cancelBooking } from '../../lib/bookingService';
+import { fetchCancellationPolicy } from '../../lib/pricingService';
+import { useToast } from '../../contexts/ToastContext';
+
+interface CancelBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: BookingDetail;
+}
+
+const formatAmount = (amount: number) => amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const CancelBookingModal: React.FC<CancelBookingModalProps> = ({ isOpen, onClose, booking }) => {
+  const [preview, setPreview] = useState<CancellationPreview | null>(null);
+  const [tiers, setTiers] = useState<CancellationPolicyTier[]>([]);
+  const [reason, setReason] = useState('');
+  const [isLoadingPreview, setIsLoadingPreview] = useState(true);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadPreview = async () => {
+      setIsLoadingPreview(true);
+      const [{ preview: newPreview, error: previewError }, { tiers: policyTiers }] = await Promise.all([
+        previewBookingCancellation(booking.id),
+        fetchCancellationPolicy(),
+      ]);
+      if (cancelled) return;
+      setPreview(newPreview);
+      setTiers(policyTiers);
+      setError(previewError);
+      setIsLoadingPreview(false);
+    };
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id]);
+
+  const handleConfirmCancel = async () => {
+    setIsCancelling(true);
+    setError(null);
+
+    const { refund, error: cancelError } = await cancelBooking(booking.id, reason);
+
+    if (cancelError || !refund) {
+      setError(cancelError || 'Failed to cancel the booking.');
+      setIsCancelling(false);
+      return;
+    }
+
+    addToast(
+      refund.refundAmount + refund.depositAmount > 0
+        ? `Booking cancelled. A refund of ₹${formatAmount(refund.refundAmount + refund.depositAmount)} will be processed.`
+        : 'Booking cancelled.',
+      'success'
+    );
+    onClose(); // The booking list refreshes via its real-time subscription
+  };
+
+  if (!isOpen) return null;
+
+  const isAfterPickup = preview !== null && preview.hoursBeforePickup < 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-lg mx-auto p-6 transform transition-all duration-300 flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-foreground">Cancel Booking</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+
+        {error && <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm mb-4">{error}</p>}
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {booking.cars?.title || booking.car_title || 'Booking'} · #{booking.id.split('-')[0].toUpperCase()}<br />
+            Pickup: <strong className="text-foreground">{new Date(booking.start_datetime).toLocaleString()}</strong>
+          </p>
+
+          {isLoadingPreview && <p className="text-sm text-gray-500">Calculating your refund...</p>}
+
+          {preview && (
+            <div className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Amount paid (incl. extensions)</span>
+                <span>₹{formatAmount(preview.paidAmount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Refund under policy</span>
+                <span>{preview.refundPercent}%</span>
+              </div>
+              {preview.depositAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Security deposit (returned in full)</span>
+                  <span>₹{formatAmount(preview.depositAmount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-bold text-base border-t pt-2">
+                <span>Refund</span>
+                <span className="text-primary">₹{formatAmount(preview.refundAmount + preview.depositAmount)}</span>
+              </div>
+              {isAfterPickup && <p className="text-xs text-red-600">Your rental has already started, so cancelling now is not refunded.</p>}
+            </div>
+          )}
+
+          {tiers.length > 0 && (
+            <div className="text-xs text-gray-500">
+              <p className="font-semibold mb-1">Cancellation policy</p>
+              <ul className="list-disc list-inside">
+                {tiers.map(tier => (
+                  <li key={tier.id}>
+                    {tier.min_hours_before_pickup > 0 ? `${tier.min_hours_before_pickup}+ hours before pickup` : 'Before pickup'}: {tier.refund_percent}% refund
+                  </li>
+                ))}
+                <li>After pickup: no refund</li>
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="cancellationReason" className="block text-sm font-medium text-gray-700 mb-1">Reason (optional)</label>
+            <textarea id="cancellationReason" value={reason} onChange={e => setReason(e.target.value)} rows={2} maxLength={500} className="w-full p-2 border border-gray-300 rounded-lg" />
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition">
+            Keep Booking
+          </button>
+          <button
+            onClick={handleConfirmCancel}
+            disabled={isLoadingPreview || isCancelling || !preview}
+            className="px-6 py-2 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700 transition disabled:bg-opacity-50"
+          >
+            {isCancelling ? 'Cancelling...' : 'Confirm Cancellation'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelBookingModal;
@@ -1,6 +1,11 @@
-import React, { useState, useMemo } from 'react';
-import type { BookingDetail } from '../../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import type { BookingDetail, BookingPriceDetails } from '../../types';
 import { createExtensionIntent } from '../../lib/bookingService';
+import { calculateExtensionPrice } from '../../lib/bookingUtils';
+import PriceSummary from '../booking/PriceSummary';
+import { startGatewayPayment } from '../../lib/paymentGateway';
+import { usePaymentGateways } from '../../lib/usePaymentGateways';
+import { parseError } from '../../lib/errorUtils';
 
 interface ExtendBookingModalProps {
   isOpen: boolean;
@@ -14,6 +19,9 @@ const ExtendBookingModal: React.FC<ExtendBookingModalProps> = ({ isOpen, onClose
   const [isCustom, setIsCustom] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const { gateways, error: gatewaysError } = usePaymentGateways();
+  const [gatewayId, setGatewayId] = useState<string>('');
+  const selectedGateway = gateways.find(g => g.id === gatewayId) || gateways[0];
 
   const finalAddedHours = isCustom ? parseInt(customHours, 10) || 0 : addedHours;
 
@@ -25,11 +33,33 @@ const ExtendBookingModal: React.FC<ExtendBookingModalProps> = ({ isOpen, onClose
     return newDate;
   }, [currentEndDate, finalAddedHours]);
 
-  const extensionPrice = useMemo(() => {
-    if (!finalAddedHours || !booking.cars?.pricePerDay) return 0;
-    // Price based on a 24-hour day rate, prorated
-    return (finalAddedHours / 24) * booking.cars.pricePerDay;
-  }, [finalAddedHours, booking.cars?.pricePerDay]);
+  const [price, setPrice] = useState<BookingPriceDetails | null>(null);
+  const [priceError, setPriceError] = useState<string | null>(null);
+  const [isPricing, setIsPricing] = useState(false);
+
+  // Price the extension with the server pricing engine, debounced while a custom value is typed.
+  useEffect(() => {
+    if (!finalAddedHours) {
+      setPrice(null);
+      setPriceError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsPricing(true);
+    const timer = setTimeout(async () => {
+      const { price: newPrice, error: newError } = await calculateExtensionPrice(booking.id, finalAddedHours);
+      if (cancelled) return;
+      setPrice(newError ? null : newPrice);
+      setPriceError(newError);
+      setIsPricing(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [booking.id, finalAddedHours]);
 
   const handleCustomHoursChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = e.target.value.replace(/[^0-9]/g, '');
@@ -38,18 +68,23 @@ const ExtendBookingModal: React.FC<ExtendBookingModalProps> = ({ isOpen, onClose
   };
   
   const handleProceedToPay = async () => {
-    if (isCustom) {
-        const hours = parseInt(customHours, 10);
-        if (isNaN(hours) || hours < 12 || hours % 12 !== 0) {
-            setError('Custom extension must be a multiple of 12 hours (e.g., 12, 24, 36) and at least 12 hours.');
-            return;
-        }
+    if (!finalAddedHours) {
+        setError('Please choose how many hours to extend by.');
+        return;
+    }
+    if (priceError || !price) {
+        setError(priceError || 'Please wait while we calculate the extension price.');
+        return;
+    }
+    if (!selectedGateway) {
+        setError(gatewaysError || 'No payment method is available.');
+        return;
     }
     
     setIsLoading(true);
     setError(null);
     
-    const { data, error: apiError } = await createExtensionIntent(booking.id, finalAddedHours);
+    const { data, error: apiError } = await createExtensionIntent(booking.id, finalAddedHours, selectedGateway.id);
 
     if (apiError || !data) {
         setError(apiError || 'Failed to create extension intent. Missing data from server.');
@@ -57,18 +92,26 @@ const ExtendBookingModal: React.FC<ExtendBookingModalProps> = ({ isOpen, onClose
         return;
     }
     
-    // Simulate payment redirect
-    const { paymentId, extensionId } = data;
+    const { paymentId, extensionId, amount } = data;
     if (!paymentId || !extensionId) {
         setError('Failed to create extension. Missing required IDs from server.');
         setIsLoading(false);
         return;
     }
 
-    setTimeout(() => {
-        onClose(); // Close modal as user is "redirected"
-        window.location.hash = `#/payment/callback?payment_id=${paymentId}&extension_id=${extensionId}&status=success`;
-    }, 1500);
+    try {
+        await startGatewayPayment(selectedGateway, {
+            paymentId,
+            amount: Number(amount),
+            currency: 'INR',
+            description: `Extend booking #${booking.id.split('-')[0].toUpperCase()} by ${finalAddedHours} hours`,
+            returnPath: `#/payment/callback?extension_id=${extensionId}`,
+        });
+        onClose(); // Close modal as user is redirected
+    } catch (err: unknown) {
+        setError(parseError(err));
+        setIsLoading(false);
+    }
   };
   
   if (!isOpen) return null;
@@ -97,7 +140,7 @@ const ExtendBookingModal: React.FC<ExtendBookingModalProps> = ({ isOpen, onClose
             
             {isCustom && (
                 <div className="mt-2">
-                    <label htmlFor="customHours" className="block text-sm font-medium text-gray-700 mb-1">Custom Hours (multiple of 12)</label>
+                    <label htmlFor="customHours" className="block text-sm font-medium text-gray-700 mb-1">Custom Hours</label>
                     <input type="text" id="customHours" value={customHours} onChange={handleCustomHoursChange} placeholder="e.g., 36" className="w-full p-2 border border-gray-300 rounded-lg"/>
                 </div>
             )}
@@ -107,20 +150,32 @@ const ExtendBookingModal: React.FC<ExtendBookingModalProps> = ({ isOpen, onClose
                     <span className="font-semibold text-gray-700">New end time:</span>
                     <span className="font-bold text-primary">{newEndDate.toLocaleString()}</span>
                 </div>
-                 <div className="flex justify-between items-center mt-2 pt-2 border-t">
-                    <span className="font-semibold text-gray-700">Amount to pay:</span>
-                    <span className="font-bold text-primary">₹{extensionPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                </div>
             </div>
+
+            {priceError && !isPricing && <p className="text-sm text-red-600">{priceError}</p>}
+            {price && (
+                <PriceSummary title="Extension Price" price={price} isUpdating={isPricing} />
+            )}
+            {gateways.length > 1 && (
+                <div>
+                    <label htmlFor="gatewayId" className="block text-sm font-medium text-gray-700 mb-1">Pay with</label>
+                    <select id="gatewayId" value={selectedGateway?.id || ''} onChange={e => setGatewayId(e.target.value)} className="w-full p-2 border border-gray-300 rounded-lg bg-white">
+                        {gateways.map(g => <option key={g.id} value={g.id}>{g.display_name}</option>)}
+                    </select>
+                </div>
+            )}
+            <p className="text-xs text-gray-500">
+                Priced like a single booking for the full period, including your extras and promo code. You pay the difference.
+            </p>
         </div>
 
         <div className="mt-6 text-right">
             <button
                 onClick={handleProceedToPay}
-                disabled={isLoading || (isCustom && (parseInt(customHours) || 0) < 12)}
+                disabled={isLoading || isPricing || !price || !!priceError || !selectedGateway}
                 className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:bg-opacity-50"
             >
-                {isLoading ? 'Processing...' : 'Proceed to Pay'}
+                {isLoading ? 'Processing...' : price ? `Pay ₹${price.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : 'Proceed to Pay'}
             </button>
         </div>
       </div>
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import InspectionReport from '../common/InspectionReport';
+import { acknowledgeInspection, fetchBookingInspections, findNewDamage } from '../../lib/inspectionService';
+import { useToast } from '../../contexts/ToastContext';
+import type { BookingDetail, VehicleInspection } from '../../types';
+
+interface InspectionReportsModalProps {
+  booking: BookingDetail;
+  onClose: () => void;
+}
+
+// The condition reports staff recorded when the customer picked up and returned the car, for them to check and
+// acknowledge. Damage at return that was not there at pickup is flagged.
+const InspectionReportsModal: React.FC<InspectionReportsModalProps> = ({ booking, onClose }) => {
+  const [inspections, setInspections] = useState<VehicleInspection[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  const { addToast } = useToast();
+
+  const loadInspections = useCallback(async () => {
+    const { inspections: data, error: fetchError } = await fetchBookingInspections(booking.id);
+    setInspections(data);
+    setError(fetchError);
+  }, [booking.id]);
+
+  useEffect(() => {
+    loadInspections();
+  }, [loadInspections]);
+
+  const handleAcknowledge = async (inspection: VehicleInspection) => {
+    setAcknowledgingId(inspection.id);
+    const { error: ackError } = await acknowledgeInspection(inspection.id);
+    setAcknowledgingId(null);
+    if (ackError) {
+      addToast(ackError, 'error');
+      return;
+    }
+    addToast('Thank you for acknowledging the report.', 'success');
+    loadInspections();
+  };
+
+  const pickupReport = inspections?.find(i => i.kind === 'pickup');
+
+  const renderReports = () => {
+    if (error) return <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm">{error}</p>;
+    if (!inspections) return <p className="text-sm text-gray-500">Loading reports...</p>;
+    if (inspections.length === 0) return <p className="text-sm text-gray-500">No condition reports yet.</p>;
+
+    return inspections.map(inspection => (
+      <section key={inspection.id} className="space-y-3">
+        <div className="flex justify-between items-center">
+          <h3 className="font-semibold text-lg">{inspection.kind === 'pickup' ? 'At Pickup' : 'At Return'}</h3>
+          {!inspection.acknowledgedAt && (
+            <button
+              onClick={() => handleAcknowledge(inspection)}
+              disabled={acknowledgingId !== null}
+              className="px-3 py-1 text-sm bg-primary text-white rounded hover:bg-primary-hover transition disabled:opacity-50"
+            >
+              {acknowledgingId === inspection.id ? 'Saving...' : 'Acknowledge'}
+            </button>
+          )}
+        </div>
+        <InspectionReport inspection={inspection} newDamage={inspection.kind === 'return' && pickupReport ? findNewDamage(pickupReport, inspection) : []} />
+      </section>
+    ));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl mx-auto max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Condition Reports</h2>
+            <p className="text-sm text-gray-500">{booking.cars?.title || 'Car'} · #{booking.id.split('-')[0].toUpperCase()}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+        <div className="p-6 space-y-6 divide-y">
+          {renderReports()}
+          <p className="text-xs text-gray-500 pt-4">If something in a report looks wrong, contact us before acknowledging it.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InspectionReportsModal;
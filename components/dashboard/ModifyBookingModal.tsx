@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { BookingDetail, BookingDraft, Car, DatesData, ModificationPreview } from '../../types';
+import { modifyBooking, previewBookingModification } from '../../lib/bookingService';
+import { fetchCarsFromDB } from '../../lib/carService';
+import { EMPTY_PRICE } from '../../lib/bookingUtils';
+import { startGatewayPayment } from '../../lib/paymentGateway';
+import { usePaymentGateways } from '../../lib/usePaymentGateways';
+import { parseError } from '../../lib/errorUtils';
+import { useToast } from '../../contexts/ToastContext';
+import DatesStep from '../booking/DatesStep';
+
+interface ModifyBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: BookingDetail;
+}
+
+type Step = 'car' | 'dates' | 'review';
+
+const formatAmount = (amount: number) => amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The booking's times as the local dates and times DatesStep edits.
+const toDatesData = (start: string, end: string): DatesData => {
+  const toDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  const toTime = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  const startDate = new Date(start);
+  const endDate = new Date(end);
+  return { pickupDate: toDate(startDate), pickupTime: toTime(startDate), returnDate: toDate(endDate), returnTime: toTime(endDate) };
+};
+
+const toRange = (dates: DatesData) => ({
+  start: new Date(`${dates.pickupDate}T${dates.pickupTime}`),
+  end: new Date(`${dates.returnDate}T${dates.returnTime}`),
+});
+
+// Moves a confirmed booking to other dates and/or another car: pick a car, pick dates (priced and checked against
+// the booking's own reservation by the server), then review and settle the price difference.
+const ModifyBookingModal: React.FC<ModifyBookingModalProps> = ({ isOpen, onClose, booking }) => {
+  const [step, setStep] = useState<Step>('car');
+  const [cars, setCars] = useState<Car[]>([]);
+  const [car, setCar] = useState<Car | undefined>(booking.cars);
+  const [draft, setDraft] = useState<BookingDraft>({
+    carId: booking.car_id,
+    currentStep: 0,
+    datesData: toDatesData(booking.start_datetime, booking.end_datetime),
+  });
+  const [preview, setPreview] = useState<ModificationPreview | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [settlement, setSettlement] = useState<'refund' | 'credit'>('refund');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { gateways, error: gatewaysError } = usePaymentGateways();
+  const [gatewayId, setGatewayId] = useState<string>('');
+  const selectedGateway = gateways.find(g => g.id === gatewayId) || gateways[0];
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    fetchCarsFromDB({ limit: 100 }).then(({ cars: publishedCars }) => setCars(publishedCars));
+  }, []);
+
+  const updateDraft = useCallback((updates: Partial<BookingDraft>) => setDraft(prev => ({ ...prev, ...updates })), []);
+
+  const quote = useCallback(async (dates: DatesData) => {
+    const { start, end } = toRange(dates);
+    const { preview: newPreview, error: previewError } = await previewBookingModification(booking.id, car?.id || booking.car_id, start, end);
+    return { price: newPreview?.price || EMPTY_PRICE, availability: newPreview?.availability || null, error: previewError };
+  }, [booking.id, booking.car_id, car?.id]);
+
+  // Quote the final choice again for the review, so what the customer confirms is current.
+  useEffect(() => {
+    if (step !== 'review' || !draft.datesData) return;
+    let cancelled = false;
+    const { start, end } = toRange(draft.datesData);
+    setIsLoadingPreview(true);
+    previewBookingModification(booking.id, car?.id || booking.car_id, start, end).then(({ preview: newPreview, error: previewError }) => {
+      if (cancelled) return;
+      setPreview(newPreview);
+      setError(previewError);
+      setIsLoadingPreview(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, draft.datesData, booking.id, booking.car_id, car?.id]);
+
+  const handleConfirm = async () => {
+    if (!preview || !draft.datesData) return;
+    if (preview.amountDue > 0 && !selectedGateway) {
+      setError(gatewaysError || 'No payment method is available.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    const { start, end } = toRange(draft.datesData);
+    const { data, error: apiError } = await modifyBooking(
+      booking.id,
+      car?.id || booking.car_id,
+      start,
+      end,
+      settlement,
+      preview.amountDue > 0 ? selectedGateway.id : null,
+      reason
+    );
+
+    if (apiError || !data) {
+      setError(apiError || 'Failed to modify the booking.');
+      setIsSubmitting(false);
+      return;
+    }
+
+    if (data.status === 'applied') {
+      addToast(
+        preview.refundAmount > 0
+          ? `Booking updated. ₹${formatAmount(preview.refundAmount)} will be ${settlement === 'refund' ? 'refunded' : 'added to your account credit'}.`
+          : 'Booking updated.',
+        'success'
+      );
+      onClose(); // The booking list refreshes via its real-time subscription
+      return;
+    }
+
+    try {
+      await startGatewayPayment(selectedGateway, {
+        paymentId: data.paymentId!,
+        amount: data.amount,
+        currency: 'INR',
+        description: `Change to booking #${booking.id.split('-')[0].toUpperCase()}`,
+        returnPath: `#/payment/callback?modification_id=${data.modificationId}`,
+      });
+      onClose(); // Close modal as user is redirected
+    } catch (err: unknown) {
+      setError(parseError(err));
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderCarStep = () => (
+    <div className="space-y-4">
+      <p className="text-gray-700">Keep your car or switch to another one. You can change the dates next.</p>
+      <div>
+        <label htmlFor="modifyCarId" className="block text-sm font-medium text-gray-700 mb-1">Car</label>
+        <select
+          id="modifyCarId"
+          value={car?.id || booking.car_id}
+          onChange={e => setCar(e.target.value === booking.car_id ? booking.cars : cars.find(c => c.id === e.target.value))}
+          className="w-full p-2 border border-gray-300 rounded-lg bg-white"
+        >
+          <option value={booking.car_id}>{booking.cars?.title || booking.car_title} (current car)</option>
+          {cars.filter(c => c.id !== booking.car_id).map(c => (
+            <option key={c.id} value={c.id}>{c.title} · ₹{c.pricePerDay.toLocaleString()}/day</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-end pt-4">
+        <button onClick={() => setStep('dates')} disabled={!car} className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:bg-opacity-50">
+          Next: Dates
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderReviewStep = () => {
+    if (isLoadingPreview) return <p className="text-sm text-gray-500">Calculating the price difference...</p>;
+    if (!preview || !draft.datesData) return null;
+    const { start, end } = toRange(draft.datesData);
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {car?.title}<br />
+          <strong className="text-foreground">{start.toLocaleString()}</strong> to <strong className="text-foreground">{end.toLocaleString()}</strong>
+        </p>
+
+        <div className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Current price</span>
+            <span>₹{formatAmount(preview.currentTotal)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">New price</span>
+            <span>₹{formatAmount(preview.newTotal)}</span>
+          </div>
+          <div className="flex justify-between border-t pt-2">
+            <span className="text-gray-600">Difference</span>
+            <span>{preview.priceDifference < 0 ? '- ' : '+ '}₹{formatAmount(Math.abs(preview.priceDifference))}</span>
+          </div>
+          {preview.creditApplied > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Account credit applied</span>
+              <span>- ₹{formatAmount(preview.creditApplied)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-bold text-base border-t pt-2">
+            <span>{preview.refundAmount > 0 ? 'You get back' : 'To pay'}</span>
+            <span className="text-primary">₹{formatAmount(preview.refundAmount > 0 ? preview.refundAmount : preview.amountDue)}</span>
+          </div>
+        </div>
+
+        {preview.refundAmount > 0 && (
+          <div className="space-y-2 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" name="settlement" checked={settlement === 'refund'} onChange={() => setSettlement('refund')} />
+              Refund to my original payment
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="settlement" checked={settlement === 'credit'} onChange={() => setSettlement('credit')} />
+              Keep as account credit for future changes
+            </label>
+          </div>
+        )}
+
+        {preview.amountDue > 0 && gateways.length > 1 && (
+          <div>
+            <label htmlFor="modifyGatewayId" className="block text-sm font-medium text-gray-700 mb-1">Pay with</label>
+            <select id="modifyGatewayId" value={selectedGateway?.id || ''} onChange={e => setGatewayId(e.target.value)} className="w-full p-2 border border-gray-300 rounded-lg bg-white">
+              {gateways.map(g => <option key={g.id} value={g.id}>{g.display_name}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="modificationReason" className="block text-sm font-medium text-gray-700 mb-1">Reason (optional)</label>
+          <textarea id="modificationReason" value={reason} onChange={e => setReason(e.target.value)} rows={2} maxLength={500} className="w-full p-2 border border-gray-300 rounded-lg" />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          The new dates are priced like a new booking, including your extras and promo code. Changes that cost more are held for 30 minutes while you pay.
+        </p>
+
+        <div className="flex justify-between pt-2">
+          <button onClick={() => setStep('dates')} className="px-6 py-2 rounded-lg bg-gray-200 text-gray-800 font-semibold hover:bg-gray-300 transition">
+            Back
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isSubmitting || (preview.amountDue > 0 && !selectedGateway)}
+            className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:bg-opacity-50"
+          >
+            {isSubmitting ? 'Processing...' : preview.amountDue > 0 ? `Pay ₹${formatAmount(preview.amountDue)}` : 'Confirm Change'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-lg mx-auto p-6 transform transition-all duration-300 flex flex-col max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-foreground">Modify Booking</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-3xl">&times;</button>
+        </div>
+
+        {error && <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm mb-4">{error}</p>}
+
+        {step === 'car' && renderCarStep()}
+        {step === 'dates' && car && (
+          <DatesStep
+            car={car}
+            bookingData={draft}
+            updateBookingData={updateDraft}
+            nextStep={() => { setError(null); setStep('review'); }}
+            prevStep={() => setStep('car')}
+            quote={quote}
+            nextLabel="Next: Review"
+          />
+        )}
+        {step === 'review' && renderReviewStep()}
+      </div>
+    </div>
+  );
+};
+
+export default ModifyBookingModal;
@@ -0,0 +1,58 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { fetchUnreadNotifications, markNotificationRead } from '../../lib/notificationService';
+import type { AppNotification } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase } from '../../lib/supabaseClient';
+
+// Shows the user's unread notifications above the dashboard, each dismissable. Renders nothing when there are none.
+const NotificationsPanel: React.FC = () => {
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
+    const { user } = useAuth();
+
+    const loadNotifications = useCallback(async () => {
+        const { notifications: data } = await fetchUnreadNotifications();
+        setNotifications(data);
+    }, []);
+
+    useEffect(() => {
+        loadNotifications();
+
+        if (!user) return;
+
+        const channel = supabase
+            .channel('user-notifications-realtime')
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+                () => loadNotifications()
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [loadNotifications, user]);
+
+    const handleDismiss = async (notificationId: string) => {
+        setNotifications(prev => prev.filter(n => n.id !== notificationId));
+        await markNotificationRead(notificationId);
+    };
+
+    if (notifications.length === 0) return null;
+
+    return (
+        <div className="space-y-3 mb-6">
+            {notifications.map(notification => (
+                <div key={notification.id} className="flex justify-between items-start gap-4 bg-yellow-50 border border-yellow-200 p-4 rounded-lg">
+                    <div>
+                        <p className="font-semibold text-yellow-900">{notification.title}</p>
+                        <p className="text-sm text-yellow-800">{notification.message}</p>
+                    </div>
+                    <button onClick={() => handleDismiss(notification.id)} className="text-yellow-700 hover:text-yellow-900 text-2xl leading-none" aria-label="Dismiss notification">&times;</button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default NotificationsPanel;
@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchPaymentHistory, downloadPaymentReceipt, describePayment, PAYMENT_METHOD_LABELS } from '../../lib/paymentService';
+import { fetchTaxSettings } from '../../lib/taxService';
+import { createBalancePayment, createExtensionIntent, retryBookingPayment } from '../../lib/bookingService';
+import { startGatewayPayment } from '../../lib/paymentGateway';
+import { usePaymentGateways } from '../../lib/usePaymentGateways';
+import { parseError } from '../../lib/errorUtils';
+import type { PaymentHistoryItem, TaxSettings } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { supabase } from '../../lib/supabaseClient';
+
+const STATUS_STYLES: Record<PaymentHistoryItem['status'], string> = {
+    success: 'bg-green-100 text-green-800',
+    pending: 'bg-yellow-100 text-yellow-800',
+    failed: 'bg-red-100 text-red-800',
+    cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Every payment the customer has made or attempted, with receipts for successful ones and a retry for failed ones.
+const PaymentHistory: React.FC = () => {
+    const [payments, setPayments] = useState<PaymentHistoryItem[]>([]);
+    const [supplier, setSupplier] = useState<TaxSettings | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [retryingId, setRetryingId] = useState<string | null>(null);
+    const { user } = useAuth();
+    const { addToast } = useToast();
+    const { gateways } = usePaymentGateways();
+    // Idempotency key per retried payment, so repeated clicks start a single new booking payment attempt.
+    const retryKeys = useRef<Record<string, string>>({});
+
+    const loadPayments = useCallback(async () => {
+        const { payments: data, error: fetchError } = await fetchPaymentHistory();
+        setPayments(data);
+        setError(fetchError);
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        loadPayments();
+        fetchTaxSettings().then(({ settings }) => setSupplier(settings));
+
+        if (!user) return;
+
+        const channel = supabase
+            .channel('user-payments-realtime')
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'payments', filter: `user_id=eq.${user.id}` },
+                () => loadPayments()
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [loadPayments, user]);
+
+    // A new attempt creates a fresh pending payment the same way the original flow did, then opens the gateway.
+    const handleRetry = async (payment: PaymentHistoryItem) => {
+        // Prefer the gateway the customer used before, if it is still enabled.
+        const gateway = gateways.find(g => g.id === payment.method) || gateways[0];
+        if (!gateway) {
+            addToast('Online payments are currently unavailable.', 'error');
+            return;
+        }
+        setRetryingId(payment.id);
+
+        const bookingRef = payment.booking_id.split('-')[0].toUpperCase();
+        let paymentId: string;
+        let amount: number;
+        let returnPath: string;
+        let description: string;
+
+        if (payment.payment_type === 'booking') {
+            retryKeys.current[payment.id] ??= crypto.randomUUID();
+            const { data, error: apiError } = await retryBookingPayment(payment.booking_id, gateway.id, retryKeys.current[payment.id]);
+            if (apiError || !data) {
+                addToast(apiError || 'Failed to start the payment.', 'error');
+                setRetryingId(null);
+                return;
+            }
+            paymentId = data.paymentId;
+            amount = data.amount;
+            returnPath = `#/payment/callback?booking_id=${payment.booking_id}&car_id=${payment.car_id}`;
+            description = `Booking #${bookingRef}`;
+        } else if (payment.payment_type === 'extension') {
+            const { data, error: apiError } = await createExtensionIntent(payment.booking_id, payment.extension_hours || 0, gateway.id);
+            if (apiError || !data) {
+                addToast(apiError || 'Failed to start the extension payment.', 'error');
+                setRetryingId(null);
+                return;
+            }
+            paymentId = data.paymentId;
+            amount = Number(data.amount);
+            returnPath = `#/payment/callback?extension_id=${data.extensionId}`;
+            description = `Extend booking #${bookingRef} by ${payment.extension_hours} hours`;
+        } else {
+            const { data, error: apiError } = await createBalancePayment(payment.booking_id, gateway.id);
+            if (apiError || !data) {
+                addToast(apiError || 'Failed to start the balance payment.', 'error');
+                setRetryingId(null);
+                return;
+            }
+            paymentId = data.paymentId;
+            amount = data.amount;
+            returnPath = '#/payment/callback?balance=1';
+            description = `Balance for booking #${bookingRef}`;
+        }
+
+        try {
+            await startGatewayPayment(gateway, {
+                paymentId,
+                amount,
+                currency: 'INR',
+                description,
+                returnPath,
+                customer: { email: user?.email },
+            });
+        } catch (err: unknown) {
+            addToast(parseError(err), 'error');
+            setRetryingId(null);
+        }
+    };
+
+    if (isLoading) {
+        return <div className="text-center p-8">Loading your payments...</div>;
+    }
+
+    if (error) {
+        return <p className="bg-red-100 text-red-700 p-3 rounded-md text-sm">Error: {error}</p>;
+    }
+
+    return (
+        <div>
+            <h2 className="text-2xl font-bold mb-4">Payments</h2>
+            {payments.length === 0 ? (
+                <p className="text-center text-gray-600 py-12">You haven't made any payments yet.</p>
+            ) : (
+                <div className="space-y-3">
+                    {payments.map(payment => (
+                        <div key={payment.id} className="border rounded-lg p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                            <div className="text-sm">
+                                <p className="font-semibold text-foreground">{describePayment(payment)}</p>
+                                <p className="text-gray-500">
+                                    #{payment.booking_id.split('-')[0].toUpperCase()} · {new Date(payment.created_at).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })} · {PAYMENT_METHOD_LABELS[payment.method] || payment.method || 'N/A'}
+                                </p>
+                                {payment.gateway_txn_id && <p className="text-xs text-gray-400 font-mono break-all">Txn {payment.gateway_txn_id}</p>}
+                                {payment.deposit_amount > 0 && <p className="text-xs text-gray-500">Includes ₹{formatAmount(payment.deposit_amount)} refundable security deposit</p>}
+                                {payment.refunded_amount > 0 && <p className="text-xs text-gray-500">Refunded ₹{formatAmount(payment.refunded_amount)}</p>}
+                            </div>
+                            <div className="flex items-center gap-3 flex-shrink-0">
+                                <span className="font-semibold">₹{formatAmount(payment.amount)}</span>
+                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full capitalize ${STATUS_STYLES[payment.status]}`}>{payment.status}</span>
+                                {payment.status === 'success' && (
+                                    <button
+                                        onClick={() => downloadPaymentReceipt(payment, supplier, user?.email || null)}
+                                        className="text-sm text-primary hover:text-primary-hover font-medium"
+                                    >
+                                        Receipt
+                                    </button>
+                                )}
+                                {payment.retryable && (
+                                    <button
+                                        onClick={() => handleRetry(payment)}
+                                        disabled={retryingId !== null}
+                                        className="px-3 py-1 text-sm bg-primary text-white rounded hover:bg-primary-hover transition disabled:opacity-50"
+                                    >
+                                        {retryingId === payment.id ? 'Processing...' : payment.status === 'pending' ? 'Pay now' : 'Retry'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PaymentHistory;
@@ -6,7 +6,7 @@ import { useToast } from '../../contexts/ToastContext';
 const ProfileSettings: React.FC = () => {
     const { user } = useAuth();
     const { addToast } = useToast();
-    const [formData, setFormData] = useState({ name: '', phone: '' });
+    const [formData, setFormData] = useState({ name: '', phone: '', gstin: '' });
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -19,7 +19,8 @@ const ProfileSettings: React.FC = () => {
         } else if (profile) {
             setFormData({
                 name: profile.full_name || '',
-                phone: profile.phone || ''
+                phone: profile.phone || '',
+                gstin: profile.gstin || ''
             });
         }
         setIsLoading(false);
@@ -69,6 +70,11 @@ const ProfileSettings: React.FC = () => {
                     <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">Phone Number</label>
                     <input type="tel" id="phone" name="phone" value={formData.phone} onChange={handleChange} className="w-full p-2 border border-gray-300 rounded-lg focus:ring-primary focus:border-primary" />
                 </div>
+                <div>
+                    <label htmlFor="gstin" className="block text-sm font-medium text-gray-700 mb-1">GSTIN (optional)</label>
+                    <input type="text" id="gstin" name="gstin" value={formData.gstin} onChange={handleChange} maxLength={15} placeholder="For business invoices" className="w-full p-2 border border-gray-300 rounded-lg uppercase focus:ring-primary focus:border-primary" />
+                    <p className="text-xs text-gray-500 mt-1">Added to invoices issued after you save it.</p>
+                </div>
                 <div className="text-right pt-2">
                     <button type="submit" disabled={isSaving} className="px-6 py-2 rounded-lg bg-primary text-white font-semibold hover:bg-primary-hover transition disabled:bg-opacity-50">
                         {isSaving ? 'Saving...' : 'Save Changes'}
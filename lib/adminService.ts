@@ -1,11 +1,14 @@
 import { supabase } from './supabaseClient';
-import type { BookingDetail } from '../types';
+import type { AbandonedCheckout, BookingDetail, BookingSearchFilters, BookingTimelineEvent } from '../types';
 import { parseError } from './errorUtils';
+import { toBookingDeposit } from './depositService';
 
 export interface DashboardStats {
   total_cars: number;
   active_bookings: number;
   total_users: number;
+  abandoned_checkouts: number;
+  deposits_to_settle: number;
 }
 
 export const fetchDashboardStats = async (): Promise<{ stats: DashboardStats | null; error: string | null }> => {
@@ -26,63 +29,213 @@ export const fetchDashboardStats = async (): Promise<{ stats: DashboardStats | n
   }
 };
 
-export const fetchAllBookings = async (): Promise<{ bookings: BookingDetail[]; error: string | null }> => {
+const toAdminBooking = (b: any): BookingDetail => ({
+  ...b,
+  total_amount: Number(b.total_amount),
+  discount_amount: b.discount_amount != null ? Number(b.discount_amount) : null,
+  refund_amount: b.refund_amount != null ? Number(b.refund_amount) : null,
+  amount_paid: Number(b.amount_paid),
+  note_count: Number(b.note_count),
+  booking_extensions: (b.booking_extensions || []).map((e: any) => ({ ...e, price: Number(e.price) })),
+  refunds: (b.refunds || []).map((r: any) => ({ ...r, amount: Number(r.amount) })),
+  inspections: b.inspections || [],
+  charges: (b.charges || []).map((c: any) => ({ ...c, amount: Number(c.amount) })),
+  deposit: b.deposit ? toBookingDeposit(b.deposit) : null,
+});
+
+// The start of the day after a yyyy-mm-dd date, in local time, so a date range includes its whole last day.
+const endOfDay = (date: string) => {
+  const end = new Date(`${date}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return end;
+};
+
+/**
+ * Searches all bookings for the operations console, newest first, one page at a time.
+ * @param filters Optional status, car, customer, date range (yyyy-mm-dd, both days included) and free-text filters;
+ * the search matches the booking reference, the customer's name, email or phone, or the car.
+ * @returns The page of bookings and the total number matching the filters.
+ */
+export const searchBookings = async (
+  filters: BookingSearchFilters,
+  page: number,
+  pageSize: number
+): Promise<{ bookings: BookingDetail[]; total: number; error: string | null }> => {
   try {
-    const { data, error } = await supabase
-      .from('bookings')
-      .select(`
-        id,
-        created_at,
-        user_id,
-        car_id,
-        start_datetime,
-        end_datetime,
-        total_amount,
-        status,
-        hold_expires_at,
-        promo_code_id,
-        discount_amount,
-        users (
-          full_name,
-          phone
-        ),
-        cars (
-          title
-        ),
-        booking_extensions (
-            id,
-            added_hours,
-            requested_end,
-            price,
-            payment_status,
-            created_at
-        )
-      `)
-      .order('created_at', { ascending: false });
+    const { data, error } = await supabase.rpc('search_bookings', {
+      p_status: filters.status || null,
+      p_car_id: filters.carId || null,
+      p_user_id: filters.userId || null,
+      p_from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : null,
+      p_to: filters.to ? endOfDay(filters.to).toISOString() : null,
+      p_search: filters.search || null,
+      p_page: page,
+      p_page_size: pageSize,
+    });
+
+    if (error) throw error;
+    return { bookings: (data.bookings || []).map(toAdminBooking), total: Number(data.total), error: null };
+  } catch (e: unknown) {
+    return { bookings: [], total: 0, error: parseError(e) };
+  }
+};
+
+/**
+ * Creates a booking for a customer, e.g. a walk-in or phone booking, priced by the pricing engine without a promo code.
+ * @param confirm True to confirm it at once as paid at the counter; otherwise the customer has 24 hours to pay
+ * from their dashboard.
+ * @returns The new booking's ID, or an error message (e.g. when the car is not available).
+ */
+export const adminCreateBooking = async (booking: {
+  userId: string;
+  carId: string;
+  start: Date;
+  end: Date;
+  confirm: boolean;
+  note: string;
+}): Promise<{ bookingId: string | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_create_booking', {
+      p_user_id: booking.userId,
+      p_car_id: booking.carId,
+      p_start_datetime: booking.start.toISOString(),
+      p_end_datetime: booking.end.toISOString(),
+      p_confirm: booking.confirm,
+      p_note: booking.note,
+    });
+    if (error) throw error;
+    return { bookingId: data as string, error: null };
+  } catch (e: unknown) {
+    return { bookingId: null, error: parseError(e) };
+  }
+};
 
+/**
+ * Confirms a pending or held booking that was paid outside the payment gateway, e.g. at the counter.
+ */
+export const confirmBooking = async (bookingId: string, note: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('admin_confirm_booking', { p_booking_id: bookingId, p_note: note });
     if (error) throw error;
+    return { error: null };
+  } catch (e: unknown) {
+    return { error: parseError(e) };
+  }
+};
+
+/**
+ * Cancels a booking on the customer's behalf, refunding the given percent of what was paid.
+ * @param reason Required; shown to the customer as the cancellation reason.
+ * @returns The refund amount, which is paid out through the usual refund process.
+ */
+export const adminCancelBooking = async (
+  bookingId: string,
+  refundPercent: number,
+  reason: string
+): Promise<{ refundAmount: number | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_cancel_booking', {
+      p_booking_id: bookingId,
+      p_refund_percent: refundPercent,
+      p_reason: reason,
+    });
+    if (error) throw error;
+    return { refundAmount: Number(data), error: null };
+  } catch (e: unknown) {
+    return { refundAmount: null, error: parseError(e) };
+  }
+};
+
+/**
+ * Records that the customer has collected the car of a confirmed booking.
+ */
+export const markBookingPickedUp = async (bookingId: string, note: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('admin_mark_picked_up', { p_booking_id: bookingId, p_note: note });
+    if (error) throw error;
+    return { error: null };
+  } catch (e: unknown) {
+    return { error: parseError(e) };
+  }
+};
 
-    const formattedBookings: BookingDetail[] = (data || []).map((b: any) => ({
-      id: b.id,
-      created_at: b.created_at,
-      user_id: b.user_id,
-      customer_name: b.users?.full_name || null,
-      customer_phone: b.users?.phone || null,
-      car_id: b.car_id,
-      car_title: b.cars?.title || null,
-      start_datetime: b.start_datetime,
-      end_datetime: b.end_datetime,
-      total_amount: b.total_amount,
-      status: b.status,
-      hold_expires_at: b.hold_expires_at,
-      payment_mode: b.status === 'hold' ? 'hold' : 'full', // Infer payment mode for UI
-      booking_extensions: b.booking_extensions || [],
-      promo_code_id: b.promo_code_id,
-      discount_amount: b.discount_amount,
+/**
+ * Records that the car of a picked-up booking has been returned, completing the booking.
+ */
+export const markBookingReturned = async (bookingId: string, note: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('admin_mark_returned', { p_booking_id: bookingId, p_note: note });
+    if (error) throw error;
+    return { error: null };
+  } catch (e: unknown) {
+    return { error: parseError(e) };
+  }
+};
+
+/**
+ * Adds an internal note to a booking. Notes are visible to admins only and appear in the booking's timeline.
+ */
+export const addBookingNote = async (bookingId: string, note: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('admin_add_booking_note', { p_booking_id: bookingId, p_note: note });
+    if (error) throw error;
+    return { error: null };
+  } catch (e: unknown) {
+    return { error: parseError(e) };
+  }
+};
+
+/**
+ * Fetches everything that happened to a booking, oldest first: status changes, payments, extensions, refunds,
+ * modifications and admin actions.
+ */
+export const fetchBookingTimeline = async (
+  bookingId: string
+): Promise<{ events: BookingTimelineEvent[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_booking_timeline', { p_booking_id: bookingId });
+    if (error) throw error;
+    return {
+      events: (data || []).map((e: any) => ({ ...e, amount: e.amount != null ? Number(e.amount) : null })),
+      error: null,
+    };
+  } catch (e: unknown) {
+    return { events: [], error: parseError(e) };
+  }
+};
+
+/**
+ * Fetches checkouts that expired without payment, with the customer's contact details, newest first.
+ */
+export const fetchAbandonedCheckouts = async (): Promise<{ checkouts: AbandonedCheckout[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_abandoned_checkouts');
+
+    if (error) throw error;
+
+    const checkouts: AbandonedCheckout[] = (data || []).map((c: any) => ({
+      ...c,
+      total_amount: Number(c.total_amount),
     }));
+    return { checkouts, error: null };
+  } catch (e: unknown) {
+    return { checkouts: [], error: parseError(e) };
+  }
+};
 
-    return { bookings: formattedBookings, error: null };
+/**
+ * Marks an abandoned checkout as followed up with the customer, or clears the mark.
+ */
+export const setAbandonedCheckoutFollowedUp = async (bookingId: string, followedUp: boolean): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('bookings')
+      .update({ abandoned_followed_up_at: followedUp ? new Date().toISOString() : null })
+      .eq('id', bookingId);
+
+    if (error) throw error;
+    return { error: null };
   } catch (e: unknown) {
-    return { bookings: [], error: parseError(e) };
+    return { error: parseError(e) };
   }
-};
\ No newline at end of file
+};
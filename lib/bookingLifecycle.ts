@@ -0,0 +1,129 @@
+/**
+ * The booking lifecycle state machine. The server enforces it: the transitions below mirror the
+ * booking_status_transitions table, whose guard trigger rejects any other status change and whose side effects
+ * (cancelling pending payments, releasing the promo code, scheduling refunds) run in apply_booking_transition_trigger.
+ * The UI uses the guards here to decide which actions to offer, so it never shows one the server would refuse.
+ */
+import type { BookingDetail, BookingStatus, InspectionKind } from '../types';
+
+export interface BookingTransition {
+  from: BookingStatus;
+  to: BookingStatus;
+  description: string;
+}
+
+export const BOOKING_TRANSITIONS: BookingTransition[] = [
+  { from: 'pending_payment', to: 'hold', description: 'The advance for a hold was paid.' },
+  { from: 'pending_payment', to: 'confirmed', description: 'The booking was paid in full.' },
+  { from: 'pending_payment', to: 'cancelled', description: 'Checkout was abandoned before payment.' },
+  { from: 'hold', to: 'confirmed', description: 'The balance of the hold was paid.' },
+  { from: 'hold', to: 'cancelled', description: 'The customer cancelled, or the hold expired unpaid.' },
+  { from: 'confirmed', to: 'cancelled', description: 'The customer cancelled before the rental ended.' },
+  { from: 'confirmed', to: 'completed', description: 'The rental period ended.' },
+];
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending_payment: 'Pending Payment',
+  hold: 'On Hold',
+  confirmed: 'Confirmed',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+};
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_TRANSITIONS.some(t => t.from === from && t.to === to);
+
+type BookingState = Pick<BookingDetail, 'status' | 'end_datetime' | 'total_amount' | 'amount_paid' | 'hold_expires_at'> & {
+  payment_expires_at?: string | null;
+};
+
+const hasEnded = (booking: BookingState, now: Date) => new Date(booking.end_datetime) <= now;
+
+/**
+ * The balance still owed on a hold; zero for every other status.
+ */
+export const getBalanceDue = (booking: BookingState): number =>
+  booking.status === 'hold' ? Number(booking.total_amount) - (booking.amount_paid || 0) : 0;
+
+/**
+ * A hold can be paid off (hold -> confirmed) until it expires.
+ */
+export const canPayBalance = (booking: BookingState, now = new Date()): boolean =>
+  booking.status === 'hold' && (!booking.hold_expires_at || new Date(booking.hold_expires_at) > now);
+
+/**
+ * A pending_payment booking can be paid (pending_payment -> hold or confirmed) until its checkout deadline.
+ */
+export const canCompleteCheckout = (booking: BookingState, now = new Date()): boolean =>
+  booking.status === 'pending_payment' && !!booking.payment_expires_at && new Date(booking.payment_expires_at) > now;
+
+/**
+ * Customers can cancel held and confirmed bookings (-> cancelled) until the rental ends. Unpaid pending_payment
+ * bookings are cancelled only by the checkout deadline.
+ */
+export const canCancelBooking = (booking: BookingState, now = new Date()): boolean =>
+  (booking.status === 'hold' || booking.status === 'confirmed') && !hasEnded(booking, now);
+
+/**
+ * Only confirmed bookings that have not ended can be extended; the status does not change.
+ */
+export const canExtendBooking = (booking: BookingState, now = new Date()): boolean =>
+  booking.status === 'confirmed' && !hasEnded(booking, now);
+
+/**
+ * Confirmed bookings can be moved to other dates or another car until pickup, unless they have been extended.
+ * The status does not change; the booking's version goes up.
+ */
+export const canModifyBooking = (
+  booking: BookingState & Pick<BookingDetail, 'start_datetime' | 'booking_extensions'>,
+  now = new Date()
+): boolean =>
+  booking.status === 'confirmed' &&
+  new Date(booking.start_datetime) > now &&
+  !(booking.booking_extensions || []).some(e => e.payment_status === 'pending' || e.payment_status === 'success');
+
+/**
+ * Admins can confirm a pending or held booking (-> confirmed) that was paid outside the gateway.
+ */
+export const canAdminConfirm = (booking: Pick<BookingDetail, 'status'>): boolean =>
+  booking.status === 'pending_payment' || booking.status === 'hold';
+
+/**
+ * Admins can cancel any booking that is not yet cancelled or completed, choosing the refund themselves.
+ */
+export const canAdminCancel = (booking: Pick<BookingDetail, 'status'>): boolean =>
+  booking.status === 'pending_payment' || booking.status === 'hold' || booking.status === 'confirmed';
+
+const hasInspection = (booking: Pick<BookingDetail, 'inspections'>, kind: InspectionKind) =>
+  (booking.inspections || []).some(i => i.kind === kind);
+
+/**
+ * Staff inspect the car of a confirmed booking at pickup, and at return once it has been picked up.
+ */
+export const canInspect = (booking: Pick<BookingDetail, 'status' | 'picked_up_at'>): boolean =>
+  booking.status === 'confirmed' || !!booking.picked_up_at;
+
+/**
+ * The car of a confirmed booking can be handed over once, after its pickup inspection; the status does not change.
+ */
+export const canMarkPickedUp = (booking: Pick<BookingDetail, 'status' | 'picked_up_at' | 'inspections'>): boolean =>
+  booking.status === 'confirmed' && !booking.picked_up_at && hasInspection(booking, 'pickup');
+
+/**
+ * A picked-up car can be returned once, after its return inspection. A confirmed booking is completed early
+ * (confirmed -> completed); one already completed at the end of its period just records the return.
+ */
+export const canMarkReturned = (booking: Pick<BookingDetail, 'status' | 'picked_up_at' | 'returned_at' | 'inspections'>): boolean =>
+  (booking.status === 'confirmed' || booking.status === 'completed') && !!booking.picked_up_at && !booking.returned_at &&
+  hasInspection(booking, 'return');
+
+/**
+ * Invoices are issued when a booking is confirmed and stay available after it completes or is cancelled.
+ */
+export const hasInvoices = (booking: Pick<BookingDetail, 'status' | 'cancelled_at'>): boolean =>
+  booking.status === 'confirmed' || booking.status === 'completed' || !!booking.cancelled_at;
+
+/**
+ * Refunds can be issued once a booking has been paid for, i.e. it has left pending_payment.
+ */
+export const canRefund = (booking: Pick<BookingDetail, 'status'>): boolean => booking.status !== 'pending_payment';
@@ -1,70 +1,73 @@
 import { supabase } from './supabaseClient';
-import type { BookingDraft, Car } from '../types';
-import type { User } from '@supabase/supabase-js';
-import { calculateBookingPrice } from './bookingUtils';
+import type {
+  BookingModification,
+  BookingStatusChange,
+  CancellationPreview,
+  ModificationPreview,
+  PaymentData,
+  PaymentMethod,
+  PaymentVerificationResult,
+} from '../types';
+import type { GatewayCallbackResult } from './paymentGateway';
 import { parseError } from './errorUtils';
 
 /**
- * Creates a new booking and an associated pending payment record.
+ * Creates a new booking and an associated pending payment record from a server quote.
  * This is the first step before redirecting to a payment gateway.
- * @param bookingData - The draft containing all booking details.
- * @param car - The car being booked.
- * @param user - The authenticated user.
- * @param paymentAmount - The amount for the payment record (full or hold).
- * @param paymentMethod - The method of payment (e.g., 'paytm').
- * @returns An object with new booking and payment IDs, or an error message.
+ * The amounts are taken from the quote on the server; the client only chooses the payment mode.
+ * @param quoteId - The ID of a valid, unexpired quote belonging to the current user.
+ * @param paymentMode - 'full' to pay the total, 'hold' to pay the advance.
+ * @param paymentMethod - The id of an enabled payment gateway.
+ * @param idempotencyKey - Identifies the checkout; repeating the call with the same key returns the same booking and payment.
+ * @returns An object with new booking and payment IDs and the amount to pay, or an error message.
  */
 export const createBookingAndPayment = async (
-  bookingData: BookingDraft,
-  car: Car,
-  user: User,
-  paymentAmount: number,
-  paymentMethod: 'paytm'
-) => {
-  const { datesData, extrasData, appliedPromo } = bookingData;
-
-  if (!datesData || !extrasData) {
-    return { data: null, error: 'Incomplete booking data. Please review your selections.' };
-  }
-
+  quoteId: string,
+  paymentMode: PaymentData['paymentMode'],
+  paymentMethod: PaymentMethod,
+  idempotencyKey: string
+): Promise<{ data: { bookingId: string; paymentId: string; amount: number } | null; error: string | null }> => {
   try {
-    const { subtotal } = calculateBookingPrice(datesData, extrasData, car.pricePerDay);
-    const startDateTime = new Date(`${datesData.pickupDate}T${datesData.pickupTime}`);
-    const endDateTime = new Date(`${datesData.returnDate}T${datesData.returnTime}`);
-
     const { data, error } = await supabase.rpc('create_booking_and_payment', {
-        p_car_id: car.id,
-        p_user_id: user.id,
-        p_start_datetime: startDateTime.toISOString(),
-        p_end_datetime: endDateTime.toISOString(),
-        p_subtotal_amount: subtotal,
-        p_payment_amount: paymentAmount,
+        p_quote_id: quoteId,
+        p_payment_mode: paymentMode,
         p_payment_method: paymentMethod,
-        p_promo_code_id: appliedPromo?.id || null,
+        p_idempotency_key: idempotencyKey,
     });
     
     if (error) throw error;
 
-    return { data, error: null };
+    return { data: { ...data, amount: Number(data.amount) }, error: null };
   } catch (err: unknown) {
-    if (err instanceof Error && err.message.includes('Car is not available')) {
+    const message = parseError(err);
+    // 23P01 (exclusion_violation) is the conflict raised when another booking already reserves the car.
+    // A conflict caused only by the turnaround buffer explains itself; see check_car_availability.
+    if (message.includes('between rentals')) {
+        return { data: null, error: message };
+    }
+    if ((err as { code?: string } | null)?.code === '23P01' || message.includes('Car is not available')) {
         return { data: null, error: 'Sorry, this car is no longer available for the selected dates. Please try another time.' };
     }
-    return { data: null, error: parseError(err) };
+    if (message.includes('Price quote has expired')) {
+        return { data: null, error: 'Your price quote has expired. Please review the updated price and try again.' };
+    }
+    return { data: null, error: message };
   }
 };
 
 /**
  * Calls an RPC to create a booking extension intent, which includes availability checks and creating pending payment records.
  * @param bookingId The ID of the booking to extend.
- * @param addedHours The number of hours to add (must be >= 12 and a multiple of 12).
- * @returns An object with the new extension and payment IDs, or an error message.
+ * @param addedHours The number of hours to add (a multiple of the billing unit).
+ * @param paymentMethod The id of an enabled payment gateway.
+ * @returns An object with the new extension and payment IDs and the amount charged, or an error message.
  */
-export const createExtensionIntent = async (bookingId: string, addedHours: number) => {
+export const createExtensionIntent = async (bookingId: string, addedHours: number, paymentMethod: PaymentMethod) => {
   try {
     const { data, error } = await supabase.rpc('create_extension_and_payment', {
       p_booking_id: bookingId,
-      p_added_hours: addedHours
+      p_added_hours: addedHours,
+      p_payment_method: paymentMethod,
     });
     
     if (error) throw error;
@@ -75,41 +78,254 @@ export const createExtensionIntent = async (bookingId: string, addedHours: numbe
     return { data: null, error: parseError(err) };
   }
 };
+/**
+ * Starts a new payment attempt for a booking whose earlier payment failed, reusing the pending_payment booking.
+ * @param bookingId The ID of a pending_payment booking whose checkout deadline has not passed.
+ * @param paymentMethod The id of an enabled payment gateway.
+ * @param idempotencyKey Identifies the attempt; repeating the call with the same key returns the same payment.
+ * @returns The new payment's ID and amount, or an error message.
+ */
+export const retryBookingPayment = async (
+  bookingId: string,
+  paymentMethod: PaymentMethod,
+  idempotencyKey: string
+): Promise<{ data: { bookingId: string; paymentId: string; amount: number } | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('retry_booking_payment', {
+      p_booking_id: bookingId,
+      p_payment_method: paymentMethod,
+      p_idempotency_key: idempotencyKey,
+    });
+    if (error) throw error;
+    return { data: { ...data, amount: Number(data.amount) }, error: null };
+  } catch (err: unknown) {
+    return { data: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Creates a pending payment for the remaining balance of a booking on hold. Paying it confirms the booking.
+ * @param bookingId The ID of a booking on hold whose hold has not expired.
+ * @param paymentMethod The id of an enabled payment gateway.
+ * @returns The new payment's ID and the balance amount, or an error message.
+ */
+export const createBalancePayment = async (
+  bookingId: string,
+  paymentMethod: PaymentMethod
+): Promise<{ data: { bookingId: string; paymentId: string; amount: number } | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('create_balance_payment', {
+      p_booking_id: bookingId,
+      p_payment_method: paymentMethod,
+    });
+    if (error) throw error;
+    return { data: { ...data, amount: Number(data.amount) }, error: null };
+  } catch (err: unknown) {
+    return { data: null, error: parseError(err) };
+  }
+};
 
+const toCancellationPreview = (data: any): CancellationPreview => ({
+  bookingId: data.bookingId,
+  hoursBeforePickup: Number(data.hoursBeforePickup),
+  paidAmount: Number(data.paidAmount),
+  refundPercent: Number(data.refundPercent),
+  refundAmount: Number(data.refundAmount),
+  depositAmount: Number(data.depositAmount ?? 0),
+});
 
 /**
- * Verifies a Paytm payment by calling the verify_and_update_payment RPC.
- * This is a mocked verification for the payment callback handler.
+ * Previews the refund the current cancellation policy gives for cancelling a booking now.
+ * @param bookingId The ID of a held or confirmed booking.
  */
-export const verifyPaytmPayment = async (
-  paymentId: string | null,
-  status: string | null
-) => {
+export const previewBookingCancellation = async (
+  bookingId: string
+): Promise<{ preview: CancellationPreview | null; error: string | null }> => {
   try {
-    // Validate inputs received from the URL to ensure they are present and valid.
-    if (!paymentId) {
-      throw new Error('Invalid or missing payment ID.');
-    }
-    if (!status) {
-      throw new Error('Invalid or missing payment status.');
-    }
+    const { data, error } = await supabase.rpc('preview_booking_cancellation', { p_booking_id: bookingId });
+    if (error) throw error;
+    return { preview: toCancellationPreview(data), error: null };
+  } catch (err: unknown) {
+    return { preview: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Cancels a booking. The refund is recalculated on the server at the moment of cancellation,
+ * so it can differ from an earlier preview if a policy tier boundary has been crossed.
+ * @param bookingId The ID of a held or confirmed booking.
+ * @param reason An optional reason given by the customer.
+ * @returns The refund that was applied, or an error message.
+ */
+export const cancelBooking = async (
+  bookingId: string,
+  reason: string
+): Promise<{ refund: CancellationPreview | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('cancel_booking', { p_booking_id: bookingId, p_reason: reason });
+    if (error) throw error;
+    return { refund: toCancellationPreview(data), error: null };
+  } catch (err: unknown) {
+    return { refund: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Fetches a booking's status changes, oldest first. Customers can read their own bookings' history, admins any.
+ */
+export const fetchBookingStatusHistory = async (
+  bookingId: string
+): Promise<{ history: BookingStatusChange[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('booking_status_history')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return { history: data || [], error: null };
+  } catch (err: unknown) {
+    return { history: [], error: parseError(err) };
+  }
+};
+
+const toModificationPreview = (data: any): ModificationPreview => ({
+  ...data,
+  currentTotal: Number(data.currentTotal),
+  newTotal: Number(data.newTotal),
+  priceDifference: Number(data.priceDifference),
+  creditBalance: Number(data.creditBalance),
+  creditApplied: Number(data.creditApplied),
+  amountDue: Number(data.amountDue),
+  refundAmount: Number(data.refundAmount),
+});
+
+/**
+ * Quotes changing a confirmed booking to another car and/or other dates: the new price, checked against the
+ * pricing engine, the car's availability leaving out the booking itself, and what the customer pays or gets back.
+ * @param bookingId The ID of a confirmed booking that has not started.
+ * @param carId The car to move the booking to; the booking's own car to change only the dates.
+ */
+export const previewBookingModification = async (
+  bookingId: string,
+  carId: string,
+  start: Date,
+  end: Date
+): Promise<{ preview: ModificationPreview | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('preview_booking_modification', {
+      p_booking_id: bookingId,
+      p_car_id: carId,
+      p_start_datetime: start.toISOString(),
+      p_end_datetime: end.toISOString(),
+    });
+    if (error) throw error;
+    return { preview: toModificationPreview(data), error: null };
+  } catch (err: unknown) {
+    return { preview: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Modifies a booking, repricing it on the server at the moment of the change. When there is an amount due the
+ * modification stays pending, holding the new car and dates, until its payment succeeds; otherwise it is applied
+ * at once and a lower price is refunded or kept as account credit.
+ * @param settlement What to do with a lower price: 'refund' to the original payment or keep as 'credit'.
+ * @param paymentMethod The id of an enabled payment gateway; required when there is an amount due.
+ * @returns The modification, whether it is 'applied' or 'pending', and the payment to complete if pending.
+ */
+export const modifyBooking = async (
+  bookingId: string,
+  carId: string,
+  start: Date,
+  end: Date,
+  settlement: 'refund' | 'credit',
+  paymentMethod: PaymentMethod | null,
+  reason: string
+): Promise<{
+  data: { modificationId: string; status: 'applied' | 'pending'; paymentId: string | null; amount: number } | null;
+  error: string | null;
+}> => {
+  try {
+    const { data, error } = await supabase.rpc('modify_booking', {
+      p_booking_id: bookingId,
+      p_car_id: carId,
+      p_start_datetime: start.toISOString(),
+      p_end_datetime: end.toISOString(),
+      p_settlement: settlement,
+      p_payment_method: paymentMethod,
+      p_reason: reason,
+    });
+    if (error) throw error;
+    return { data: { ...data, amount: Number(data.amount) }, error: null };
+  } catch (err: unknown) {
+    return { data: null, error: parseError(err) };
+  }
+};
 
-    // In a real scenario, gateway_txn_id would come from Paytm; we create a mock here.
-    const mockGatewayTxnId = `PAYTM_TXN_${crypto.randomUUID()}`;
+/**
+ * Fetches a booking's modifications, oldest first. Customers can read their own bookings' modifications, admins any.
+ */
+export const fetchBookingModifications = async (
+  bookingId: string
+): Promise<{ modifications: BookingModification[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('booking_modifications')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
 
-    const params = {
-      p_payment_id: paymentId,
-      p_gateway_txn_id: mockGatewayTxnId,
-      p_status: status
+    if (error) throw error;
+    return {
+      modifications: (data || []).map((m: any) => ({
+        ...m,
+        previous_total_amount: Number(m.previous_total_amount),
+        new_total_amount: Number(m.new_total_amount),
+        price_difference: Number(m.price_difference),
+        credit_applied: Number(m.credit_applied),
+      })),
+      error: null,
     };
+  } catch (err: unknown) {
+    return { modifications: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Submits a gateway callback to the verify_and_update_payment RPC, which checks its signature, order id
+ * and amount before settling the payment. A pending result leaves the payment pending until the gateway settles it.
+ * @param callback The callback parameters, as parsed by the payment's gateway adapter.
+ * @returns The payment's status according to the server and, if the callback was rejected, the reason.
+ */
+export const verifyGatewayPayment = async (callback: GatewayCallbackResult) => {
+  try {
+    // Validate inputs received from the URL to ensure they are present and valid.
+    if (!callback.paymentId) {
+      throw new Error('Invalid or missing payment ID.');
+    }
 
     // Call the secure RPC function to update the payment and booking status.
-    const { data, error } = await supabase.rpc('verify_and_update_payment', params);
+    const { data, error } = await supabase.rpc('verify_and_update_payment', {
+      p_payment_id: callback.paymentId,
+      p_gateway_order_id: callback.orderId,
+      p_amount: callback.amount,
+      p_status: callback.status,
+      p_gateway_txn_id: callback.gatewayTxnId,
+      p_signature: callback.signature,
+    });
 
     if (error) throw error;
 
-    return { success: true, data, error: null };
+    const result: PaymentVerificationResult = {
+      accepted: data.accepted,
+      reason: data.reason,
+      paymentStatus: data.paymentStatus,
+      refundPending: data.refundPending === true,
+    };
+    return { success: true, result, error: null };
   } catch (err: unknown) {
-    return { success: false, error: parseError(err) };
+    return { success: false, result: null, error: parseError(err) };
   }
-};
\ No newline at end of file
+};
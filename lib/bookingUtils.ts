@@ -1,87 +1,152 @@
-import type { DatesData, BookingExtra, ValidatedPromo } from '../types';
-
-export interface BookingPriceDetails {
-    billingDays: number;
-    baseRentalPrice: number;
-    selectedExtrasPrice: number;
-    subtotal: number;
-    discountAmount: number;
-    totalAfterDiscount: number;
-    serviceCharge: number;
-    totalAmount: number;
-    advanceAmount: number;
-}
-
-const EMPTY_PRICE: BookingPriceDetails = {
+import { supabase } from './supabaseClient';
+import { parseError } from './errorUtils';
+import type { DatesData, BookingExtra, ValidatedPromo, BookingPriceDetails, BookingQuote, CarAvailability } from '../types';
+
+export type { BookingPriceDetails };
+
+export const EMPTY_PRICE: BookingPriceDetails = {
     billingDays: 0,
     baseRentalPrice: 0,
+    appliedRules: [],
     selectedExtrasPrice: 0,
     subtotal: 0,
     discountAmount: 0,
     totalAfterDiscount: 0,
+    serviceChargePercent: 0,
     serviceCharge: 0,
+    tax: {
+        placeOfSupply: '',
+        placeOfSupplyName: '',
+        sacCode: '',
+        taxableAmount: 0,
+        cgstPercent: 0,
+        cgstAmount: 0,
+        sgstPercent: 0,
+        sgstAmount: 0,
+        igstPercent: 0,
+        igstAmount: 0,
+        taxAmount: 0,
+    },
     totalAmount: 0,
+    advancePercent: 0,
     advanceAmount: 0,
 };
 
-export const calculateBookingPrice = (
+/**
+ * Prices a prospective booking using the server-side pricing engine, so previews always
+ * match the rules, settings and extras an admin has configured. Nothing is persisted;
+ * bookings are still created from a quote (see lib/quoteService.ts).
+ * @returns The itemized price, or an error message (e.g. when the rental is shorter than one billing unit).
+ */
+export const calculateBookingPrice = async (
+    carId: string,
     datesData: DatesData | undefined,
-    extrasData: { extras: BookingExtra[] } | undefined,
-    carPricePerDay: number,
+    extrasData?: { extras: BookingExtra[] },
     promo?: ValidatedPromo | null
-): BookingPriceDetails => {
-    if (!datesData) return EMPTY_PRICE;
+): Promise<{ price: BookingPriceDetails; error: string | null }> => {
+    if (!datesData) return { price: EMPTY_PRICE, error: null };
+
+    const start = new Date(`${datesData.pickupDate}T${datesData.pickupTime}`);
+    const end = new Date(`${datesData.returnDate}T${datesData.returnTime}`);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        return { price: EMPTY_PRICE, error: null };
+    }
+
+    try {
+        const { data, error } = await supabase.rpc('calculate_booking_price', {
+            p_car_id: carId,
+            p_start_datetime: start.toISOString(),
+            p_end_datetime: end.toISOString(),
+            p_extras: (extrasData?.extras || []).filter(e => e.selected).map(e => e.name),
+            p_promo_code_id: promo?.id || null,
+            p_enforce_promo_validity: true,
+            p_pickup_branch_id: datesData.pickupBranchId || null,
+            p_return_branch_id: datesData.returnBranchId || null,
+            p_delivery_zone_id: datesData.deliveryZoneId || null,
+            p_collection_zone_id: datesData.collectionZoneId || null,
+        });
+
+        if (error) throw error;
+
+        return { price: data as BookingPriceDetails, error: null };
+    } catch (err: unknown) {
+        return { price: EMPTY_PRICE, error: parseError(err) };
+    }
+};
+
+/**
+ * Checks whether a car is free for the selected dates, allowing for its turnaround buffer between rentals.
+ * @returns The availability, or null while the dates are incomplete.
+ */
+export const checkCarAvailability = async (
+    carId: string,
+    datesData: DatesData | undefined
+): Promise<{ availability: CarAvailability | null; error: string | null }> => {
+    if (!datesData) return { availability: null, error: null };
 
     const start = new Date(`${datesData.pickupDate}T${datesData.pickupTime}`);
     const end = new Date(`${datesData.returnDate}T${datesData.returnTime}`);
     if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
-        return EMPTY_PRICE;
+        return { availability: null, error: null };
     }
 
-    const diffMs = end.getTime() - start.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
+    try {
+        const { data, error } = await supabase.rpc('check_car_availability', {
+            p_car_id: carId,
+            p_start: start.toISOString(),
+            p_end: end.toISOString(),
+        });
+
+        if (error) throw error;
 
-    if (diffHours < 12) {
-        // Return a copy to avoid mutation
-        return { ...EMPTY_PRICE };
+        return { availability: data as CarAvailability, error: null };
+    } catch (err: unknown) {
+        return { availability: null, error: parseError(err) };
     }
-    
-    const billingUnits = Math.ceil(diffHours / 12);
-    const billingDays = billingUnits / 2;
-
-    const baseRentalPrice = carPricePerDay * billingDays;
-    const selectedExtrasPrice = (extrasData?.extras || []).reduce((sum, extra) => {
-        return sum + (extra.selected ? extra.pricePerDay * billingDays : 0);
-    }, 0);
-    
-    const subtotal = baseRentalPrice + selectedExtrasPrice;
-
-    let discountAmount = 0;
-    if (promo) {
-        if (promo.discount_flat) {
-            discountAmount = promo.discount_flat;
-        } else if (promo.discount_percent) {
-            discountAmount = subtotal * (promo.discount_percent / 100);
-        }
+};
+
+/**
+ * Prices extending a booking using the same server-side pricing engine as new bookings, carrying over the
+ * booking's extras and promo code. This is exactly the amount create_extension_and_payment will charge.
+ * @returns The extension's itemized price, or an error message (e.g. when the hours are not a whole number of billing units).
+ */
+export const calculateExtensionPrice = async (
+    bookingId: string,
+    addedHours: number
+): Promise<{ price: BookingPriceDetails; error: string | null }> => {
+    try {
+        const { data, error } = await supabase.rpc('calculate_extension_price', {
+            p_booking_id: bookingId,
+            p_added_hours: addedHours,
+        });
+
+        if (error) throw error;
+
+        return { price: data as BookingPriceDetails, error: null };
+    } catch (err: unknown) {
+        return { price: EMPTY_PRICE, error: parseError(err) };
     }
-    // Ensure discount doesn't exceed the subtotal
-    discountAmount = Math.min(discountAmount, subtotal);
-
-    const totalAfterDiscount = subtotal - discountAmount;
-    const serviceChargeRate = 0.05;
-    const serviceCharge = totalAfterDiscount * serviceChargeRate;
-    const totalAmount = totalAfterDiscount + serviceCharge;
-    const advanceAmount = totalAmount * 0.10;
-
-    return { 
-        billingDays, 
-        baseRentalPrice, 
-        selectedExtrasPrice, 
-        subtotal,
-        discountAmount,
-        totalAfterDiscount,
-        serviceCharge, 
-        totalAmount, 
-        advanceAmount 
-    };
+};
+
+/**
+ * Returns true if a quote is missing, has expired, or no longer matches the current selections.
+ */
+export const isQuoteStale = (quote: BookingQuote | null | undefined, carId: string, datesData: DatesData | undefined, extras: BookingExtra[], promo: ValidatedPromo | null | undefined): boolean => {
+    if (!quote || !datesData) return true;
+    if (new Date(quote.expiresAt).getTime() <= Date.now()) return true;
+
+    const start = new Date(`${datesData.pickupDate}T${datesData.pickupTime}`).getTime();
+    const end = new Date(`${datesData.returnDate}T${datesData.returnTime}`).getTime();
+    const selectedExtras = extras.filter(e => e.selected).map(e => e.name).sort();
+
+    return quote.carId !== carId
+        || new Date(quote.startDatetime).getTime() !== start
+        || new Date(quote.endDatetime).getTime() !== end
+        || [...quote.extras].sort().join('|') !== selectedExtras.join('|')
+        || (quote.promoCodeId || null) !== (promo?.id || null)
+        || (!!datesData.returnBranchId && quote.returnBranchId !== datesData.returnBranchId)
+        || (quote.deliveryZoneId || null) !== (datesData.deliveryZoneId || null)
+        || (quote.deliveryAddress || '') !== (datesData.deliveryZoneId ? (datesData.deliveryAddress || '').trim() : '')
+        || (quote.collectionZoneId || null) !== (datesData.collectionZoneId || null)
+        || (quote.collectionAddress || '') !== (datesData.collectionZoneId ? (datesData.collectionAddress || '').trim() : '');
 };
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { supabase } from './supabaseClient';
+import type { Branch, BranchFormData } from '../types';
+import { parseError } from './errorUtils';
+
+// Postgres returns times as "HH:MM:SS"; the app works in "HH:MM".
+const toHoursMinutes = (time: string) => (time || '').slice(0, 5);
+
+/**
+ * Whether a branch is open at the given moment, by the clock in the branch's own timezone.
+ * Mirrors assert_branch_open on the server, which has the final say when a quote is created.
+ */
+export const isBranchOpenAt = (branch: Branch, at: Date): boolean => {
+  const localTime = at.toLocaleTimeString('en-GB', { timeZone: branch.timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  return localTime >= branch.opensAt && localTime <= branch.closesAt;
+};
+
+const toBranch = (b: any): Branch => ({
+  id: b.id,
+  name: b.name,
+  address: b.address,
+  city: b.city,
+  stateCode: b.state_code,
+  phone: b.phone,
+  timezone: b.timezone,
+  opensAt: toHoursMinutes(b.opens_at),
+  closesAt: toHoursMinutes(b.closes_at),
+  active: b.active === true,
+});
+
+/**
+ * Fetches branches by name. Customers only ever see active branches; admins also get inactive ones.
+ * @param activeOnly - Leave out inactive branches even for admins, e.g. for pickers.
+ */
+export const fetchBranches = async (activeOnly = true): Promise<{ branches: Branch[]; error: string | null }> => {
+  try {
+    let query = supabase.from('branches').select('*').order('name', { ascending: true });
+    if (activeOnly) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return { branches: (data || []).map(toBranch), error: null };
+  } catch (err: unknown) {
+    return { branches: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Creates or updates a branch. Changed opening hours apply to quotes created afterwards.
+ */
+export const upsertBranch = async (formData: BranchFormData, existingBranchId?: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.from('branches').upsert({
+      id: existingBranchId,
+      name: formData.name.trim(),
+      address: formData.address.trim(),
+      city: formData.city?.trim() || null,
+      state_code: formData.stateCode,
+      phone: formData.phone?.trim() || null,
+      timezone: formData.timezone.trim(),
+      opens_at: formData.opensAt,
+      closes_at: formData.closesAt,
+      active: formData.active,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Deletes a branch. Fails while cars or bookings still refer to it; deactivate it instead.
+ */
+export const deleteBranch = async (branchId: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.from('branches').delete().eq('id', branchId);
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
@@ -1,5 +1,5 @@
 import { supabase } from './supabaseClient';
-import type { Car, FuelType, CarFormData, ImageState } from '../types';
+import type { Car, FuelType, CarFormData, ImageState, TurnaroundBuffer, UsagePolicy } from '../types';
 import { parseError } from './errorUtils';
 
 const CARS_PHOTOS_BUCKET = 'cars-photos';
@@ -52,6 +52,7 @@ interface FetchCarsOptions {
   searchTerm?: string;
   seatFilter?: number | 'all';
   fuelFilter?: FuelType[];
+  branchId?: string;
   startDate?: string;
   endDate?: string;
   adminView?: boolean;
@@ -62,7 +63,7 @@ interface FetchCarsOptions {
  */
 export const fetchCarsFromDB = async (options: FetchCarsOptions = {}): Promise<{ cars: Car[]; error: string | null; count: number | null }> => {
     try {
-        const { page = 1, limit = 9, searchTerm, seatFilter, fuelFilter, startDate, endDate, adminView = false } = options;
+        const { page = 1, limit = 9, searchTerm, seatFilter, fuelFilter, branchId, startDate, endDate, adminView = false } = options;
 
         // Select specific columns without aliasing to ensure predictable data structure.
         let query = supabase
@@ -80,6 +81,13 @@ export const fetchCarsFromDB = async (options: FetchCarsOptions = {}): Promise<{
                 available,
                 fuel_type,
                 price_per_day,
+                category,
+                turnaround_minutes,
+                km_per_day_allowance,
+                excess_km_rate,
+                deposit_amount,
+                usage_terms,
+                branch_id,
                 image_paths
             `, { count: 'exact' });
 
@@ -117,6 +125,9 @@ export const fetchCarsFromDB = async (options: FetchCarsOptions = {}): Promise<{
         if (fuelFilter && fuelFilter.length > 0) {
             query = query.in('fuel_type', fuelFilter);
         }
+        if (branchId) {
+            query = query.eq('branch_id', branchId);
+        }
 
         // Apply pagination and ordering.
         const from = (page - 1) * limit;
@@ -137,6 +148,13 @@ export const fetchCarsFromDB = async (options: FetchCarsOptions = {}): Promise<{
             fuelType: dbCar.fuel_type,
             transmission: dbCar.transmission,
             pricePerDay: dbCar.price_per_day,
+            category: dbCar.category,
+            turnaroundMinutes: dbCar.turnaround_minutes,
+            kmPerDayAllowance: dbCar.km_per_day_allowance,
+            excessKmRate: dbCar.excess_km_rate != null ? Number(dbCar.excess_km_rate) : null,
+            depositAmount: dbCar.deposit_amount != null ? Number(dbCar.deposit_amount) : null,
+            usageTerms: dbCar.usage_terms,
+            branchId: dbCar.branch_id,
             verified: dbCar.verified,
             status: dbCar.status,
             imagePaths: dbCar.image_paths || [],
@@ -175,6 +193,70 @@ export const deleteCar = async (car: Car): Promise<{ error: string | null }> =>
     }
 };
 
+/**
+ * Fetches the turnaround buffer of every car category.
+ */
+export const fetchTurnaroundBuffers = async (): Promise<{ buffers: TurnaroundBuffer[]; error: string | null }> => {
+    try {
+        const { data, error } = await supabase.from('turnaround_buffers').select('*').order('category');
+        if (error) throw error;
+        return { buffers: data || [], error: null };
+    } catch (err: unknown) {
+        return { buffers: [], error: parseError(err) };
+    }
+};
+
+/**
+ * Sets the turnaround buffers of car categories. Existing reservations keep the buffer they were made with.
+ */
+export const updateTurnaroundBuffers = async (
+    buffers: Pick<TurnaroundBuffer, 'category' | 'turnaround_minutes'>[]
+): Promise<{ error: string | null }> => {
+    try {
+        const { error } = await supabase.from('turnaround_buffers').upsert(buffers);
+        if (error) throw error;
+        return { error: null };
+    } catch (err: unknown) {
+        return { error: parseError(err) };
+    }
+};
+
+/**
+ * Fetches the mileage allowance, fuel policy and security deposit of every car category.
+ */
+export const fetchUsagePolicies = async (): Promise<{ policies: UsagePolicy[]; error: string | null }> => {
+    try {
+        const { data, error } = await supabase.from('usage_policies').select('*').order('category');
+        if (error) throw error;
+        const policies = (data || []).map((p: any): UsagePolicy => ({
+            ...p,
+            excess_km_rate: Number(p.excess_km_rate),
+            refuel_rate_per_percent: Number(p.refuel_rate_per_percent),
+            refuel_service_fee: Number(p.refuel_service_fee),
+            deposit_amount: Number(p.deposit_amount),
+        }));
+        return { policies, error: null };
+    } catch (err: unknown) {
+        return { policies: [], error: parseError(err) };
+    }
+};
+
+/**
+ * Sets the mileage allowances, fuel policies and security deposits of car categories. Existing bookings keep the
+ * terms they were made with.
+ */
+export const updateUsagePolicies = async (
+    policies: Omit<UsagePolicy, 'updated_at'>[]
+): Promise<{ error: string | null }> => {
+    try {
+        const { error } = await supabase.from('usage_policies').upsert(policies);
+        if (error) throw error;
+        return { error: null };
+    } catch (err: unknown) {
+        return { error: parseError(err) };
+    }
+};
+
 /**
  * Updates a car's 'available' status.
  */
@@ -247,6 +329,12 @@ export const upsertCar = async (formData: CarFormData, images: ImageState[], exi
       fuel_type: formData.fuelType,
       transmission: formData.transmission,
       price_per_day: formData.pricePerDay,
+      category: formData.category,
+      turnaround_minutes: formData.turnaroundMinutes,
+      km_per_day_allowance: formData.kmPerDayAllowance,
+      excess_km_rate: formData.excessKmRate,
+      deposit_amount: formData.depositAmount,
+      branch_id: formData.branchId,
       verified: true, // All cars are now verified by default.
       status: formData.status,
       image_paths: finalImagePaths,
@@ -0,0 +1,91 @@
+import { supabase } from './supabaseClient';
+import type { DeliveryRun, DeliveryZone, DeliveryZoneFormData } from '../types';
+import { parseError } from './errorUtils';
+
+const toDeliveryZone = (z: any): DeliveryZone => ({
+  id: z.id,
+  branchId: z.branch_id,
+  name: z.name,
+  maxDistanceKm: Number(z.max_distance_km),
+  fee: Number(z.fee),
+  active: z.active === true,
+});
+
+/**
+ * Fetches delivery zones, nearest first. Customers only ever see active zones; admins also get inactive ones.
+ * @param branchId - Only the zones around this branch.
+ * @param activeOnly - Leave out inactive zones even for admins, e.g. for pickers.
+ */
+export const fetchDeliveryZones = async (
+  branchId?: string,
+  activeOnly = true
+): Promise<{ zones: DeliveryZone[]; error: string | null }> => {
+  try {
+    let query = supabase.from('delivery_zones').select('*').order('max_distance_km', { ascending: true });
+    if (branchId) {
+      query = query.eq('branch_id', branchId);
+    }
+    if (activeOnly) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return { zones: (data || []).map(toDeliveryZone), error: null };
+  } catch (err: unknown) {
+    return { zones: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Creates or updates a delivery zone. A changed fee applies to quotes created afterwards.
+ */
+export const upsertDeliveryZone = async (formData: DeliveryZoneFormData, existingZoneId?: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.from('delivery_zones').upsert({
+      id: existingZoneId,
+      branch_id: formData.branchId,
+      name: formData.name.trim(),
+      max_distance_km: formData.maxDistanceKm,
+      fee: formData.fee,
+      active: formData.active,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Deletes a delivery zone. Bookings already delivered in it keep their address and fee.
+ */
+export const deleteDeliveryZone = async (zoneId: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.from('delivery_zones').delete().eq('id', zoneId);
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Fetches the run sheet for a day: every doorstep delivery and collection, in time order. Admin only.
+ * @param date - The day as "YYYY-MM-DD", in each branch's own timezone.
+ * @param branchId - Only the runs from this branch.
+ */
+export const fetchDeliveryRunSheet = async (
+  date: string,
+  branchId?: string
+): Promise<{ runs: DeliveryRun[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_delivery_run_sheet', { p_date: date, p_branch_id: branchId || null });
+    if (error) throw error;
+    return { runs: (data || []) as DeliveryRun[], error: null };
+  } catch (err: unknown) {
+    return { runs: [], error: parseError(err) };
+  }
+};
@@ -0,0 +1,68 @@
+import { supabase } from './supabaseClient';
+import type { BookingDeposit, BookingDepositStatus, DepositSettlementItem } from '../types';
+import { parseError } from './errorUtils';
+
+export const DEPOSIT_STATUS_LABELS: Record<BookingDepositStatus, string> = {
+  collected: 'Collected',
+  held: 'Held',
+  partially_released: 'Partially released',
+  released: 'Released',
+  retained: 'Retained',
+};
+
+/**
+ * Maps a deposit as returned by the booking RPCs, converting its amounts to numbers.
+ */
+export const toBookingDeposit = (d: any): BookingDeposit => ({
+  id: d.id,
+  amount: Number(d.amount),
+  status: d.status,
+  retained_amount: Number(d.retained_amount),
+  released_amount: Number(d.released_amount),
+  deductions: (d.deductions || []).map((x: any) => ({ ...x, amount: Number(x.amount) })),
+  settled_at: d.settled_at,
+});
+
+/**
+ * Fetches security deposits for the admin settlement screen.
+ * @param pendingOnly True for deposits still to settle, returned cars first; false for settled deposits, latest first.
+ */
+export const fetchBookingDeposits = async (
+  pendingOnly: boolean
+): Promise<{ deposits: DepositSettlementItem[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_booking_deposits', { p_pending_only: pendingOnly });
+    if (error) throw error;
+    const deposits = (data || []).map((d: any): DepositSettlementItem => ({
+      ...d,
+      ...toBookingDeposit(d),
+      charges: (d.charges || []).map((c: any) => ({ ...c, amount: Number(c.amount) })),
+    }));
+    return { deposits, error: null };
+  } catch (err: unknown) {
+    return { deposits: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Settles the security deposit of a returned booking: the given due charges are paid out of it and the rest is
+ * refunded to the customer as a pending refund. Admin only.
+ * @returns The amount refunded, or an error message if a charge is no longer due or the charges exceed the deposit.
+ */
+export const settleDeposit = async (
+  bookingId: string,
+  chargeIds: string[],
+  note: string
+): Promise<{ refundAmount: number | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_settle_deposit', {
+      p_booking_id: bookingId,
+      p_charge_ids: chargeIds,
+      p_note: note,
+    });
+    if (error) throw error;
+    return { refundAmount: Number(data), error: null };
+  } catch (err: unknown) {
+    return { refundAmount: null, error: parseError(err) };
+  }
+};
@@ -0,0 +1,57 @@
+import { supabase } from './supabaseClient';
+import type { FleetCalendarData } from '../types';
+import { parseError } from './errorUtils';
+
+/**
+ * Fetches the fleet calendar between two times: every car with its turnaround buffer, the bookings and extensions
+ * on each car, and maintenance blocks. Admin only; the period can be up to three months.
+ */
+export const fetchFleetCalendar = async (
+  from: Date,
+  to: Date
+): Promise<{ calendar: FleetCalendarData | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_fleet_calendar', { p_from: from.toISOString(), p_to: to.toISOString() });
+    if (error) throw error;
+    return { calendar: data as FleetCalendarData, error: null };
+  } catch (err: unknown) {
+    return { calendar: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Blocks a car for maintenance. Fails if the car is booked during the period, allowing for turnaround buffers.
+ * @returns The new block's ID, or an error message.
+ */
+export const createMaintenanceBlock = async (
+  carId: string,
+  start: Date,
+  end: Date,
+  reason: string
+): Promise<{ blockId: string | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('create_maintenance_block', {
+      p_car_id: carId,
+      p_starts_at: start.toISOString(),
+      p_ends_at: end.toISOString(),
+      p_reason: reason,
+    });
+    if (error) throw error;
+    return { blockId: data as string, error: null };
+  } catch (err: unknown) {
+    return { blockId: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Removes a maintenance block, making the car available again for its period.
+ */
+export const deleteMaintenanceBlock = async (blockId: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('delete_maintenance_block', { p_block_id: blockId });
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
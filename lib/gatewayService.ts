@@ -0,0 +1,58 @@
+import { supabase } from './supabaseClient';
+import type { PaymentGatewayConfig } from '../types';
+import { parseError } from './errorUtils';
+
+/**
+ * Fetches the enabled payment gateways in display order. The first one is the default. The mock gateway is only
+ * offered by development builds.
+ */
+export const fetchEnabledPaymentGateways = async (): Promise<{ gateways: PaymentGatewayConfig[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('payment_gateways')
+      .select('id, display_name, enabled, test_mode, sort_order, public_config')
+      .eq('enabled', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    const gateways = (data || []) as PaymentGatewayConfig[];
+    return { gateways: import.meta.env.DEV ? gateways : gateways.filter(g => g.id !== 'mock'), error: null };
+  } catch (err: unknown) {
+    return { gateways: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Fetches every payment gateway, enabled or not, in display order. Admins use it to configure checkout.
+ */
+export const fetchPaymentGateways = async (): Promise<{ gateways: PaymentGatewayConfig[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('payment_gateways')
+      .select('id, display_name, enabled, test_mode, sort_order, public_config')
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return { gateways: (data || []) as PaymentGatewayConfig[], error: null };
+  } catch (err: unknown) {
+    return { gateways: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Saves which gateways customers can pay with and the order checkout lists them in. Admin only.
+ */
+export const updatePaymentGateways = async (
+  gateways: Pick<PaymentGatewayConfig, 'id' | 'enabled' | 'sort_order'>[]
+): Promise<{ error: string | null }> => {
+  try {
+    const results = await Promise.all(
+      gateways.map(({ id, enabled, sort_order }) => supabase.from('payment_gateways').update({ enabled, sort_order }).eq('id', id))
+    );
+    const failed = results.find(r => r.error);
+    if (failed?.error) throw failed.error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
@@ -0,0 +1,45 @@
+import type { GatewayRefundResult, PaymentGateway } from '../paymentGateway';
+import { invokeGatewayFunction, parseCallbackAmount } from './gatewayUtils';
+
+const CARD_STATUS: Record<string, 'success' | 'failed' | 'pending'> = {
+  captured: 'success',
+  failed: 'failed',
+};
+
+/**
+ * Card payments on Stripe Checkout's hosted payment page, so card details never reach this app.
+ * The gateway function creates the checkout session and returns its URL. Stripe returns to the
+ * function, which looks the session up and redirects back to the callback route with transaction_id,
+ * order_id, status and amount plus a signature over them (see payment_callback_signature in the database setup).
+ * The Stripe secret key is the card row of payment_gateway_secrets; public_config is unused.
+ */
+export const cardGateway: PaymentGateway = {
+  id: 'card',
+
+  createOrder: request =>
+    invokeGatewayFunction({
+      action: 'create_order',
+      gateway: 'card',
+      paymentId: request.paymentId,
+      description: request.description,
+      returnPath: request.returnPath,
+    }),
+
+  collect: async (_request, order) => {
+    if (!order.checkoutData?.checkoutUrl) throw new Error('The card processor did not return a checkout page.');
+    window.location.href = order.checkoutData.checkoutUrl;
+  },
+
+  parseCallback: params => ({
+    paymentId: params.get('payment_id'),
+    status: CARD_STATUS[(params.get('status') || '').toLowerCase()] || 'pending',
+    gatewayTxnId: params.get('transaction_id'),
+    orderId: params.get('order_id'),
+    amount: parseCallbackAmount(params.get('amount')),
+    signature: params.get('signature'),
+  }),
+
+  refund: request => invokeGatewayFunction<GatewayRefundResult>({ action: 'refund', refundId: request.refundId }),
+
+  checkRefund: request => invokeGatewayFunction<GatewayRefundResult>({ action: 'refund_status', refundId: request.refundId }),
+};
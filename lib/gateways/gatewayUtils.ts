@@ -0,0 +1,64 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import type { PaymentMethod } from '../../types';
+
+/**
+ * Requests the payment-gateway edge function (supabase/functions/payment-gateway) accepts. It reads amounts,
+ * orders and transactions from the database, so the browser only names the payment or refund.
+ */
+export type GatewayFunctionRequest =
+  | { action: 'create_order'; gateway: Exclude<PaymentMethod, 'mock'>; paymentId: string; description: string; returnPath: string }
+  | { action: 'refund'; refundId: string }
+  | { action: 'refund_status'; refundId: string };
+
+/**
+ * Appends gateway callback parameters to a return path that may already carry its own query string.
+ */
+export const withCallbackParams = (returnPath: string, params: Record<string, string | null | undefined>) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value != null) query.set(key, value);
+  });
+  return `${returnPath}${returnPath.includes('?') ? '&' : '?'}${query.toString()}`;
+};
+
+/**
+ * Reads an amount callback parameter, or null when it is missing or not a number.
+ */
+export const parseCallbackAmount = (value: string | null): number | null => {
+  if (!value) return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+/**
+ * Loads a gateway's checkout script once.
+ */
+export const loadCheckoutScript = (src: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (document.querySelector(`script[src="${src}"]`)) {
+      resolve();
+      return;
+    }
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error('Could not load the payment gateway. Please check your connection and try again.'));
+    document.body.appendChild(script);
+  });
+
+/**
+ * Calls the server-side gateway function, which holds the gateway credentials. Real gateways use it to create
+ * orders and refunds, and it verifies and signs their callbacks; the mock gateway never does.
+ */
+export const invokeGatewayFunction = async <T>(body: GatewayFunctionRequest): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('payment-gateway', { body });
+  if (error instanceof FunctionsHttpError) {
+    // The function answers failures with { error }; surface its message rather than the generic HTTP one.
+    const details = await error.context.json().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  if (error) throw error;
+  return data as T;
+};
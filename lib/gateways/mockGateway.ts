@@ -0,0 +1,85 @@
+import type { PaymentGateway } from '../paymentGateway';
+import { supabase } from '../supabaseClient';
+import { parseCallbackAmount } from './gatewayUtils';
+
+const MOCK_LATENCY_MS = 800;
+
+/**
+ * Local stand-in for a real provider during development. Checkout happens on the #/mock-gateway page, which only
+ * development builds serve and which lets an admin choose how the payment ends: success, failure, pending or a
+ * gateway timeout.
+ * Its callbacks are signed like a real gateway's, so they go through the same server-side verification.
+ */
+export const mockGateway: PaymentGateway = {
+  id: 'mock',
+
+  // The mock has no server of its own, so the app records its order; real gateways' orders are recorded by the gateway function.
+  createOrder: async request => {
+    const orderId = `MOCK_ORD_${crypto.randomUUID()}`;
+    const { error } = await supabase.rpc('set_payment_gateway_order', {
+      p_payment_id: request.paymentId,
+      p_gateway_order_id: orderId,
+    });
+    if (error) throw error;
+    return { orderId };
+  },
+
+  collect: async (request, order) => {
+    const params = new URLSearchParams({
+      order_id: order.orderId,
+      payment_id: request.paymentId,
+      amount: request.amount.toFixed(2),
+      description: request.description,
+      return: request.returnPath,
+    });
+    window.location.hash = `#/mock-gateway?${params.toString()}`;
+  },
+
+  parseCallback: params => {
+    const status = params.get('status');
+    return {
+      paymentId: params.get('payment_id'),
+      // A timed-out checkout returns without a status; the payment stays pending.
+      status: status === 'success' || status === 'failed' ? status : 'pending',
+      gatewayTxnId: params.get('txn_id'),
+      orderId: params.get('order_id'),
+      amount: parseCallbackAmount(params.get('amount')),
+      signature: params.get('signature'),
+    };
+  },
+
+  // Refunds succeed unless the payment was never captured, mirroring how real providers reject unknown transactions.
+  refund: request =>
+    new Promise(resolve => {
+      setTimeout(() => {
+        if (!request.gatewayTxnId) {
+          resolve({ status: 'failed', gatewayRefundId: null, failureReason: 'Payment has no gateway transaction to refund.' });
+          return;
+        }
+        resolve({ status: 'succeeded', gatewayRefundId: `MOCK_RFND_${crypto.randomUUID()}` });
+      }, MOCK_LATENCY_MS);
+    }),
+
+  // The mock keeps no record of refunds, so one whose answer was lost never happened.
+  checkRefund: () =>
+    Promise.resolve({ status: 'failed', gatewayRefundId: null, failureReason: 'The test gateway has no record of this refund.' }),
+};
+
+/**
+ * Signs a mock gateway callback. The server signs with the mock gateway's secret and the payment's recorded
+ * order and amount, the way a real gateway's server would; it refuses for payments made through other gateways and
+ * for anyone but admins.
+ */
+export const signMockCallback = async (
+  paymentId: string,
+  status: 'success' | 'failed' | 'pending',
+  gatewayTxnId: string | null
+): Promise<{ orderId: string; amount: number; signature: string }> => {
+  const { data, error } = await supabase.rpc('sign_mock_gateway_callback', {
+    p_payment_id: paymentId,
+    p_status: status,
+    p_gateway_txn_id: gatewayTxnId,
+  });
+  if (error) throw error;
+  return { orderId: data.orderId, amount: Number(data.amount), signature: data.signature };
+};
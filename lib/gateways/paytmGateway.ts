@@ -0,0 +1,66 @@
+import type { GatewayRefundResult, PaymentGateway } from '../paymentGateway';
+import { invokeGatewayFunction, loadCheckoutScript, parseCallbackAmount } from './gatewayUtils';
+
+declare global {
+  interface Window {
+    Paytm?: any;
+  }
+}
+
+const PAYTM_STATUS: Record<string, 'success' | 'failed' | 'pending'> = {
+  TXN_SUCCESS: 'success',
+  TXN_FAILURE: 'failed',
+  PENDING: 'pending',
+};
+
+/**
+ * Paytm JS Checkout. The gateway function initiates the transaction with the merchant key and returns a
+ * transaction token; Paytm posts the result to the function, which confirms it with Paytm's transaction
+ * status API and redirects back to the callback route with Paytm's ORDERID, TXNID, STATUS and TXNAMOUNT
+ * parameters plus a signature over them (see payment_callback_signature in the database setup).
+ * public_config: { mid, website } — the merchant id and, optionally, the website name (WEBSTAGING or DEFAULT
+ * by default). The merchant key is the paytm row of payment_gateway_secrets.
+ */
+export const paytmGateway: PaymentGateway = {
+  id: 'paytm',
+
+  createOrder: request =>
+    invokeGatewayFunction({
+      action: 'create_order',
+      gateway: 'paytm',
+      paymentId: request.paymentId,
+      description: request.description,
+      returnPath: request.returnPath,
+    }),
+
+  collect: async (request, order, config) => {
+    const host = config.test_mode ? 'securegw-stage.paytm.in' : 'securegw.paytm.in';
+    await loadCheckoutScript(`https://${host}/merchantpgpui/checkoutjs/merchants/${config.public_config.mid}.js`);
+
+    await window.Paytm.CheckoutJS.init({
+      root: '',
+      flow: 'DEFAULT',
+      data: {
+        orderId: order.orderId,
+        token: order.checkoutData?.txnToken,
+        tokenType: 'TXN_TOKEN',
+        amount: request.amount.toFixed(2),
+      },
+      merchant: { redirect: true },
+    });
+    window.Paytm.CheckoutJS.invoke();
+  },
+
+  parseCallback: params => ({
+    paymentId: params.get('payment_id'),
+    status: PAYTM_STATUS[params.get('STATUS') || ''] || 'pending',
+    gatewayTxnId: params.get('TXNID'),
+    orderId: params.get('ORDERID'),
+    amount: parseCallbackAmount(params.get('TXNAMOUNT')),
+    signature: params.get('signature'),
+  }),
+
+  refund: request => invokeGatewayFunction<GatewayRefundResult>({ action: 'refund', refundId: request.refundId }),
+
+  checkRefund: request => invokeGatewayFunction<GatewayRefundResult>({ action: 'refund_status', refundId: request.refundId }),
+};
@@ -0,0 +1,78 @@
+import type { GatewayRefundResult, PaymentGateway } from '../paymentGateway';
+import { invokeGatewayFunction, loadCheckoutScript, parseCallbackAmount, withCallbackParams } from './gatewayUtils';
+
+declare global {
+  interface Window {
+    Razorpay?: any;
+  }
+}
+
+/**
+ * Razorpay Standard Checkout. The gateway function creates the Razorpay order with the key secret;
+ * the checkout overlay then returns the payment id, order id and signature to the callback route.
+ * Razorpay's signature covers the order and payment ids only; the amount is bound to the order, which
+ * the function created server-side for the payment's recorded amount.
+ * public_config: { key_id } — the publishable key id. The key secret is the razorpay row of payment_gateway_secrets.
+ */
+export const razorpayGateway: PaymentGateway = {
+  id: 'razorpay',
+
+  createOrder: request =>
+    invokeGatewayFunction({
+      action: 'create_order',
+      gateway: 'razorpay',
+      paymentId: request.paymentId,
+      description: request.description,
+      returnPath: request.returnPath,
+    }),
+
+  collect: async (request, order, config) => {
+    await loadCheckoutScript('https://checkout.razorpay.com/v1/checkout.js');
+
+    const returnTo = (status: 'success' | 'failed', response: Record<string, string | undefined> = {}) => {
+      window.location.hash = withCallbackParams(request.returnPath, {
+        gateway: 'razorpay',
+        payment_id: request.paymentId,
+        status,
+        amount: request.amount.toFixed(2),
+        razorpay_order_id: response.razorpay_order_id || order.orderId,
+        razorpay_payment_id: response.razorpay_payment_id,
+        razorpay_signature: response.razorpay_signature,
+      });
+    };
+
+    const checkout = new window.Razorpay({
+      key: config.public_config.key_id,
+      order_id: order.orderId,
+      amount: Math.round(request.amount * 100), // In paise
+      currency: request.currency,
+      name: 'RP Cars',
+      description: request.description,
+      prefill: {
+        name: request.customer?.name || undefined,
+        email: request.customer?.email || undefined,
+        contact: request.customer?.phone || undefined,
+      },
+      handler: (response: Record<string, string>) => returnTo('success', response),
+      modal: { ondismiss: () => returnTo('failed') },
+    });
+    checkout.on('payment.failed', (response: { error?: { metadata?: Record<string, string> } }) => returnTo('failed', response.error?.metadata));
+    checkout.open();
+  },
+
+  parseCallback: params => {
+    const status = params.get('status');
+    return {
+      paymentId: params.get('payment_id'),
+      status: status === 'success' || status === 'failed' ? status : 'pending',
+      gatewayTxnId: params.get('razorpay_payment_id'),
+      orderId: params.get('razorpay_order_id'),
+      amount: parseCallbackAmount(params.get('amount')),
+      signature: params.get('razorpay_signature'),
+    };
+  },
+
+  refund: request => invokeGatewayFunction<GatewayRefundResult>({ action: 'refund', refundId: request.refundId }),
+
+  checkRefund: request => invokeGatewayFunction<GatewayRefundResult>({ action: 'refund_status', refundId: request.refundId }),
+};
@@ -0,0 +1,180 @@
+import { supabase } from './supabaseClient';
+import type {
+  BookingChargeKind,
+  DamageMark,
+  InspectionFormData,
+  InspectionKind,
+  PaymentMethod,
+  VehicleInspection,
+} from '../types';
+import { parseError } from './errorUtils';
+
+const BUCKET_NAME = 'inspection-photos';
+
+/**
+ * The damage marks of a return report that were not on the pickup report: the same kind of damage on the same area
+ * counts as already there. Without a pickup report every mark is new.
+ */
+export const findNewDamage = (pickup: VehicleInspection | undefined, returned: VehicleInspection): DamageMark[] =>
+  returned.damages.filter(mark => !pickup?.damages.some(p => p.area === mark.area && p.type === mark.type));
+
+/**
+ * Fetches a booking's inspection reports, pickup first, with signed URLs for their photos.
+ */
+export const fetchBookingInspections = async (bookingId: string): Promise<{ inspections: VehicleInspection[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('booking_inspections')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+
+    const inspections = await Promise.all((data || []).map(async (i: any): Promise<VehicleInspection> => {
+      const photoPaths: string[] = i.photo_paths || [];
+      let photoUrls: string[] = [];
+      if (photoPaths.length > 0) {
+        const { data: signed, error: signError } = await supabase.storage.from(BUCKET_NAME).createSignedUrls(photoPaths, 3600);
+        if (signError) throw signError;
+        photoUrls = (signed || []).map(s => s.signedUrl || '');
+      }
+      return {
+        id: i.id,
+        bookingId: i.booking_id,
+        kind: i.kind,
+        odometerKm: Number(i.odometer_km),
+        energyLevelPercent: Number(i.energy_level_percent),
+        damages: i.damages || [],
+        photoPaths,
+        photoUrls,
+        notes: i.notes,
+        inspectedAt: i.updated_at,
+        acknowledgedAt: i.acknowledged_at,
+      };
+    }));
+
+    return { inspections, error: null };
+  } catch (err: unknown) {
+    return { inspections: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Uploads inspection photos under the booking's folder in the private bucket.
+ * @returns The storage paths, to be saved with the report.
+ */
+export const uploadInspectionPhotos = async (
+  bookingId: string,
+  kind: InspectionKind,
+  files: File[]
+): Promise<{ paths: string[]; error: string | null }> => {
+  try {
+    const paths = await Promise.all(files.map(async file => {
+      const filePath = `${bookingId}/${kind}/${Date.now()}-${file.name}`;
+      const { data, error } = await supabase.storage.from(BUCKET_NAME).upload(filePath, file);
+      if (error) throw new Error(`Photo upload for ${file.name} failed: ${error.message}`);
+      return data.path;
+    }));
+    return { paths, error: null };
+  } catch (err: unknown) {
+    return { paths: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Saves the pickup or return report of a booking, replacing the previous one until the customer acknowledges it.
+ * Admin only. The car can only be handed over or taken back once its report is saved.
+ */
+export const saveInspection = async (
+  bookingId: string,
+  kind: InspectionKind,
+  formData: InspectionFormData
+): Promise<{ inspectionId: string | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_save_inspection', {
+      p_booking_id: bookingId,
+      p_kind: kind,
+      p_odometer_km: formData.odometerKm,
+      p_energy_level_percent: formData.energyLevelPercent,
+      p_damages: formData.damages,
+      p_photo_paths: formData.photoPaths,
+      p_notes: formData.notes,
+    });
+    if (error) throw error;
+    return { inspectionId: data as string, error: null };
+  } catch (err: unknown) {
+    return { inspectionId: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Records that the customer has seen a report of their booking. The report can no longer be changed afterwards.
+ */
+export const acknowledgeInspection = async (inspectionId: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('acknowledge_inspection', { p_inspection_id: inspectionId });
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Raises a charge on a booking, e.g. for new damage found at return. Admin only; the customer is notified.
+ * @param inspectionId - The report the charge was raised from, if any.
+ */
+export const createBookingCharge = async (
+  bookingId: string,
+  kind: BookingChargeKind,
+  amount: number,
+  description: string,
+  inspectionId?: string
+): Promise<{ chargeId: string | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_create_booking_charge', {
+      p_booking_id: bookingId,
+      p_kind: kind,
+      p_amount: amount,
+      p_description: description,
+      p_inspection_id: inspectionId || null,
+    });
+    if (error) throw error;
+    return { chargeId: data as string, error: null };
+  } catch (err: unknown) {
+    return { chargeId: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Waives a charge that is still due. Admin only.
+ */
+export const waiveBookingCharge = async (chargeId: string, reason: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('admin_waive_booking_charge', { p_charge_id: chargeId, p_reason: reason });
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Creates a pending payment for a charge that is due on one of the customer's bookings. Paying it settles the charge.
+ * @returns The new payment's ID and the amount, or an error message.
+ */
+export const createChargePayment = async (
+  chargeId: string,
+  paymentMethod: PaymentMethod
+): Promise<{ data: { chargeId: string; paymentId: string; amount: number } | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('create_charge_payment', {
+      p_charge_id: chargeId,
+      p_payment_method: paymentMethod,
+    });
+    if (error) throw error;
+    return { data: { ...data, amount: Number(data.amount) }, error: null };
+  } catch (err: unknown) {
+    return { data: null, error: parseError(err) };
+  }
+};
@@ -0,0 +1,355 @@
+import type { Invoice } from '../types';
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const escapeHtml = (value: string | null | undefined) =>
+  (value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+// Only the taxes that apply to the place of supply are listed: CGST + SGST within the state, IGST otherwise.
+const taxRows = (invoice: Invoice) => [
+  { label: `CGST @ ${invoice.cgst_percent}%`, percent: invoice.cgst_percent, amount: invoice.cgst_amount },
+  { label: `SGST @ ${invoice.sgst_percent}%`, percent: invoice.sgst_percent, amount: invoice.sgst_amount },
+  { label: `IGST @ ${invoice.igst_percent}%`, percent: invoice.igst_percent, amount: invoice.igst_amount },
+].filter(row => row.percent > 0);
+
+/**
+ * Renders an invoice as a standalone, printable HTML document.
+ */
+export const renderInvoiceHtml = (invoice: Invoice): string => {
+  const { supplier, customer } = invoice;
+
+  const itemRows = invoice.line_items.map((item, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHtml(item.description)}</td>
+          <td>${escapeHtml(invoice.sac_code)}</td>
+          <td class="amount">${formatAmount(item.amount)}</td>
+        </tr>`).join('');
+
+  const taxSummaryRows = taxRows(invoice).map(row => `
+        <tr><td colspan="3">${row.label}</td><td class="amount">${formatAmount(row.amount)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>Tax Invoice ${escapeHtml(invoice.invoice_number)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; color: #212630; margin: 40px; font-size: 13px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    .header, .parties { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+    .muted { color: #6b7280; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border-bottom: 1px solid #e2e8f0; padding: 8px; text-align: left; }
+    th { background: #f1f5f9; }
+    .amount { text-align: right; white-space: nowrap; }
+    .total td { font-weight: bold; font-size: 15px; border-top: 2px solid #212630; }
+    footer { margin-top: 32px; font-size: 11px; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>TAX INVOICE</h1>
+      <strong>${escapeHtml(supplier.legalName)}</strong><br />
+      ${supplier.address ? `${escapeHtml(supplier.address)}<br />` : ''}
+      ${supplier.gstin ? `GSTIN: ${escapeHtml(supplier.gstin)}<br />` : ''}
+      State: ${escapeHtml(supplier.stateName)} (${escapeHtml(supplier.stateCode)})
+    </div>
+    <div>
+      <strong>Invoice No:</strong> ${escapeHtml(invoice.invoice_number)}<br />
+      <strong>Invoice Date:</strong> ${formatDate(invoice.issued_at)}<br />
+      <strong>Place of Supply:</strong> ${escapeHtml(invoice.place_of_supply_name)} (${escapeHtml(invoice.place_of_supply)})
+    </div>
+  </div>
+  <div class="parties">
+    <div>
+      <span class="muted">Bill To</span><br />
+      <strong>${escapeHtml(customer.name || customer.email)}</strong><br />
+      ${customer.email ? `${escapeHtml(customer.email)}<br />` : ''}
+      ${customer.phone ? `${escapeHtml(customer.phone)}<br />` : ''}
+      ${customer.gstin ? `GSTIN: ${escapeHtml(customer.gstin)}` : ''}
+    </div>
+    <div>
+      <span class="muted">Booking Reference</span><br />
+      #${escapeHtml((invoice.booking_id || '').split('-')[0].toUpperCase())}
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>#</th><th>Description</th><th>SAC</th><th class="amount">Amount (₹)</th></tr>
+    </thead>
+    <tbody>${itemRows}
+        <tr><td colspan="3"><strong>Taxable Value</strong></td><td class="amount"><strong>${formatAmount(invoice.taxable_amount)}</strong></td></tr>${taxSummaryRows}
+        <tr class="total"><td colspan="3">Invoice Total</td><td class="amount">₹${formatAmount(invoice.total_amount)}</td></tr>
+    </tbody>
+  </table>
+  <footer class="muted">This is a computer-generated invoice and does not require a signature.</footer>
+</body>
+</html>`;
+};
+
+export interface PaymentReceipt {
+  receiptNumber: string;
+  paidAt: string;
+  supplier: { legalName: string; address: string | null; gstin: string | null };
+  customerEmail: string | null;
+  bookingId: string;
+  description: string;
+  method: string;
+  gatewayTxnId: string | null;
+  amount: number;
+  refundedAmount: number;
+}
+
+/**
+ * Renders a payment receipt as a standalone, printable HTML document. Unlike an invoice it only
+ * acknowledges the money received, so it carries no tax breakdown.
+ */
+export const renderPaymentReceiptHtml = (receipt: PaymentReceipt): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>Payment Receipt ${escapeHtml(receipt.receiptNumber)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; color: #212630; margin: 40px; font-size: 13px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    .header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+    .muted { color: #6b7280; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border-bottom: 1px solid #e2e8f0; padding: 8px; text-align: left; }
+    th { background: #f1f5f9; width: 35%; }
+    .total td { font-weight: bold; font-size: 15px; }
+    footer { margin-top: 32px; font-size: 11px; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>PAYMENT RECEIPT</h1>
+      <strong>${escapeHtml(receipt.supplier.legalName)}</strong><br />
+      ${receipt.supplier.address ? `${escapeHtml(receipt.supplier.address)}<br />` : ''}
+      ${receipt.supplier.gstin ? `GSTIN: ${escapeHtml(receipt.supplier.gstin)}` : ''}
+    </div>
+    <div>
+      <strong>Receipt No:</strong> ${escapeHtml(receipt.receiptNumber)}<br />
+      <strong>Date:</strong> ${formatDate(receipt.paidAt)}
+    </div>
+  </div>
+  <table>
+    <tbody>
+      <tr><th>Received From</th><td>${escapeHtml(receipt.customerEmail)}</td></tr>
+      <tr><th>Booking Reference</th><td>#${escapeHtml(receipt.bookingId.split('-')[0].toUpperCase())}</td></tr>
+      <tr><th>Towards</th><td>${escapeHtml(receipt.description)}</td></tr>
+      <tr><th>Payment Method</th><td>${escapeHtml(receipt.method)}</td></tr>
+      <tr><th>Transaction ID</th><td>${escapeHtml(receipt.gatewayTxnId) || 'N/A'}</td></tr>
+      <tr class="total"><th>Amount Received</th><td>₹${formatAmount(receipt.amount)}</td></tr>
+      ${receipt.refundedAmount > 0 ? `<tr><th>Refunded</th><td>₹${formatAmount(receipt.refundedAmount)}</td></tr>` : ''}
+    </tbody>
+  </table>
+  <footer class="muted">This is a computer-generated receipt and does not require a signature. Tax invoices are issued separately.</footer>
+</body>
+</html>`;
+
+// --- PDF ---
+
+type PdfFont = 'F1' | 'F2' | 'F3'; // Helvetica, Helvetica-Bold, Courier
+
+interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  font?: PdfFont;
+  size?: number;
+}
+
+interface PdfPage {
+  texts: PdfText[];
+  rules: number[];
+}
+
+const PAGE_WIDTH = 595; // A4, in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// The standard PDF fonts only cover Latin-1, so the rupee sign is spelt out, accented Latin-1 letters are written as
+// octal escapes (keeping the file ASCII) and other characters, e.g. Devanagari, are dropped.
+const toPdfString = (text: string) =>
+  text
+    .replace(/₹/g, 'Rs. ')
+    .replace(/([\\()])/g, '\\$1')
+    .replace(/[\xA0-\xFF]/g, c => `\\${c.charCodeAt(0).toString(8)}`)
+    .replace(/[^\x20-\x7E]/g, '');
+
+// Whether any of the text survives toPdfString, e.g. a name written only in Devanagari does not.
+const isPrintable = (text: string | null | undefined) => !!text && /[\x21-\x7E\xA1-\xFF₹]/.test(text);
+
+const wrapText = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/)) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Builds a PDF from pages of positioned text and horizontal rules. Content is ASCII only,
+// so string lengths equal byte offsets for the cross-reference table.
+const buildPdf = (pages: PdfPage[]): Blob => {
+  // Objects 1-5 are the catalog, the page tree and the fonts; each page is then followed by its content stream.
+  const pageId = (index: number) => 6 + index * 2;
+  const pageObjects = pages.flatMap((page, index) => {
+    const content = [
+      '0.5 w',
+      ...page.rules.map(y => `${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`),
+      ...page.texts.map(t => `BT /${t.font || 'F1'} ${t.size || 10} Tf ${t.x.toFixed(2)} ${t.y} Td (${toPdfString(t.text)}) Tj ET`),
+    ].join('\n');
+    return [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageId(index) + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ];
+  });
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    ...pageObjects,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+};
+
+/**
+ * Renders an invoice as a PDF document, using the same content as the HTML version. Line items that do not fit
+ * continue on further pages under a repeated column header.
+ */
+export const renderInvoicePdf = (invoice: Invoice): Blob => {
+  const { supplier, customer } = invoice;
+  const pages: PdfPage[] = [{ texts: [], rules: [] }];
+  const rightEdge = PAGE_WIDTH - MARGIN;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const page = () => pages[pages.length - 1];
+  const addText = (text: PdfText) => page().texts.push(text);
+  const addRule = () => page().rules.push(y);
+  const left = (text: string, options: Partial<PdfText> = {}) => addText({ x: MARGIN, y, text, ...options });
+  // Amounts use the monospaced font so they can be right-aligned without font metrics.
+  const right = (text: string, size = 10) => addText({ x: rightEdge - toPdfString(text).length * size * 0.6, y, text, font: 'F3', size });
+  // Starts a new page unless the next `height` points still fit above the bottom margin.
+  const ensureSpace = (height: number) => {
+    if (y - height >= MARGIN) return false;
+    pages.push({ texts: [], rules: [] });
+    y = PAGE_HEIGHT - MARGIN;
+    return true;
+  };
+  const itemsHeader = () => {
+    left('Description', { font: 'F2' });
+    addText({ x: 380, y, text: 'SAC', font: 'F2' });
+    right('Amount (Rs.)');
+    y -= 6;
+    addRule();
+  };
+
+  left('TAX INVOICE', { font: 'F2', size: 18 });
+  addText({ x: 330, y, text: `Invoice No: ${invoice.invoice_number}`, font: 'F2' });
+  y -= 16;
+  addText({ x: 330, y, text: `Invoice Date: ${formatDate(invoice.issued_at)}` });
+  y -= 14;
+  addText({ x: 330, y, text: `Place of Supply: ${invoice.place_of_supply_name} (${invoice.place_of_supply})` });
+
+  y -= 10;
+  left(supplier.legalName, { font: 'F2', size: 12 });
+  y -= 14;
+  for (const line of wrapText(supplier.address || '', 50)) {
+    left(line);
+    y -= 13;
+  }
+  if (supplier.gstin) {
+    left(`GSTIN: ${supplier.gstin}`);
+    y -= 13;
+  }
+  left(`State: ${supplier.stateName || ''} (${supplier.stateCode})`);
+
+  y -= 28;
+  left('Bill To', { size: 9 });
+  y -= 14;
+  // A name the standard fonts cannot show would leave the line blank, so the email stands in for it.
+  const billTo = isPrintable(customer.name) ? customer.name : customer.email;
+  left(billTo || 'Customer', { font: 'F2' });
+  for (const detail of [billTo === customer.email ? null : customer.email, customer.phone, customer.gstin ? `GSTIN: ${customer.gstin}` : null]) {
+    if (!detail) continue;
+    y -= 13;
+    left(detail);
+  }
+  y -= 13;
+  left(`Booking Reference: #${(invoice.booking_id || '').split('-')[0].toUpperCase()}`);
+
+  y -= 28;
+  itemsHeader();
+
+  for (const item of invoice.line_items) {
+    const descriptionLines = wrapText(item.description, 60);
+    if (ensureSpace(15 + (descriptionLines.length - 1) * 13)) itemsHeader();
+    y -= 15;
+    descriptionLines.forEach((line, index) => {
+      if (index > 0) y -= 13;
+      left(line);
+      if (index === 0) {
+        addText({ x: 380, y, text: invoice.sac_code });
+        right(formatAmount(item.amount));
+      }
+    });
+  }
+
+  // The totals stay together, on the next page if they do not fit under the items.
+  const rows = taxRows(invoice);
+  if (ensureSpace(49 + rows.length * 15)) itemsHeader();
+  y -= 8;
+  addRule();
+  y -= 15;
+  left('Taxable Value', { font: 'F2' });
+  right(formatAmount(invoice.taxable_amount));
+  for (const row of rows) {
+    y -= 15;
+    left(row.label);
+    right(formatAmount(row.amount));
+  }
+  y -= 8;
+  addRule();
+  y -= 18;
+  left('Invoice Total', { font: 'F2', size: 12 });
+  right(`Rs. ${formatAmount(invoice.total_amount)}`, 12);
+
+  if (!ensureSpace(40)) y -= 40;
+  left('This is a computer-generated invoice and does not require a signature.', { size: 8 });
+
+  if (pages.length > 1) {
+    pages.forEach((p, index) => p.texts.push({ x: MARGIN, y: MARGIN - 20, text: `${invoice.invoice_number} - Page ${index + 1} of ${pages.length}`, size: 8 }));
+  }
+
+  return buildPdf(pages);
+};
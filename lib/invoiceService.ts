@@ -0,0 +1,55 @@
+import { supabase } from './supabaseClient';
+import type { Invoice } from '../types';
+import { parseError } from './errorUtils';
+import { renderInvoiceHtml, renderInvoicePdf } from './invoiceRenderer';
+
+const toInvoice = (i: any): Invoice => ({
+  ...i,
+  line_items: (i.line_items || []).map((item: any) => ({ description: item.description, amount: Number(item.amount) })),
+  taxable_amount: Number(i.taxable_amount),
+  cgst_percent: Number(i.cgst_percent),
+  cgst_amount: Number(i.cgst_amount),
+  sgst_percent: Number(i.sgst_percent),
+  sgst_amount: Number(i.sgst_amount),
+  igst_percent: Number(i.igst_percent),
+  igst_amount: Number(i.igst_amount),
+  total_tax: Number(i.total_tax),
+  total_amount: Number(i.total_amount),
+});
+
+/**
+ * Fetches the invoices issued for a booking: the booking invoice first, then one per paid extension.
+ * RLS limits users to their own invoices; admins can fetch any booking's invoices.
+ */
+export const fetchBookingInvoices = async (bookingId: string): Promise<{ invoices: Invoice[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .order('issued_at', { ascending: true });
+
+    if (error) throw error;
+    return { invoices: (data || []).map(toInvoice), error: null };
+  } catch (err: unknown) {
+    return { invoices: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Downloads an invoice as a standalone HTML page or a PDF document.
+ */
+export const downloadInvoice = (invoice: Invoice, format: 'html' | 'pdf') => {
+  const blob = format === 'html'
+    ? new Blob([renderInvoiceHtml(invoice)], { type: 'text/html;charset=utf-8' })
+    : renderInvoicePdf(invoice);
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `invoice-${invoice.invoice_number.replace(/\//g, '-')}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
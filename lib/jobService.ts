@@ -0,0 +1,69 @@
+import { supabase } from './supabaseClient';
+import type { JobRun, ScheduledJob } from '../types';
+import { parseError } from './errorUtils';
+
+/**
+ * Fetches the registered background jobs with their latest run, and the most recent runs of all jobs, newest first.
+ * @param runLimit The number of recent runs to return.
+ */
+export const fetchScheduledJobs = async (
+  runLimit = 50
+): Promise<{ jobs: ScheduledJob[]; runs: JobRun[]; error: string | null }> => {
+  try {
+    const [jobsResult, runsResult] = await Promise.all([
+      supabase.from('scheduled_jobs').select('name, description, function_name, interval_minutes, enabled, next_run_at').order('name'),
+      supabase.from('job_runs').select('*').order('started_at', { ascending: false }).limit(runLimit),
+    ]);
+
+    if (jobsResult.error) throw jobsResult.error;
+    if (runsResult.error) throw runsResult.error;
+
+    const runs: JobRun[] = runsResult.data || [];
+    // Jobs not in the recent runs fetch their latest run separately, so a quiet job still shows when it last ran.
+    const jobs: ScheduledJob[] = await Promise.all((jobsResult.data || []).map(async (job: any) => {
+      let lastRun = runs.find(r => r.job_name === job.name) || null;
+      if (!lastRun) {
+        const { data } = await supabase
+          .from('job_runs')
+          .select('*')
+          .eq('job_name', job.name)
+          .order('started_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        lastRun = data;
+      }
+      return { ...job, last_run: lastRun };
+    }));
+
+    return { jobs, runs, error: null };
+  } catch (err: unknown) {
+    return { jobs: [], runs: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Runs a job now, whether or not it is enabled or due. Admin only.
+ * @returns The recorded run, which is 'skipped' if the job was already running.
+ */
+export const triggerJob = async (name: string): Promise<{ run: JobRun | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('trigger_job', { p_name: name });
+    if (error) throw error;
+    return { run: data as JobRun, error: null };
+  } catch (err: unknown) {
+    return { run: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Pauses or resumes a job's schedule. Admin only.
+ */
+export const setJobEnabled = async (name: string, enabled: boolean): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('set_job_enabled', { p_name: name, p_enabled: enabled });
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
@@ -0,0 +1,38 @@
+import { supabase } from './supabaseClient';
+import type { AppNotification } from '../types';
+import { parseError } from './errorUtils';
+
+/**
+ * Fetches the current user's unread notifications, newest first.
+ */
+export const fetchUnreadNotifications = async (): Promise<{ notifications: AppNotification[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, booking_id, type, title, message, read_at, created_at')
+      .is('read_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return { notifications: (data || []) as AppNotification[], error: null };
+  } catch (err: unknown) {
+    return { notifications: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Marks a notification as read so it is no longer shown.
+ */
+export const markNotificationRead = async (notificationId: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
@@ -0,0 +1,97 @@
+/**
+ * Payment gateway abstraction. Each adapter in lib/gateways talks to one provider; the booking, balance,
+ * extension and refund flows only use this interface, so adding a provider does not touch them.
+ *
+ * A payment goes through three steps: the adapter creates and records an order for a pending payment, collects the
+ * payment (redirecting to or opening the provider's checkout), and finally turns the provider's callback
+ * parameters on #/payment/callback back into a payment result. The callback parameters are never trusted
+ * as-is: the server checks their signature, order id and amount before it settles the payment.
+ */
+import type { PaymentGatewayConfig, PaymentMethod } from '../types';
+import { mockGateway } from './gateways/mockGateway';
+import { paytmGateway } from './gateways/paytmGateway';
+import { razorpayGateway } from './gateways/razorpayGateway';
+import { cardGateway } from './gateways/cardGateway';
+
+export interface GatewayOrderRequest {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  // Hash route the gateway returns to, e.g. '#/payment/callback?booking_id=...'. Adapters append their own parameters.
+  returnPath: string;
+  customer?: { name?: string | null; email?: string | null; phone?: string | null };
+}
+
+export interface GatewayOrder {
+  orderId: string;
+  // Adapter-specific data needed to open the checkout, such as a Paytm transaction token.
+  checkoutData?: Record<string, any>;
+}
+
+export interface GatewayCallbackResult {
+  paymentId: string | null;
+  // 'pending' covers gateways that have not settled the payment yet and callbacks that never arrived.
+  status: 'success' | 'failed' | 'pending';
+  gatewayTxnId: string | null;
+  orderId: string | null;
+  // Amount the gateway reports for the order; the server rejects callbacks that do not match the payment.
+  amount: number | null;
+  // Gateway signature over the callback, checked by verify_and_update_payment before anything is settled.
+  signature: string | null;
+}
+
+export interface GatewayRefundRequest {
+  refundId: string;
+  paymentId: string;
+  gatewayTxnId: string | null;
+  amount: number;
+  currency: string;
+}
+
+export interface GatewayRefundResult {
+  // 'processing' means the gateway accepted the refund but will settle it later.
+  status: 'processing' | 'succeeded' | 'failed';
+  gatewayRefundId: string | null;
+  failureReason?: string | null;
+}
+
+export interface PaymentGateway {
+  id: PaymentMethod;
+  createOrder: (request: GatewayOrderRequest, config: PaymentGatewayConfig) => Promise<GatewayOrder>;
+  collect: (request: GatewayOrderRequest, order: GatewayOrder, config: PaymentGatewayConfig) => Promise<void>;
+  parseCallback: (params: URLSearchParams) => GatewayCallbackResult;
+  refund: (request: GatewayRefundRequest) => Promise<GatewayRefundResult>;
+  // Looks up a refund whose outcome was never confirmed; 'failed' means the gateway has no record of it.
+  checkRefund: (request: GatewayRefundRequest) => Promise<GatewayRefundResult>;
+}
+
+const gateways: Record<PaymentMethod, PaymentGateway> = {
+  mock: mockGateway,
+  paytm: paytmGateway,
+  razorpay: razorpayGateway,
+  card: cardGateway,
+};
+
+/**
+ * Returns the gateway adapter for a payment method. Payments made before gateways were configurable
+ * have no recorded method and are handled by the mock gateway.
+ */
+export const getPaymentGateway = (method: string | null): PaymentGateway => {
+  const gateway = gateways[(method || 'mock') as PaymentMethod];
+  if (!gateway) throw new Error(`Unknown payment gateway: ${method}`);
+  return gateway;
+};
+
+/**
+ * Creates the gateway order for a pending payment, which records it against the payment, and hands over to the
+ * gateway's checkout. The browser leaves the app (or a checkout overlay opens) when this resolves.
+ */
+export const startGatewayPayment = async (
+  config: PaymentGatewayConfig,
+  request: GatewayOrderRequest
+): Promise<void> => {
+  const gateway = getPaymentGateway(config.id);
+  const order = await gateway.createOrder(request, config);
+  await gateway.collect(request, order, config);
+};
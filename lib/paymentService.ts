@@ -0,0 +1,139 @@
+import { supabase } from './supabaseClient';
+import type { Payment, PaymentHistoryItem, PaymentMethod, TaxSettings } from '../types';
+import { parseError } from './errorUtils';
+import { renderPaymentReceiptHtml } from './invoiceRenderer';
+import { canCompleteCheckout, canExtendBooking, canPayBalance } from './bookingLifecycle';
+
+export const PAYMENT_TYPE_LABELS: Record<Payment['payment_type'], string> = {
+  booking: 'Booking',
+  balance: 'Balance',
+  extension: 'Extension',
+  modification: 'Booking change',
+};
+
+// Matches the display names seeded into payment_gateways; payments keep their method after a gateway is disabled.
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  mock: 'Test Gateway',
+  paytm: 'Paytm',
+  razorpay: 'Razorpay',
+  card: 'Credit / Debit Card',
+};
+
+/**
+ * Whether a new attempt can be made for a failed payment. Booking payments can be retried until the booking's
+ * checkout deadline, balance payments while the hold is still active and extension payments while the booking
+ * is confirmed and running. A failed modification payment cancels the modification, so it is started again instead.
+ * A pending payment without a gateway, which admin_create_booking leaves for the customer, is paid the same way.
+ * Only the latest attempt of each kind counts.
+ */
+const isRetryable = (payment: any, payments: any[]): boolean => {
+  if (payment.status !== 'failed' && !(payment.status === 'pending' && !payment.method)) return false;
+
+  const hasLaterAttempt = payments.some(p =>
+    p.booking_id === payment.booking_id &&
+    p.payment_type === payment.payment_type &&
+    new Date(p.created_at) > new Date(payment.created_at)
+  );
+  if (hasLaterAttempt) return false;
+
+  const booking = payment.bookings;
+  if (!booking) return false;
+  if (payment.payment_type === 'booking') return canCompleteCheckout(booking);
+  if (payment.payment_type === 'balance') return canPayBalance(booking);
+  if (payment.payment_type === 'extension') return canExtendBooking(booking);
+  return false;
+};
+
+/**
+ * Describes what a payment was for, e.g. 'Balance for Honda City' or 'Extension of Honda City by 12 hours'.
+ */
+export const describePayment = (payment: PaymentHistoryItem): string => {
+  const car = payment.car_title || 'your booking';
+  if (payment.payment_type === 'extension') {
+    return payment.extension_hours ? `Extension of ${car} by ${payment.extension_hours} hours` : `Extension of ${car}`;
+  }
+  if (payment.payment_type === 'modification') return `Change to booking of ${car}`;
+  return payment.payment_type === 'balance' ? `Balance for ${car}` : `Booking of ${car}`;
+};
+
+/**
+ * Fetches every payment the current user has made or attempted, newest first, with the booking each belongs to.
+ */
+export const fetchPaymentHistory = async (): Promise<{ payments: PaymentHistoryItem[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('payments')
+      .select(`
+        *,
+        bookings (
+          car_id,
+          status,
+          start_datetime,
+          end_datetime,
+          hold_expires_at,
+          payment_expires_at,
+          cars ( title )
+        ),
+        booking_extensions!fk_extension_id ( added_hours )
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const payments: PaymentHistoryItem[] = rows.map((p: any) => {
+      const { bookings: booking, booking_extensions: extension, ...payment } = p;
+      return {
+        ...payment,
+        amount: Number(payment.amount),
+        refunded_amount: Number(payment.refunded_amount ?? 0),
+        deposit_amount: Number(payment.deposit_amount ?? 0),
+        car_id: booking?.car_id,
+        car_title: booking?.cars?.title || null,
+        booking_status: booking?.status,
+        booking_start: booking?.start_datetime,
+        booking_end: booking?.end_datetime,
+        extension_hours: extension?.added_hours ?? null,
+        retryable: isRetryable(p, rows),
+      };
+    });
+
+    return { payments, error: null };
+  } catch (err: unknown) {
+    return { payments: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Downloads a printable HTML receipt for a successful payment.
+ * @param supplier The business details from the tax settings, shown as the payee.
+ * @param customerEmail Shown on the receipt as the payer.
+ */
+export const downloadPaymentReceipt = (payment: PaymentHistoryItem, supplier: TaxSettings | null, customerEmail: string | null) => {
+  const receiptNumber = `RCPT-${payment.id.split('-')[0].toUpperCase()}`;
+  const html = renderPaymentReceiptHtml({
+    receiptNumber,
+    paidAt: payment.created_at,
+    supplier: {
+      legalName: supplier?.legal_name || 'RP Cars',
+      address: supplier?.address || null,
+      gstin: supplier?.gstin || null,
+    },
+    customerEmail,
+    bookingId: payment.booking_id,
+    description: describePayment(payment),
+    method: PAYMENT_METHOD_LABELS[payment.method] || payment.method,
+    gatewayTxnId: payment.gateway_txn_id,
+    amount: payment.amount,
+    refundedAmount: payment.refunded_amount,
+  });
+
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `receipt-${receiptNumber}.html`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
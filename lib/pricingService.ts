@@ -0,0 +1,185 @@
+import { supabase } from './supabaseClient';
+import type { CancellationPolicyTier, PricingRule, PricingSettings } from '../types';
+import { parseError } from './errorUtils';
+
+/**
+ * Fetches the global pricing settings (billing unit, service charge, advance percentage, one-way fee).
+ */
+export const fetchPricingSettings = async (): Promise<{ settings: PricingSettings | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('pricing_settings')
+      .select('billing_unit_hours, service_charge_percent, advance_percent, timezone, one_way_fee, updated_at')
+      .single();
+
+    if (error) throw error;
+
+    const settings: PricingSettings = {
+      billing_unit_hours: Number(data.billing_unit_hours),
+      service_charge_percent: Number(data.service_charge_percent),
+      advance_percent: Number(data.advance_percent),
+      timezone: data.timezone,
+      one_way_fee: Number(data.one_way_fee),
+      updated_at: data.updated_at,
+    };
+
+    return { settings, error: null };
+  } catch (err: unknown) {
+    return { settings: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Updates the global pricing settings. Changes apply to all quotes created afterwards.
+ */
+export const updatePricingSettings = async (
+  settings: Omit<PricingSettings, 'updated_at'>
+): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('pricing_settings')
+      .update({
+        billing_unit_hours: settings.billing_unit_hours,
+        service_charge_percent: settings.service_charge_percent,
+        advance_percent: settings.advance_percent,
+        timezone: settings.timezone,
+        one_way_fee: settings.one_way_fee,
+      })
+      .eq('id', true);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Fetches all pricing rules, in the order the pricing engine evaluates them.
+ */
+export const fetchPricingRules = async (): Promise<{ rules: PricingRule[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('pricing_rules')
+      .select('*')
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const rules: PricingRule[] = (data || []).map((r: any) => ({
+      ...r,
+      adjustment_percent: Number(r.adjustment_percent),
+    }));
+
+    return { rules, error: null };
+  } catch (err: unknown) {
+    return { rules: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Creates or updates a pricing rule.
+ */
+export const upsertPricingRule = async (
+  formData: Partial<PricingRule>,
+  existingRuleId?: string
+): Promise<{ error: string | null }> => {
+  try {
+    const record = {
+      id: existingRuleId, // Will be undefined for new records, which is correct for upsert
+      name: formData.name?.trim(),
+      rule_type: formData.rule_type,
+      adjustment_percent: formData.adjustment_percent,
+      days_of_week: formData.rule_type === 'weekend' ? formData.days_of_week : null,
+      start_date: formData.rule_type === 'date_range' ? formData.start_date : null,
+      end_date: formData.rule_type === 'date_range' ? formData.end_date : null,
+      min_days: formData.rule_type === 'duration_tier' ? formData.min_days : null,
+      car_category: formData.car_category || null,
+      priority: formData.priority ?? 0,
+      active: formData.active,
+    };
+
+    const { error } = await supabase.from('pricing_rules').upsert(record);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Deletes a pricing rule. Existing quotes and bookings keep the amounts they were priced with.
+ */
+export const deletePricingRule = async (ruleId: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.from('pricing_rules').delete().eq('id', ruleId);
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Fetches the cancellation refund tiers, from the earliest cancellation to the latest.
+ */
+export const fetchCancellationPolicy = async (): Promise<{ tiers: CancellationPolicyTier[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('cancellation_policy_tiers')
+      .select('id, min_hours_before_pickup, refund_percent')
+      .order('min_hours_before_pickup', { ascending: false });
+
+    if (error) throw error;
+
+    const tiers: CancellationPolicyTier[] = (data || []).map((t: any) => ({
+      id: t.id,
+      min_hours_before_pickup: Number(t.min_hours_before_pickup),
+      refund_percent: Number(t.refund_percent),
+    }));
+
+    return { tiers, error: null };
+  } catch (err: unknown) {
+    return { tiers: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Creates or updates a cancellation refund tier.
+ */
+export const upsertCancellationPolicyTier = async (
+  tier: Omit<CancellationPolicyTier, 'id'>,
+  existingTierId?: string
+): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.from('cancellation_policy_tiers').upsert({
+      id: existingTierId,
+      min_hours_before_pickup: tier.min_hours_before_pickup,
+      refund_percent: tier.refund_percent,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    const message = parseError(err);
+    if (message.includes('duplicate key')) {
+      return { error: 'A tier with this notice period already exists.' };
+    }
+    return { error: message };
+  }
+};
+
+/**
+ * Deletes a cancellation refund tier. Bookings already cancelled keep the refund they were given.
+ */
+export const deleteCancellationPolicyTier = async (tierId: string): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase.from('cancellation_policy_tiers').delete().eq('id', tierId);
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
@@ -0,0 +1,69 @@
+import { supabase } from './supabaseClient';
+import type { BookingExtra, BookingQuote, DatesData, ValidatedPromo } from '../types';
+import { parseError } from './errorUtils';
+
+/**
+ * Fetches the active extras catalogue. Prices shown here are for display only;
+ * the server re-reads them when building a quote.
+ */
+export const fetchBookingExtras = async (): Promise<{ extras: BookingExtra[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('booking_extras')
+      .select('name, price_per_day')
+      .eq('active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+
+    const extras: BookingExtra[] = (data || []).map((e: any) => ({
+      name: e.name,
+      pricePerDay: Number(e.price_per_day),
+      selected: false,
+    }));
+
+    return { extras, error: null };
+  } catch (err: unknown) {
+    return { extras: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Asks the server for an itemized, short-lived price quote for the given selections.
+ * @param carId - The car being booked.
+ * @param datesData - The pickup and return dates/times, branches and any doorstep delivery or collection.
+ * @param extras - The extras list; only selected extras are sent.
+ * @param promo - The validated promo code, if any.
+ * @returns The quote, or an error message.
+ */
+export const createBookingQuote = async (
+  carId: string,
+  datesData: DatesData,
+  extras: BookingExtra[],
+  promo?: ValidatedPromo | null
+): Promise<{ quote: BookingQuote | null; error: string | null }> => {
+  try {
+    const startDateTime = new Date(`${datesData.pickupDate}T${datesData.pickupTime}`);
+    const endDateTime = new Date(`${datesData.returnDate}T${datesData.returnTime}`);
+
+    const { data, error } = await supabase.rpc('create_booking_quote', {
+      p_car_id: carId,
+      p_start_datetime: startDateTime.toISOString(),
+      p_end_datetime: endDateTime.toISOString(),
+      p_extras: extras.filter(e => e.selected).map(e => e.name),
+      p_promo_code_id: promo?.id || null,
+      p_pickup_branch_id: datesData.pickupBranchId || null,
+      p_return_branch_id: datesData.returnBranchId || null,
+      p_delivery_zone_id: datesData.deliveryZoneId || null,
+      p_delivery_address: datesData.deliveryAddress || null,
+      p_collection_zone_id: datesData.collectionZoneId || null,
+      p_collection_address: datesData.collectionAddress || null,
+    });
+
+    if (error) throw error;
+
+    return { quote: data as BookingQuote, error: null };
+  } catch (err: unknown) {
+    return { quote: null, error: parseError(err) };
+  }
+};
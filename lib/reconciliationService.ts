@@ -0,0 +1,80 @@
+import { supabase } from './supabaseClient';
+import type { PaymentMethod, ReconciliationOutcome, ReconciliationResult, SettlementRow } from '../types';
+import { parseError } from './errorUtils';
+
+export const RECONCILIATION_OUTCOME_LABELS: Record<ReconciliationOutcome, string> = {
+  matched: 'Matched',
+  duplicate: 'Duplicate',
+  missing_payment: 'No matching payment',
+  missing_in_settlement: 'Missing from settlement',
+  amount_mismatch: 'Amount mismatch',
+  status_mismatch: 'Status mismatch',
+};
+
+const toNumberOrNull = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+/**
+ * Matches settlement rows to payments through the given gateway by transaction id.
+ * Successful payments made between from and to that are not in the file are reported as missing from the settlement.
+ */
+export const reconcileSettlement = async (
+  gateway: PaymentMethod,
+  rows: SettlementRow[],
+  from: string,
+  to: string
+): Promise<{ results: ReconciliationResult[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('reconcile_settlement', {
+      p_gateway: gateway,
+      p_rows: rows,
+      p_from: from,
+      p_to: to,
+    });
+
+    if (error) throw error;
+
+    const results: ReconciliationResult[] = (data || []).map((r: any) => ({
+      ...r,
+      settled_amount: toNumberOrNull(r.settled_amount),
+      payment_amount: toNumberOrNull(r.payment_amount),
+      refunded_amount: toNumberOrNull(r.refunded_amount),
+    }));
+    return { results, error: null };
+  } catch (err: unknown) {
+    return { results: [], error: parseError(err) };
+  }
+};
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Downloads reconciliation results as a CSV file.
+ */
+export const exportReconciliationCsv = (results: ReconciliationResult[], fileName: string) => {
+  const header = ['row', 'gateway_txn_id', 'gateway_order_id', 'settled_amount', 'settled_status', 'payment_id', 'booking_id', 'payment_amount', 'payment_status', 'refunded_amount', 'result'];
+  const lines = results.map(r => [
+    r.row_number,
+    r.gateway_txn_id,
+    r.gateway_order_id,
+    r.settled_amount,
+    r.settled_status,
+    r.payment_id,
+    r.booking_id,
+    r.payment_amount,
+    r.payment_status,
+    r.refunded_amount,
+    r.result,
+  ].map(csvField).join(','));
+
+  const url = URL.createObjectURL(new Blob([[header.join(','), ...lines].join('\n')], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
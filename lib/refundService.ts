@@ -0,0 +1,146 @@
+import { supabase } from './supabaseClient';
+import type { Payment, Refund, RefundReason } from '../types';
+import { parseError } from './errorUtils';
+import { getPaymentGateway } from './paymentGateway';
+import type { GatewayRefundRequest } from './paymentGateway';
+
+export const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  customer_cancellation: 'Customer cancellation',
+  service_issue: 'Service issue',
+  duplicate_payment: 'Duplicate payment',
+  pricing_error: 'Pricing error',
+  goodwill: 'Goodwill',
+  other: 'Other',
+  booking_modification: 'Booking modification',
+  deposit_release: 'Security deposit',
+  late_payment: 'Payment after expiry',
+};
+
+const toRefund = (r: any): Refund => ({ ...r, amount: Number(r.amount) });
+
+// Maps what begin_refund_processing and get_processing_refund return to a gateway request.
+const toGatewayRefundRequest = (request: any): GatewayRefundRequest => ({
+  refundId: request.refundId,
+  paymentId: request.paymentId,
+  gatewayTxnId: request.gatewayTxnId,
+  amount: Number(request.amount),
+  currency: request.currency,
+});
+
+/**
+ * Fetches a booking's payments together with their refunds, for the admin refund screen.
+ */
+export const fetchBookingPaymentsWithRefunds = async (
+  bookingId: string
+): Promise<{ payments: (Payment & { refunds: Refund[] })[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*, refunds (*)')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const payments = (data || []).map((p: any) => ({
+      ...p,
+      amount: Number(p.amount),
+      refunded_amount: Number(p.refunded_amount),
+      deposit_amount: Number(p.deposit_amount),
+      refunds: (p.refunds || []).map(toRefund).sort((a: Refund, b: Refund) => a.created_at.localeCompare(b.created_at)),
+    }));
+
+    return { payments, error: null };
+  } catch (err: unknown) {
+    return { payments: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Creates a pending refund against a successful payment. Admin only.
+ * @returns The new refund's ID, or an error message if the amount exceeds what is still refundable.
+ */
+export const createRefund = async (
+  paymentId: string,
+  amount: number,
+  reason: RefundReason,
+  notes: string
+): Promise<{ refundId: string | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('create_refund', {
+      p_payment_id: paymentId,
+      p_amount: amount,
+      p_reason: reason,
+      p_notes: notes,
+    });
+    if (error) throw error;
+    return { refundId: data, error: null };
+  } catch (err: unknown) {
+    return { refundId: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Sends a pending or failed refund to the gateway of the payment it belongs to and records the result.
+ * If the gateway call errors, the refund may still have gone through, so it stays processing rather than failed.
+ * @returns The refund's resulting status, whether the gateway left its outcome unknown, or an error message.
+ */
+export const processRefund = async (
+  refundId: string
+): Promise<{ status: Refund['status'] | null; outcomeUnknown: boolean; error: string | null }> => {
+  try {
+    const { data: request, error: claimError } = await supabase.rpc('begin_refund_processing', { p_refund_id: refundId });
+    if (claimError) throw claimError;
+
+    const gateway = getPaymentGateway(request.method);
+    const result = await gateway
+      .refund(toGatewayRefundRequest(request))
+      .then(gatewayResult => ({ ...gatewayResult, outcomeUnknown: false }))
+      .catch((err: unknown) => ({
+        status: 'processing' as const,
+        gatewayRefundId: null,
+        failureReason: `Outcome unknown: ${parseError(err)}`,
+        outcomeUnknown: true,
+      }));
+
+    const { error: recordError } = await supabase.rpc('record_refund_result', {
+      p_refund_id: refundId,
+      p_status: result.status,
+      p_gateway_refund_id: result.gatewayRefundId,
+      p_failure_reason: result.failureReason ?? null,
+    });
+    if (recordError) throw recordError;
+
+    return { status: result.status, outcomeUnknown: result.outcomeUnknown, error: null };
+  } catch (err: unknown) {
+    return { status: null, outcomeUnknown: false, error: parseError(err) };
+  }
+};
+
+/**
+ * Asks the gateway what became of a refund that is still processing, such as one whose outcome was never confirmed,
+ * and records the answer. A refund the gateway has no record of is failed, so it can be retried.
+ * @returns The refund's resulting status, or an error message.
+ */
+export const checkRefundStatus = async (
+  refundId: string
+): Promise<{ status: Refund['status'] | null; error: string | null }> => {
+  try {
+    const { data: request, error: fetchError } = await supabase.rpc('get_processing_refund', { p_refund_id: refundId });
+    if (fetchError) throw fetchError;
+
+    const result = await getPaymentGateway(request.method).checkRefund(toGatewayRefundRequest(request));
+
+    const { error: recordError } = await supabase.rpc('record_refund_result', {
+      p_refund_id: refundId,
+      p_status: result.status,
+      p_gateway_refund_id: result.gatewayRefundId,
+      p_failure_reason: result.failureReason ?? null,
+    });
+    if (recordError) throw recordError;
+
+    return { status: result.status, error: null };
+  } catch (err: unknown) {
+    return { status: null, error: parseError(err) };
+  }
+};
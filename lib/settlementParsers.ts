@@ -0,0 +1,167 @@
+/**
+ * Parsers for gateway settlement files, used by payment reconciliation. Each format turns a CSV export into
+ * SettlementRows; matching them against payments happens on the server (reconcile_settlement).
+ *
+ * Standard format — for any gateway, or a spreadsheet prepared by finance. A CSV with a header row and the columns
+ * (in any order, case-insensitive):
+ *   txn_id    gateway transaction id, as stored in payments.gateway_txn_id (required)
+ *   order_id  gateway order id (optional)
+ *   amount    transaction amount in rupees, e.g. 1250.00 (required)
+ *   status    success, failed, pending or refunded (required)
+ *   txn_date  transaction date, ISO 8601 or YYYY-MM-DD (optional; used to suggest the reconciliation period)
+ *
+ * Paytm format — the transaction/settlement report downloaded from the Paytm merchant dashboard.
+ */
+import type { PaymentMethod, SettlementRow, SettlementStatus } from '../types';
+
+export type SettlementFormat = 'standard' | 'paytm';
+
+interface SettlementFormatDefinition {
+  label: string;
+  // The gateway whose payments the file settles; null when the admin chooses it.
+  gateway: PaymentMethod | null;
+  // Accepted header names per field, compared case-insensitively with spaces treated as underscores.
+  columns: Record<'txnId' | 'orderId' | 'amount' | 'status' | 'txnDate', string[]>;
+  statuses: Record<string, SettlementStatus>;
+}
+
+export const SETTLEMENT_FORMATS: Record<SettlementFormat, SettlementFormatDefinition> = {
+  standard: {
+    label: 'Standard CSV',
+    gateway: null,
+    columns: {
+      txnId: ['txn_id'],
+      orderId: ['order_id'],
+      amount: ['amount'],
+      status: ['status'],
+      txnDate: ['txn_date'],
+    },
+    statuses: { success: 'success', failed: 'failed', pending: 'pending', refunded: 'refunded' },
+  },
+  paytm: {
+    label: 'Paytm settlement report',
+    gateway: 'paytm',
+    columns: {
+      txnId: ['txnid', 'transaction_id', 'transaction id'],
+      orderId: ['orderid', 'order_id', 'order id'],
+      amount: ['txnamount', 'transaction_amount', 'transaction amount', 'amount'],
+      status: ['status', 'transaction_status', 'transaction status'],
+      txnDate: ['txndate', 'transaction_date', 'transaction date'],
+    },
+    statuses: {
+      txn_success: 'success',
+      success: 'success',
+      settled: 'success',
+      txn_failure: 'failed',
+      failure: 'failed',
+      failed: 'failed',
+      pending: 'pending',
+      refund: 'refunded',
+      refunded: 'refunded',
+      refund_success: 'refunded',
+    },
+  },
+};
+
+/**
+ * Splits CSV text into rows of fields. Handles quoted fields with embedded commas, quotes and line breaks.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_]+/g, '_');
+
+// Paytm prefixes ids with an apostrophe so spreadsheets keep them as text.
+const cleanValue = (value: string | undefined) => {
+  const cleaned = (value ?? '').trim().replace(/^'/, '');
+  return cleaned === '' ? null : cleaned;
+};
+
+const parseAmount = (value: string | null) => {
+  if (value === null) return null;
+  const amount = Number(value.replace(/[₹,\s]/g, ''));
+  return Number.isFinite(amount) ? amount : null;
+};
+
+const parseDate = (value: string | null) => {
+  if (value === null) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Parses a settlement file in the given format. Blank lines are skipped; a file missing a required column is rejected.
+ */
+export const parseSettlementFile = (text: string, format: SettlementFormat): { rows: SettlementRow[]; error: string | null } => {
+  const definition = SETTLEMENT_FORMATS[format];
+  const [headerRow, ...dataRows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!headerRow) return { rows: [], error: 'The file is empty.' };
+
+  const headers = headerRow.map(normaliseHeader);
+  const columnIndex = (field: keyof SettlementFormatDefinition['columns']) =>
+    headers.findIndex(h => definition.columns[field].map(normaliseHeader).includes(h));
+
+  const indexes = {
+    txnId: columnIndex('txnId'),
+    orderId: columnIndex('orderId'),
+    amount: columnIndex('amount'),
+    status: columnIndex('status'),
+    txnDate: columnIndex('txnDate'),
+  };
+  const missing = (['txnId', 'amount', 'status'] as const).filter(field => indexes[field] === -1);
+  if (missing.length > 0) {
+    return { rows: [], error: `Missing column(s): ${missing.map(field => definition.columns[field][0]).join(', ')}.` };
+  }
+
+  const rows: SettlementRow[] = [];
+  dataRows.forEach((fields, index) => {
+    if (fields.every(field => field.trim() === '')) return;
+    const status = (cleanValue(fields[indexes.status]) || '').toLowerCase().replace(/\s+/g, '_');
+    rows.push({
+      rowNumber: index + 2,
+      txnId: cleanValue(fields[indexes.txnId]),
+      orderId: indexes.orderId === -1 ? null : cleanValue(fields[indexes.orderId]),
+      amount: parseAmount(cleanValue(fields[indexes.amount])),
+      status: definition.statuses[status] || 'unknown',
+      txnDate: indexes.txnDate === -1 ? null : parseDate(cleanValue(fields[indexes.txnDate])),
+    });
+  });
+
+  return { rows, error: rows.length === 0 ? 'The file has no transactions.' : null };
+};
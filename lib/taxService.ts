@@ -0,0 +1,96 @@
+import { supabase } from './supabaseClient';
+import type { GstStateRate, TaxSettings } from '../types';
+import { parseError } from './errorUtils';
+
+/**
+ * Fetches the supplier's GST registration and invoicing settings.
+ */
+export const fetchTaxSettings = async (): Promise<{ settings: TaxSettings | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('tax_settings')
+      .select('legal_name, gstin, address, state_code, default_pickup_state_code, sac_code, invoice_prefix, updated_at')
+      .single();
+
+    if (error) throw error;
+    return { settings: data as TaxSettings, error: null };
+  } catch (err: unknown) {
+    return { settings: null, error: parseError(err) };
+  }
+};
+
+/**
+ * Updates the GST settings. Invoices already issued keep the details they were issued with.
+ */
+export const updateTaxSettings = async (
+  settings: Omit<TaxSettings, 'updated_at'>
+): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('tax_settings')
+      .update({
+        legal_name: settings.legal_name.trim(),
+        gstin: settings.gstin?.trim().toUpperCase() || null,
+        address: settings.address?.trim() || null,
+        state_code: settings.state_code,
+        default_pickup_state_code: settings.default_pickup_state_code,
+        sac_code: settings.sac_code.trim(),
+        invoice_prefix: settings.invoice_prefix.trim().toUpperCase(),
+      })
+      .eq('id', true);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
+
+/**
+ * Fetches the GST rates for every state, ordered by GST state code.
+ */
+export const fetchGstStateRates = async (): Promise<{ rates: GstStateRate[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('gst_state_rates')
+      .select('*')
+      .order('state_code', { ascending: true });
+
+    if (error) throw error;
+
+    const rates: GstStateRate[] = (data || []).map((r: any) => ({
+      ...r,
+      cgst_percent: Number(r.cgst_percent),
+      sgst_percent: Number(r.sgst_percent),
+      igst_percent: Number(r.igst_percent),
+    }));
+
+    return { rates, error: null };
+  } catch (err: unknown) {
+    return { rates: [], error: parseError(err) };
+  }
+};
+
+/**
+ * Updates the GST rates and SAC override for a single state.
+ */
+export const updateGstStateRate = async (
+  rate: Pick<GstStateRate, 'state_code' | 'cgst_percent' | 'sgst_percent' | 'igst_percent' | 'sac_code'>
+): Promise<{ error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('gst_state_rates')
+      .update({
+        cgst_percent: rate.cgst_percent,
+        sgst_percent: rate.sgst_percent,
+        igst_percent: rate.igst_percent,
+        sac_code: rate.sac_code?.trim() || null,
+      })
+      .eq('state_code', rate.state_code);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err: unknown) {
+    return { error: parseError(err) };
+  }
+};
@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { fetchCarsFromDB } from './carService';
+import { fetchBranches } from './branchService';
 import { useDebounce } from './useDebounce';
-import type { Car, FuelType } from '../types';
+import type { Branch, Car, FuelType } from '../types';
 
 const CARS_PER_PAGE = 9;
 
@@ -13,16 +14,22 @@ export const useCarFilters = () => {
     const [isLoading, setIsLoading] = useState(true);
     const [isFetchingMore, setIsFetchingMore] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [branches, setBranches] = useState<Branch[]>([]);
 
     // Filter state
     const [searchTerm, setSearchTerm] = useState('');
     const [seatFilter, setSeatFilter] = useState<number | 'all'>('all');
     const [fuelFilter, setFuelFilter] = useState<FuelType[]>([]);
+    const [branchFilter, setBranchFilter] = useState(''); // Pickup branch; empty for all branches.
     const [pickupDate, setPickupDate] = useState('');
     const [returnDate, setReturnDate] = useState('');
 
     const debouncedSearchTerm = useDebounce(searchTerm, 500);
 
+    useEffect(() => {
+        fetchBranches().then(({ branches: fetchedBranches }) => setBranches(fetchedBranches));
+    }, []);
+
     const handleSearch = useCallback(async () => {
         setIsLoading(true);
         setError(null);
@@ -33,6 +40,7 @@ export const useCarFilters = () => {
             searchTerm: debouncedSearchTerm,
             seatFilter,
             fuelFilter,
+            branchId: branchFilter || undefined,
             startDate: pickupDate,
             endDate: returnDate
         });
@@ -42,7 +50,7 @@ export const useCarFilters = () => {
         setError(error);
         setHasMoreCars(count ? newCars.length < count : false);
         setIsLoading(false);
-    }, [debouncedSearchTerm, seatFilter, fuelFilter, pickupDate, returnDate]);
+    }, [debouncedSearchTerm, seatFilter, fuelFilter, branchFilter, pickupDate, returnDate]);
 
     useEffect(() => {
         handleSearch();
@@ -60,6 +68,7 @@ export const useCarFilters = () => {
             searchTerm: debouncedSearchTerm,
             seatFilter,
             fuelFilter,
+            branchId: branchFilter || undefined,
             startDate: pickupDate,
             endDate: returnDate
         });
@@ -77,7 +86,7 @@ export const useCarFilters = () => {
             setHasMoreCars(false);
         }
         setIsFetchingMore(false);
-    }, [isFetchingMore, hasMoreCars, currentPage, debouncedSearchTerm, seatFilter, fuelFilter, pickupDate, returnDate]);
+    }, [isFetchingMore, hasMoreCars, currentPage, debouncedSearchTerm, seatFilter, fuelFilter, branchFilter, pickupDate, returnDate]);
 
     return {
         // Data
@@ -86,16 +95,19 @@ export const useCarFilters = () => {
         isFetchingMore,
         hasMoreCars,
         error,
+        branches,
         // Filters state
         searchTerm,
         seatFilter,
         fuelFilter,
+        branchFilter,
         pickupDate,
         returnDate,
         // Filter setters
         setSearchTerm,
         setSeatFilter,
         setFuelFilter,
+        setBranchFilter,
         setPickupDate,
         setReturnDate,
         // Actions
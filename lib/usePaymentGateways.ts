@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { fetchEnabledPaymentGateways } from './gatewayService';
+import type { PaymentGatewayConfig } from '../types';
+
+/**
+ * Loads the enabled payment gateways for a checkout screen.
+ */
+export const usePaymentGateways = () => {
+    const [gateways, setGateways] = useState<PaymentGatewayConfig[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            const { gateways: data, error: fetchError } = await fetchEnabledPaymentGateways();
+            if (cancelled) return;
+            setGateways(data);
+            setError(fetchError || (data.length === 0 ? 'Online payments are currently unavailable.' : null));
+            setIsLoading(false);
+        };
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return { gateways, isLoading, error };
+};
@@ -1,6 +1,7 @@
 import { supabase } from './supabaseClient';
 import type { UserDetail, Role, UserStatus, BookingDetail, Car } from '../types';
 import { parseError } from './errorUtils';
+import { toBookingDeposit } from './depositService';
 
 /**
  * Fetches all users by calling a secure 'get_all_users' database function (RPC).
@@ -44,7 +45,7 @@ export const fetchUserProfile = async (userId: string) => {
     try {
         const { data, error } = await supabase
             .from('profiles')
-            .select('phone, status, full_name')
+            .select('phone, status, full_name, gstin')
             .eq('id', userId)
             .maybeSingle();
         
@@ -84,11 +85,12 @@ export const updateUserPhone = async (userId: string, phone: string) => {
 /**
  * Updates the current user's profile details using a secure RPC.
  */
-export const updateCurrentUserProfile = async (details: { name: string; phone: string }): Promise<{ error: string | null }> => {
+export const updateCurrentUserProfile = async (details: { name: string; phone: string; gstin: string }): Promise<{ error: string | null }> => {
     try {
         const { error } = await supabase.rpc('update_user_profile', {
             p_full_name: details.name,
-            p_phone: details.phone
+            p_phone: details.phone,
+            p_gstin: details.gstin
         });
         if (error) throw error;
         return { error: null };
@@ -145,7 +147,7 @@ export const fetchUserBookings = async (): Promise<{ bookings: BookingDetail[];
       end_datetime: b.end_datetime,
       total_amount: b.total_amount,
       status: b.status,
-      payment_mode: b.status === 'hold' ? 'hold' : 'full',
+      payment_mode: b.payment_mode,
       hold_expires_at: b.hold_expires_at,
       booking_extensions: b.booking_extensions || [],
       cars: b.cars ? {
@@ -158,6 +160,7 @@ export const fetchUserBookings = async (): Promise<{ bookings: BookingDetail[];
         fuelType: b.cars.fuel_type,
         transmission: b.cars.transmission,
         pricePerDay: b.cars.price_per_day,
+        category: b.cars.category,
         verified: b.cars.verified,
         status: b.cars.status,
         imagePaths: b.cars.image_paths || [],
@@ -165,6 +168,20 @@ export const fetchUserBookings = async (): Promise<{ bookings: BookingDetail[];
       } as Car : undefined,
       promo_code_id: b.promo_code_id,
       discount_amount: b.discount_amount,
+      cancelled_at: b.cancelled_at,
+      cancellation_reason: b.cancellation_reason,
+      refund_amount: b.refund_amount != null ? Number(b.refund_amount) : null,
+      refunds: (b.refunds || []).map((r: any) => ({ ...r, amount: Number(r.amount) })),
+      amount_paid: Number(b.amount_paid ?? 0),
+      version: b.version ?? 1,
+      pickup_branch_name: b.pickup_branch_name,
+      return_branch_name: b.return_branch_name,
+      delivery_address: b.delivery_address,
+      collection_address: b.collection_address,
+      usage_terms: b.usage_terms ?? null,
+      inspections: b.inspections || [],
+      charges: (b.charges || []).map((c: any) => ({ ...c, amount: Number(c.amount) })),
+      deposit: b.deposit ? toBookingDeposit(b.deposit) : null,
     }));
 
     return { bookings, error: null };
@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+// Runs the app's scheduled jobs outside pg_cron, e.g. against a local Supabase stack during development.
+//
+// Every minute it calls run_due_jobs(), which runs each enabled job whose next_run_at has passed and records the
+// run in job_runs. Jobs take an advisory lock, so this worker can safely run alongside pg_cron or another worker.
+//
+// With --sync-payments it first asks the payment-gateway function to settle gateway payments whose callback never
+// arrived (its sync_pending action), so they are settled before expire_pending_payments gives up on them.
+//
+// Usage:
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... npm run jobs:worker
+//   npm run jobs:worker -- --once              run the due jobs once and exit
+//   npm run jobs:worker -- --sync-payments     also sync pending gateway payments every minute
+//
+// The service role key is required because run_due_jobs is not granted to anon or authenticated users.
+// Never expose it to the browser.
+import { createClient } from '@supabase/supabase-js';
+
+const INTERVAL_MS = 60_000;
+
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.');
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+const once = process.argv.includes('--once');
+const syncPayments = process.argv.includes('--sync-payments');
+
+const syncPendingPayments = async () => {
+  const { data, error } = await supabase.functions.invoke('payment-gateway', { body: { action: 'sync_pending' } });
+  if (error) {
+    console.error(`[${new Date().toISOString()}] Payment sync failed: ${error.message}`);
+    return;
+  }
+  if (data.settled > 0) {
+    console.log(`[${new Date().toISOString()}] Settled ${data.settled} of ${data.checked} pending gateway payment(s).`);
+  }
+};
+
+const runDueJobs = async () => {
+  const { data, error } = await supabase.rpc('run_due_jobs');
+  if (error) {
+    console.error(`[${new Date().toISOString()}] run_due_jobs failed: ${error.message}`);
+    return false;
+  }
+  if (data > 0) {
+    console.log(`[${new Date().toISOString()}] Ran ${data} due job(s); see job_runs or the admin Scheduled Jobs page for results.`);
+  }
+  return true;
+};
+
+if (once) {
+  if (syncPayments) await syncPendingPayments();
+  process.exit((await runDueJobs()) ? 0 : 1);
+}
+
+let timer;
+let stopping = false;
+const tick = async () => {
+  if (syncPayments) await syncPendingPayments();
+  await runDueJobs();
+  if (!stopping) timer = setTimeout(tick, INTERVAL_MS);
+};
+
+const stop = () => {
+  stopping = true;
+  clearTimeout(timer);
+  console.log('Jobs worker stopped.');
+  process.exit(0);
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+console.log(`Jobs worker started; checking for due jobs every ${INTERVAL_MS / 1000}s.`);
+tick();
@@ -0,0 +1,534 @@
+// Server side of the Paytm, Razorpay and card gateway adapters in lib/gateways. It holds the gateway credentials, so
+// they never reach the browser, and answers five actions:
+//
+//   create_order  Creates the provider's order for a pending payment, at the amount recorded for the payment, and
+//                 records it as the payment's gateway order. Only the customer who owns the payment can call it.
+//   refund        Sends a refund claimed by begin_refund_processing to the provider of its payment. Admins only;
+//                 the amount and transaction come from the database, never from the request. A refund the provider
+//                 refuses comes back failed; when its outcome is unknown (a timeout, a provider 5xx) the call errors.
+//   refund_status Asks the provider what became of a refund that is still processing: its status, or failed when
+//                 the provider has no record of it. Admins only.
+//   sync_pending  Asks the providers about gateway payments still pending well after checkout, for callbacks that
+//                 never arrived, and settles those with an outcome. Run by a schedule with the service role key;
+//                 expire_pending_payments waits for it (see awaiting_gateway_confirmation in the database setup).
+//   callback      Where Paytm and the card processor (Stripe Checkout) return after checkout. The function asks the
+//                 provider for the order's outcome, signs it (see payment_callback_signature in the database setup)
+//                 and redirects to the app's callback route, which passes it to verify_and_update_payment.
+//                 Razorpay's checkout returns its own signed result in the browser and never comes here.
+//
+// Credentials: each gateway's secret is its row in payment_gateway_secrets (the Paytm merchant key, the Razorpay key
+// secret, the Stripe secret key), the same secret the database checks callback signatures with. Publishable ids are
+// in payment_gateways.public_config. APP_URL is the app's public URL, which callbacks redirect back to.
+//
+// Providers call the callback unauthenticated, so deploy without JWT verification; the other actions check the
+// caller themselves:
+//   supabase functions deploy payment-gateway --no-verify-jwt
+//   supabase secrets set APP_URL=https://your-app.example
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type GatewayId = 'paytm' | 'razorpay' | 'card';
+type CallbackStatus = 'success' | 'failed' | 'pending';
+type RefundStatus = 'processing' | 'succeeded' | 'failed';
+
+interface RefundResult {
+  status: RefundStatus;
+  gatewayRefundId: string | null;
+  failureReason?: string | null;
+}
+
+interface GatewayConfig {
+  id: GatewayId;
+  enabled: boolean;
+  test_mode: boolean;
+  public_config: Record<string, string>;
+  secret: string;
+}
+
+interface PaymentRecord {
+  id: string;
+  user_id: string;
+  amount: number;
+  status: string;
+  method: string | null;
+  gateway_order_id: string | null;
+  gateway_txn_id: string | null;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// The provider rejected the request outright (HTTP 4xx), so it created nothing. Network errors and provider 5xx
+// stay plain errors: the request may still have gone through.
+class GatewayDeclined extends Error {}
+
+const GATEWAYS: GatewayId[] = ['paytm', 'razorpay', 'card'];
+const CALLBACK_ROUTE = '#/payment/callback';
+
+const PAYTM_STATUS: Record<string, CallbackStatus> = {
+  TXN_SUCCESS: 'success',
+  TXN_FAILURE: 'failed',
+  PENDING: 'pending',
+};
+// Paytm checksums are AES-128-CBC with this fixed IV, over a SHA-256 of the body and a random salt.
+const PAYTM_IV = '@@@@&&&&####$$$$';
+const PAYTM_SALT_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+const CARD_STATUS: Record<string, CallbackStatus> = {
+  captured: 'success',
+  failed: 'failed',
+  pending: 'pending',
+};
+
+// sync_pending checks orders left alone this long (newer ones are still in checkout), up to a day old.
+const SYNC_AFTER_MS = 5 * 60_000;
+const SYNC_WINDOW_MS = 24 * 60 * 60_000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const appUrl = (Deno.env.get('APP_URL') || '').replace(/\/$/, '');
+const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, { auth: { persistSession: false } });
+
+const encoder = new TextEncoder();
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const hmacHex = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+};
+
+/**
+ * Signs a callback the way payment_callback_signature expects: hex HMAC-SHA256 of 'order_id|amount|status|txn_id'.
+ */
+const signCallback = (config: GatewayConfig, orderId: string, amount: number | null, status: CallbackStatus, txnId: string | null) =>
+  hmacHex(config.secret, [orderId, amount === null ? '' : amount.toFixed(2), status, txnId ?? ''].join('|'));
+
+const loadGateway = async (id: GatewayId): Promise<GatewayConfig> => {
+  const { data: gateway, error } = await admin.from('payment_gateways').select('id, enabled, test_mode, public_config').eq('id', id).single();
+  if (error) throw error;
+  const { data: credentials } = await admin.from('payment_gateway_secrets').select('secret').eq('gateway_id', id).maybeSingle();
+  if (!credentials) throw new HttpError(500, `No credentials are configured for ${id}.`);
+  return { ...gateway, secret: credentials.secret };
+};
+
+const loadPayment = async (paymentId: string): Promise<PaymentRecord | null> => {
+  const { data, error } = await admin
+    .from('payments')
+    .select('id, user_id, amount, status, method, gateway_order_id, gateway_txn_id')
+    .eq('id', paymentId)
+    .maybeSingle();
+  if (error) throw error;
+  return data && { ...data, amount: Number(data.amount) };
+};
+
+const requireUser = async (req: Request) => {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer /, '');
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, 'Authentication required.');
+  return data.user;
+};
+
+// The scheduler calls sync_pending with the service role key.
+const requireServiceRole = (req: Request) => {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer /, '');
+  if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) throw new HttpError(403, 'Only the scheduler can sync payments.');
+};
+
+const requireAdmin = async (req: Request) => {
+  const caller = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+    auth: { persistSession: false },
+  });
+  const { data: isAdmin } = await caller.rpc('is_admin');
+  if (isAdmin !== true) throw new HttpError(403, 'Only admins can process refunds.');
+};
+
+// --- Paytm ---
+
+const paytmSignature = async (body: string, merchantKey: string) => {
+  const salt = Array.from(crypto.getRandomValues(new Uint8Array(4)), b => PAYTM_SALT_CHARS[b % PAYTM_SALT_CHARS.length]).join('');
+  const digest = toHex(await crypto.subtle.digest('SHA-256', encoder.encode(`${body}|${salt}`))) + salt;
+  const key = await crypto.subtle.importKey('raw', encoder.encode(merchantKey), { name: 'AES-CBC' }, false, ['encrypt']);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv: encoder.encode(PAYTM_IV) }, key, encoder.encode(digest));
+  return btoa(String.fromCharCode(...new Uint8Array(encrypted)));
+};
+
+// Paytm signs the exact body string, so the request is assembled around the string that was signed.
+const paytmRequest = async (config: GatewayConfig, path: string, body: Record<string, unknown>) => {
+  const host = config.test_mode ? 'securegw-stage.paytm.in' : 'securegw.paytm.in';
+  const payload = JSON.stringify(body);
+  const signature = await paytmSignature(payload, config.secret);
+  const res = await fetch(`https://${host}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: `{"body":${payload},"head":{"signature":${JSON.stringify(signature)}}}`,
+  });
+  if (!res.ok) throw new Error(`Paytm returned HTTP ${res.status}.`);
+  return (await res.json()).body;
+};
+
+// --- Razorpay ---
+
+const razorpayRequest = async (config: GatewayConfig, path: string, body?: Record<string, unknown>) => {
+  const res = await fetch(`https://api.razorpay.com/v1${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      Authorization: `Basic ${btoa(`${config.public_config.key_id}:${config.secret}`)}`,
+      'Content-Type': 'application/json',
+    },
+    body: body && JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    const message = data.error?.description || `Razorpay returned HTTP ${res.status}.`;
+    throw res.status < 500 ? new GatewayDeclined(message) : new Error(message);
+  }
+  return data;
+};
+
+// --- Card (Stripe Checkout) ---
+
+const stripeRequest = async (config: GatewayConfig, path: string, params?: Record<string, string>) => {
+  const res = await fetch(`https://api.stripe.com/v1${path}`, {
+    method: params ? 'POST' : 'GET',
+    headers: { Authorization: `Bearer ${config.secret}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params && new URLSearchParams(params),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    const message = data.error?.message || `The card processor returned HTTP ${res.status}.`;
+    throw res.status < 500 ? new GatewayDeclined(message) : new Error(message);
+  }
+  return data;
+};
+
+// --- Actions ---
+
+const callbackUrl = (gateway: GatewayId, paymentId: string, returnPath: string) =>
+  `${supabaseUrl}/functions/v1/payment-gateway?${new URLSearchParams({ action: 'callback', gateway, payment_id: paymentId, return: returnPath })}`;
+
+const createOrder = async (req: Request, body: Record<string, string>) => {
+  const user = await requireUser(req);
+  const gateway = body.gateway as GatewayId;
+  if (!GATEWAYS.includes(gateway)) throw new HttpError(400, 'Unknown payment gateway.');
+  if (!body.returnPath?.startsWith(CALLBACK_ROUTE)) throw new HttpError(400, 'Invalid return path.');
+
+  const payment = await loadPayment(body.paymentId);
+  if (!payment || payment.user_id !== user.id) throw new HttpError(404, 'Payment not found.');
+  if (payment.status !== 'pending') throw new HttpError(409, 'This payment is no longer pending.');
+  if (payment.method !== gateway) throw new HttpError(400, 'This payment was started with a different gateway.');
+
+  const config = await loadGateway(gateway);
+  if (!config.enabled) throw new HttpError(400, 'This payment gateway is not available.');
+
+  const returnUrl = callbackUrl(gateway, payment.id, body.returnPath);
+  let order: { orderId: string; checkoutData?: Record<string, string> };
+  if (gateway === 'paytm') {
+    const orderId = `RP_${payment.id.replace(/-/g, '')}_${Date.now()}`;
+    const result = await paytmRequest(config, `/theia/api/v1/initiateTransaction?mid=${config.public_config.mid}&orderId=${orderId}`, {
+      requestType: 'Payment',
+      mid: config.public_config.mid,
+      websiteName: config.public_config.website || (config.test_mode ? 'WEBSTAGING' : 'DEFAULT'),
+      orderId,
+      callbackUrl: returnUrl,
+      txnAmount: { value: payment.amount.toFixed(2), currency: 'INR' },
+      userInfo: { custId: payment.user_id },
+    });
+    if (result?.resultInfo?.resultStatus !== 'S') throw new Error(result?.resultInfo?.resultMsg || 'Paytm did not start the transaction.');
+    order = { orderId, checkoutData: { txnToken: result.txnToken } };
+  } else if (gateway === 'razorpay') {
+    const result = await razorpayRequest(config, '/orders', {
+      amount: Math.round(payment.amount * 100), // In paise
+      currency: 'INR',
+      receipt: payment.id,
+    });
+    order = { orderId: result.id };
+  } else {
+    const session = await stripeRequest(config, '/checkout/sessions', {
+      mode: 'payment',
+      client_reference_id: payment.id,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': 'inr',
+      'line_items[0][price_data][unit_amount]': String(Math.round(payment.amount * 100)), // In paise
+      'line_items[0][price_data][product_data][name]': body.description || 'RP Cars payment',
+      success_url: returnUrl,
+      cancel_url: `${returnUrl}&cancelled=1`,
+    });
+    order = { orderId: session.id, checkoutData: { checkoutUrl: session.url } };
+  }
+
+  // Recorded here rather than by the browser, so a payment can only be verified against the order made for it.
+  const { error } = await admin.from('payments').update({ gateway_order_id: order.orderId }).eq('id', payment.id).eq('status', 'pending');
+  if (error) throw error;
+  return order;
+};
+
+// Provider refund statuses. Only an explicit failure fails the refund; anything else leaves it processing.
+const paytmRefundResult = (result: any): RefundResult => {
+  const status = result?.resultInfo?.resultStatus;
+  if (status === 'TXN_FAILURE') return { status: 'failed', gatewayRefundId: result.refundId ?? null, failureReason: result.resultInfo.resultMsg };
+  return { status: status === 'TXN_SUCCESS' ? 'succeeded' : 'processing', gatewayRefundId: result?.refundId ?? null };
+};
+
+const razorpayRefundResult = (result: any): RefundResult => {
+  if (result.status === 'failed') return { status: 'failed', gatewayRefundId: result.id, failureReason: 'Razorpay declined the refund.' };
+  return { status: result.status === 'processed' ? 'succeeded' : 'processing', gatewayRefundId: result.id };
+};
+
+const stripeRefundResult = (result: any): RefundResult => {
+  if (result.status === 'failed' || result.status === 'canceled') {
+    return { status: 'failed', gatewayRefundId: result.id, failureReason: result.failure_reason || 'The card processor declined the refund.' };
+  }
+  return { status: result.status === 'succeeded' ? 'succeeded' : 'processing', gatewayRefundId: result.id };
+};
+
+// Sends the refund to the provider. Razorpay and Stripe answer with the refund they created; Paytm with its status.
+const sendRefund = async (config: GatewayConfig, payment: PaymentRecord, refundId: string, amount: number): Promise<RefundResult> => {
+  const gateway = config.id;
+  if (gateway === 'paytm') {
+    const result = await paytmRequest(config, '/refund/apply', {
+      mid: config.public_config.mid,
+      txnType: 'REFUND',
+      orderId: payment.gateway_order_id,
+      txnId: payment.gateway_txn_id,
+      refId: refundId,
+      refundAmount: amount.toFixed(2),
+    });
+    return paytmRefundResult(result);
+  }
+  if (gateway === 'razorpay') {
+    const result = await razorpayRequest(config, `/payments/${payment.gateway_txn_id}/refund`, {
+      amount: Math.round(amount * 100),
+      notes: { refund_id: refundId },
+    });
+    return razorpayRefundResult(result);
+  }
+  const result = await stripeRequest(config, '/refunds', {
+    payment_intent: payment.gateway_txn_id!, // refund only sends payments with a transaction
+    amount: String(Math.round(amount * 100)),
+    'metadata[refund_id]': refundId,
+  });
+  return stripeRefundResult(result);
+};
+
+// Loads a processing refund and the gateway payment it refunds, for the admin caller of the refund actions.
+const loadProcessingRefund = async (req: Request, refundId: string) => {
+  await requireAdmin(req);
+  const { data: refundRecord } = await admin
+    .from('refunds')
+    .select('id, payment_id, amount, status, gateway_refund_id')
+    .eq('id', refundId)
+    .maybeSingle();
+  if (!refundRecord) throw new HttpError(404, 'Refund not found.');
+  if (refundRecord.status !== 'processing') throw new HttpError(409, 'The refund is not being processed.');
+
+  const payment = await loadPayment(refundRecord.payment_id);
+  const gateway = payment?.method as GatewayId;
+  if (!payment || !GATEWAYS.includes(gateway)) throw new HttpError(400, 'The payment was not made through a gateway this function handles.');
+  return { refundRecord, payment, gateway };
+};
+
+const refund = async (req: Request, body: Record<string, string>): Promise<RefundResult> => {
+  const { refundRecord, payment, gateway } = await loadProcessingRefund(req, body.refundId);
+  if (!payment.gateway_txn_id) {
+    return { status: 'failed', gatewayRefundId: null, failureReason: 'Payment has no gateway transaction to refund.' };
+  }
+
+  const config = await loadGateway(gateway);
+  try {
+    return await sendRefund(config, payment, refundRecord.id, Number(refundRecord.amount));
+  } catch (err) {
+    // Only a refusal is a definite failure; anything else is thrown, and the refund stays processing until checked.
+    if (err instanceof GatewayDeclined) return { status: 'failed', gatewayRefundId: null, failureReason: err.message };
+    throw err;
+  }
+};
+
+// Looks the refund up by the provider's id when the refund call answered, otherwise by the id sent along with it
+// (Paytm's refId, Razorpay's notes, Stripe's metadata). A provider with no such refund never made it.
+const refundStatus = async (req: Request, body: Record<string, string>): Promise<RefundResult> => {
+  const { refundRecord, payment, gateway } = await loadProcessingRefund(req, body.refundId);
+  const notFound: RefundResult = { status: 'failed', gatewayRefundId: null, failureReason: 'The gateway has no record of this refund.' };
+  // refund never sends a refund for a payment without a transaction.
+  if (!payment.gateway_txn_id) return notFound;
+
+  const config = await loadGateway(gateway);
+  if (gateway === 'paytm') {
+    const result = await paytmRequest(config, '/v2/refund/status', {
+      mid: config.public_config.mid,
+      orderId: payment.gateway_order_id,
+      refId: refundRecord.id,
+    });
+    return paytmRefundResult(result);
+  }
+  if (gateway === 'razorpay') {
+    const result = refundRecord.gateway_refund_id
+      ? await razorpayRequest(config, `/refunds/${refundRecord.gateway_refund_id}`)
+      : (await razorpayRequest(config, `/payments/${payment.gateway_txn_id}/refunds?count=100`)).items
+          .find((r: any) => r.notes?.refund_id === refundRecord.id);
+    return result ? razorpayRefundResult(result) : notFound;
+  }
+  const result = refundRecord.gateway_refund_id
+    ? await stripeRequest(config, `/refunds/${refundRecord.gateway_refund_id}`)
+    : (await stripeRequest(config, `/refunds?${new URLSearchParams({ payment_intent: payment.gateway_txn_id, limit: '100' })}`)).data
+        .find((r: any) => r.metadata?.refund_id === refundRecord.id);
+  return result ? stripeRefundResult(result) : notFound;
+};
+
+interface OrderOutcome {
+  // The provider's own status, which the adapter's parseCallback reads.
+  providerStatus: string;
+  status: CallbackStatus;
+  amount: number | null;
+  txnId: string | null;
+}
+
+/**
+ * Asks the provider how a payment's order stands. With cancel, an open card checkout is expired first so it can no
+ * longer be paid.
+ */
+const fetchOrderOutcome = async (config: GatewayConfig, orderId: string, cancel = false): Promise<OrderOutcome> => {
+  if (config.id === 'paytm') {
+    const result = await paytmRequest(config, '/v3/order/status', { mid: config.public_config.mid, orderId });
+    const paytmStatus: string = result?.resultInfo?.resultStatus || 'PENDING';
+    return {
+      providerStatus: paytmStatus,
+      status: PAYTM_STATUS[paytmStatus] || 'pending',
+      amount: result?.txnAmount ? Number(result.txnAmount) : null,
+      txnId: result?.txnId || null,
+    };
+  }
+  if (config.id === 'razorpay') {
+    // An order can be attempted several times; it is paid once one of its payments is captured.
+    const { items } = await razorpayRequest(config, `/orders/${orderId}/payments`);
+    const captured = items.find((p: any) => p.status === 'captured');
+    if (!captured) return { providerStatus: 'pending', status: 'pending', amount: null, txnId: null };
+    return { providerStatus: 'captured', status: 'success', amount: captured.amount / 100, txnId: captured.id };
+  }
+  let session = await stripeRequest(config, `/checkout/sessions/${orderId}`);
+  if (cancel && session.status === 'open') {
+    session = await stripeRequest(config, `/checkout/sessions/${orderId}/expire`, {});
+  }
+  const cardStatus = session.payment_status === 'paid' ? 'captured' : session.status === 'expired' ? 'failed' : 'pending';
+  return { providerStatus: cardStatus, status: CARD_STATUS[cardStatus], amount: session.amount_total / 100, txnId: session.payment_intent || null };
+};
+
+// Signs an outcome the way payment_callback_signature checks it; Razorpay's is the one its checkout returns.
+const signOutcome = (config: GatewayConfig, orderId: string, outcome: OrderOutcome) =>
+  config.id === 'razorpay'
+    ? hmacHex(config.secret, `${orderId}|${outcome.txnId ?? ''}`)
+    : signCallback(config, orderId, outcome.amount, outcome.status, outcome.txnId);
+
+/**
+ * Asks the provider how a checkout ended and redirects to the app's callback route with the signed result. Anything
+ * that cannot be confirmed with the provider returns unsigned, which the app treats as still pending.
+ */
+const handleCallback = async (url: URL) => {
+  const gateway = url.searchParams.get('gateway') as GatewayId;
+  const paymentId = url.searchParams.get('payment_id') || '';
+  const returnPath = url.searchParams.get('return') || '';
+  if (!GATEWAYS.includes(gateway) || !returnPath.startsWith(CALLBACK_ROUTE)) throw new HttpError(400, 'Invalid callback.');
+
+  const params: Record<string, string | null> = { gateway, payment_id: paymentId };
+  try {
+    const payment = await loadPayment(paymentId);
+    if (gateway !== 'razorpay' && payment?.method === gateway && payment.gateway_order_id) {
+      const config = await loadGateway(gateway);
+      const orderId = payment.gateway_order_id;
+      // The customer left the hosted card page: expire the session so it can no longer be paid.
+      const outcome = await fetchOrderOutcome(config, orderId, !!url.searchParams.get('cancelled'));
+      const amount = outcome.amount === null ? null : outcome.amount.toFixed(2);
+      const signature = await signOutcome(config, orderId, outcome);
+      Object.assign(
+        params,
+        gateway === 'paytm'
+          ? { ORDERID: orderId, TXNID: outcome.txnId, STATUS: outcome.providerStatus, TXNAMOUNT: amount, signature }
+          : { order_id: orderId, transaction_id: outcome.txnId, status: outcome.providerStatus, amount, signature }
+      );
+    }
+  } catch (err) {
+    console.error(`Could not confirm ${gateway} payment ${paymentId}:`, err);
+  }
+
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value != null) query.set(key, value);
+  });
+  const location = `${appUrl}/${returnPath}${returnPath.includes('?') ? '&' : '?'}${query}`;
+  return new Response(null, { status: 303, headers: { Location: location } });
+};
+
+/**
+ * Settles gateway payments whose callback never arrived: asks the provider about each pending order checkout has
+ * left alone for a while, and applies its answer through apply_payment_callback, signed like a callback. Orders the
+ * provider still reports as pending are checked again on the next run.
+ */
+const syncPending = async (req: Request) => {
+  requireServiceRole(req);
+  const now = Date.now();
+  const { data, error } = await admin
+    .from('payments')
+    .select('id, user_id, amount, status, method, gateway_order_id, gateway_txn_id')
+    .eq('status', 'pending')
+    .in('method', GATEWAYS)
+    .not('gateway_order_id', 'is', null)
+    .lt('updated_at', new Date(now - SYNC_AFTER_MS).toISOString())
+    .gt('updated_at', new Date(now - SYNC_WINDOW_MS).toISOString())
+    .order('updated_at')
+    .limit(100);
+  if (error) throw error;
+
+  const configs = new Map<string, GatewayConfig>();
+  let settled = 0;
+  for (const payment of data as PaymentRecord[]) {
+    try {
+      const gateway = payment.method as GatewayId;
+      if (!configs.has(gateway)) configs.set(gateway, await loadGateway(gateway));
+      const config = configs.get(gateway)!;
+      const orderId = payment.gateway_order_id!;
+      const outcome = await fetchOrderOutcome(config, orderId);
+      if (outcome.status === 'pending') continue;
+
+      const { data: result, error: applyError } = await admin.rpc('apply_payment_callback', {
+        p_payment_id: payment.id,
+        p_gateway_order_id: orderId,
+        p_amount: outcome.amount,
+        p_status: outcome.status,
+        p_gateway_txn_id: outcome.txnId,
+        p_signature: await signOutcome(config, orderId, outcome),
+      });
+      if (applyError) throw applyError;
+      if (result.accepted) settled++;
+    } catch (err) {
+      console.error(`Could not sync ${payment.method} payment ${payment.id}:`, err);
+    }
+  }
+  return { checked: data.length, settled };
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  const url = new URL(req.url);
+  try {
+    if (url.searchParams.get('action') === 'callback') return await handleCallback(url);
+
+    const body = await req.json();
+    if (body.action === 'create_order') return json(await createOrder(req, body));
+    if (body.action === 'refund') return json(await refund(req, body));
+    if (body.action === 'refund_status') return json(await refundStatus(req, body));
+    if (body.action === 'sync_pending') return json(await syncPending(req));
+    throw new HttpError(400, 'Unknown action.');
+  } catch (err) {
+    console.error(err);
+    return json({ error: err instanceof Error ? err.message : 'Payment gateway request failed.' }, err instanceof HttpError ? err.status : 502);
+  }
+});
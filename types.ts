@@ -12,6 +12,7 @@ export type CarStatus = 'draft' | 'published' | 'active' | 'maintenance';
 export type BookingStatus = 'pending_payment' | 'hold' | 'confirmed' | 'cancelled' | 'completed';
 export type FuelType = 'Petrol' | 'Diesel' | 'Electric' | 'Hybrid';
 export type GearType = 'Manual' | 'Automatic';
+export type CarCategory = 'hatchback' | 'sedan' | 'suv' | 'muv' | 'luxury';
 
 export interface Testimonial {
   name: string;
@@ -41,6 +42,12 @@ export interface CarBase {
   fuelType: FuelType;
   transmission: GearType;
   pricePerDay: number;
+  category: CarCategory;
+  turnaroundMinutes: number | null; // Overrides the category's turnaround buffer; null uses the category's.
+  kmPerDayAllowance: number | null; // Overrides the category's mileage allowance; null uses the category's.
+  excessKmRate: number | null; // Overrides the category's rate per km over the allowance; null uses the category's.
+  depositAmount: number | null; // Overrides the category's security deposit; null uses the category's.
+  branchId: string; // The branch the car is picked up from.
   verified: boolean;
   status: CarStatus;
 }
@@ -50,10 +57,96 @@ export interface Car extends CarBase {
   images?: string[]; // Made optional as components will generate URLs from imagePaths
   imagePaths: string[];
   available: boolean;
+  usageTerms?: UsageTerms; // The allowance, fuel policy and deposit the car is rented on, resolved by the server.
 }
 
 export type CarFormData = CarBase;
 
+// A site cars are picked up from and returned to. Opening hours are "HH:MM" in the branch's own timezone.
+export interface Branch {
+  id: string;
+  name: string;
+  address: string;
+  city: string | null;
+  stateCode: string; // GST state code; the place of supply for rentals picked up here.
+  phone: string | null;
+  timezone: string;
+  opensAt: string;
+  closesAt: string;
+  active: boolean;
+}
+
+export type BranchFormData = Omit<Branch, 'id'>;
+
+// A distance band around a branch with a flat fee for bringing a car to, or fetching it from, an address inside it.
+export interface DeliveryZone {
+  id: string;
+  branchId: string;
+  name: string;
+  maxDistanceKm: number;
+  fee: number;
+  active: boolean;
+}
+
+export type DeliveryZoneFormData = Omit<DeliveryZone, 'id'>;
+
+// One stop on a day's delivery run sheet: a car taken to the customer at pickup, or fetched back at return.
+export interface DeliveryRun {
+  bookingId: string;
+  kind: 'delivery' | 'collection';
+  at: string;
+  address: string;
+  zoneName: string | null;
+  maxDistanceKm: number | null;
+  branchName: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  carTitle: string | null;
+  status: BookingStatus;
+  done: boolean;
+}
+
+// The time a category of cars needs between rentals for cleaning, refuelling and inspection.
+export interface TurnaroundBuffer {
+  category: CarCategory;
+  turnaround_minutes: number;
+  updated_at: string;
+}
+
+export type FuelPolicy = 'full_to_full' | 'included';
+
+// How far a category of cars may be driven per rental day, how it must come back fuelled and the deposit it takes.
+export interface UsagePolicy {
+  category: CarCategory;
+  km_per_day: number | null; // Null for unlimited
+  excess_km_rate: number;
+  fuel_policy: FuelPolicy;
+  refuel_rate_per_percent: number; // Per percentage point of fuel or charge missing at return
+  refuel_service_fee: number;
+  deposit_amount: number; // Refundable security deposit collected with the booking payment
+  updated_at: string;
+}
+
+// The mileage allowance, fuel policy and security deposit a car is rented on, as returned by usage_terms. Bookings
+// keep a copy.
+export interface UsageTerms {
+  kmPerDay: number | null;
+  excessKmRate: number;
+  fuelPolicy: FuelPolicy;
+  refuelRatePerPercent: number;
+  refuelServiceFee: number;
+  depositAmount?: number; // Missing from bookings made before security deposits.
+}
+
+// Whether a car is free for a rental, as returned by check_car_availability.
+export interface CarAvailability {
+  available: boolean;
+  reason: 'booked' | 'turnaround' | null; // 'turnaround' when only the buffer between rentals is in the way
+  turnaroundMinutes: number;
+  availableFrom: string | null; // Earliest possible pickup, when the previous rental's buffer is in the way
+  availableUntil: string | null; // Latest possible return, when the next rental's buffer is in the way
+}
+
 export type ImageState = 
     | { type: 'existing'; path: string; url: string; }
     | { type: 'new'; file: File; url: string; };
@@ -92,12 +185,160 @@ export interface BookingDetail {
   end_datetime: string;
   total_amount: number;
   status: BookingStatus;
-  payment_mode: 'full' | 'hold' | null;
+  payment_mode: 'full' | 'hold';
   hold_expires_at?: string | null;
   booking_extensions?: BookingExtension[];
   cars?: Car;
   promo_code_id: string | null;
   discount_amount: number | null;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+  refund_amount?: number | null;
+  refunds?: Refund[];
+  // Paid towards total_amount so far (the advance for a hold); excludes extension payments.
+  amount_paid?: number;
+  // Starts at 1 and goes up with every modification of the booking's car or dates.
+  version?: number;
+  pickup_branch_name?: string | null;
+  return_branch_name?: string | null;
+  delivery_address?: string | null;
+  collection_address?: string | null;
+  // Null for bookings made before usage policies existed.
+  usage_terms?: UsageTerms | null;
+  inspections?: BookingInspectionSummary[];
+  charges?: BookingCharge[];
+  deposit?: BookingDeposit | null;
+  // The fields below are only loaded for the admin operations console (search_bookings).
+  customer_email?: string | null;
+  payment_expires_at?: string | null;
+  picked_up_at?: string | null;
+  returned_at?: string | null;
+  note_count?: number;
+}
+
+// Filters for the admin operations console. Every filter is optional; from/to keep bookings overlapping the range.
+export interface BookingSearchFilters {
+  status?: BookingStatus | '';
+  carId?: string;
+  userId?: string;
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+// One entry in a booking's timeline (get_booking_timeline), merged from its status history, payments, extensions,
+// refunds, modifications and admin actions.
+export interface BookingTimelineEvent {
+  at: string;
+  kind: 'status' | 'payment' | 'extension' | 'refund' | 'modification' | 'admin';
+  title: string;
+  detail: string | null;
+  amount: number | null;
+  status: string | null;
+  actor: string | null;
+}
+
+// A period when a car is out of service and cannot be rented (car_maintenance_blocks).
+export interface MaintenanceBlock {
+  id: string;
+  car_id: string;
+  starts_at: string;
+  ends_at: string;
+  reason: string;
+}
+
+// The admin fleet calendar over a period, as returned by get_fleet_calendar. turnaround_minutes is each car's
+// effective buffer between rentals; bookings of every status are included.
+export interface FleetCalendarData {
+  cars: { id: string; title: string; status: CarStatus; turnaround_minutes: number }[];
+  bookings: (Pick<
+    BookingDetail,
+    'id' | 'car_id' | 'customer_name' | 'start_datetime' | 'end_datetime' | 'status' | 'hold_expires_at' | 'payment_expires_at' | 'picked_up_at' | 'returned_at'
+  > & { booking_extensions: Pick<BookingExtension, 'id' | 'added_hours' | 'requested_end' | 'payment_status'>[] })[];
+  blocks: MaintenanceBlock[];
+}
+
+// One change of a booking's car or dates (booking_modifications), with the booking before and after it.
+// version is the booking version the change produced; null until it is applied.
+export interface BookingModification {
+  id: string;
+  booking_id: string;
+  version: number | null;
+  status: 'pending' | 'applied' | 'cancelled';
+  previous_car_id: string;
+  previous_start_datetime: string;
+  previous_end_datetime: string;
+  previous_total_amount: number;
+  new_car_id: string;
+  new_start_datetime: string;
+  new_end_datetime: string;
+  new_total_amount: number;
+  price_difference: number;
+  credit_applied: number;
+  settlement: 'none' | 'payment' | 'refund' | 'credit';
+  reason: string | null;
+  created_at: string;
+  applied_at: string | null;
+}
+
+// The quote for modifying a booking (preview_booking_modification). amountDue is left to pay after account credit;
+// refundAmount is what a lower price gives back as a refund or credit.
+export interface ModificationPreview {
+  bookingId: string;
+  version: number;
+  availability: CarAvailability;
+  price: BookingPriceDetails;
+  currentTotal: number;
+  newTotal: number;
+  priceDifference: number;
+  creditBalance: number;
+  creditApplied: number;
+  amountDue: number;
+  refundAmount: number;
+}
+
+// One entry in a booking's status audit log (booking_status_history). from_status is null for the booking's creation.
+export interface BookingStatusChange {
+  id: string;
+  booking_id: string;
+  from_status: BookingStatus | null;
+  to_status: BookingStatus;
+  changed_by: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+// A pending_payment booking cancelled by expire_pending_payments because checkout was never completed.
+export interface AbandonedCheckout {
+  booking_id: string;
+  user_id: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  car_title: string | null;
+  start_datetime: string;
+  end_datetime: string;
+  total_amount: number;
+  promo_code: string | null;
+  created_at: string;
+  abandoned_at: string;
+  followed_up_at: string | null;
+}
+
+// Cancellation
+export interface CancellationPolicyTier {
+  id: string;
+  min_hours_before_pickup: number;
+  refund_percent: number;
+}
+
+export interface CancellationPreview {
+  bookingId: string;
+  hoursBeforePickup: number;
+  paidAmount: number;
+  refundPercent: number;
+  refundAmount: number;
+  depositAmount: number; // Security deposit returned in full on top of the refund
 }
 
 // License Verification
@@ -141,16 +382,236 @@ export interface PromoValidationResult {
 }
 
 // Payments
+// Ids of the gateway adapters in lib/gateways; payments.method stores one of these.
+export type PaymentMethod = 'mock' | 'paytm' | 'razorpay' | 'card';
+
+export interface PaymentGatewayConfig {
+    id: PaymentMethod;
+    display_name: string;
+    enabled: boolean;
+    test_mode: boolean;
+    sort_order: number;
+    public_config: Record<string, any>;
+}
+
 export interface Payment {
     id: string;
     booking_id: string;
     user_id: string;
+    extension_id: string | null;
+    payment_type: 'booking' | 'balance' | 'extension' | 'modification';
     amount: number;
+    deposit_amount: number; // Security deposit included in amount
     currency: 'INR';
-    method: 'paytm' | 'card'; // Can be extended
-    status: 'pending' | 'success' | 'failed';
+    method: PaymentMethod;
+    status: 'pending' | 'success' | 'failed' | 'cancelled';
     gateway_txn_id: string | null;
+    gateway_order_id: string | null;
     metadata: Record<string, any> | null;
+    refunded_amount: number;
+    created_at: string;
+}
+
+// A payment as listed in the customer's payment history, with the booking it belongs to.
+export interface PaymentHistoryItem extends Payment {
+    car_id: string;
+    car_title: string | null;
+    booking_status: BookingStatus;
+    booking_start: string;
+    booking_end: string;
+    // Hours added by the extension this payment was for, if any.
+    extension_hours: number | null;
+    // Whether the booking still accepts a new attempt for this failed payment.
+    retryable: boolean;
+}
+
+// Reconciliation
+// Settlement statuses as normalised by the settlement file parsers; 'unknown' marks a status the parser did not recognise.
+export type SettlementStatus = 'success' | 'failed' | 'pending' | 'refunded' | 'unknown';
+
+// One transaction from a gateway settlement file.
+export interface SettlementRow {
+    rowNumber: number; // Record in the file, counting the header as record 1.
+    txnId: string | null;
+    orderId: string | null;
+    amount: number | null;
+    status: SettlementStatus;
+    txnDate: string | null;
+}
+
+export type ReconciliationOutcome = 'matched' | 'duplicate' | 'missing_payment' | 'missing_in_settlement' | 'amount_mismatch' | 'status_mismatch';
+
+export interface ReconciliationResult {
+    row_number: number | null;
+    gateway_txn_id: string | null;
+    gateway_order_id: string | null;
+    settled_amount: number | null;
+    settled_status: SettlementStatus | null;
+    payment_id: string | null;
+    booking_id: string | null;
+    payment_amount: number | null;
+    payment_status: Payment['status'] | null;
+    refunded_amount: number | null;
+    result: ReconciliationOutcome;
+}
+
+// Why verify_and_update_payment rejected a gateway callback.
+export type PaymentCallbackRejection = 'missing_signature' | 'invalid_signature' | 'order_mismatch' | 'amount_mismatch' | 'replayed';
+
+export interface PaymentVerificationResult {
+    accepted: boolean;
+    reason: PaymentCallbackRejection | null;
+    // The payment's status on the server after the callback, which is what the UI shows.
+    paymentStatus: Payment['status'];
+    // The payment was confirmed after it had expired, so it is being refunded instead of applied.
+    refundPending: boolean;
+}
+
+// Scheduled jobs
+export type JobRunStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface JobRun {
+  id: string;
+  job_name: string;
+  status: JobRunStatus;
+  processed_count: number | null;
+  error: string | null;
+  // Null for scheduled runs; the admin who ran the job otherwise.
+  triggered_by: string | null;
+  started_at: string;
+  finished_at: string;
+}
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  function_name: string;
+  interval_minutes: number;
+  enabled: boolean;
+  next_run_at: string;
+  last_run: JobRun | null;
+}
+
+// Notifications
+export interface AppNotification {
+    id: string;
+    booking_id: string | null;
+    type: string;
+    title: string;
+    message: string;
+    read_at: string | null;
+    created_at: string;
+}
+
+// Refunds
+export type RefundStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+export type RefundReason = 'customer_cancellation' | 'service_issue' | 'duplicate_payment' | 'pricing_error' | 'goodwill' | 'other' | 'booking_modification' | 'deposit_release' | 'late_payment';
+
+// Vehicle inspections
+export type InspectionKind = 'pickup' | 'return';
+export type DamageType = 'scratch' | 'dent' | 'crack' | 'chip' | 'missing';
+
+// A mark on the car diagram. area is one of the diagram's zones (see CAR_DIAGRAM_AREAS).
+export interface DamageMark {
+  area: string;
+  type: DamageType;
+  note?: string;
+}
+
+// The condition report staff fill in when the car is handed over (pickup) and taken back (return).
+export interface VehicleInspection {
+  id: string;
+  bookingId: string;
+  kind: InspectionKind;
+  odometerKm: number;
+  energyLevelPercent: number; // Fuel, or battery charge for electric cars.
+  damages: DamageMark[];
+  photoPaths: string[];
+  photoUrls: string[]; // Short-lived signed URLs, in the same order as photoPaths.
+  notes: string | null;
+  inspectedAt: string;
+  acknowledgedAt: string | null;
+}
+
+export interface InspectionFormData {
+  odometerKm: number;
+  energyLevelPercent: number;
+  damages: DamageMark[];
+  photoPaths: string[];
+  notes: string;
+}
+
+export interface BookingInspectionSummary {
+  id: string;
+  kind: InspectionKind;
+  acknowledged_at: string | null;
+}
+
+export type BookingChargeKind = 'damage' | 'fine' | 'settlement';
+export type BookingChargeStatus = 'due' | 'paid' | 'waived';
+
+// An amount owed after the rental, paid by the customer through the gateway or out of the security deposit, unless an
+// admin waives it.
+export interface BookingCharge {
+  id: string;
+  kind: BookingChargeKind;
+  description: string;
+  amount: number;
+  status: BookingChargeStatus;
+  line_items?: InvoiceLineItem[] | null; // Itemizes a settlement: excess km and refuelling
+  created_at: string;
+}
+
+export type BookingDepositStatus = 'collected' | 'held' | 'partially_released' | 'released' | 'retained';
+
+// A charge paid out of a security deposit at settlement.
+export interface DepositDeduction {
+  chargeId: string;
+  kind: BookingChargeKind;
+  description: string;
+  amount: number;
+}
+
+// The refundable security deposit of a booking (booking_deposits): collected with the booking payment, held while
+// the customer has the car, then released in full or in part once deductions are settled.
+export interface BookingDeposit {
+  id: string;
+  amount: number;
+  status: BookingDepositStatus;
+  retained_amount: number;
+  released_amount: number;
+  deductions: DepositDeduction[];
+  settled_at: string | null;
+}
+
+// A deposit as listed on the admin settlement screen (get_booking_deposits), with its booking and charges.
+export interface DepositSettlementItem extends BookingDeposit {
+  booking_id: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  car_title: string | null;
+  start_datetime: string;
+  end_datetime: string;
+  booking_status: BookingStatus;
+  returned_at: string | null;
+  settlement_note: string | null;
+  refund_id: string | null;
+  refund_status: RefundStatus | null;
+  charges: BookingCharge[];
+}
+
+export interface Refund {
+    id: string;
+    payment_id: string;
+    booking_id?: string;
+    amount: number;
+    currency?: 'INR';
+    reason: RefundReason;
+    notes?: string | null;
+    status: RefundStatus;
+    gateway_refund_id?: string | null;
+    failure_reason?: string | null;
+    processed_at: string | null;
     created_at: string;
 }
 
@@ -164,8 +625,18 @@ export interface DatesData {
   pickupTime: string;
   returnDate: string;
   returnTime: string;
+  // Unset means the car's own branch; a return branch other than the pickup branch makes the rental one-way.
+  pickupBranchId?: string;
+  returnBranchId?: string;
+  // Doorstep service: a zone around the pickup (delivery) or return (collection) branch, and the address in it.
+  deliveryZoneId?: string;
+  deliveryAddress?: string;
+  collectionZoneId?: string;
+  collectionAddress?: string;
 }
 
+export type DoorstepData = Pick<DatesData, 'deliveryZoneId' | 'deliveryAddress' | 'collectionZoneId' | 'collectionAddress'>;
+
 export interface LicenseData {
   file?: File;
   previewUrl?: string;
@@ -183,6 +654,95 @@ export interface ExtrasData {
   advancePaymentOptionSelected: boolean;
 }
 
+// Pricing
+export type PricingRuleType = 'weekend' | 'date_range' | 'duration_tier' | 'car_category';
+
+export interface PricingSettings {
+  billing_unit_hours: number;
+  service_charge_percent: number;
+  advance_percent: number;
+  timezone: string;
+  one_way_fee: number;
+  updated_at: string;
+}
+
+export interface PricingRule {
+  id: string;
+  name: string;
+  rule_type: PricingRuleType;
+  adjustment_percent: number; // Positive for surcharges, negative for discounts
+  days_of_week: number[] | null; // 0 = Sunday, used by 'weekend'
+  start_date: string | null; // Used by 'date_range'
+  end_date: string | null;
+  min_days: number | null; // Used by 'duration_tier'
+  car_category: CarCategory | null; // Required for 'car_category', optional scope for other types
+  priority: number;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A pricing rule that was applied to a specific price, as returned by the server evaluator.
+export interface PriceLineItem {
+  ruleId: string;
+  name: string;
+  ruleType: PricingRuleType;
+  amount: number;
+}
+
+// GST breakdown for a single taxable supply, as returned by the server.
+export interface TaxBreakdown {
+  placeOfSupply: string; // GST state code
+  placeOfSupplyName: string;
+  sacCode: string;
+  taxableAmount: number;
+  cgstPercent: number;
+  cgstAmount: number;
+  sgstPercent: number;
+  sgstAmount: number;
+  igstPercent: number;
+  igstAmount: number;
+  taxAmount: number;
+}
+
+export interface BookingPriceDetails {
+    billingDays: number;
+    baseRentalPrice: number;
+    appliedRules: PriceLineItem[];
+    selectedExtrasPrice: number;
+    oneWayFee?: number; // Missing from extension prices and quotes from before branches.
+    deliveryFee?: number; // Missing from quotes from before doorstep delivery.
+    collectionFee?: number;
+    subtotal: number;
+    discountAmount: number;
+    totalAfterDiscount: number;
+    serviceChargePercent: number;
+    serviceCharge: number;
+    tax: TaxBreakdown;
+    totalAmount: number;
+    advancePercent: number;
+    advanceAmount: number;
+    depositAmount?: number; // Refundable security deposit paid with the booking; missing from quotes from before deposits.
+}
+
+// A server-computed price for a specific car, period, extras and promo. Bookings can only be created from one.
+export interface BookingQuote {
+  id: string;
+  carId: string;
+  startDatetime: string;
+  endDatetime: string;
+  extras: string[];
+  promoCodeId: string | null;
+  pickupBranchId: string;
+  returnBranchId: string;
+  deliveryZoneId: string | null;
+  deliveryAddress: string | null;
+  collectionZoneId: string | null;
+  collectionAddress: string | null;
+  price: BookingPriceDetails;
+  expiresAt: string;
+}
+
 export interface PaymentData {
   paymentMode: 'full' | 'hold';
   paymentId?: string;
@@ -201,9 +761,63 @@ export interface BookingDraft {
   // Promo code fields
   promoCodeInput?: string; // User's raw input
   appliedPromo?: ValidatedPromo | null; // Validated promo details
+  quote?: BookingQuote | null; // Latest server quote for the current selections
 }
 
 export interface BookingStep {
     title: string;
     component: React.FC<any>; // Using any for generic step props
-}
\ No newline at end of file
+}
+
+// Tax & Invoices
+export interface TaxSettings {
+  legal_name: string;
+  gstin: string | null;
+  address: string | null;
+  state_code: string;
+  default_pickup_state_code: string;
+  sac_code: string;
+  invoice_prefix: string;
+  updated_at: string;
+}
+
+export interface GstStateRate {
+  state_code: string;
+  state_name: string;
+  cgst_percent: number;
+  sgst_percent: number;
+  igst_percent: number;
+  sac_code: string | null;
+  updated_at: string;
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  financial_year: string;
+  booking_id: string | null;
+  extension_id: string | null; // Set for invoices issued for a booking extension
+  charge_id: string | null; // Set for invoices issued for a post-rental settlement
+  user_id: string | null;
+  issued_at: string;
+  supplier: { legalName: string; gstin: string | null; address: string | null; stateCode: string; stateName: string | null };
+  customer: { name: string | null; email: string | null; phone: string | null; gstin: string | null };
+  place_of_supply: string;
+  place_of_supply_name: string;
+  sac_code: string;
+  line_items: InvoiceLineItem[];
+  taxable_amount: number;
+  cgst_percent: number;
+  cgst_amount: number;
+  sgst_percent: number;
+  sgst_amount: number;
+  igst_percent: number;
+  igst_amount: number;
+  total_tax: number;
+  total_amount: number;
+}